@@ -18,8 +18,14 @@ import {NgModule} from '@angular/core';
 import {RouterModule, Routes, UrlMatchResult, UrlSegment} from '@angular/router';
 
 import {AllPushesComponent} from './pages/all-pushes/all-pushes.component';
+import {COMPARE_PATH_PREFIX} from './pages/compare/compare-utils';
+import {CompareComponent} from './pages/compare/compare.component';
+import {DashboardComponent} from './pages/dashboard/dashboard.component';
+import {FolderComponent} from './pages/folder/folder.component';
 import {MyPushesComponent} from './pages/my-pushes/my-pushes.component';
 import {OnePushComponent} from './pages/one-push/one-push.component';
+import {DASHBOARD_PATH} from './services/push-def-catalog.service';
+import {FOLDER_PATH_PREFIX} from './services/push-def-tree';
 
 /**
  * Matcher for the URLs for individual pushes.
@@ -34,16 +40,57 @@ export function onePushMatcher(segments: UrlSegment[]): UrlMatchResult {
   return {consumed: segments};
 }
 
+/**
+ * Matcher for the URLs of the folders of the push def tree. A push def whose
+ * name starts with the folder prefix can't be browsed directly, so the catalog
+ * skips it.
+ *
+ * Example: /folder/test/razvanm
+ */
+export function folderMatcher(segments: UrlSegment[]): UrlMatchResult {
+  const noMatch = {consumed: []};
+  if (segments.length < 2 || segments[0].path !== FOLDER_PATH_PREFIX) {
+    return noMatch;
+  }
+  return {consumed: segments};
+}
+
+/**
+ * Matcher for the URLs of the comparison pages. The pushes to compare are in
+ * the query params.
+ *
+ * Example: /compare/test/razvanm/helloworld?push=20180503-163004.520847
+ */
+export function compareMatcher(segments: UrlSegment[]): UrlMatchResult {
+  const noMatch = {consumed: []};
+  if (segments.length < 2 || segments[0].path !== COMPARE_PATH_PREFIX) {
+    return noMatch;
+  }
+  return {consumed: segments};
+}
+
 const routes: Routes = [
   {
     path: '',
     component: MyPushesComponent,
     pathMatch: 'full',
   },
+  {
+    path: DASHBOARD_PATH,
+    component: DashboardComponent,
+  },
   {
     component: OnePushComponent,
     matcher: onePushMatcher,
   },
+  {
+    component: CompareComponent,
+    matcher: compareMatcher,
+  },
+  {
+    component: FolderComponent,
+    matcher: folderMatcher,
+  },
   {
     path: '**',
     component: AllPushesComponent,
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import {ScrollingModule} from '@angular/cdk/scrolling';
 import {HttpClientModule} from '@angular/common/http';
 import {NgModule} from '@angular/core';
 import {FormsModule} from '@angular/forms';
@@ -23,30 +24,76 @@ import {BrowserAnimationsModule} from '@angular/platform-browser/animations';
 
 import {AppRoutingModule} from './app-routing.module';
 import {AppComponent} from './app.component';
+import {AnomalySettingsComponent} from './components/anomaly-settings/anomaly-settings.component';
 import {BarChartComponent} from './components/bar-chart/bar-chart.component';
 import {ButtonRowComponent} from './components/button-row/button-row.component';
 import {ButtonComponent} from './components/button/button.component';
+import {BoxplotsComponent} from './components/boxplots/boxplots.component';
+import {CDFOverlayComponent} from './components/cdf-overlay/cdf-overlay.component';
 import {CDFComponent} from './components/cdf/cdf.component';
+import {ChartDataTableComponent} from './components/chart-data-table/chart-data-table.component';
+import {ConcurrencyComponent} from './components/concurrency/concurrency.component';
+import {EtaBannerComponent} from './components/eta-banner/eta-banner.component';
+import {ExportMenuComponent} from './components/export-menu/export-menu.component';
+import {FilterBarComponent} from './components/filter-bar/filter-bar.component';
+import {GanttComponent} from './components/gantt/gantt.component';
+import {ImportComponent} from './components/import/import.component';
+import {LoadingIndicatorComponent} from './components/loading-indicator/loading-indicator.component';
 import {PageNameComponent} from './components/page-name/page-name.component';
+import {PushDefTreeComponent} from './components/push-def-tree/push-def-tree.component';
+import {PushSelectionComponent} from './components/push-selection/push-selection.component';
+import {PushTableComponent} from './components/push-table/push-table.component';
+import {StageComparisonComponent} from './components/stage-comparison/stage-comparison.component';
+import {StageDurationsComponent} from './components/stage-durations/stage-durations.component';
+import {StateLegendComponent} from './components/state-legend/state-legend.component';
 import {TimelineComponent} from './components/timeline/timeline.component';
+import {TrendComponent} from './components/trend/trend.component';
 import {AllPushesComponent} from './pages/all-pushes/all-pushes.component';
+import {CompareComponent} from './pages/compare/compare.component';
+import {DashboardComponent} from './pages/dashboard/dashboard.component';
+import {FolderComponent} from './pages/folder/folder.component';
 import {MyPushesComponent} from './pages/my-pushes/my-pushes.component';
 import {OnePushComponent} from './pages/one-push/one-push.component';
 import {DateNsecPipe} from './pipes/date-nsec.pipe';
+import {DurationNsecPipe} from './pipes/duration-nsec.pipe';
+import {StateLabelPipe} from './pipes/state-label.pipe';
 
 @NgModule({
   declarations: [
     AllPushesComponent,
+    AnomalySettingsComponent,
     AppComponent,
     BarChartComponent,
+    BoxplotsComponent,
     ButtonComponent,
     ButtonRowComponent,
     CDFComponent,
+    CDFOverlayComponent,
+    ChartDataTableComponent,
+    CompareComponent,
+    ConcurrencyComponent,
+    DashboardComponent,
     DateNsecPipe,
+    DurationNsecPipe,
+    EtaBannerComponent,
+    ExportMenuComponent,
+    FilterBarComponent,
+    FolderComponent,
+    GanttComponent,
+    ImportComponent,
+    LoadingIndicatorComponent,
     MyPushesComponent,
     OnePushComponent,
     PageNameComponent,
+    PushDefTreeComponent,
+    PushSelectionComponent,
+    PushTableComponent,
+    StageComparisonComponent,
+    StageDurationsComponent,
+    StateLabelPipe,
+    StateLegendComponent,
     TimelineComponent,
+    TrendComponent,
   ],
   imports: [
     AppRoutingModule,
@@ -55,6 +102,7 @@ import {DateNsecPipe} from './pipes/date-nsec.pipe';
     FormsModule,
     HttpClientModule,
     MatSlideToggleModule,
+    ScrollingModule,
   ],
   providers: [],
   bootstrap: [AppComponent]
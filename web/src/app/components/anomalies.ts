@@ -0,0 +1,221 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {findDuration, formatDuration} from './duration-utils';
+import {summarizeStages} from './stage-utils';
+import {isTerminalState} from './states';
+
+/**
+ * Kind of an anomaly: a push that took much longer than usual, a push with
+ * more attempts than usual, or a stage of a push that took much longer than
+ * usual.
+ */
+export type AnomalyKind = 'slow'|'attempts'|'slow-stage';
+
+/**
+ * Anomaly describes one way in which a push is an outlier of its push def.
+ */
+export interface Anomaly {
+  kind: AnomalyKind;    // What is unusual about the push
+  stage: string;        // Stage of 'slow-stage' anomalies, '' otherwise
+  description: string;  // Human-readable explanation, for tooltips
+}
+
+/**
+ * AnomalyOptions sets how the threshold above which a value is an outlier is
+ * computed from the values of all the pushes of a push def.
+ */
+export interface AnomalyOptions {
+  method: 'percentile'|'mad';  // Outliers are above a percentile or N MADs
+  percentile: number;          // Percentile of the 'percentile' method
+  mads: number;                // Median absolute deviations of 'mad' method
+}
+
+/**
+ * Anomalies of the pushes of a push def, by push handle. Pushes without
+ * anomalies are left out.
+ */
+export type PushAnomalies = Map<string, Anomaly[]>;
+
+export const DEFAULT_ANOMALY_OPTIONS:
+    AnomalyOptions = {method: 'mad', percentile: 95, mads: 3};
+
+/**
+ * Short names of the kinds of anomalies, for badges.
+ */
+export const ANOMALY_LABELS: {[kind in AnomalyKind]: string} = {
+  slow: 'Slow',
+  attempts: 'Retried',
+  'slow-stage': 'Slow stage',
+};
+
+// Minimum number of values needed to tell outliers apart.
+const MIN_SAMPLES = 5;
+
+// A stage is only flagged if it also took this many times its median
+// duration, since many stages take about the same time in every push.
+const SLOW_STAGE_RATIO = 2;
+
+/**
+ * Computes the value above which values are outliers. With the 'mad' method,
+ * values that are the same for most pushes (i.e. their MAD is 0) make any
+ * larger value an outlier.
+ *
+ * @param values Values of the pushes, e.g. durations
+ * @param options How the threshold is computed
+ * @return the threshold, or Infinity if there are too few values
+ */
+export function outlierThreshold(
+    values: number[], options: AnomalyOptions): number {
+  if (values.length < MIN_SAMPLES) {
+    return Infinity;
+  }
+  const sorted = Array.from(values).sort(d3.ascending);
+  if (options.method === 'percentile') {
+    return d3.quantile(sorted, options.percentile / 100) || 0;
+  }
+  const median = d3.quantile(sorted, 0.5) || 0;
+  const deviations =
+      sorted.map(value => Math.abs(value - median)).sort(d3.ascending);
+  const mad = d3.quantile(deviations, 0.5) || 0;
+  return median + options.mads * mad;
+}
+
+// Adds an anomaly to the ones of a push.
+function addAnomaly(
+    anomalies: PushAnomalies, pushHandle: string, anomaly: Anomaly): void {
+  const pushAnomalies = anomalies.get(pushHandle);
+  if (pushAnomalies) {
+    pushAnomalies.push(anomaly);
+  } else {
+    anomalies.set(pushHandle, [anomaly]);
+  }
+}
+
+/**
+ * Finds the pushes of a push def that are outliers: the ones that took longer
+ * than the threshold of the durations of the finished pushes, the ones with
+ * more attempts of a stage than the threshold of the attempts of all pushes,
+ * and the ones with a stage that took longer than the threshold of the
+ * durations of that stage and than twice their median.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ * @param options How the thresholds are computed
+ */
+export function detectAnomalies(
+    pushInfos: step189_2020.IPushInfo[],
+    options = DEFAULT_ANOMALY_OPTIONS): PushAnomalies {
+  const durations = new Map<string, number>();
+  const finishedDurations: number[] = [];
+  const attempts = new Map<string, number>();
+  const stageDurations = new Map<string, Map<string, number>>();
+  pushInfos.forEach(pushInfo => {
+    const pushHandle = pushInfo.pushHandle;
+    const states = pushInfo.stateInfo;
+    if (!pushHandle || !states || !states.length) {
+      return;
+    }
+    const startEnd = findDuration(pushInfo);
+    if (startEnd) {
+      const duration = +startEnd.endNsec - +startEnd.startNsec;
+      durations.set(pushHandle, duration);
+      if (isTerminalState(states[states.length - 1].state || 0)) {
+        finishedDurations.push(duration);
+      }
+    }
+    const summaries = summarizeStages(pushInfo);
+    attempts.set(
+        pushHandle, Math.max(0, ...summaries.map(summary => summary.attempts)));
+    summaries.forEach(summary => {
+      let byPush = stageDurations.get(summary.stage);
+      if (!byPush) {
+        byPush = new Map();
+        stageDurations.set(summary.stage, byPush);
+      }
+      byPush.set(pushHandle, summary.durationNsec);
+    });
+  });
+
+  const anomalies: PushAnomalies = new Map();
+  const slowThreshold = outlierThreshold(finishedDurations, options);
+  const usualDuration = d3.median(finishedDurations) || 0;
+  durations.forEach((duration, pushHandle) => {
+    if (duration > slowThreshold) {
+      addAnomaly(anomalies, pushHandle, {
+        kind: 'slow',
+        stage: '',
+        description: `Took ${formatDuration(duration)}, usually ${
+            formatDuration(usualDuration)}`,
+      });
+    }
+  });
+
+  const attemptThreshold =
+      outlierThreshold(Array.from(attempts.values()), options);
+  attempts.forEach((count, pushHandle) => {
+    if (count > 1 && count > attemptThreshold) {
+      addAnomaly(anomalies, pushHandle, {
+        kind: 'attempts',
+        stage: '',
+        description: `Ran a stage ${count} times`,
+      });
+    }
+  });
+
+  stageDurations.forEach((byPush, stage) => {
+    const values = Array.from(byPush.values());
+    const threshold = outlierThreshold(values, options);
+    const usualStageDuration = d3.median(values) || 0;
+    byPush.forEach((duration, pushHandle) => {
+      if (duration > threshold &&
+          duration > SLOW_STAGE_RATIO * usualStageDuration) {
+        addAnomaly(anomalies, pushHandle, {
+          kind: 'slow-stage',
+          stage,
+          description: `Stage ${stage} took ${formatDuration(duration)}, ` +
+              `usually ${formatDuration(usualStageDuration)}`,
+        });
+      }
+    });
+  });
+  return anomalies;
+}
+
+/**
+ * Returns the distinct kinds of the anomalies of a push, for its badges.
+ *
+ * @param anomalies Anomalies of a push
+ */
+export function anomalyKinds(anomalies: Anomaly[]): AnomalyKind[] {
+  return Array.from(new Set(anomalies.map(anomaly => anomaly.kind)));
+}
+
+/**
+ * Formats the anomalies of a push as lines to append to a chart tooltip.
+ *
+ * @param anomalies Anomalies of a push, if it has any
+ */
+export function anomalyTooltipHtml(anomalies: Anomaly[]|undefined): string {
+  if (!anomalies) {
+    return '';
+  }
+  return anomalies.map(anomaly => `<br/>&#9888; ${anomaly.description}`)
+      .join('');
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+import {take} from 'rxjs/operators';
+
+import {AnomalySettingsService} from '../../services/anomaly-settings.service';
+import {AnomalyOptions, DEFAULT_ANOMALY_OPTIONS} from '../anomalies';
+
+/**
+ * Sets how unusual a push has to be to be flagged as an anomaly.
+ */
+@Component({
+  selector: 'app-anomaly-settings',
+  templateUrl: './anomaly-settings.component.html',
+  styleUrls: ['./anomaly-settings.component.scss']
+})
+export class AnomalySettingsComponent {
+  // Copy of the options, edited by the form.
+  draft: AnomalyOptions = {...DEFAULT_ANOMALY_OPTIONS};
+
+  constructor(private readonly settings: AnomalySettingsService) {
+    this.settings.options.pipe(take(1)).subscribe(
+        options => this.draft = {...options});
+  }
+
+  /**
+   * Applies the options of the form, unless a number is being typed.
+   */
+  apply(): void {
+    if (typeof this.draft.percentile !== 'number' ||
+        typeof this.draft.mads !== 'number') {
+      return;
+    }
+    this.settings.setOptions({...this.draft});
+  }
+}
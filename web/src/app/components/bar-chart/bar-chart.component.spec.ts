@@ -14,16 +14,39 @@
  * limitations under the License.
  */
 
-import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+
+import {Component} from '@angular/core';
+import {async, ComponentFixture, fakeAsync, flush, TestBed, tick} from '@angular/core/testing';
+
+import {accessibilityViolations} from '../../../testing/accessibility';
+import {FakeResizeObserver, installFakeResizeObserver} from '../../../testing/resize-observer';
+import {samplePushInfos} from '../../../testing/sample-pushes';
+import {ChartDataTableComponent} from '../chart-data-table/chart-data-table.component';
+import {FocusRange} from '../chart-state';
 
 import {BarChartComponent} from './bar-chart.component';
 
+@Component({
+  template: `
+      <app-bar-chart [pushInfos]='pushInfos' [focusRange]='focusRange'>
+      </app-bar-chart>`,
+})
+class BarChartHostComponent {
+  pushInfos = samplePushInfos(3);
+  focusRange: FocusRange|null = null;
+}
+
 describe('BarChartComponent', () => {
   let component: BarChartComponent;
   let fixture: ComponentFixture<BarChartComponent>;
 
   beforeEach(async(() => {
-    TestBed.configureTestingModule({declarations: [BarChartComponent]})
+    TestBed
+        .configureTestingModule({
+          declarations: [
+            BarChartComponent, ChartDataTableComponent, BarChartHostComponent
+          ]
+        })
         .compileComponents();
   }));
 
@@ -36,4 +59,60 @@ describe('BarChartComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  describe('with pushes', () => {
+    let hostFixture: ComponentFixture<BarChartHostComponent>;
+    let host: HTMLElement;
+
+    beforeEach(() => {
+      hostFixture = TestBed.createComponent(BarChartHostComponent);
+      hostFixture.detectChanges();
+      host = hostFixture.nativeElement;
+    });
+
+    it('should be usable with the keyboard and screen readers', async(() => {
+      accessibilityViolations(host).then(
+          violations => expect(violations).toEqual([]));
+      expect(host.querySelector('svg[tabindex="0"]')).toBeTruthy();
+      expect(host.querySelector('[aria-live]')).toBeTruthy();
+      expect(host.querySelectorAll('table.clip tbody tr').length)
+          .toBe(3);
+    }));
+
+    it('should announce the bar activated with the keyboard', () => {
+      const svg = host.querySelector('svg') as SVGSVGElement;
+      expect(svg).toBeTruthy();
+      svg.dispatchEvent(new KeyboardEvent('keydown', {key: 'ArrowRight'}));
+      hostFixture.detectChanges();
+      const liveRegion = host.querySelector('[aria-live]');
+      expect(liveRegion && liveRegion.textContent).toContain('Push ID: a/@1');
+    });
+  });
+
+  describe('when resized', () => {
+    let observer: FakeResizeObserver;
+
+    beforeEach(() => {
+      observer = installFakeResizeObserver();
+    });
+
+    afterEach(() => {
+      observer.uninstall();
+    });
+
+    it('should keep the brushed pushes', fakeAsync(() => {
+         const hostFixture = TestBed.createComponent(BarChartHostComponent);
+         hostFixture.componentInstance.focusRange = ['a/@2', 'a/@3'];
+         hostFixture.detectChanges();
+         const host: HTMLElement = hostFixture.nativeElement;
+         const svg = host.querySelector('svg');
+
+         observer.resize(700, 500);
+         tick(100);
+         flush();
+
+         expect(host.querySelector('svg')).not.toBe(svg);
+         expect(host.querySelectorAll('rect.new-bars').length).toBe(2);
+       }));
+  });
 });
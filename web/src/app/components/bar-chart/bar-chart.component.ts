@@ -14,16 +14,28 @@
  * limitations under the License.
  */
 
-import {AfterViewInit, Component, ElementRef, Input, ViewChild} from '@angular/core';
+import {AfterViewInit, ChangeDetectorRef, Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges, ViewChild} from '@angular/core';
 import * as d3 from 'd3';
+import {Subscription} from 'rxjs';
 
 import {step189_2020} from '../../../proto/step189_2020';
-import {LIGHT_GRAY, STATE_TO_COLOR} from '../colors';
+import {PushSelection, PushSelectionService} from '../../services/push-selection.service';
+import {anomalyTooltipHtml, PushAnomalies} from '../anomalies';
+import {clearCanvas, createCanvas, drawCircle, drawRect, useCanvas} from '../canvas-utils';
+import {ChartData, preparedFor} from '../chart-data';
+import {DataTableColumn} from '../chart-data-table/chart-data-table.component';
+import {FocusRange} from '../chart-state';
+import {LIGHT_GRAY, RED} from '../colors';
 import {findDurationUnit} from '../duration-utils';
+import {announcement, isSelectKey, makeFocusable, selectionAnnouncement, stepIndex} from '../keyboard-utils';
+import {observeSize} from '../resize-utils';
+import {highlightPushes, highlightStyle} from '../selection-utils';
+import {stateColor, stateLabel} from '../states';
+import {isIncrementalUpdate} from '../update-utils';
 
-import {addTag, generateLabels, populateData} from './utils';
+import {addTag, bandAt, barStroke, generateLabels, populateData} from './utils';
 import {d3G, d3ScaleLinear} from './utils';
-import {ALL_PUSHES_OPTION, COLOR_DARK_GRAY, COLOR_LIGHT_GRAY, COLOR_WHITE_TRANS, DEFAULT_MAX_BARS, DEFAULT_NUM_BARS} from './utils';
+import {COLOR_DARK_GRAY, COLOR_LIGHT_GRAY, COLOR_WHITE_TRANS, DEFAULT_MAX_BARS, DEFAULT_NUM_BARS} from './utils';
 
 /**
  * Item includes all data used by the single in the bar chart.
@@ -45,8 +57,7 @@ export interface Item {
  * element that the top bar chart and the bottom bar chart belong to.
  *
  * We separate the top bar chart and the bottom bar chart by `g` elements, so
- * that they can be updated with different methods using dropdown menu and
- * brush selector.
+ * that they can be updated with different methods using the brush selector.
  */
 type d3SVG = d3.Selection<SVGSVGElement, Item[], null, undefined>;
 type d3Circle =
@@ -61,7 +72,8 @@ type d3ScaleBand = d3.ScaleBand<string>;
   styleUrls: ['./bar-chart.component.scss']
 })
 
-export class BarChartComponent implements AfterViewInit {
+export class BarChartComponent implements AfterViewInit, OnChanges, OnDestroy,
+                                          OnInit {
   /**
    * Private variables.
    *
@@ -72,9 +84,29 @@ export class BarChartComponent implements AfterViewInit {
   @ViewChild('barchart') private barChartContainer!: ElementRef;
   @Input() private pushInfos!: step189_2020.IPushInfo[]|null;
   @Input() private currentPush!: step189_2020.IPushInfo|null;
+  @Input() private anomalies: PushAnomalies|null = null;
+  // Bars prepared in the worker, used while they match the pushes.
+  @Input() private chartData: ChartData|null = null;
+  // Pushes focused when the chart is drawn, e.g. from a shared link.
+  @Input() private focusRange: FocusRange|null = null;
+  // Emits the pushes focused after the user moves the brush.
+  @Output() readonly focusRangeChange = new EventEmitter<FocusRange>();
+  // Tooltip of the bar activated with the keyboard, read by screen readers.
+  announcement = '';
+  // Columns of the table that replaces the bar chart for screen readers.
+  readonly tableColumns: Array<DataTableColumn<Item>> = [
+    {name: 'Push ID', value: d => d.pushID},
+    {name: 'Start time', value: d => d.startTime},
+    {
+      name: 'Duration',
+      value: d => `${d.duration.toFixed(1)} ${this.durationUnit}`
+    },
+    {name: 'End state', value: d => stateLabel(d.state)},
+  ];
 
   private dataAll: Item[] = [];
   private durationUnit = '';
+  private svg: d3SVG|undefined;
   private focus: d3G|undefined;
   private brush: d3G|undefined;
   private points: d3Circle|undefined;
@@ -90,6 +122,63 @@ export class BarChartComponent implements AfterViewInit {
   private xAxisFocus: d3G|undefined;
   private xAxisBrush: d3G|undefined;
   private yAxis: d3G|undefined;
+  private pushSelection: PushSelection = {brush: null, selectedHandle: null};
+  private selectionSubscription = Subscription.EMPTY;
+  private resizeSubscription = Subscription.EMPTY;
+  // Push IDs of the first and last bars of the focus bar chart, kept when the
+  // chart is updated. The last one is null when the focus ends with the most
+  // recent push, so that new pushes are added to the focus.
+  private focusStart: string|null = null;
+  private focusEnd: string|null = null;
+  // Canvases the bars and the box plot points are drawn on instead of SVG
+  // elements when there are too many pushes. The focused Items, the x
+  // positions and radius of their points and the index of the hovered one are
+  // kept to redraw them. The hovered one is also the bar activated with the
+  // keyboard.
+  private focusCanvas: CanvasRenderingContext2D|null = null;
+  private brushCanvas: CanvasRenderingContext2D|null = null;
+  private focusData: Item[] = [];
+  private pointsX: number[] = [];
+  private pointRadius = 0;
+  private hoveredBar = -1;
+
+  constructor(
+      private readonly changeDetector: ChangeDetectorRef,
+      private readonly selection: PushSelectionService) {}
+
+  ngOnInit(): void {
+    this.selectionSubscription =
+        this.selection.selection.subscribe(pushSelection => {
+          this.pushSelection = pushSelection;
+          this.highlightSelection();
+        });
+  }
+
+  ngOnDestroy(): void {
+    this.selectionSubscription.unsubscribe();
+    this.resizeSubscription.unsubscribe();
+  }
+
+  /**
+   * Returns the bars of all the pushes drawn by the chart, for the export menu.
+   */
+  exportItems(): Item[] {
+    return this.dataAll;
+  }
+
+  /**
+   * Draws the charts once the container is laid out. The data table and the
+   * export menu are updated right away, as their inputs were checked before
+   * the items were drawn. The charts are redrawn with the new size of the
+   * container when it is resized, keeping the focused pushes.
+   */
+  ngAfterViewInit(): void {
+    this.drawChart();
+    this.changeDetector.detectChanges();
+    this.resizeSubscription =
+        observeSize(this.barChartContainer.nativeElement)
+            .subscribe(() => this.redraw());
+  }
 
   /**
    * Initializes empty focus and brush elements, scales the x-axis and y-axis
@@ -97,6 +186,10 @@ export class BarChartComponent implements AfterViewInit {
    * data.
    *
    * Structure of the SVG:
+   * // Bars and box plot points when there are more than `CANVAS_THRESHOLD`
+   * // pushes, under the focus and the brush bar charts.
+   * <canvas></canvas>
+   * <canvas></canvas>
    * <svg>
    *  <g id='focus-bar-chart'>
    *    <g id='boxplot'>
@@ -112,6 +205,9 @@ export class BarChartComponent implements AfterViewInit {
    *    <text id='y-axis-title'></text>
    *    <rect class='new-bars'></rect>
    *    <rect class='trans-bars'></rect>
+   *    // Instead of the bars when they are drawn on the canvas.
+   *    <rect class='bars-overlay'></rect>
+   *    <path class='anomaly-marker'></path>
    *    // Implemented in local function changeFocus, so that the bars doesn't
    *    // cover the number.
    *    <g id='tag'></g>
@@ -124,25 +220,45 @@ export class BarChartComponent implements AfterViewInit {
    *  </g>
    * </svg>
    */
-  ngAfterViewInit(): void {
+  private drawChart(): void {
     if (!this.pushInfos) {
       return;
     }
-    this.dataAll = populateData(this.pushInfos);
-    this.durationUnit = findDurationUnit(this.pushInfos);
+    this.loadData(this.pushInfos);
 
     const element = this.barChartContainer.nativeElement;
     const elementWidth = element.clientWidth;
     const elementHeight = element.clientHeight;
     const marginFocus = {top: 60, right: 90, bottom: 150, left: 110};
-    const marginBrush = {top: 380, right: 90, bottom: 20, left: 110};
-
     this.heightBrush = 30;
+    // The brush bar chart is at the bottom of the container, below the x-axis
+    // labels of the focus bar chart.
+    const marginBrush = {
+      top: elementHeight - this.heightBrush - 10,
+      right: 90,
+      bottom: 10,
+      left: 110
+    };
     this.width = elementWidth;
 
     const svg = (d3.select(element).append('svg') as d3SVG)
                     .attr('width', elementWidth)
                     .attr('height', elementHeight);
+    makeFocusable(
+        svg,
+        'Bar chart of push durations. Use the arrow keys to move between ' +
+            'the focused pushes, Enter to select one and Escape to hide its ' +
+            'details.');
+    this.svg = svg;
+
+    // Draw the bars and the box plot points on canvases under the SVG when
+    // there are too many pushes for SVG elements. The axes, the labels and the
+    // brush stay in the SVG.
+    this.focusCanvas = useCanvas(this.dataAll.length) ?
+        createCanvas(element, 0, elementWidth, marginBrush.top) :
+        null;
+    this.brushCanvas = this.focusCanvas &&
+        createCanvas(element, marginBrush.top, elementWidth, this.heightBrush);
 
     this.focus = svg.append('g')
                      .attr('id', 'focus-bar-chart')
@@ -210,31 +326,107 @@ export class BarChartComponent implements AfterViewInit {
   }
 
   /**
-   * This function updates the focus bar chart and the brush bar chart based on
-   * the data of the dropdown selection. The function displays the most recent
-   * `DEFAULT_NUM_BARS` by default. It also implements an interactive brush to
-   * display a selected area of the bar chart. If the user selects
-   * 'Show all pushes', the function updates both charts with all pushes;
-   * otherwise, it updates the charts with just the completed ones.
+   * Redraws the charts from scratch when the pushes change, e.g. when the
+   * filter of the page changes. Live updates of the pushes are applied to the
+   * existing charts instead, keeping the focused pushes.
    */
-  public updateChart(): void {
-    // Clear all bars, points, lines and text for the boxplot from the previous
-    // selection.
-    d3.selectAll('rect').remove();
-    d3.selectAll('circle').remove();
-    if (this.boxplot) {
-      this.boxplot.selectAll('text').remove();
-      this.boxplot.selectAll('line').remove();
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes.focusRange && changes.focusRange.firstChange) {
+      this.resetFocus();
     }
-
-    const valueSelected =
-        (document.getElementById('selections') as HTMLSelectElement).value;
-    const dataSelected = (valueSelected === ALL_PUSHES_OPTION) ?
-        this.dataAll :
-        this.dataAll.filter(d => d.state === 5);
-    if (!dataSelected) {
+    if (!this.barChartContainer) {
+      return;
+    }
+    if (!changes.pushInfos && !changes.currentPush && this.focus) {
+      // The focus of the input is only applied when the chart is drawn.
+      if (changes.anomalies) {
+        this.updateChart();
+      }
       return;
     }
+    if (isIncrementalUpdate(changes.pushInfos) && this.pushInfos &&
+        this.focus) {
+      this.loadData(this.pushInfos);
+      // Redraw the chart, keeping its focus, once the pushes no longer fit
+      // the SVG elements or the canvases it is drawn with.
+      if (useCanvas(this.dataAll.length) === (this.focusCanvas !== null)) {
+        this.focus.select('#y-axis-title')
+            .text(`Push durations (in ${this.durationUnit})`);
+        this.updateChart();
+        return;
+      }
+    } else {
+      this.resetFocus();
+    }
+    this.redraw();
+  }
+
+  /**
+   * Removes the charts and draws them again, e.g. with new pushes or a new
+   * size. The focused pushes are kept unless they were reset.
+   */
+  private redraw(): void {
+    d3.select(this.barChartContainer.nativeElement).selectAll('*').remove();
+    this.drawChart();
+  }
+
+  /**
+   * Sets the bars of the pushes and their duration unit. They are computed
+   * here when the worker didn't prepare them for these pushes.
+   *
+   * @param pushInfos Array of pushes for one push def
+   */
+  private loadData(pushInfos: step189_2020.IPushInfo[]): void {
+    const chartData = preparedFor(this.chartData, pushInfos);
+    this.dataAll = chartData ? chartData.barChart : populateData(pushInfos);
+    this.durationUnit =
+        chartData ? chartData.durationUnit : findDurationUnit(pushInfos);
+  }
+
+  /**
+   * Focuses the pushes of the input, or the most recent pushes without it.
+   */
+  private resetFocus(): void {
+    [this.focusStart, this.focusEnd] = this.focusRange || [null, null];
+  }
+
+  /**
+   * Finds the Items shown in the focus bar chart when it is drawn: the
+   * previously focused pushes if there are any, or the most recent
+   * `DEFAULT_NUM_BARS` pushes.
+   *
+   * @param dataSelected All the Items of the bar chart
+   */
+  private initialFocus(dataSelected: Item[]): Item[] {
+    const defaultFocus =
+        dataSelected.slice(Math.max(dataSelected.length - DEFAULT_NUM_BARS, 0));
+    if (!this.focusStart) {
+      return defaultFocus;
+    }
+    const first = dataSelected.findIndex(d => d.pushID === this.focusStart);
+    const last = (this.focusEnd === null) ?
+        dataSelected.length - 1 :
+        dataSelected.findIndex(d => d.pushID === this.focusEnd);
+    if (first < 0 || last < first) {
+      return defaultFocus;
+    }
+    return dataSelected.slice(first, last + 1);
+  }
+
+  /**
+   * This function updates the focus bar chart and the brush bar chart with all
+   * the pushes. The function displays the most recent `DEFAULT_NUM_BARS` by
+   * default. It also implements an interactive brush to display a selected
+   * area of the bar chart.
+   */
+  private updateChart(): void {
+    const dataSelected = this.dataAll;
+
+    // Remove the brush selector and the bars of the previous update.
+    if (this.brush) {
+      this.brush.selectAll('g.brush').remove();
+      this.brush.selectAll('rect.brush-bars').remove();
+    }
 
     const maxDuration = d3.max(dataSelected, (d: Item) => d.duration);
     if (!maxDuration) {
@@ -262,32 +454,35 @@ export class BarChartComponent implements AfterViewInit {
     if (!this.brush) {
       return;
     }
-    const brushBars =
-        (this.brush.selectAll('rect') as d3Rect).data(dataSelected).enter();
-    brushBars.append('rect')
-        .attr(
-            'x',
-            // Becuase `d3.ScaleBand()` only takes in number or null type, we
-            // cannot just pass in the string startTime. We need to assign it
-            // to a const and check for `undefined`. If it is `undefined`,
-            // return null; otherwise, return the constant.
-            (d: Item) => {
-              const x = this.xScaleBrush(d.startTime);
-              return !x ? null : x;
-            })
-        .attr('width', this.xScaleBrush.bandwidth())
-        .attr('y', (d: Item) => this.yScaleBrush(d.duration))
-        .attr(
-            'height',
-            (d: Item) => this.heightBrush - this.yScaleBrush(d.duration))
-        .attr('style', (d: Item) => `fill: ${STATE_TO_COLOR[d.state]}`)
-        .attr('fill-opacity', 1)
-        .attr('stroke', (d: Item) => {  // Outline the white bars.
-          if (STATE_TO_COLOR[d.state] === LIGHT_GRAY) {
-            return COLOR_DARK_GRAY;
-          }
-          return 'none';
-        });
+    if (this.brushCanvas) {
+      this.drawBrushCanvas();
+    } else {
+      const brushBars =
+          (this.brush.selectAll('rect') as d3Rect).data(dataSelected).enter();
+      brushBars.append('rect')
+          .attr('class', 'brush-bars')
+          .attr(
+              'x',
+              // Becuase `d3.ScaleBand()` only takes in number or null type, we
+              // cannot just pass in the string startTime. We need to assign it
+              // to a const and check for `undefined`. If it is `undefined`,
+              // return null; otherwise, return the constant.
+              (d: Item) => {
+                const x = this.xScaleBrush(d.startTime);
+                return !x ? null : x;
+              })
+          .attr('width', this.xScaleBrush.bandwidth())
+          .attr('y', (d: Item) => this.yScaleBrush(d.duration))
+          .attr(
+              'height',
+              (d: Item) => this.heightBrush - this.yScaleBrush(d.duration))
+          .attr('style', (d: Item) => `fill: ${stateColor(d.state)}`)
+          .attr('fill-opacity', 1)
+          .attr('stroke', (d: Item) => barStroke(d) || 'none');
+    }
+
+    // Selects the push of the clicked bar in all the charts.
+    const selectPush = (d: Item) => this.selection.toggleSelected(d.pushID);
 
     // This function shows the tooltip and tags when the user hovers over a
     // bar, or the empty area above it. The function here is a callback, so we
@@ -300,19 +495,37 @@ export class BarChartComponent implements AfterViewInit {
       if (!barX) {
         return;
       }
-      // Highlight the bar when hover over it and blur the x labels.
-      d3.select(d3.event.currentTarget).attr('fill-opacity', 0.70);
+      // Hide the bar hovered or activated with the keyboard before.
+      if (this.hoveredBar >= 0 && this.hoveredBar !== i) {
+        hideHoverInformation(this.focusData[this.hoveredBar], this.hoveredBar);
+      }
+      // Blur the x labels.
       d3.select('.axis-xFocus').selectAll('text').style('opacity', 0.65);
-      if (!this.points) {
-        return;
+      this.hoveredBar = i;
+      if (this.focusCanvas) {
+        // Redraw the bar and its point highlighted.
+        this.drawFocusCanvas();
+      } else {
+        // Highlight the bar, also when hovering over the empty area above it.
+        if (!this.focus) {
+          return;
+        }
+        d3.select(this.focus.selectAll('rect.new-bars').nodes()[i])
+            .attr('fill-opacity', 0.70);
+        if (!this.points) {
+          return;
+        }
+        // Hightlight the corresponding point.
+        d3.select(this.points.nodes()[i])
+            .attr('fill-opacity', 1)
+            .style('stroke', COLOR_DARK_GRAY);
       }
-      d3.select(this.points.nodes()[i])  // Hightlight the corresponding point.
-          .attr('fill-opacity', 1)
-          .style('stroke', COLOR_DARK_GRAY);
       if (!this.tag) {
         return;
       }
-      addTag(d, this.tag, this.xScaleFocus.bandwidth(), barX, barY);
+      addTag(
+          d, this.tag, this.xScaleFocus.bandwidth(), barX, barY,
+          this.yScaleFocus(0));
       this.initialTooltip(d, barX, barY);
     };
 
@@ -321,15 +534,26 @@ export class BarChartComponent implements AfterViewInit {
     // callback, so we use an arrow function to make `this` indicate the current
     // object instead of the context in which the callback is invoked.
     const hideHoverInformation = (d: Item, i: number) => {
-      // Remove highlight from the bar and reset the x labels.
-      d3.select(d3.event.currentTarget).attr('fill-opacity', 1);
+      // Reset the x labels.
       d3.select('.axis-xFocus').selectAll('text').style('opacity', 1);
-      if (!this.points) {
-        return;
+      this.hoveredBar = -1;
+      if (this.focusCanvas) {
+        // Redraw the bar and its point without highlight.
+        this.drawFocusCanvas();
+      } else {
+        // Remove highlight from the bar.
+        if (!this.focus) {
+          return;
+        }
+        d3.select(this.focus.selectAll('rect.new-bars').nodes()[i])
+            .attr('fill-opacity', 1);
+        if (!this.points) {
+          return;
+        }
+        d3.select(this.points.nodes()[i])  // Remove highlight from the point.
+            .attr('fill-opacity', 0.45)
+            .style('stroke', 'none');
       }
-      d3.select(this.points.nodes()[i])  // Remove highlight from the point.
-          .attr('fill-opacity', 0.45)
-          .style('stroke', 'none');
       if (!this.tag) {
         return;
       }
@@ -340,12 +564,37 @@ export class BarChartComponent implements AfterViewInit {
       this.tooltip.remove();
     };
 
+    // This function finds the bar under the cursor when the bars are drawn on
+    // the canvas, and shows or removes the tooltip and tags like hovering over
+    // the SVG bars does.
+    const hoverCanvasBar = () => {
+      const band =
+          bandAt(this.xScaleFocus, d3.mouse(d3.event.currentTarget)[0]);
+      const i = (band === null) ?
+          -1 :
+          this.focusData.findIndex((d: Item) => d.startTime === band);
+      if (i === this.hoveredBar) {
+        return;
+      }
+      if (this.hoveredBar >= 0) {
+        hideHoverInformation(this.focusData[this.hoveredBar], this.hoveredBar);
+      }
+      if (i >= 0) {
+        showHoverInformation(this.focusData[i], i);
+      }
+    };
+
     // This local function changes the focus of the top bar chart based
     // on the input.
     const changeFocus = (inputData: Item[]) => {
-      if (!inputData) {
+      if (!inputData || !inputData.length) {
         return;
       }
+      this.focusStart = inputData[0].pushID;
+      const lastFocused = inputData[inputData.length - 1];
+      this.focusEnd = (lastFocused === dataSelected[dataSelected.length - 1]) ?
+          null :
+          lastFocused.pushID;
       // Remove all bars from previous brushing.
       if (!this.focus) {
         return;
@@ -392,75 +641,156 @@ export class BarChartComponent implements AfterViewInit {
       // chart.
       this.yAxis.select('.domain').remove();
 
-      const focusBars =
-          (this.focus.selectAll('rect') as d3Rect).data(inputData).enter();
-      const solidBars =
-          focusBars.append('rect')
-              .attr(
-                  'x',
-                  (d: Item) => {
-                    const x = this.xScaleFocus(d.startTime);
-                    return !x ? null : x;
-                  })
-              .attr('width', this.xScaleFocus.bandwidth())
-              .attr('y', (d: Item) => this.yScaleFocus(d.duration))
-              .attr(
-                  'height',
-                  (d: Item) =>
-                      this.yScaleFocus(0) - this.yScaleFocus(d.duration))
-              .attr('style', (d: Item) => `fill: ${STATE_TO_COLOR[d.state]}`)
-              .attr('fill-opacity', 1)
-              .attr(
-                  'stroke',
-                  (d: Item) => {  // Outline the white bars.
-                    if (STATE_TO_COLOR[d.state] === LIGHT_GRAY) {
-                      return COLOR_DARK_GRAY;
-                    }
-                    return 'none';
-                  })
-              .on('mouseover', showHoverInformation)
-              .on('mouseleave', hideHoverInformation);
-      // Add transparent bars for hover convience.
-      focusBars
-          .append('rect')  // Add a transparent rect for each element.
-          .attr(
-              'x',
-              (d: Item) => {
-                const x = this.xScaleFocus(d.startTime);
-                return !x ? null : x;
-              })
-          .attr('width', this.xScaleFocus.bandwidth())
-          .attr('y', (d: Item) => this.yScaleFocus(maxFocusDuration))
-          .attr(
-              'height',
-              (d: Item) => this.yScaleFocus(d.duration) -
-                  this.yScaleFocus(maxFocusDuration))
-          .attr('fill', COLOR_WHITE_TRANS)
-          .on('mouseover',
-              (d: Item, i: number) => {
-                d3.select(solidBars.nodes()[i]).attr('fill-opacity', 0.7);
-                showHoverInformation(d, i);
-              })
-          .on('mouseleave', (d: Item, i: number) => {
-            d3.select(solidBars.nodes()[i]).attr('fill-opacity', 1);
-            hideHoverInformation(d, i);
-          });
+      this.focusData = inputData;
+      this.hoveredBar = -1;
+      if (this.focusCanvas) {
+        // Add a transparent rect over the bars and the empty area above them
+        // to find the hovered bar.
+        const [rangeStart, rangeEnd] = this.xScaleFocus.range();
+        this.focus.append('rect')
+            .attr('class', 'bars-overlay')
+            .attr('x', rangeStart)
+            .attr('width', rangeEnd - rangeStart)
+            .attr('y', this.yScaleFocus(maxFocusDuration))
+            .attr(
+                'height',
+                this.yScaleFocus(0) - this.yScaleFocus(maxFocusDuration))
+            .attr('fill', COLOR_WHITE_TRANS)
+            .on('mousemove', hoverCanvasBar)
+            .on('mouseleave',
+                () => {
+                  if (this.hoveredBar >= 0) {
+                    hideHoverInformation(
+                        this.focusData[this.hoveredBar], this.hoveredBar);
+                  }
+                })
+            .on('click', () => {
+              if (this.hoveredBar >= 0) {
+                selectPush(this.focusData[this.hoveredBar]);
+              }
+            });
+      } else {
+        const focusBars =
+            (this.focus.selectAll('rect') as d3Rect).data(inputData).enter();
+        focusBars.append('rect')
+            .attr('class', 'new-bars')
+            .attr(
+                'x',
+                (d: Item) => {
+                  const x = this.xScaleFocus(d.startTime);
+                  return !x ? null : x;
+                })
+            .attr('width', this.xScaleFocus.bandwidth())
+            .attr('y', (d: Item) => this.yScaleFocus(d.duration))
+            .attr(
+                'height',
+                (d: Item) => this.yScaleFocus(0) - this.yScaleFocus(d.duration))
+            .attr('style', (d: Item) => `fill: ${stateColor(d.state)}`)
+            .attr('fill-opacity', 1)
+            .attr('stroke', (d: Item) => barStroke(d) || 'none')
+            .on('mouseover', showHoverInformation)
+            .on('mouseleave', hideHoverInformation)
+            .on('click', selectPush);
+        // Add transparent bars for hover convience.
+        focusBars
+            .append('rect')  // Add a transparent rect for each element.
+            .attr('class', 'trans-bars')
+            .attr(
+                'x',
+                (d: Item) => {
+                  const x = this.xScaleFocus(d.startTime);
+                  return !x ? null : x;
+                })
+            .attr('width', this.xScaleFocus.bandwidth())
+            .attr('y', (d: Item) => this.yScaleFocus(maxFocusDuration))
+            .attr(
+                'height',
+                (d: Item) => this.yScaleFocus(d.duration) -
+                    this.yScaleFocus(maxFocusDuration))
+            .attr('fill', COLOR_WHITE_TRANS)
+            .on('mouseover', showHoverInformation)
+            .on('mouseleave', hideHoverInformation)
+            .on('click', selectPush);
+      }
+
+      // Mark the bars of the pushes with anomalies.
+      this.focus.selectAll('path.anomaly-marker').remove();
+      const anomalies = this.anomalies;
+      if (anomalies) {
+        this.focus.selectAll('anomaly-markers')
+            .data(inputData.filter((d: Item) => anomalies.has(d.pushID)))
+            .enter()
+            .append('path')
+            .attr('class', 'anomaly-marker')
+            .attr('d', d3.symbol().type(d3.symbolTriangle).size(30))
+            .attr('fill', RED)
+            .style('pointer-events', 'none')
+            .attr(
+                'transform',
+                (d: Item) => `translate(${
+                    (this.xScaleFocus(d.startTime) || 0) +
+                    this.xScaleFocus.bandwidth() / 2}, ${
+                    this.yScaleFocus(d.duration) - 6}) rotate(180)`);
+      }
 
       // Create a boxplot based on inputData.
       this.createBoxplot(inputData);
 
       // Append tag to the focus element, so it always shows on top of the bars.
       this.tag = this.focus.append('g').attr('id', 'tag');
+      if (this.focusCanvas) {
+        this.drawFocusCanvas();
+      } else {
+        this.highlightSelection();
+      }
     };
 
-    // Update the focus chart given the selected data. If the selected data
-    // contains more than `DEFAULT_NUM_BARS` Items, only show the most recent
-    // `DEFAULT_NUM_BARS` Items by default.
-    changeFocus(
-        (dataSelected.length > DEFAULT_NUM_BARS) ?
-            dataSelected.slice(
-                dataSelected.length - DEFAULT_NUM_BARS, dataSelected.length) :
-            dataSelected);
+    // The arrow keys walk through the focused bars once the chart has the
+    // focus, showing the tooltip and tag of hovering over them, which are also
+    // announced to screen readers.
+    const onKeydown = () => {
+      const event: KeyboardEvent = d3.event;
+      const i = this.hoveredBar;
+      if (event.key === 'Escape') {
+        if (i >= 0) {
+          hideHoverInformation(this.focusData[i], i);
+        }
+        this.announcement = '';
+      } else if (isSelectKey(event.key)) {
+        if (i < 0) {
+          return;
+        }
+        selectPush(this.focusData[i]);
+        this.announcement = selectionAnnouncement(
+            this.focusData[i].pushID, this.pushSelection);
+      } else {
+        const next = stepIndex(event.key, i, this.focusData.length);
+        if (next === null) {
+          return;
+        }
+        const d = this.focusData[next];
+        showHoverInformation(d, next);
+        this.announcement = `${
+            announcement(this.tooltip && this.tooltip.node())} Duration: ${
+            d.duration.toFixed(1)} ${this.durationUnit}`;
+      }
+      event.preventDefault();
+    };
+    if (this.svg) {
+      this.svg.on('keydown', onKeydown).on('blur', () => {
+        if (this.hoveredBar >= 0) {
+          hideHoverInformation(
+              this.focusData[this.hoveredBar], this.hoveredBar);
+        }
+      });
+    }
+
+    // Update the focus chart given the selected data. It keeps the pushes
+    // focused before an update; otherwise, if the selected data contains more
+    // than `DEFAULT_NUM_BARS` Items, only the most recent `DEFAULT_NUM_BARS`
+    // Items are shown.
+    const focusData = this.initialFocus(dataSelected);
+    changeFocus(focusData);
 
     // Local variable used by the brushDown function to prevent the use
     // of `this` in the callback function.
@@ -471,20 +801,10 @@ export class BarChartComponent implements AfterViewInit {
     // `this`. The listener of D3 brush function defaults `this` context as the
     // current DOM element. We have to declare it locally, in order to use
     // xScaleBrush and dataSelected.
-    const brushDown = () => {
-      // Return if no input is given or the selection is emtpy.
-      if (!d3.event.sourceEvent || !d3.event.selection) {
-        return;
-      }
-      // Remove hover tooltip and tag while brushing on bars.
-      if (this.tooltip) {
-        this.tooltip.remove();
-      }
-      if (this.tag) {
-        this.tag.selectAll('text').remove();
-      }
+    // This local function returns the Items whose bars are centered in the
+    // brushing area.
+    const brushedData = (brushArea: [number, number]) => {
       const newInput: string[] = [];
-      let brushArea = d3.event.selection;
       // Set the area of selection to the entire xScaleFocus if selection
       // is invalid.
       if (brushArea[0] === brushArea[1]) {
@@ -508,29 +828,63 @@ export class BarChartComponent implements AfterViewInit {
           newData.push(data);
         }
       }
+      return newData;
+    };
+
+    const brushDown = () => {
+      // Return if no input is given or the selection is emtpy.
+      if (!d3.event.sourceEvent || !d3.event.selection) {
+        return;
+      }
+      // Remove hover tooltip and tag while brushing on bars.
+      if (this.tooltip) {
+        this.tooltip.remove();
+      }
+      if (this.tag) {
+        this.tag.selectAll('text').remove();
+      }
 
       // Update the bar chart with extracted data.
-      changeFocus(newData);
+      changeFocus(brushedData(d3.event.selection));
+    };
+
+    // This callback function highlights the brushed pushes in the other
+    // charts and publishes the focused pushes once the user is done brushing.
+    // The initial position of the brush selector is not published.
+    const brushEnd = () => {
+      if (!d3.event.sourceEvent) {
+        return;
+      }
+      if (this.focusStart) {
+        this.focusRangeChange.emit([this.focusStart, this.focusEnd]);
+      }
+      if (!d3.event.selection) {
+        this.selection.setBrush('bar-chart', null);
+        return;
+      }
+      this.selection.setBrush(
+          'bar-chart',
+          brushedData(d3.event.selection).map((d: Item) => d.pushID));
     };
 
     // Initial position of the brush selector according to the input of the
     // focus bar.
     const lastItem =
-        this.xScaleBrush(dataSelected[dataSelected.length - 1].startTime);
-    const firstItem = (dataSelected.length > DEFAULT_NUM_BARS) ?
-        dataSelected[dataSelected.length - DEFAULT_NUM_BARS] :
-        dataSelected[0];
+        this.xScaleBrush(focusData[focusData.length - 1].startTime);
+    const firstItem = focusData[0];
     if (!lastItem) {
       return;
     }
     const firstItemPosition = this.xScaleBrush(firstItem.startTime);
     const lastItemPosition = lastItem + this.xScaleBrush.bandwidth();
 
+    const [extentStart, extentEnd] = this.xScaleBrush.range();
     const brushSelector =
         d3.brushX()
-            .extent([[110, 0], [this.width - 90, this.heightBrush]])
+            .extent([[extentStart, 0], [extentEnd, this.heightBrush]])
             .on('brush',
-                brushDown);  // Update the focus bar chart based on selection.
+                brushDown)  // Update the focus bar chart based on selection.
+            .on('end', brushEnd);
 
     (this.brush.append('g') as
      d3.Selection<SVGGElement, unknown, null, unknown>)
@@ -539,6 +893,92 @@ export class BarChartComponent implements AfterViewInit {
         .call(brushSelector.move, [firstItemPosition, lastItemPosition]);
   }
 
+  /**
+   * This function dims the bars of the pushes outside of the brush of the
+   * other charts and outlines the bar of the selected push.
+   */
+  private highlightSelection(): void {
+    if (!this.focus || !this.brush) {
+      return;
+    }
+    if (this.focusCanvas) {
+      this.drawFocusCanvas();
+      this.drawBrushCanvas();
+      return;
+    }
+    highlightPushes(
+        this.focus.selectAll<SVGRectElement, Item>('rect.new-bars'),
+        d => d.pushID, this.pushSelection);
+    highlightPushes(
+        this.brush.selectAll<SVGRectElement, Item>('rect.brush-bars'),
+        d => d.pushID, this.pushSelection);
+  }
+
+  /**
+   * This function draws the focused bars and their box plot points on the
+   * canvas, with the same styles as the SVG elements and their highlights.
+   */
+  private drawFocusCanvas(): void {
+    const context = this.focusCanvas;
+    if (!context) {
+      return;
+    }
+    clearCanvas(context);
+    this.focusData.forEach((d: Item, i: number) => {
+      const style = highlightStyle(d.pushID, this.pushSelection);
+      const opacity = (i === this.hoveredBar) ? 0.7 : 1;
+      drawRect(context, {
+        x: this.xScaleFocus(d.startTime) || 0,
+        y: this.yScaleFocus(d.duration),
+        width: this.xScaleFocus.bandwidth(),
+        height: this.yScaleFocus(0) - this.yScaleFocus(d.duration),
+        fill: stateColor(d.state),
+        fillOpacity: style.fillOpacity === null ? opacity : style.fillOpacity,
+        stroke: style.stroke || barStroke(d),
+        strokeWidth: style.strokeWidth || 1,
+      });
+    });
+    this.focusData.forEach((d: Item, i: number) => {
+      if (this.pointsX[i] === undefined) {
+        return;
+      }
+      const hovered = i === this.hoveredBar;
+      drawCircle(context, {
+        x: this.pointsX[i],
+        y: this.yScaleFocus(d.duration),
+        radius: this.pointRadius,
+        fill: stateColor(d.state),
+        fillOpacity: hovered ? 1 : 0.45,
+        stroke: hovered ? COLOR_DARK_GRAY : null,
+      });
+    });
+  }
+
+  /**
+   * This function draws the bars of all the pushes of the brush bar chart on
+   * the canvas, with the same styles as the SVG bars and their highlights.
+   */
+  private drawBrushCanvas(): void {
+    const context = this.brushCanvas;
+    if (!context) {
+      return;
+    }
+    clearCanvas(context);
+    this.dataAll.forEach((d: Item) => {
+      const style = highlightStyle(d.pushID, this.pushSelection);
+      drawRect(context, {
+        x: this.xScaleBrush(d.startTime) || 0,
+        y: this.yScaleBrush(d.duration),
+        width: this.xScaleBrush.bandwidth(),
+        height: this.heightBrush - this.yScaleBrush(d.duration),
+        fill: stateColor(d.state),
+        fillOpacity: style.fillOpacity === null ? 1 : style.fillOpacity,
+        stroke: style.stroke || barStroke(d),
+        strokeWidth: style.strokeWidth || 1,
+      });
+    });
+  }
+
   /**
    * This function creates a boxplot next to the focus bar chart with all
    * selected data.
@@ -550,6 +990,7 @@ export class BarChartComponent implements AfterViewInit {
       return;
     }
     // Remove all elements of from the previous boxplot.
+    this.pointsX = [];
     this.boxplot.selectAll('circle').remove();
     this.boxplot.selectAll('line').remove();
     this.boxplot.selectAll('text').remove();
@@ -581,22 +1022,31 @@ export class BarChartComponent implements AfterViewInit {
     const jitterWidth = boxWidth - 10;
     const center = this.width - 55;
 
-    // Add individual points with jitter.
-    const newBoxplot = this.boxplot.selectAll('points').data(inputData);
+    // Add individual points with jitter. They are drawn with the bars when
+    // the bars are on the canvas.
+    if (this.focusCanvas) {
+      this.points = undefined;
+      this.pointRadius = pointRadius;
+      this.pointsX = inputData.map(
+          () => center - jitterWidth / 2 + Math.random() * jitterWidth);
+    } else {
+      const newBoxplot = this.boxplot.selectAll('points').data(inputData);
 
-    this.points =
-        newBoxplot.attr('class', 'boxplot-points')
-            .enter()
-            .append('circle')
-            .attr(
-                'cx',
-                (d: Item) =>
-                    (center - jitterWidth / 2 + Math.random() * jitterWidth))
-            // TODO: Tie the position of the points for any change of the brush.
-            .attr('cy', (d: Item) => this.yScaleFocus(d.duration))
-            .attr('r', pointRadius)
-            .style('fill', (d: Item) => STATE_TO_COLOR[d.state])
-            .style('fill-opacity', 0.45);  // Show overlay among dataPoints.
+      this.points =
+          newBoxplot.attr('class', 'boxplot-points')
+              .enter()
+              .append('circle')
+              .attr(
+                  'cx',
+                  (d: Item) =>
+                      (center - jitterWidth / 2 + Math.random() * jitterWidth))
+              // TODO: Tie the position of the points for any change of the
+              // brush.
+              .attr('cy', (d: Item) => this.yScaleFocus(d.duration))
+              .attr('r', pointRadius)
+              .style('fill', (d: Item) => stateColor(d.state))
+              .style('fill-opacity', 0.45);  // Show overlay among dataPoints.
+    }
 
     // Add the rectangle for the boxplot.
     this.boxplot.attr('class', 'boxplot-box')
@@ -655,6 +1105,10 @@ export class BarChartComponent implements AfterViewInit {
    */
   private initialTooltip(d: Item, barX: number, barY: number): void {
     const element = this.barChartContainer.nativeElement;
+    // Replace the tooltip of the bar hovered before, if any.
+    if (this.tooltip) {
+      this.tooltip.remove();
+    }
     // Create a `div` fpr the tooltip.
     const tooltipDiv = document.createElement('div');
     tooltipDiv.setAttribute('class', 'tooltip');
@@ -678,16 +1132,18 @@ export class BarChartComponent implements AfterViewInit {
     // Reposition the x so that the middle of the tooltip sits on top of the
     // bar.
     barX -= (130 - this.xScaleFocus.bandwidth() / 2);
-    const backgroundColor = (STATE_TO_COLOR[d.state] === LIGHT_GRAY) ?
+    const backgroundColor = (stateColor(d.state) === LIGHT_GRAY) ?
         COLOR_DARK_GRAY :
-        STATE_TO_COLOR[d.state];
+        stateColor(d.state);
 
     // Add tooltip content.
     this.tooltip.style('left', barX + 'px')
         .style('top', barY - 10 + 'px')
         .style('background-color', backgroundColor)
         .html(
-            'Push ID: ' + d.pushID + '<br> End state: ' + d.state +
-            '<br> Start time: ' + d.startTime);
+            'Push ID: ' + d.pushID + '<br> End state: ' + stateLabel(d.state) +
+            '<br> Start time: ' + d.startTime +
+            anomalyTooltipHtml(
+                this.anomalies ? this.anomalies.get(d.pushID) : undefined));
   }
 }
@@ -18,7 +18,9 @@ import {formatDate} from '@angular/common';
 import * as d3 from 'd3';
 
 import {step189_2020} from '../../../proto/step189_2020';
+import {LIGHT_GRAY} from '../colors';
 import {DurationItem, findDuration, findDurationUnit, UNIT_CONVERSION} from '../duration-utils';
+import {stateColor} from '../states';
 
 import {Item} from './bar-chart.component';
 
@@ -34,7 +36,6 @@ const DATE_LOCALE = 'en-US';
 
 export const DEFAULT_NUM_BARS = 30;
 export const DEFAULT_MAX_BARS = 100;
-export const ALL_PUSHES_OPTION = 'all';
 export const COLOR_LIGHT_GRAY = '#787878';
 export const COLOR_DARK_GRAY = '#373C38';
 export const COLOR_WHITE_TRANS = '#ffffff00';
@@ -48,7 +49,9 @@ export const COLOR_WHITE_TRANS = '#ffffff00';
 export function populateData(pushInfos: step189_2020.IPushInfo[]): Item[] {
   const pushes: Item[] = [];
   const divisor = UNIT_CONVERSION[findDurationUnit(pushInfos)];
-  pushInfos.reverse().forEach(pushInfo => {
+  // The pushInfos are shared with the other charts through PushDataService, so
+  // reverse a copy instead of the array itself.
+  pushInfos.slice().reverse().forEach(pushInfo => {
     if (!pushInfo) {
       return;
     }
@@ -113,6 +116,35 @@ export function generateLabels(
   return labels;
 }
 
+/**
+ * Returns the outline of a bar: white bars are outlined in dark gray, the
+ * others are not outlined.
+ *
+ * @param d: Item that the bar represents
+ */
+export function barStroke(d: Item): string|null {
+  return (stateColor(d.state) === LIGHT_GRAY) ? COLOR_DARK_GRAY : null;
+}
+
+/**
+ * Finds the band of a band scale under an x position, including half of the
+ * padding on each side of the band.
+ *
+ * @param scale: Band scale of the bars
+ * @param x: x position, e.g. of the mouse
+ * @return The domain value of the band, or null outside of the bands
+ */
+export function bandAt(scale: d3.ScaleBand<string>, x: number): string|null {
+  const domain = scale.domain();
+  const first = domain.length ? scale(domain[0]) : undefined;
+  if (first === undefined) {
+    return null;
+  }
+  const padding = scale.step() - scale.bandwidth();
+  const index = Math.floor((x - first + padding / 2) / scale.step());
+  return (index >= 0 && index < domain.length) ? domain[index] : null;
+}
+
 /**
  * This function adds tag content, which is the time duration for the push,
  * and startTime. The time duration is added on top of the hovered bar, and
@@ -121,9 +153,11 @@ export function generateLabels(
  * @param d: Item that the bar represents
  * @param barX: x position of the bar
  * @param barY: y position of the bar
+ * @param axisY: y position of the x axis of the focus bar chart
  */
 export function addTag(
-    d: Item, tag: d3G, bandwidth: number, barX: number, barY: number): void {
+    d: Item, tag: d3G, bandwidth: number, barX: number, barY: number,
+    axisY: number): void {
   if (!barX) {
     return;
   }
@@ -138,13 +172,14 @@ export function addTag(
       .style('text-anchor', 'middle')
       .text(d.duration.toFixed(2));
 
-  // Bold the start time on x axis.
+  // Bold the start time on x axis, over its label.
+  const labelY = axisY + 10;
   tag.append('text')
       .attr('dx', (barX + bandwidth / 2 + 3.5) + 'px')
-      .attr('dy', 280 + 'px')
+      .attr('dy', labelY + 'px')
       .attr(
           'transform',
-          'rotate(-90 ' + (barX + bandwidth / 2 + 3.5) + ',' + 280 + ')')
+          'rotate(-90 ' + (barX + bandwidth / 2 + 3.5) + ',' + labelY + ')')
       // .attr('style', 'font-weight: bold;')
       .style('stroke', COLOR_DARK_GRAY)
       .style('stroke-width', '0.35px')
@@ -0,0 +1,208 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AfterViewInit, Component, ElementRef, Input, OnChanges, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+
+import {DARK_GRAY, MED_GRAY} from '../colors';
+import {d3SVG, DurationSeries} from '../cdf/cdf.utils';
+
+/**
+ * BoxItem holds the quartiles of the durations of one push def.
+ */
+interface BoxItem {
+  name: string;    // Name of the push def
+  color: string;   // Color of the push def
+  min: number;     // Shortest duration
+  q1: number;      // First quartile
+  median: number;  // Median duration
+  q3: number;      // Third quartile
+  max: number;     // Longest duration
+}
+
+/**
+ * Draws one box plot per push def side by side, with the same y-axis, in the
+ * style of the box plot of the bar chart.
+ */
+@Component({
+  selector: 'app-boxplots',
+  templateUrl: './boxplots.component.html',
+  styleUrls: ['./boxplots.component.scss']
+})
+export class BoxplotsComponent implements AfterViewInit, OnChanges {
+  private static readonly MARGIN = {top: 20, right: 30, bottom: 60, left: 60};
+  private static readonly MAX_BOX_WIDTH = 60;
+
+  @ViewChild('boxplots') private container!: ElementRef;
+  @Input() series!: DurationSeries[]|null;
+  @Input() durationUnit = '';
+
+  /**
+   * Computes the quartiles of the durations of each push def. Push defs
+   * without completed pushes are skipped.
+   *
+   * @param series CDF data of the push defs
+   */
+  private static boxItems(series: DurationSeries[]): BoxItem[] {
+    const items: BoxItem[] = [];
+    series.forEach(s => {
+      // The CDF data is already sorted by increasing duration.
+      const durations = s.data.map(d => d.duration);
+      if (!durations.length) {
+        return;
+      }
+      items.push({
+        name: s.name,
+        color: s.color,
+        min: durations[0],
+        q1: d3.quantile(durations, 0.25) || 0,
+        median: d3.quantile(durations, 0.5) || 0,
+        q3: d3.quantile(durations, 0.75) || 0,
+        max: durations[durations.length - 1],
+      });
+    });
+    return items;
+  }
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    // The first change comes before the view exists.
+    if (this.container) {
+      this.render();
+    }
+  }
+
+  /**
+   * Draws the chart from scratch.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <g class='y-axis'></g>
+   *   <text class='y-axis-label'></text>
+   *   <g class='boxplot'>             // One per push def
+   *     <line class='boxplot-whisker'></line>
+   *     <rect class='boxplot-box'></rect>
+   *     <line class='boxplot-median'></line>
+   *     <line class='boxplot-ticks'></line>
+   *     <title></title>
+   *   </g>
+   * </svg>
+   */
+  private render(): void {
+    const element = this.container.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    const items = BoxplotsComponent.boxItems(this.series || []);
+    if (!items.length) {
+      return;
+    }
+
+    const margin = BoxplotsComponent.MARGIN;
+    const width = element.clientWidth;
+    const height = element.clientHeight;
+
+    const x = d3.scaleBand()
+                  .domain(items.map(d => d.name))
+                  .range([margin.left, width - margin.right])
+                  .padding(0.4);
+    const y = d3.scaleLinear()
+                  .domain([0, d3.max(items, d => d.max) || 1])
+                  .range([height - margin.bottom, margin.top])
+                  .nice();
+    const boxWidth = Math.min(x.bandwidth(), BoxplotsComponent.MAX_BOX_WIDTH);
+    const center = (d: BoxItem) => (x(d.name) || 0) + x.bandwidth() / 2;
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    svg.append('g')
+        .attr('class', 'x-axis')
+        .attr('transform', `translate(0, ${height - margin.bottom})`)
+        .call(d3.axisBottom(x).tickSizeOuter(0));
+    svg.append('g')
+        .attr('class', 'y-axis')
+        .attr('transform', `translate(${margin.left}, 0)`)
+        .call(d3.axisLeft(y).tickSize(-(width - margin.left - margin.right)))
+        .selectAll('line')
+        .style('stroke', MED_GRAY);
+    svg.select('.y-axis').select('.domain').remove();
+
+    svg.append('text')
+        .attr('class', 'y-axis-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(15, ${(height - margin.bottom + margin.top) / 2})
+                rotate(-90)`)
+        .style('font', '12px sans-serif')
+        .text(`Duration of completed pushes (in ${this.durationUnit})`);
+
+    const boxplots = svg.selectAll('.boxplot')
+                         .data(items)
+                         .enter()
+                         .append('g')
+                         .attr('class', 'boxplot');
+
+    boxplots.append('line')
+        .attr('class', 'boxplot-whisker')
+        .attr('x1', center)
+        .attr('x2', center)
+        .attr('y1', d => y(d.min))
+        .attr('y2', d => y(d.max))
+        .attr('stroke', DARK_GRAY);
+
+    boxplots.append('rect')
+        .attr('class', 'boxplot-box')
+        .attr('x', d => center(d) - boxWidth / 2)
+        .attr('width', boxWidth)
+        .attr('y', d => y(d.q3))
+        .attr('height', d => Math.max(1, y(d.q1) - y(d.q3)))
+        .attr('fill', d => d.color)
+        .attr('fill-opacity', 0.6)
+        .attr('stroke', DARK_GRAY);
+
+    boxplots.append('line')
+        .attr('class', 'boxplot-median')
+        .attr('x1', d => center(d) - boxWidth / 2)
+        .attr('x2', d => center(d) + boxWidth / 2)
+        .attr('y1', d => y(d.median))
+        .attr('y2', d => y(d.median))
+        .attr('stroke', DARK_GRAY)
+        .attr('stroke-width', 2);
+
+    // Short horizontal ticks at the ends of the whiskers.
+    [(d: BoxItem) => d.min, (d: BoxItem) => d.max].forEach(value => {
+      boxplots.append('line')
+          .attr('class', 'boxplot-ticks')
+          .attr('x1', d => center(d) - boxWidth / 4)
+          .attr('x2', d => center(d) + boxWidth / 4)
+          .attr('y1', d => y(value(d)))
+          .attr('y2', d => y(value(d)))
+          .attr('stroke', DARK_GRAY);
+    });
+
+    boxplots.append('title').text(d => {
+      const format = (value: number) => value.toFixed(2);
+      return `${d.name}\nmin: ${format(d.min)}\nq1: ${format(d.q1)}\n` +
+          `median: ${format(d.median)}\nq3: ${format(d.q3)}\n` +
+          `max: ${format(d.max)}`;
+    });
+  }
+}
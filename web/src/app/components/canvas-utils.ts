@@ -0,0 +1,147 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+/**
+ * Number of items above which the timeline and the bar chart draw them on a
+ * canvas instead of as one SVG element each. Thousands of SVG elements make
+ * zooming and brushing stutter.
+ */
+export const CANVAS_THRESHOLD = 2000;
+
+/**
+ * Rectangle drawn on a canvas, styled like the SVG rect it replaces.
+ */
+export interface CanvasRect {
+  x: number;              // Left edge, in pixels
+  y: number;              // Top edge, in pixels
+  width: number;          // Width, in pixels
+  height: number;         // Height, in pixels
+  fill: string;           // Fill color
+  fillOpacity: number;    // Opacity of the fill, from 0 to 1
+  stroke: string|null;    // Color of the outline, or null for none
+  strokeWidth: number;    // Width of the outline, in pixels
+}
+
+/**
+ * Circle drawn on a canvas, styled like the SVG circle it replaces.
+ */
+export interface CanvasCircle {
+  x: number;            // Center, in pixels
+  y: number;            // Center, in pixels
+  radius: number;       // Radius, in pixels
+  fill: string;         // Fill color
+  fillOpacity: number;  // Opacity of the fill, from 0 to 1
+  stroke: string|null;  // Color of the outline, or null for none
+}
+
+/**
+ * Returns whether a chart with this many items is drawn on a canvas.
+ *
+ * @param numItems Number of items of the chart, e.g. pushes
+ */
+export function useCanvas(numItems: number): boolean {
+  return numItems > CANVAS_THRESHOLD;
+}
+
+/**
+ * Adds a canvas under the SVG of a chart, so that its axes and interactive
+ * elements stay in the SVG on top of the items drawn on the canvas. The canvas
+ * is absolutely positioned without offsets, so it starts where the SVG starts,
+ * and it ignores the mouse: the chart finds the item under the cursor itself.
+ *
+ * @param container Element that holds the SVG of the chart
+ * @param top Offset of the canvas from the top of the SVG, in pixels
+ * @param width Width of the canvas, in pixels
+ * @param height Height of the canvas, in pixels
+ * @return The context to draw with, or null if canvases are not supported
+ */
+export function createCanvas(
+    container: HTMLElement, top: number, width: number,
+    height: number): CanvasRenderingContext2D|null {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+  // Draw at the resolution of the screen, e.g. twice as many pixels on a
+  // retina display, so that the items are as sharp as in the SVG.
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  canvas.style.position = 'absolute';
+  canvas.style.marginTop = `${top}px`;
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  canvas.style.pointerEvents = 'none';
+  container.insertBefore(canvas, container.querySelector('svg'));
+  context.scale(ratio, ratio);
+  return context;
+}
+
+/**
+ * Erases everything drawn on a canvas.
+ *
+ * @param context Context of the canvas
+ */
+export function clearCanvas(context: CanvasRenderingContext2D): void {
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  context.restore();
+}
+
+/**
+ * Draws a rectangle on a canvas.
+ *
+ * @param context Context of the canvas
+ * @param rect Position and style of the rectangle
+ */
+export function drawRect(
+    context: CanvasRenderingContext2D, rect: CanvasRect): void {
+  context.globalAlpha = rect.fillOpacity;
+  context.fillStyle = rect.fill;
+  context.fillRect(rect.x, rect.y, rect.width, rect.height);
+  if (rect.stroke) {
+    context.globalAlpha = 1;
+    context.strokeStyle = rect.stroke;
+    context.lineWidth = rect.strokeWidth;
+    context.strokeRect(rect.x, rect.y, rect.width, rect.height);
+  }
+  context.globalAlpha = 1;
+}
+
+/**
+ * Draws a circle on a canvas.
+ *
+ * @param context Context of the canvas
+ * @param circle Position and style of the circle
+ */
+export function drawCircle(
+    context: CanvasRenderingContext2D, circle: CanvasCircle): void {
+  context.beginPath();
+  context.arc(circle.x, circle.y, circle.radius, 0, 2 * Math.PI);
+  context.globalAlpha = circle.fillOpacity;
+  context.fillStyle = circle.fill;
+  context.fill();
+  if (circle.stroke) {
+    context.globalAlpha = 1;
+    context.strokeStyle = circle.stroke;
+    context.lineWidth = 1;
+    context.stroke();
+  }
+  context.globalAlpha = 1;
+}
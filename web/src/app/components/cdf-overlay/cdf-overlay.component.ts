@@ -0,0 +1,202 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AfterViewInit, Component, ElementRef, Input, OnChanges, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+
+import {MED_GRAY} from '../colors';
+import {d3SVG, DurationSeries, getProbabilityForDuration, Item} from '../cdf/cdf.utils';
+
+/**
+ * Draws the CDF curves of several push defs on the same axes. Hovering over
+ * the chart shows the probability of each push def at the hovered duration.
+ */
+@Component({
+  selector: 'app-cdf-overlay',
+  templateUrl: './cdf-overlay.component.html',
+  styleUrls: ['./cdf-overlay.component.scss']
+})
+export class CDFOverlayComponent implements AfterViewInit, OnChanges {
+  private static readonly MARGIN = {top: 20, right: 220, bottom: 50, left: 60};
+  private static readonly LEGEND_ROW_HEIGHT = 18;
+
+  @ViewChild('cdfOverlay') private container!: ElementRef;
+  @Input() series!: DurationSeries[]|null;
+  @Input() durationUnit = '';
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    // The first change comes before the view exists.
+    if (this.container) {
+      this.render();
+    }
+  }
+
+  /**
+   * Draws the chart from scratch.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <g class='y-axis'></g>
+   *   <text class='x-axis-label'></text>
+   *   <text class='y-axis-label'></text>
+   *   <path class='cdf-line'></path>  // One per push def
+   *   <g class='legend'>
+   *     <g class='legend-item'>       // One per push def
+   *       <rect></rect>
+   *       <text></text>
+   *     </g>
+   *   </g>
+   *   <line class='hover v-ruler'></line>
+   *   <rect class='hover-area'></rect>
+   * </svg>
+   */
+  private render(): void {
+    const element = this.container.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    const series = (this.series || []).filter(s => s.data.length);
+    if (!series.length) {
+      return;
+    }
+
+    const margin = CDFOverlayComponent.MARGIN;
+    const width = element.clientWidth;
+    const height = element.clientHeight;
+    const maxDuration =
+        d3.max(series, s => s.data[s.data.length - 1].duration) || 1;
+
+    const x = d3.scaleLinear()
+                  .domain([0, maxDuration])
+                  .range([margin.left, width - margin.right])
+                  .nice();
+    const y = d3.scaleLinear().domain([0, 100]).range(
+        [height - margin.bottom, margin.top]);
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    svg.append('g')
+        .attr('class', 'x-axis')
+        .attr('transform', `translate(0, ${height - margin.bottom})`)
+        .call(d3.axisBottom(x));
+    svg.append('g')
+        .attr('class', 'y-axis')
+        .attr('transform', `translate(${margin.left}, 0)`)
+        .call(d3.axisLeft(y)
+                  .tickSize(-(width - margin.left - margin.right))
+                  .tickFormat(d => `${d}%`))
+        .selectAll('line')
+        .style('stroke', MED_GRAY);
+    svg.select('.y-axis').select('.domain').remove();
+
+    svg.append('text')
+        .attr('class', 'x-axis-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(${(margin.left + width - margin.right) / 2}, ${
+                height - 10})`)
+        .style('font', '12px sans-serif')
+        .text(`Duration of completed pushes (in ${this.durationUnit})`);
+    svg.append('text')
+        .attr('class', 'y-axis-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(15, ${(height - margin.bottom + margin.top) / 2})
+                rotate(-90)`)
+        .style('font', '12px sans-serif')
+        .text('Probability');
+
+    // The CDF is a step function that reaches 100% at the longest push.
+    const line = d3.line<Item>()
+                     .x(d => x(d.duration))
+                     .y(d => y(d.probability))
+                     .curve(d3.curveStepAfter);
+    series.forEach(s => {
+      svg.append('path')
+          .datum([{...s.data[0], probability: 0}, ...s.data])
+          .attr('class', 'cdf-line')
+          .attr('fill', 'none')
+          .attr('stroke', s.color)
+          .attr('stroke-width', 2)
+          .attr('d', line);
+    });
+
+    const legendRowHeight = CDFOverlayComponent.LEGEND_ROW_HEIGHT;
+    const legendItems =
+        svg.append('g')
+            .attr('class', 'legend')
+            .attr(
+                'transform',
+                `translate(${width - margin.right + 20}, ${margin.top})`)
+            .selectAll('.legend-item')
+            .data(series)
+            .enter()
+            .append('g')
+            .attr('class', 'legend-item')
+            .attr(
+                'transform', (d, i) => `translate(0, ${i * legendRowHeight})`);
+    legendItems.append('rect')
+        .attr('width', 12)
+        .attr('height', 12)
+        .attr('fill', d => d.color);
+    const legendText = legendItems.append('text')
+                           .attr('x', 18)
+                           .attr('y', 10)
+                           .style('font', '11px sans-serif')
+                           .text(d => d.name);
+
+    const ruler = svg.append('line')
+                      .attr('class', 'hover v-ruler')
+                      .attr('y1', margin.top)
+                      .attr('y2', height - margin.bottom)
+                      .attr('stroke', 'rgba(0,0,0,0.3)')
+                      .style('pointer-events', 'none')
+                      .style('opacity', 0);
+
+    // Show the probability of every push def at the hovered duration next to
+    // its name in the legend.
+    svg.append('rect')
+        .attr('class', 'hover-area')
+        .attr('x', margin.left)
+        .attr('y', margin.top)
+        .attr('width', width - margin.left - margin.right)
+        .attr('height', height - margin.top - margin.bottom)
+        .attr('fill', 'transparent')
+        .on('mousemove',
+            () => {
+              const mouseX = d3.mouse(d3.event.currentTarget)[0];
+              const duration = x.invert(mouseX);
+              ruler.attr('x1', mouseX).attr('x2', mouseX).style('opacity', 1);
+              legendText.text(d => {
+                const probability = d.data[0].duration < duration ?
+                    getProbabilityForDuration(d.data, duration) :
+                    0;
+                return `${d.name}: ${probability.toFixed(1)}%`;
+              });
+            })
+        .on('mouseleave', () => {
+          ruler.style('opacity', 0);
+          legendText.text(d => d.name);
+        });
+  }
+}
@@ -14,16 +14,40 @@
  * limitations under the License.
  */
 
-import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+
+import {Component} from '@angular/core';
+import {async, ComponentFixture, fakeAsync, flush, TestBed, tick} from '@angular/core/testing';
+
+import {accessibilityViolations} from '../../../testing/accessibility';
+import {FakeResizeObserver, installFakeResizeObserver} from '../../../testing/resize-observer';
+import {samplePushInfos} from '../../../testing/sample-pushes';
+import {ChartDataTableComponent} from '../chart-data-table/chart-data-table.component';
 
 import {CDFComponent} from './cdf.component';
 
+const NSEC_PER_MIN = 60 * 10 ** 9;
+
+@Component({
+  template: `
+      <app-cdf [pushInfos]='pushInfos' [currentPush]='pushInfos[0]'
+               [clickedDurationNsec]='clickedDurationNsec'>
+      </app-cdf>`,
+})
+class CDFHostComponent {
+  pushInfos = samplePushInfos(3);
+  clickedDurationNsec: number|null = null;
+}
+
 describe('CDFComponent', () => {
   let component: CDFComponent;
   let fixture: ComponentFixture<CDFComponent>;
 
   beforeEach(async(() => {
-    TestBed.configureTestingModule({declarations: [CDFComponent]})
+    TestBed
+        .configureTestingModule({
+          declarations:
+              [CDFComponent, ChartDataTableComponent, CDFHostComponent]
+        })
         .compileComponents();
   }));
 
@@ -36,4 +60,63 @@ describe('CDFComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  describe('with pushes', () => {
+    let hostFixture: ComponentFixture<CDFHostComponent>;
+    let host: HTMLElement;
+
+    beforeEach(() => {
+      hostFixture = TestBed.createComponent(CDFHostComponent);
+      hostFixture.detectChanges();
+      host = hostFixture.nativeElement;
+    });
+
+    it('should be usable with the keyboard and screen readers', async(() => {
+      accessibilityViolations(host).then(
+          violations => expect(violations).toEqual([]));
+      expect(host.querySelector('svg[tabindex="0"]')).toBeTruthy();
+      expect(host.querySelector('[aria-live]')).toBeTruthy();
+      expect(host.querySelectorAll('table.clip tbody tr').length)
+          .toBe(3);
+    }));
+
+    it('should announce the point activated with the keyboard', () => {
+      const svg = host.querySelector('svg') as SVGSVGElement;
+      expect(svg).toBeTruthy();
+      svg.dispatchEvent(new KeyboardEvent('keydown', {key: 'ArrowRight'}));
+      hostFixture.detectChanges();
+      const liveRegion = host.querySelector('[aria-live]');
+      expect(liveRegion && liveRegion.textContent).toContain('Push a/@1');
+    });
+  });
+
+  describe('when resized', () => {
+    let observer: FakeResizeObserver;
+
+    beforeEach(() => {
+      observer = installFakeResizeObserver();
+    });
+
+    afterEach(() => {
+      observer.uninstall();
+    });
+
+    it('should keep the lines of the clicked duration', fakeAsync(() => {
+         const hostFixture = TestBed.createComponent(CDFHostComponent);
+         // Between the pushes of 31 and 32 minutes.
+         hostFixture.componentInstance.clickedDurationNsec =
+             31.5 * NSEC_PER_MIN;
+         hostFixture.detectChanges();
+         const host: HTMLElement = hostFixture.nativeElement;
+         const svg = host.querySelector('svg');
+
+         observer.resize(600, 400);
+         tick(100);
+         flush();
+
+         expect(host.querySelector('svg')).not.toBe(svg);
+         const label = host.querySelector('.click-line-y-text');
+         expect(label && label.textContent).toBe('2/3');
+       }));
+  });
 });
@@ -14,31 +14,99 @@
  * limitations under the License.
  */
 
-import {AfterViewChecked, AfterViewInit, Component, ElementRef, Input, ViewChild} from '@angular/core';
+import {AfterViewChecked, AfterViewInit, ChangeDetectorRef, Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges, ViewChild} from '@angular/core';
 import * as d3 from 'd3';
+import {Subscription} from 'rxjs';
 
 import {step189_2020} from '../../../proto/step189_2020';
-import {findDurationUnit} from '../duration-utils';
-
-import {addCurrentPushLine, generateQuantiles, generateYPosition, getProbabilityForDuration, populateData} from './cdf.utils';
+import {PushSelection, PushSelectionService} from '../../services/push-selection.service';
+import {CDF_PERCENTILES, ChartData, preparedFor} from '../chart-data';
+import {DataTableColumn} from '../chart-data-table/chart-data-table.component';
+import {findDurationUnit, UNIT_CONVERSION} from '../duration-utils';
+import {isSelectKey, makeFocusable, selectionAnnouncement, stepIndex} from '../keyboard-utils';
+import {predictDuration} from '../prediction';
+import {observeSize} from '../resize-utils';
+import {highlightPushes} from '../selection-utils';
+import {COMPLETED_STATE, stateLabel} from '../states';
+import {isIncrementalUpdate} from '../update-utils';
+
+import {addCurrentPushLine, addPredictionBand, generateQuantiles, generateYPosition, getProbabilityForDuration, pickQuantiles, populateData} from './cdf.utils';
 import {COMPLETED_BLUE, d3SVG, Item, STROKE_COLOR} from './cdf.utils';
 
+const NSEC_PER_MSEC = 10 ** 6;
+
 @Component({
   selector: 'app-cdf',
   templateUrl: './cdf.component.html',
   styleUrls: ['./cdf.component.scss']
 })
 
-export class CDFComponent implements AfterViewChecked, AfterViewInit {
+export class CDFComponent implements AfterViewChecked, AfterViewInit,
+                                     OnChanges, OnDestroy, OnInit {
   @ViewChild('cdf') private CDFContainer!: ElementRef;
   @Input() pushInfos!: step189_2020.IPushInfo[]|null;
   @Input() currentPush!: step189_2020.IPushInfo|null;
   @Input() showDots!: boolean;
+  // All the pushes of the push def, which the prediction of the current push
+  // is made from whatever the filter of the page. Defaults to pushInfos.
+  @Input() historyPushInfos: step189_2020.IPushInfo[]|null = null;
+  // Points prepared in the worker, used while they match the pushes.
+  @Input() chartData: ChartData|null = null;
+  // Duration whose lines are shown when the chart is drawn, e.g. from a
+  // shared link.
+  @Input() clickedDurationNsec: number|null = null;
+  // Emits the duration the user clicked on.
+  @Output() readonly clickedDurationNsecChange = new EventEmitter<number>();
+  // Point activated with the keyboard, read by screen readers.
+  announcement = '';
+  // Columns of the table that replaces the chart for screen readers.
+  readonly tableColumns: Array<DataTableColumn<Item>> = [
+    {name: 'Push handle', value: d => d.pushHandle},
+    {
+      name: 'Duration',
+      value: d => `${d.duration.toFixed(1)} ${this.durationUnit}`
+    },
+    {
+      name: 'Pushes at most as long',
+      value: d => `${d.probability.toFixed(1)}%`
+    },
+    {name: 'End state', value: d => stateLabel(d.endState)},
+  ];
 
   private data: Item[] = [];
   private svg: d3SVG|undefined;
   private durationUnit = '';
   private showDotsBoolean = false;
+  private pushSelection: PushSelection = {brush: null, selectedHandle: null};
+  private selectionSubscription = Subscription.EMPTY;
+  private resizeSubscription = Subscription.EMPTY;
+  // Band of durations brushed along the x-axis, in nanoseconds. It is kept
+  // when the chart is redrawn.
+  private brushedNsec: [number, number]|null = null;
+
+  constructor(
+      private readonly changeDetector: ChangeDetectorRef,
+      private readonly selection: PushSelectionService) {}
+
+  ngOnInit(): void {
+    this.selectionSubscription =
+        this.selection.selection.subscribe(pushSelection => {
+          this.pushSelection = pushSelection;
+          this.highlightSelection();
+        });
+  }
+
+  ngOnDestroy(): void {
+    this.selectionSubscription.unsubscribe();
+    this.resizeSubscription.unsubscribe();
+  }
+
+  /**
+   * Returns the points drawn by the chart, for the export menu.
+   */
+  exportItems(): Item[] {
+    return this.data;
+  }
 
   ngAfterViewChecked(): void {
     if (this.showDotsBoolean === this.showDots) {
@@ -48,12 +116,87 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
       return;
     }
     this.showDotsBoolean = this.showDots;
+    // The hidden dots can't be clicked.
     if (!this.showDotsBoolean) {
-      this.svg.select('#cdf-chart').selectAll('.dots').attr('opacity', 0);
+      this.svg.select('#cdf-chart')
+          .selectAll('.dots')
+          .attr('opacity', 0)
+          .style('pointer-events', 'none');
     } else {
-      this.svg.select('#cdf-chart').selectAll('.dots').attr('opacity', 1);
+      this.svg.select('#cdf-chart')
+          .selectAll('.dots')
+          .attr('opacity', 1)
+          .style('pointer-events', null);
+    }
+  }
+
+  /**
+   * Redraws the chart from scratch when the pushes change, e.g. when the
+   * filter of the page changes. Toggling the dots doesn't need a redraw, and
+   * neither do live updates of pushes that are still running.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!this.CDFContainer) {
+      return;
+    }
+    if (!changes.pushInfos && !changes.currentPush) {
+      return;
     }
+    if (this.isUpToDate(changes)) {
+      return;
+    }
+    this.redraw();
+  }
+
+  /**
+   * Removes the chart and draws it again, e.g. with the new size of its
+   * container.
+   */
+  private redraw(): void {
+    d3.select(this.CDFContainer.nativeElement).selectAll('*').remove();
+    this.svg = undefined;
+    this.drawChart();
+  }
+
+  /**
+   * Returns whether the chart still shows the same completed pushes after a
+   * live update of the pushes that didn't change the current push.
+   *
+   * @param changes Changes of the inputs of the chart
+   */
+  private isUpToDate(changes: SimpleChanges): boolean {
+    if (!this.svg || !this.pushInfos ||
+        (changes.pushInfos && !isIncrementalUpdate(changes.pushInfos))) {
+      return false;
+    }
+    if (changes.currentPush) {
+      return false;
+    }
+    const chartData = preparedFor(this.chartData, this.pushInfos);
+    const durationUnit = chartData ? chartData.durationUnit :
+                                     findDurationUnit(this.pushInfos);
+    if (durationUnit !== this.durationUnit) {
+      return false;
+    }
+    const data = chartData ? chartData.cdf :
+                             populateData(this.pushInfos, this.durationUnit);
+    return data.length === this.data.length &&
+        data.every(
+            (d, i) => d.pushHandle === this.data[i].pushHandle &&
+                d.duration === this.data[i].duration);
+  }
+  /**
+   * Draws the chart once the container is laid out. The data table and the
+   * export menu are updated right away, as their inputs were checked before
+   * the items were drawn. The chart is redrawn when its container is resized.
+   */
+  ngAfterViewInit(): void {
+    this.drawChart();
+    this.changeDetector.detectChanges();
+    this.resizeSubscription = observeSize(this.CDFContainer.nativeElement)
+                                  .subscribe(() => this.redraw());
   }
+
   /**
    * Creates a CDF chart by plotting the duration of completed pushes against
    * the probability of a push taking less time than that duration. Adds lines
@@ -95,14 +238,21 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
    *     <defs>
    *       <marker id='arrow'></marker>
    *     </defs>
-   *     <line id='current-push-line'></line>
+   *     <line id='current-push-line-stroke'></line>
    *     <line id='current-push-text-line'></line>
    *     <line id='current-push-text-line-arrow'></line>
    *     <text id='current-push-text'></text>
    *   </g>
+   *   <g id='prediction-band'> (Only if the visited push is running)
+   *     <rect id='prediction-area'></rect>
+   *     <line id='prediction-median'></line>
+   *     <text id='prediction-text'></text>
+   *     <line id='elapsed-line'></line>
+   *     <text id='elapsed-text'></text>
+   *   </g>
    * </svg>
    */
-  ngAfterViewInit(): void {
+  private drawChart(): void {
     if (!this.pushInfos) {
       return;
     }
@@ -110,8 +260,10 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
       return;
     }
     this.showDotsBoolean = this.showDots;
-    this.durationUnit = findDurationUnit(this.pushInfos);
-    this.data = populateData(this.pushInfos);
+    const chartData = preparedFor(this.chartData, this.pushInfos);
+    this.durationUnit = chartData ? chartData.durationUnit :
+                                    findDurationUnit(this.pushInfos);
+    this.data = chartData ? chartData.cdf : populateData(this.pushInfos);
 
     const element = this.CDFContainer.nativeElement;
     const elementWidth = element.clientWidth;
@@ -132,8 +284,18 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
       return;
     }
 
+    // Predict the duration of the current push if it is still running, and
+    // make room for the prediction on the x-axis.
+    const prediction = predictDuration(
+        this.historyPushInfos || this.pushInfos, this.currentPush,
+        Date.now() * NSEC_PER_MSEC);
+    const maxPredicted = prediction ?
+        (prediction.elapsedNsec + prediction.p90) /
+            UNIT_CONVERSION[this.durationUnit] :
+        0;
+
     const xScale = d3.scaleLinear()
-                       .domain([0, maxDuration + 1])
+                       .domain([0, Math.max(maxDuration, maxPredicted) + 1])
                        .rangeRound([0, width])
                        .nice();
 
@@ -143,7 +305,8 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
     extendedData.push({
       duration: xScale.ticks()[xScale.ticks().length - 1],
       probability: 1,
-      endState: 5
+      endState: COMPLETED_STATE,
+      pushHandle: ''
     });
 
     const maxExtendedDuration = d3.max(extendedData, d => d.duration);
@@ -154,6 +317,10 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
     this.svg = (d3.select(element).append('svg') as d3SVG)
                    .attr('width', elementWidth)
                    .attr('height', elementHeight);
+    makeFocusable(
+        this.svg,
+        'CDF of completed push durations. Use the arrow keys to move between ' +
+            'the pushes, Enter to select one and Escape to hide its details.');
 
     const cdfChart =
         this.svg.append('g')
@@ -238,7 +405,9 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
             .attr('id', 'percentile-lines')
             .attr('transform', `translate(${margin.left}, ${margin.top})`);
 
-    const percentiles = generateQuantiles(this.data, [10, 50, 90], xScale);
+    const percentiles = chartData ?
+        pickQuantiles(chartData.cdfQuantiles, xScale) :
+        generateQuantiles(this.data, CDF_PERCENTILES, xScale);
 
     percentileLines.selectAll('.percentile-lines')
         .data(percentiles)
@@ -268,7 +437,8 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
     let yPosition = generateYPosition(radius * 2 + 0.1, xScale, xVals);
 
     const maxYPosition = d3.max(yPosition);
-    if (!maxYPosition) {
+    // The dots are all on the x-axis when none of them overlap.
+    if (maxYPosition === undefined) {
       return;
     }
 
@@ -286,6 +456,15 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
         this.durationUnit, this.currentPush, currentPushLine, this.data, height,
         xScale, yScale);
 
+    if (prediction) {
+      const predictionBand =
+          this.svg.append('g')
+              .attr('id', 'prediction-band')
+              .attr('transform', `translate(${margin.left}, ${margin.top})`);
+      addPredictionBand(
+          this.durationUnit, prediction, predictionBand, height, xScale);
+    }
+
     // Sets up and handles mouse click. The vertical and horizontal lines and
     // the percentages are placed on the graph where the mouse clicked. The area
     // of the graph to the left of the click becomes a lighter color and the
@@ -318,11 +497,59 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
       const cx = xScale(this.data[i].duration);
       const cy = height - yPosition[i] - radius;
       cdfChart.append('circle')
-          .attr('class', 'dots')
+          .datum(this.data[i])
+          .attr('class', 'dots pointer')
           .attr('cx', cx)
           .attr('r', radius)
           .attr('cy', cy)
-          .attr('fill', 'black');
+          .attr('fill', 'black')
+          .on('click', (d: Item) => {
+            // Don't move the click lines.
+            d3.event.stopPropagation();
+            this.selection.toggleSelected(d.pushHandle);
+          });
+    }
+    this.highlightSelection();
+
+    // Brushing a band of durations along the x-axis highlights the pushes
+    // with these durations in the other charts.
+    const durationBrush =
+        d3.brushX<undefined>()
+            .extent([[0, height], [width, height + margin.bottom / 2]])
+            .on('end', () => {
+              // Restoring the brush after a redraw doesn't change it.
+              if (!d3.event.sourceEvent) {
+                return;
+              }
+              const brushArea: [number, number]|null = d3.event.selection;
+              if (!brushArea) {
+                this.brushedNsec = null;
+                this.selection.setBrush('cdf', null);
+                return;
+              }
+              const [minBrushed, maxBrushed] = brushArea.map(xScale.invert);
+              this.brushedNsec = [
+                minBrushed * UNIT_CONVERSION[this.durationUnit],
+                maxBrushed * UNIT_CONVERSION[this.durationUnit],
+              ];
+              this.selection.setBrush(
+                  'cdf',
+                  this.data
+                      .filter(
+                          d => d.duration >= minBrushed &&
+                              d.duration <= maxBrushed)
+                      .map(d => d.pushHandle));
+            });
+    this.svg.append('g')
+        .attr('class', 'duration-brush')
+        .attr('transform', `translate(${margin.left}, ${margin.top})`)
+        .call(durationBrush);
+    if (this.brushedNsec) {
+      durationBrush.move(
+          this.svg.select('.duration-brush'),
+          this.brushedNsec.map(
+              nsec => xScale(nsec / UNIT_CONVERSION[this.durationUnit])) as
+              [number, number]);
     }
 
     const lineY =
@@ -371,6 +598,41 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
         .text(`${getProbabilityForDuration(this.data, startValue).toFixed(2)}%`)
         .attr('opacity', 0);
 
+    // Draws the lines from a duration to the CDF and to the y-axis, and grays
+    // out the dots of the pushes that were not slower.
+    const showClickLines = (value: number) => {
+      startValue = value;
+      const yValue = getProbabilityForDuration(extendedData, startValue);
+      cdfChart.select('.area-clip-rect').attr('width', xScale(startValue));
+      cdfChart.select('.click-line-y')
+          .attr('y1', yScale(yValue))
+          .attr('x1', xScale(startValue))
+          .attr('x2', xScale(startValue))
+          .attr('opacity', 1);
+      cdfChart.select('.click-line-x')
+          .attr('y1', yScale(yValue))
+          .attr('y2', yScale(yValue))
+          .attr('x2', xScale(startValue))
+          .attr('opacity', 1);
+      cdfChart.select('.click-line-y-text')
+          .attr('x', xScale(startValue) - 40)
+          .attr('y', yScale(yValue) + 20)
+          .text(`${this.data.filter(c => c.duration <= startValue).length}/${
+              this.data.length}`)
+          .attr('opacity', 1);
+      cdfChart.select('.click-line-x-text')
+          .attr('x', xScale(startValue) / 2)
+          .attr('y', yScale(yValue) + 10)
+          .text(`${
+              getProbabilityForDuration(this.data, startValue).toFixed(1)}%`)
+          .attr('opacity', 1);
+      cdfChart.selectAll('.dots')
+          .data(this.data)
+          .attr(
+              'fill',
+              (dp: Item) => dp.duration <= startValue ? 'grey' : 'black');
+    };
+
     cdfChart.on('click', (d: Item[], i: number): void => {
       if (!d) {
         return;
@@ -378,47 +640,22 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
       const coordinates = d3.mouse(d3.event.currentTarget);
       const xValue = xScale.invert(coordinates[0]);
       if (xValue > minDuration) {
-        startValue = xValue;
-        const yValue = getProbabilityForDuration(d, startValue);
-        d3.select(d3.event.currentTarget)
-            .select('.area-clip-rect')
-            .attr('width', xScale(startValue));
-        d3.select(d3.event.currentTarget)
-            .select('.click-line-y')
-            .attr('y1', yScale(yValue))
-            .attr('x1', xScale(startValue))
-            .attr('x2', xScale(startValue))
-            .attr('opacity', 1);
-        d3.select(d3.event.currentTarget)
-            .select('.click-line-x')
-            .attr('y1', yScale(yValue))
-            .attr('y2', yScale(yValue))
-            .attr('x2', xScale(startValue))
-            .attr('opacity', 1);
-        d3.select(d3.event.currentTarget)
-            .select('.click-line-y-text')
-            .attr('x', xScale(startValue) - 40)
-            .attr('y', yScale(yValue) + 20)
-            .text(`${this.data.filter(c => c.duration <= startValue).length}/${
-                this.data.length}`)
-            .attr('opacity', 1);
-        d3.select(d3.event.currentTarget)
-            .select('.click-line-x-text')
-            .attr('x', xScale(startValue) / 2)
-            .attr('y', yScale(yValue) + 10)
-            .text(`${
-                (getProbabilityForDuration(this.data, startValue))
-                    .toFixed(1)}%`)
-            .attr('opacity', 1);
-        d3.select(d3.event.currentTarget)
-            .selectAll('.dots')
-            .data(this.data)
-            .attr(
-                'fill',
-                (dp: Item) => dp.duration <= startValue ? 'grey' : 'black');
+        showClickLines(xValue);
+        // Kept for redraws, as the input may not be bound.
+        this.clickedDurationNsec = xValue * UNIT_CONVERSION[this.durationUnit];
+        this.clickedDurationNsecChange.emit(this.clickedDurationNsec);
       }
     });
 
+    // Restore the lines of the duration of the input.
+    if (this.clickedDurationNsec) {
+      const clickedValue =
+          this.clickedDurationNsec / UNIT_CONVERSION[this.durationUnit];
+      if (clickedValue > minDuration) {
+        showClickLines(clickedValue);
+      }
+    }
+
     // Sets up and handles mouse hovering. The vertical and horizontal rulers, x
     // and y labels and backgrounds are placed in the correct position when the
     // mouse is over the graph
@@ -499,28 +736,31 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
         .attr('fill', circleColor)
         .style('opacity', 0);
 
+    // Places the rulers, the marker and the labels at a point of the CDF.
+    const showRulers = (xVal: number, probability: number) => {
+      const yVal = yScale(probability);
+
+      d3.select('.marker').attr('cx', xVal).attr('cy', yVal);
+      d3.select('.h-ruler').attr('y1', yVal).attr('y2', yVal);
+      d3.select('.v-ruler').attr('x1', xVal).attr('x2', xVal);
+
+      const xText = d3.format(',.1f')(xScale.invert(xVal));
+      const yText = d3.format(',.0f')(yScale.invert(yVal));
+      d3.select('.x-label').attr('x', xVal).text(xText);
+      d3.select('.x-label-bg').attr('x', xVal - labelWidth / 2);
+      d3.select('.y-label').attr('y', yVal + labelHeight / 5).text(`${yText}%`);
+      d3.select('.y-label-bg').attr('y', yVal - labelHeight / 2);
+
+      d3.selectAll('.hover').style('opacity', 1);
+    };
+
     cdfChart.on('mousemove', (d: Item[], i: number): void => {
       const mouseX = xScale.invert(d3.mouse(d3.event.currentTarget)[0]);
 
       if (mouseX >= minDuration && mouseX <= maxExtendedDuration) {
         const xVal = d3.mouse(d3.event.currentTarget)[0];
-        const xInverted = xScale.invert(xVal);
-        const yVal = yScale(getProbabilityForDuration(d, xInverted));
-
-        d3.select('.marker').attr('cx', xVal).attr('cy', yVal);
-        d3.select('.h-ruler').attr('y1', yVal).attr('y2', yVal);
-        d3.select('.v-ruler').attr('x1', xVal).attr('x2', xVal);
-
-        const xText = d3.format(',.1f')(xInverted);
-        const yText = d3.format(',.0f')(yScale.invert(yVal));
-        d3.select('.x-label').attr('x', xVal).text(xText);
-        d3.select('.x-label-bg').attr('x', xVal - labelWidth / 2);
-        d3.select('.y-label')
-            .attr('y', yVal + labelHeight / 5)
-            .text(`${yText}%`);
-        d3.select('.y-label-bg').attr('y', yVal - labelHeight / 2);
-
-        d3.selectAll('.hover').style('opacity', 1);
+        showRulers(
+            xVal, getProbabilityForDuration(d, xScale.invert(xVal)));
       } else {
         d3.selectAll('.hover').style('opacity', 0);
       }
@@ -529,5 +769,69 @@ export class CDFComponent implements AfterViewChecked, AfterViewInit {
     cdfChart.on('mouseleave', () => {
       d3.selectAll('.hover').style('opacity', 0);
     });
+
+    // The arrow keys walk through the points of the pushes once the chart has
+    // the focus. The active point is circled, the rulers of hovering show its
+    // duration and percentage, and both are announced to screen readers.
+    const activeDot = cdfChart.append('circle')
+                          .attr('class', 'active-dot')
+                          .attr('r', radius + 2)
+                          .attr('fill', 'none')
+                          .attr('stroke', strokeColor)
+                          .attr('stroke-width', 2)
+                          .style('pointer-events', 'none')
+                          .style('display', 'none');
+    let active = -1;
+    const deactivate = () => {
+      active = -1;
+      activeDot.style('display', 'none');
+      d3.selectAll('.hover').style('opacity', 0);
+    };
+    this.svg.on('keydown', () => {
+      const event: KeyboardEvent = d3.event;
+      if (event.key === 'Escape') {
+        deactivate();
+        this.announcement = '';
+      } else if (isSelectKey(event.key)) {
+        if (active < 0) {
+          return;
+        }
+        const pushHandle = this.data[active].pushHandle;
+        this.selection.toggleSelected(pushHandle);
+        this.announcement =
+            selectionAnnouncement(pushHandle, this.pushSelection);
+      } else {
+        const next = stepIndex(event.key, active, this.data.length);
+        if (next === null) {
+          return;
+        }
+        active = next;
+        const d = this.data[active];
+        const cx = xScale(d.duration);
+        activeDot.style('display', null)
+            .attr('cx', cx)
+            .attr('cy', height - yPosition[active] - radius);
+        showRulers(cx, d.probability);
+        this.announcement = `Push ${d.pushHandle}: ${d.duration.toFixed(1)} ${
+            this.durationUnit}, ${
+            d.probability.toFixed(1)}% of the completed pushes took at most ` +
+            'as long.';
+      }
+      event.preventDefault();
+    });
+    this.svg.on('blur', deactivate);
+  }
+
+  /**
+   * Dims the dots of the pushes outside of the brush and outlines the dot of
+   * the selected push.
+   */
+  private highlightSelection(): void {
+    if (!this.svg) {
+      return;
+    }
+    highlightPushes(
+        this.svg.selectAll<SVGCircleElement, Item>('circle.dots'),
+        d => d.pushHandle, this.pushSelection);
   }
 }
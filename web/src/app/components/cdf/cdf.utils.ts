@@ -17,12 +17,26 @@
 import * as d3 from 'd3';
 
 import {step189_2020} from '../../../proto/step189_2020';
+import {BLUE} from '../colors';
 import {DurationItem, findDuration, findDurationUnit, UNIT_CONVERSION} from '../duration-utils';
+import {DurationPrediction} from '../prediction';
+import {isSucceededState} from '../states';
 
 export interface Item {
   duration: number;     // Time between last stage and first non-empty stage
   probability: number;  // Rank of the duration divided by number of points
   endState: number;     // Tag of the last state
+  pushHandle: string;   // Push handle of the push, empty for computed points
+}
+
+/**
+ * DurationSeries holds the CDF data of one of several push defs drawn on the
+ * same chart.
+ */
+export interface DurationSeries {
+  name: string;   // Name of the push def
+  color: string;  // Color of the push def in all the charts
+  data: Item[];   // Completed pushes, sorted by increasing duration
 }
 
 /**
@@ -37,7 +51,6 @@ export type d3SVG = d3.Selection<SVGSVGElement, undefined, null, undefined>;
 type d3G = d3.Selection<SVGGElement, undefined, null, undefined>;
 
 const NANO_TO_MINUTES = (10 ** 9) * 60;
-const COMPLETED_STATE_TAG = 5;
 
 export const COMPLETED_BLUE = '#00bfa5';
 export const STROKE_COLOR = '#167364';
@@ -50,10 +63,14 @@ export const STROKE_COLOR = '#167364';
  * interfaces.
  *
  * @param pushInfos Array of pushes for a single push def
+ * @param durationUnit Unit of the durations, e.g. to compare several push defs
+ *     on the same axis. Defaults to the best unit for the pushes.
  * @return Array of Items sorted by increasing duration
  */
-export function populateData(pushInfos: step189_2020.IPushInfo[]): Item[] {
-  const divisor = UNIT_CONVERSION[findDurationUnit(pushInfos)];
+export function populateData(
+    pushInfos: step189_2020.IPushInfo[],
+    durationUnit = findDurationUnit(pushInfos)): Item[] {
+  const divisor = UNIT_CONVERSION[durationUnit];
   const pushes: Item[] = [];
   pushInfos.forEach(pushInfo => {
     if (!pushInfo) {
@@ -77,11 +94,12 @@ export function populateData(pushInfos: step189_2020.IPushInfo[]): Item[] {
       pushes.push({
         duration: (+startEnd.endNsec - +startEnd.startNsec) / divisor,
         probability: 0,
-        endState: finalState
+        endState: finalState,
+        pushHandle: pushInfo.pushHandle || ''
       } as Item);
     }
   });
-  const completed = pushes.filter(d => d.endState === 5);
+  const completed = pushes.filter(d => isSucceededState(d.endState));
   const sortedArray: Item[] =
       completed.sort((n1, n2) => n1.duration - n2.duration);
 
@@ -92,7 +110,8 @@ export function populateData(pushInfos: step189_2020.IPushInfo[]): Item[] {
     data.push({
       duration: push.duration,
       probability: (i + 1) * 100 / durationLength,
-      endState: push.endState
+      endState: push.endState,
+      pushHandle: push.pushHandle
     } as Item);
   }
   return data;
@@ -137,8 +156,8 @@ function getDurationforProbability(data: Item[], probability: number): number {
 /**
  * Generates an array of items that maps an array of probabilities to its
  * interpolated duration. If the durations are too close together, then
- * recursively spread out the smallest and largest probability line until there
- * is at least 15 pixels of space between them. If this never happens, then the
+ * spread out the smallest and largest probability line until there is at
+ * least 15 pixels of space between them. If this never happens, then the
  * smallest and largest probabilities are deleted and only the median is
  * returned.
  *
@@ -152,31 +171,62 @@ function getDurationforProbability(data: Item[], probability: number): number {
 export function generateQuantiles(
     data: Item[], percentileLines: number[],
     xScale: d3.ScaleLinear<number, number>): Item[] {
-  if (percentileLines[0] < 1 || percentileLines[2] > 99) {
-    return [percentileLines[1]].map(
-        d =>
-            ({duration: getDurationforProbability(data, d), probability: d} as
-             Item));
+  return pickQuantiles(quantileCandidates(data, percentileLines), xScale);
+}
+
+/**
+ * Interpolates the durations of the percentile lines, then of the lines spread
+ * out one percent at a time, and finally of the median alone. These are all
+ * the lines generateQuantiles can pick from; only the choice depends on the
+ * size of the chart. Probabilities below the first point can't be
+ * interpolated, so the spreading stops there.
+ *
+ * @param data Array of Items sorted by increasing duration
+ * @param percentileLines Array of numbers representing the probability
+ * @return Arrays of Items, in the order they are tried
+ */
+export function quantileCandidates(
+    data: Item[], percentileLines: number[]): Item[][] {
+  if (!data.length) {
+    return [];
   }
-  let quantiles = percentileLines.map(
+  const canInterpolate = (probability: number) =>
+      probability > data[0].probability;
+  const toItems = (probabilities: number[]) => probabilities.map(
       d =>
           ({duration: getDurationforProbability(data, d), probability: d} as
            Item));
 
-  const pixelDifference = 15;
-  const differences = [
-    xScale(quantiles[1].duration - quantiles[0].duration),
-    xScale(quantiles[2].duration - quantiles[1].duration)
-  ];
-  if (differences[0] < pixelDifference || differences[1] < pixelDifference) {
-    quantiles = generateQuantiles(
-        data,
-        [
-          percentileLines[0] - 1, percentileLines[1], percentileLines[2] + 1
-        ],
-        xScale);
+  const candidates: Item[][] = [];
+  let lines = percentileLines;
+  while (lines[0] >= 1 && lines[2] <= 99 && lines.every(canInterpolate)) {
+    candidates.push(toItems(lines));
+    lines = [lines[0] - 1, lines[1], lines[2] + 1];
+  }
+  if (canInterpolate(lines[1])) {
+    candidates.push(toItems([lines[1]]));
   }
-  return quantiles;
+  return candidates;
+}
+
+/**
+ * Picks the first candidate of quantileCandidates whose lines are at least 15
+ * pixels apart, or the median alone.
+ *
+ * @param candidates Arrays of Items, in the order they are tried
+ * @param xScale d3 function that applies a scaling factor on raw x values to
+ * correctly place them on the graph
+ */
+export function pickQuantiles(
+    candidates: Item[][], xScale: d3.ScaleLinear<number, number>): Item[] {
+  const pixelDifference = 15;
+  const quantiles = candidates.find(
+      candidate => candidate.length === 1 ||
+          (xScale(candidate[1].duration - candidate[0].duration) >=
+               pixelDifference &&
+           xScale(candidate[2].duration - candidate[1].duration) >=
+               pixelDifference));
+  return quantiles || candidates[candidates.length - 1] || [];
 }
 
 /**
@@ -251,7 +301,7 @@ export function addCurrentPushLine(
     return;
   }
 
-  if (finalState !== COMPLETED_STATE_TAG) {
+  if (!isSucceededState(finalState)) {
     return;
   }
 
@@ -280,7 +330,7 @@ export function addCurrentPushLine(
   const endOfLine = yScale(getProbabilityForDuration(data, duration));
 
   currentPushLine.append('line')
-      .attr('id', 'current-push-line')
+      .attr('id', 'current-push-line-stroke')
       .attr('stroke', 'white')
       .attr('stroke-width', 3)
       .attr('stroke-opacity', 0.6)
@@ -317,3 +367,71 @@ export function addCurrentPushLine(
       .attr('font-size', '11px')
       .text('Current Push');
 }
+
+/**
+ * Appends a shaded band on the chart between the 10th and 90th percentiles of
+ * the predicted duration of the current push while it is running. A dashed
+ * line marks the median prediction and a solid line the time the push has run
+ * so far.
+ *
+ * @param durationUnit unit of time that the majority of push durations take
+ * @param prediction predicted remaining time of the current push
+ * @param predictionBand d3 SVG G element
+ * @param height height of the chart element
+ * @param xScale d3 function that applies a scaling factor on raw x values to
+ *     correctly place them on the graph
+ */
+export function addPredictionBand(
+    durationUnit: string, prediction: DurationPrediction, predictionBand: d3G,
+    height: number, xScale: d3.ScaleLinear<number, number>): void {
+  const divisor = UNIT_CONVERSION[durationUnit];
+  const elapsed = prediction.elapsedNsec / divisor;
+  const low = xScale(elapsed + prediction.p10 / divisor);
+  const median = xScale(elapsed + prediction.p50 / divisor);
+  const high = xScale(elapsed + prediction.p90 / divisor);
+
+  predictionBand.append('rect')
+      .attr('id', 'prediction-area')
+      .attr('x', low)
+      .attr('y', 0)
+      .attr('width', Math.max(high - low, 1))
+      .attr('height', height)
+      .attr('fill', BLUE)
+      .attr('fill-opacity', 0.15)
+      .style('pointer-events', 'none');
+
+  predictionBand.append('line')
+      .attr('id', 'prediction-median')
+      .attr('stroke', BLUE)
+      .attr('stroke-dasharray', '5,2')
+      .attr('x1', median)
+      .attr('y1', height)
+      .attr('x2', median)
+      .attr('y2', 0);
+
+  predictionBand.append('text')
+      .attr('id', 'prediction-text')
+      .attr('text-anchor', 'middle')
+      .attr('x', median)
+      .attr('y', 12)
+      .attr('font-size', '11px')
+      .attr('fill', BLUE)
+      .text('Predicted');
+
+  predictionBand.append('line')
+      .attr('id', 'elapsed-line')
+      .attr('stroke', BLUE)
+      .attr('stroke-width', 2)
+      .attr('x1', xScale(elapsed))
+      .attr('y1', height)
+      .attr('x2', xScale(elapsed))
+      .attr('y2', 0);
+
+  predictionBand.append('text')
+      .attr('id', 'elapsed-text')
+      .attr('text-anchor', 'middle')
+      .attr('x', xScale(elapsed))
+      .attr('y', height + 30)
+      .attr('font-size', '11px')
+      .text('Current Push (running)');
+}
@@ -0,0 +1,56 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+
+import {accessibilityViolations} from '../../../testing/accessibility';
+
+import {ChartDataTableComponent} from './chart-data-table.component';
+
+describe('ChartDataTableComponent', () => {
+  let component: ChartDataTableComponent<unknown>;
+  let fixture: ComponentFixture<ChartDataTableComponent<unknown>>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({declarations: [ChartDataTableComponent]})
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(ChartDataTableComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should list the first rows of the items', async(() => {
+    component.caption = 'Numbers';
+    component.columns = [{name: 'Number', value: n => `${n}`}];
+    component.data = Array.from({length: 600}, (_, i) => i);
+    component.ngOnChanges();
+    fixture.detectChanges();
+
+    const table: HTMLElement = fixture.nativeElement;
+    const cells = table.querySelectorAll('tbody td');
+    expect(cells.length).toBe(ChartDataTableComponent.MAX_ROWS);
+    expect(cells[1].textContent).toBe('1');
+    accessibilityViolations(table).then(
+        violations => expect(violations).toEqual([]));
+  }));
+});
@@ -0,0 +1,56 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Component, Input, OnChanges} from '@angular/core';
+
+/**
+ * DataTableColumn describes one column of the table that replaces a chart for
+ * screen readers.
+ */
+export interface DataTableColumn<T> {
+  name: string;                // Header of the column
+  value: (item: T) => string;  // Text of the cell of an item
+}
+
+/**
+ * Visually hidden table of the items drawn by a chart, read by screen readers
+ * instead of the chart. Only the first `MAX_ROWS` items are listed, the export
+ * menu of the chart saves all of them.
+ */
+@Component({
+  selector: 'app-chart-data-table',
+  templateUrl: './chart-data-table.component.html',
+  styleUrls: ['./chart-data-table.component.scss']
+})
+export class ChartDataTableComponent<T> implements OnChanges {
+  static readonly MAX_ROWS = 500;
+
+  // Describes what the chart shows.
+  @Input() caption = '';
+  @Input() columns: Array<DataTableColumn<T>> = [];
+  // Items drawn by the chart.
+  @Input() data: T[] = [];
+
+  readonly maxRows = ChartDataTableComponent.MAX_ROWS;
+  rows: string[][] = [];
+
+  ngOnChanges(): void {
+    this.rows =
+        this.data.slice(0, this.maxRows)
+            .map(item => this.columns.map(column => column.value(item)));
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {Item as BarItem} from './bar-chart/bar-chart.component';
+import {populateData as populateBarData} from './bar-chart/utils';
+import {Item as CDFItem, populateData as populateCDFData, quantileCandidates} from './cdf/cdf.utils';
+import {ConcurrencySummary, summarizeConcurrency} from './concurrency/concurrency.utils';
+import {findDurationUnit} from './duration-utils';
+import {StageDurationStats, stageDurationStats} from './stage-utils';
+import {Item as TimelineItem, populateData as populateTimelineData} from './timeline/timeline.utils';
+import {ChangePoint, findChangePoints, FinishedPush, finishedPushes} from './trend/trend.utils';
+
+/**
+ * Percentiles of the CDF marked with lines, before they are spread out when
+ * they are drawn too close together.
+ */
+export const CDF_PERCENTILES = [10, 50, 90];
+
+/**
+ * PreparedChartData holds the data drawn by the charts of the push pages. It
+ * is computed from the pushes in the push data worker, so the charts only have
+ * to draw it.
+ */
+export interface PreparedChartData {
+  durationUnit: string;          // Unit of the durations of all the charts
+  timeline: TimelineItem[];      // Intervals of the timeline
+  timelineRows: number;          // Number of rows of the timeline
+  barChart: BarItem[];           // Bars of the bar chart, oldest push first
+  cdf: CDFItem[];                // Points of the CDF
+  cdfQuantiles: CDFItem[][];     // Candidate percentile lines of the CDF
+  // Lanes of the stage durations chart.
+  stageStats: StageDurationStats[];
+  // Pushes of the trend chart, and the shifts of their durations.
+  finishedPushes: FinishedPush[];
+  changePoints: ChangePoint[];
+  // Stats of the pushes that overlapped others, null without intervals.
+  concurrency: ConcurrencySummary|null;
+}
+
+/**
+ * ChartData is the prepared data along with the pushes it was prepared from.
+ * The charts only use it while they draw these same pushes.
+ */
+export interface ChartData extends PreparedChartData {
+  pushInfos: step189_2020.IPushInfo[];  // Pushes the data was prepared from
+}
+
+/**
+ * Computes the data of all the charts of the push pages.
+ *
+ * @param pushInfos Array of pushes for one push def
+ * @param onProgress Called with the part of the data that is computed
+ */
+export function prepareChartData(
+    pushInfos: step189_2020.IPushInfo[],
+    onProgress: (fraction: number) => void = () => {}): PreparedChartData {
+  const steps = 6;
+  const durationUnit = findDurationUnit(pushInfos);
+  const [timeline, timelineRows] = populateTimelineData(pushInfos);
+  onProgress(1 / steps);
+  const barChart = populateBarData(pushInfos);
+  onProgress(2 / steps);
+  const cdf = populateCDFData(pushInfos, durationUnit);
+  const cdfQuantiles =
+      cdf.length ? quantileCandidates(cdf, CDF_PERCENTILES) : [];
+  onProgress(3 / steps);
+  const stageStats = stageDurationStats(pushInfos);
+  onProgress(4 / steps);
+  const finished = finishedPushes(pushInfos);
+  const changePoints = findChangePoints(finished);
+  onProgress(5 / steps);
+  const concurrency = timeline.length ? summarizeConcurrency(timeline) : null;
+  onProgress(1);
+  return {
+    durationUnit,
+    timeline,
+    timelineRows,
+    barChart,
+    cdf,
+    cdfQuantiles,
+    stageStats,
+    finishedPushes: finished,
+    changePoints,
+    concurrency,
+  };
+}
+
+/**
+ * Returns the chart data if it was prepared from the pushes a chart draws.
+ *
+ * @param chartData Data prepared in the worker, if any
+ * @param pushInfos Pushes drawn by the chart
+ */
+export function preparedFor(
+    chartData: ChartData|null,
+    pushInfos: step189_2020.IPushInfo[]|null): ChartData|null {
+  return chartData && chartData.pushInfos === pushInfos ? chartData : null;
+}
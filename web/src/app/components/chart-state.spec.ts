@@ -0,0 +1,112 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {convertToParamMap, ParamMap, Params} from '@angular/router';
+
+import {ChartState, chartStateFromParams, chartStateToParams} from './chart-state';
+
+const NSEC_PER_MINUTE = 60 * 10 ** 9;
+
+// Reads query parameters the way the router does after a navigation: the unset
+// ones are dropped and the values become strings.
+function toParamMap(params: Params): ParamMap {
+  const strings: Params = {};
+  Object.keys(params).forEach(key => {
+    if (params[key] !== null) {
+      strings[key] = String(params[key]);
+    }
+  });
+  return convertToParamMap(strings);
+}
+
+const DEFAULT_STATE: ChartState = {
+  zoom: null,
+  focus: null,
+  cdfDurationNsec: null,
+  showDots: true,
+  trendWindow: null,
+};
+
+describe('chart state', () => {
+  it('should keep the state through the URL', () => {
+    const states: ChartState[] = [
+      {
+        zoom: [1000, 2000],
+        focus: ['12', '34'],
+        cdfDurationNsec: 1.5 * NSEC_PER_MINUTE,
+        showDots: false,
+        trendWindow: {kind: 'pushes', pushes: 20},
+      },
+      {
+        zoom: null,
+        focus: ['12', null],
+        cdfDurationNsec: null,
+        showDots: true,
+        trendWindow: {kind: 'day', pushes: 50},
+      },
+      DEFAULT_STATE,
+    ];
+
+    states.forEach(state => {
+      expect(chartStateFromParams(toParamMap(chartStateToParams(state))))
+          .toEqual(state);
+    });
+  });
+
+  it('should write the parameters of the URL', () => {
+    expect(chartStateToParams({
+      zoom: [1000.4, 2000.6],
+      focus: ['12', null],
+      cdfDurationNsec: 1.234 * NSEC_PER_MINUTE,
+      showDots: false,
+      trendWindow: {kind: 'week', pushes: 50},
+    })).toEqual({
+      zoom: '1000~2001',
+      bars: '12',
+      cdfAt: 1.23,
+      dots: 'false',
+      trend: 'week',
+    });
+  });
+
+  it('should only write the given fields', () => {
+    expect(chartStateToParams({})).toEqual({});
+    expect(chartStateToParams({zoom: null, showDots: true}))
+        .toEqual({zoom: null, dots: null});
+  });
+
+  it('should ignore malformed parameters', () => {
+    const malformed = [
+      {zoom: 'abc', bars: '~12', cdfAt: 'x', dots: 'no', trend: 'month'},
+      {zoom: '2000~1000', cdfAt: '-1', trend: '0'},
+      {zoom: '1~2~3', cdfAt: '0', trend: '-5'},
+      {zoom: '~2000', bars: '', cdfAt: 'Infinity', trend: '1e400'},
+      {zoom: '1000~', cdfAt: ' '},
+      {zoom: '0~Infinity'},
+    ];
+
+    malformed.forEach(params => {
+      expect(chartStateFromParams(convertToParamMap(params)))
+          .toEqual(DEFAULT_STATE);
+    });
+  });
+
+  it('should round the number of pushes of the trend window', () => {
+    expect(chartStateFromParams(convertToParamMap({trend: '19.6'})).trendWindow)
+        .toEqual({kind: 'pushes', pushes: 20});
+  });
+});
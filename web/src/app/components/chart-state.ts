@@ -0,0 +1,148 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ParamMap, Params} from '@angular/router';
+
+import {DEFAULT_TREND_WINDOW, TrendWindow} from './trend/trend.utils';
+
+/**
+ * Time window of the timeline, in milliseconds.
+ */
+export type ZoomDomain = [number, number];
+
+/**
+ * Push IDs of the first and last bars of the focus bar chart. The last one is
+ * null when the focus ends with the most recent push.
+ */
+export type FocusRange = [string, string|null];
+
+/**
+ * ChartState holds what the user changed on the charts of a page, so that a
+ * link to the page shows the charts the same way. The unset fields are the
+ * defaults of the charts.
+ */
+export interface ChartState {
+  zoom: ZoomDomain|null;           // Zoomed time window of the timeline
+  focus: FocusRange|null;          // Brushed pushes of the bar chart
+  cdfDurationNsec: number|null;    // Duration clicked on the CDF
+  showDots: boolean;               // Whether the CDF shows the pushes as dots
+  trendWindow: TrendWindow|null;   // Rolling window of the trend chart
+}
+
+// Names of the query parameters of the chart state. They don't clash with the
+// ones of the filter.
+const ZOOM_PARAM = 'zoom';
+const FOCUS_PARAM = 'bars';
+const CDF_DURATION_PARAM = 'cdfAt';
+const SHOW_DOTS_PARAM = 'dots';
+const TREND_WINDOW_PARAM = 'trend';
+
+// Separates the two ends of a range in a parameter, e.g. 'zoom=1000~2000'.
+const RANGE_SEPARATOR = '~';
+
+const NSEC_PER_MINUTE = 60 * 10 ** 9;
+
+// Reads a number of a parameter. Empty and infinite values are invalid.
+function finiteFromParam(value: string|null|undefined): number|null {
+  const parsed = value ? Number(value) : NaN;
+  return isFinite(parsed) ? parsed : null;
+}
+
+function zoomFromParam(value: string|null): ZoomDomain|null {
+  const ends = (value || '').split(RANGE_SEPARATOR).map(finiteFromParam);
+  const [start, end] = ends;
+  if (ends.length !== 2 || start === null || end === null || start >= end) {
+    return null;
+  }
+  return [start, end];
+}
+
+function focusFromParam(value: string|null): FocusRange|null {
+  if (!value) {
+    return null;
+  }
+  const [start, end] = value.split(RANGE_SEPARATOR);
+  return start ? [start, end || null] : null;
+}
+
+function cdfDurationFromParam(value: string|null): number|null {
+  const minutes = finiteFromParam(value);
+  return minutes === null || minutes <= 0 ? null : minutes * NSEC_PER_MINUTE;
+}
+
+function trendWindowFromParam(value: string|null): TrendWindow|null {
+  if (value === 'day' || value === 'week') {
+    return {kind: value, pushes: DEFAULT_TREND_WINDOW.pushes};
+  }
+  const pushes = Math.round(finiteFromParam(value) || 0);
+  return pushes > 0 ? {kind: 'pushes', pushes} : null;
+}
+
+/**
+ * Reads the chart state from the query parameters of a page. Invalid values
+ * are ignored.
+ *
+ * @param params Query parameters of the page
+ */
+export function chartStateFromParams(params: ParamMap): ChartState {
+  return {
+    zoom: zoomFromParam(params.get(ZOOM_PARAM)),
+    focus: focusFromParam(params.get(FOCUS_PARAM)),
+    cdfDurationNsec: cdfDurationFromParam(params.get(CDF_DURATION_PARAM)),
+    showDots: params.get(SHOW_DOTS_PARAM) !== 'false',
+    trendWindow: trendWindowFromParam(params.get(TREND_WINDOW_PARAM)),
+  };
+}
+
+/**
+ * Writes the given fields of the chart state as query parameters. The fields
+ * set to their defaults are null, so that navigating with
+ * `queryParamsHandling: 'merge'` removes them from the URL while keeping the
+ * other parameters of the page.
+ *
+ * @param state Changed fields of the chart state
+ */
+export function chartStateToParams(state: Partial<ChartState>): Params {
+  const params: Params = {};
+  if (state.zoom !== undefined) {
+    params[ZOOM_PARAM] =
+        state.zoom ? state.zoom.map(Math.round).join(RANGE_SEPARATOR) : null;
+  }
+  if (state.focus !== undefined) {
+    params[FOCUS_PARAM] = state.focus ?
+        state.focus.filter(pushID => pushID).join(RANGE_SEPARATOR) :
+        null;
+  }
+  if (state.cdfDurationNsec !== undefined) {
+    params[CDF_DURATION_PARAM] = state.cdfDurationNsec ?
+        +(state.cdfDurationNsec / NSEC_PER_MINUTE).toFixed(2) :
+        null;
+  }
+  if (state.showDots !== undefined) {
+    params[SHOW_DOTS_PARAM] = state.showDots ? null : 'false';
+  }
+  if (state.trendWindow !== undefined) {
+    const trendWindow = state.trendWindow;
+    if (!trendWindow) {
+      params[TREND_WINDOW_PARAM] = null;
+    } else if (trendWindow.kind === 'pushes') {
+      params[TREND_WINDOW_PARAM] = trendWindow.pushes || null;
+    } else {
+      params[TREND_WINDOW_PARAM] = trendWindow.kind;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,49 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {RouterTestingModule} from '@angular/router/testing';
+
+import {DurationNsecPipe} from '../../pipes/duration-nsec.pipe';
+import {StateLabelPipe} from '../../pipes/state-label.pipe';
+
+import {ConcurrencyComponent} from './concurrency.component';
+
+describe('ConcurrencyComponent', () => {
+  let component: ConcurrencyComponent;
+  let fixture: ComponentFixture<ConcurrencyComponent>;
+
+  beforeEach(async(() => {
+    TestBed
+        .configureTestingModule({
+          declarations:
+              [ConcurrencyComponent, DurationNsecPipe, StateLabelPipe],
+          imports: [RouterTestingModule],
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(ConcurrencyComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
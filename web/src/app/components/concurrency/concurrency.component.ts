@@ -0,0 +1,264 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {AfterViewInit, Component, ElementRef, Input, OnChanges, OnDestroy, OnInit, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+import {Subscription} from 'rxjs';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {PushSelectionService} from '../../services/push-selection.service';
+import {ChartData, preparedFor} from '../chart-data';
+import {MED_GRAY} from '../colors';
+import {categoryMetadata, STATE_CATEGORIES, StateCategory} from '../states';
+import {concurrencyBuckets, ConcurrencyBucket, Item, populateData} from '../timeline/timeline.utils';
+
+import {ConcurrencySummary, Overlap, OverlapGroupStats, overlappingPushes, summarizeConcurrency} from './concurrency.utils';
+
+type d3SVG = d3.Selection<SVGSVGElement, unknown, null, undefined>;
+type d3Series = d3.Series<ConcurrencyBucket, StateCategory>;
+
+/**
+ * Names a group of pushes in the comparison table.
+ */
+interface OverlapGroup {
+  name: string;              // Shown in the first column
+  stats: OverlapGroupStats;  // Stats of the pushes of the group
+}
+
+/**
+ * Shows how many pushes of a push def ran at the same time: the most that ran
+ * at once, a chart of the running pushes over time by final state, whether the
+ * pushes that overlapped others took longer or failed more often than the ones
+ * that ran alone, and which pushes overlapped the selected push, or the
+ * current push of the page when no push is selected.
+ */
+@Component({
+  selector: 'app-concurrency',
+  templateUrl: './concurrency.component.html',
+  styleUrls: ['./concurrency.component.scss']
+})
+export class ConcurrencyComponent implements AfterViewInit, OnChanges,
+                                             OnDestroy, OnInit {
+  private static readonly MARGIN = {top: 10, right: 30, bottom: 30, left: 50};
+  private static readonly BUCKET_WIDTH = 4;
+  private static readonly MAX_OVERLAPS = 50;
+
+  @ViewChild('concurrency') private container!: ElementRef;
+  @Input() pushInfos!: step189_2020.IPushInfo[]|null;
+  // Intervals and stats prepared in the worker, used while they match the
+  // pushes.
+  @Input() chartData: ChartData|null = null;
+  @Input() currentPush: step189_2020.IPushInfo|null = null;
+
+  summary: ConcurrencySummary|null = null;
+  groups: OverlapGroup[] = [];
+  impact = '';
+  // Push whose overlapping pushes are listed, and these pushes.
+  focusedHandle: string|null = null;
+  overlaps: Overlap[] = [];
+  readonly maxOverlaps = ConcurrencyComponent.MAX_OVERLAPS;
+
+  private data: Item[] = [];
+  private selectedHandle: string|null = null;
+  private selectionSubscription = Subscription.EMPTY;
+
+  constructor(private readonly selection: PushSelectionService) {}
+
+  /**
+   * Describes how much longer the pushes that overlapped others took and how
+   * much more often they failed, compared to the ones that ran alone.
+   *
+   * @param summary Stats of the pushes
+   * @return The description, empty if either group has no finished push
+   */
+  private static describeImpact(summary: ConcurrencySummary): string {
+    const {alone, overlapped} = summary;
+    if (!alone.finished || !overlapped.finished) {
+      return '';
+    }
+    const durationChange = 100 *
+        (overlapped.medianDurationNsec - alone.medianDurationNsec) /
+        alone.medianDurationNsec;
+    const rateChange = overlapped.failureRate - alone.failureRate;
+    const duration = isFinite(durationChange) ?
+        `took ${Math.abs(durationChange).toFixed(0)}% ${
+            durationChange < 0 ? 'less' : 'longer'}` :
+        'took as long';
+    const failures = `failed ${Math.abs(rateChange).toFixed(1)} points ${
+        rateChange < 0 ? 'less' : 'more'} often`;
+    return `Pushes that overlapped others ${duration} and ${
+        failures} than pushes that ran alone.`;
+  }
+
+  ngOnInit(): void {
+    this.selectionSubscription =
+        this.selection.selectedHandle.subscribe(selectedHandle => {
+          this.selectedHandle = selectedHandle;
+          this.updateOverlaps();
+          if (this.container) {
+            this.render();
+          }
+        });
+  }
+
+  ngOnDestroy(): void {
+    this.selectionSubscription.unsubscribe();
+  }
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    const chartData = preparedFor(this.chartData, this.pushInfos);
+    this.data =
+        chartData ? chartData.timeline : populateData(this.pushInfos)[0];
+    if (chartData) {
+      this.summary = chartData.concurrency;
+    } else {
+      this.summary = this.data.length ? summarizeConcurrency(this.data) : null;
+    }
+    this.groups = this.summary ?
+        [
+          {name: 'Ran alone', stats: this.summary.alone},
+          {name: 'Overlapped other pushes', stats: this.summary.overlapped},
+        ] :
+        [];
+    this.impact =
+        this.summary ? ConcurrencyComponent.describeImpact(this.summary) : '';
+    this.updateOverlaps();
+    // The first change comes before the view exists.
+    if (this.container) {
+      this.render();
+    }
+  }
+
+  /**
+   * Lists the pushes that overlapped the selected push, or the current push if
+   * none is selected.
+   */
+  private updateOverlaps(): void {
+    this.focusedHandle = this.selectedHandle ||
+        (this.currentPush && this.currentPush.pushHandle) || null;
+    this.overlaps = this.focusedHandle ?
+        overlappingPushes(this.data, this.focusedHandle) :
+        [];
+  }
+
+  /**
+   * Draws the number of running pushes over time from scratch, stacked by the
+   * category of their final state, with the time the listed push ran shaded.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <g class='y-axis'></g>
+   *   <text class='y-axis-label'></text>
+   *   <rect class='focused-push'></rect>
+   *   <path class='concurrency-area'></path>  // One per state category
+   * </svg>
+   */
+  private render(): void {
+    const element = this.container.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    if (!this.data.length) {
+      return;
+    }
+
+    const margin = ConcurrencyComponent.MARGIN;
+    const width = element.clientWidth;
+    const height = element.clientHeight;
+
+    const start = d3.min(this.data, d => d.startTime) || 0;
+    const end = d3.max(this.data, d => d.endTime) || 0;
+    const buckets = concurrencyBuckets(
+        this.data, start, end,
+        Math.max(
+            Math.ceil(
+                (width - margin.left - margin.right) /
+                ConcurrencyComponent.BUCKET_WIDTH),
+            1));
+
+    const x = d3.scaleTime()
+                  .domain([new Date(start), new Date(end)])
+                  .range([margin.left, width - margin.right]);
+    const y = d3.scaleLinear()
+                  .domain([0, d3.max(buckets, b => b.total) || 1])
+                  .range([height - margin.bottom, margin.top])
+                  .nice();
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    svg.append('g')
+        .attr('class', 'x-axis')
+        .attr('transform', `translate(0, ${height - margin.bottom})`)
+        .call(d3.axisBottom(x));
+    svg.append('g')
+        .attr('class', 'y-axis')
+        .attr('transform', `translate(${margin.left}, 0)`)
+        .call(
+            d3.axisLeft(y)
+                .ticks(5, 'd')
+                .tickSize(-(width - margin.left - margin.right)))
+        .selectAll('line')
+        .style('stroke', MED_GRAY);
+    svg.select('.y-axis').select('.domain').remove();
+
+    svg.append('text')
+        .attr('class', 'y-axis-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(15, ${(height - margin.bottom + margin.top) / 2})
+            rotate(-90)`)
+        .style('font', '12px sans-serif')
+        .text('Running pushes');
+
+    const focused = this.data.find(d => d.pushID === this.focusedHandle);
+    if (focused) {
+      svg.append('rect')
+          .attr('class', 'focused-push')
+          .attr('x', x(focused.startTime))
+          .attr('width', Math.max(x(focused.endTime) - x(focused.startTime), 1))
+          .attr('y', margin.top)
+          .attr('height', height - margin.top - margin.bottom)
+          .attr('fill', 'black')
+          .attr('fill-opacity', 0.1);
+    }
+
+    const series = d3.stack<ConcurrencyBucket, StateCategory>()
+                       .keys(STATE_CATEGORIES)
+                       .value((bucket, category) => bucket.counts[category])(
+                           buckets);
+    const area = d3.area<d3.SeriesPoint<ConcurrencyBucket>>()
+                     .curve(d3.curveMonotoneX)
+                     .x(p => x((p.data.start + p.data.end) / 2))
+                     .y0(p => y(p[0]))
+                     .y1(p => y(p[1]));
+    svg.selectAll<SVGPathElement, d3Series>('path.concurrency-area')
+        .data(series)
+        .enter()
+        .append('path')
+        .attr('class', 'concurrency-area')
+        .attr('fill', s => categoryMetadata(s.key).color)
+        .attr('d', area)
+        .append('title')
+        .text(s => categoryMetadata(s.key).name);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Item} from '../timeline/timeline.utils';
+
+import {maxConcurrency, overlapCounts, overlappingPushes, summarizeConcurrency} from './concurrency.utils';
+
+const NSEC_PER_MSEC = 10 ** 6;
+
+// Builds the interval of a completed push, in milliseconds.
+function item(pushID: string, startTime: number, endTime: number, state = 5):
+    Item {
+  return {pushID, state, startTime, endTime, row: 0};
+}
+
+// Counts the overlapping pushes by comparing every pair of pushes.
+function bruteForceCounts(data: Item[]): Map<string, number> {
+  return new Map(data.map(
+      d => [d.pushID, overlappingPushes(data, d.pushID).length]));
+}
+
+describe('overlapCounts', () => {
+  const cases: {[name: string]: Item[]} = {
+    touching: [item('1', 0, 10), item('2', 10, 20), item('3', 20, 30)],
+    nested: [item('1', 0, 100), item('2', 10, 20), item('3', 15, 50)],
+    identical: [item('1', 0, 10), item('2', 0, 10)],
+    'zero-length inside another push': [item('1', 0, 10), item('2', 5, 5)],
+    'zero-length at the bounds of a push':
+        [item('1', 0, 10), item('2', 0, 0), item('3', 10, 10)],
+    'zero-length at the same time': [item('1', 5, 5), item('2', 5, 5)],
+    mixed: [
+      item('1', 0, 30), item('2', 5, 5), item('3', 10, 20), item('4', 20, 40),
+      item('5', 30, 30), item('6', 35, 60), item('7', 60, 70)
+    ],
+  };
+
+  Object.keys(cases).forEach(name => {
+    it(`should count the overlapping pushes: ${name}`, () => {
+      expect(overlapCounts(cases[name])).toEqual(bruteForceCounts(cases[name]));
+    });
+  });
+
+  it('should not count touching pushes', () => {
+    const counts = overlapCounts(cases.touching);
+    expect(Array.from(counts.values())).toEqual([0, 0, 0]);
+  });
+});
+
+describe('maxConcurrency', () => {
+  it('should count the pushes running at once', () => {
+    expect(maxConcurrency(
+               [item('1', 0, 100), item('2', 10, 20), item('3', 15, 50)]))
+        .toEqual({count: 3, timeMsec: 15});
+  });
+
+  it('should end pushes before starting others at the same time', () => {
+    expect(maxConcurrency([item('1', 0, 10), item('2', 10, 20)]))
+        .toEqual({count: 1, timeMsec: 0});
+  });
+
+  it('should be zero without pushes', () => {
+    expect(maxConcurrency([])).toEqual({count: 0, timeMsec: NaN});
+  });
+});
+
+describe('overlappingPushes', () => {
+  const data = [
+    item('1', 0, 100), item('2', 50, 150), item('3', 10, 20),
+    item('4', 100, 110)
+  ];
+
+  it('should list the overlapping pushes by start time', () => {
+    const overlaps = overlappingPushes(data, '1');
+    expect(overlaps.map(overlap => overlap.item.pushID)).toEqual(['3', '2']);
+    expect(overlaps.map(overlap => overlap.overlapNsec)).toEqual([
+      10 * NSEC_PER_MSEC, 50 * NSEC_PER_MSEC
+    ]);
+  });
+
+  it('should be empty for unknown pushes', () => {
+    expect(overlappingPushes(data, '9')).toEqual([]);
+  });
+});
+
+describe('summarizeConcurrency', () => {
+  it('should compare the pushes that ran alone to the overlapped ones', () => {
+    const summary = summarizeConcurrency([
+      item('1', 0, 10), item('2', 20, 40, 6), item('3', 30, 60),
+      item('4', 100, 130, 13)
+    ]);
+
+    expect(summary.total).toBe(4);
+    expect(summary.max).toEqual({count: 2, timeMsec: 30});
+    expect(summary.alone).toEqual({
+      count: 2,
+      finished: 1,
+      medianDurationNsec: 10 * NSEC_PER_MSEC,
+      failureRate: 0,
+    });
+    expect(summary.overlapped).toEqual({
+      count: 2,
+      finished: 2,
+      medianDurationNsec: 25 * NSEC_PER_MSEC,
+      failureRate: 50,
+    });
+  });
+});
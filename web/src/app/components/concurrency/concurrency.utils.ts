@@ -0,0 +1,182 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as d3 from 'd3';
+
+import {isTerminalState, stateCategory} from '../states';
+import {Item} from '../timeline/timeline.utils';
+
+const NSEC_PER_MSEC = 10 ** 6;
+
+/**
+ * MaxConcurrency holds the largest number of pushes that ran at once.
+ */
+export interface MaxConcurrency {
+  count: number;     // Number of pushes running at once
+  timeMsec: number;  // First time that many pushes ran, in milliseconds
+}
+
+/**
+ * OverlapGroupStats describes the pushes that ran alone or the ones that
+ * overlapped other pushes. The duration and the failure rate only count the
+ * finished pushes, and are NaN if none finished.
+ */
+export interface OverlapGroupStats {
+  count: number;               // Number of pushes of the group
+  finished: number;            // Number of them that finished
+  medianDurationNsec: number;  // Median duration of the finished pushes
+  failureRate: number;         // Percentage of the finished pushes that failed
+}
+
+/**
+ * ConcurrencySummary holds how much the pushes of a push def overlapped and
+ * how the pushes that overlapped others compare to the ones that ran alone.
+ */
+export interface ConcurrencySummary {
+  total: number;                  // Number of pushes
+  max: MaxConcurrency;            // Most pushes that ran at once
+  alone: OverlapGroupStats;       // Pushes that overlapped no other push
+  overlapped: OverlapGroupStats;  // Pushes that overlapped other pushes
+}
+
+/**
+ * Overlap describes a push that ran at the same time as another one.
+ */
+export interface Overlap {
+  item: Item;           // Interval of the overlapping push
+  overlapNsec: number;  // Time both pushes ran, in nanoseconds
+}
+
+/**
+ * Returns whether two pushes ran at the same time. Pushes that only touch, one
+ * ending when the other starts, don't overlap, like in the rows of the
+ * timeline.
+ *
+ * @param a Interval of a push
+ * @param b Interval of another push
+ */
+function overlaps(a: Item, b: Item): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+/**
+ * Finds the largest number of pushes that ran at once, by sweeping over the
+ * starts and ends of the pushes in time order. At equal times the ends come
+ * first, so that pushes that only touch are not counted together.
+ *
+ * @param data Intervals of the pushes
+ */
+export function maxConcurrency(data: Item[]): MaxConcurrency {
+  const events: Array<[number, number]> = [];
+  data.forEach(d => {
+    events.push([d.startTime, 1]);
+    events.push([d.endTime, -1]);
+  });
+  events.sort((a, b) => (a[0] - b[0]) || (a[1] - b[1]));
+
+  const max: MaxConcurrency = {count: 0, timeMsec: NaN};
+  let running = 0;
+  events.forEach(([time, change]) => {
+    running += change;
+    if (running > max.count) {
+      max.count = running;
+      max.timeMsec = time;
+    }
+  });
+  return max;
+}
+
+/**
+ * Counts the other pushes each push overlapped. The pushes that started before
+ * a push ended, minus the ones that had already ended when it started, are
+ * found by binary searches in the sorted start and end times.
+ *
+ * @param data Intervals of the pushes
+ * @return The number of overlapped pushes by push ID
+ */
+export function overlapCounts(data: Item[]): Map<string, number> {
+  const starts = data.map(d => d.startTime).sort(d3.ascending);
+  const ends = data.map(d => d.endTime).sort(d3.ascending);
+  const counts = new Map<string, number>();
+  data.forEach(d => {
+    const startedBefore = d3.bisectLeft(starts, d.endTime);
+    const endedBefore = d3.bisectRight(ends, d.startTime);
+    // Don't count the push itself.
+    const self = (d.startTime < d.endTime) ? 1 : -1;
+    counts.set(d.pushID, Math.max(startedBefore - endedBefore - self, 0));
+  });
+  return counts;
+}
+
+/**
+ * Computes the stats of a group of pushes.
+ *
+ * @param group Intervals of the pushes of the group
+ */
+function groupStats(group: Item[]): OverlapGroupStats {
+  const finished = group.filter(d => isTerminalState(d.state));
+  const failed = finished.filter(d => stateCategory(d.state) === 'failed');
+  const median = d3.median(finished, d => d.endTime - d.startTime);
+  return {
+    count: group.length,
+    finished: finished.length,
+    medianDurationNsec:
+        (median === undefined) ? NaN : median * NSEC_PER_MSEC,
+    failureRate:
+        finished.length ? 100 * failed.length / finished.length : NaN,
+  };
+}
+
+/**
+ * Summarizes how much the pushes overlapped, and compares the pushes that
+ * overlapped other pushes to the ones that ran alone.
+ *
+ * @param data Intervals of the pushes
+ */
+export function summarizeConcurrency(data: Item[]): ConcurrencySummary {
+  const counts = overlapCounts(data);
+  const overlapped = data.filter(d => counts.get(d.pushID));
+  const alone = data.filter(d => !counts.get(d.pushID));
+  return {
+    total: data.length,
+    max: maxConcurrency(data),
+    alone: groupStats(alone),
+    overlapped: groupStats(overlapped),
+  };
+}
+
+/**
+ * Finds the pushes that ran at the same time as a push, in start time order.
+ *
+ * @param data Intervals of the pushes
+ * @param pushID Push ID of the push
+ * @return The overlapping pushes, empty if the push is not in the data
+ */
+export function overlappingPushes(data: Item[], pushID: string): Overlap[] {
+  const push = data.find(d => d.pushID === pushID);
+  if (!push) {
+    return [];
+  }
+  return data.filter(d => d !== push && overlaps(d, push))
+      .sort((a, b) => a.startTime - b.startTime)
+      .map(item => ({
+             item,
+             overlapNsec: (Math.min(item.endTime, push.endTime) -
+                           Math.max(item.startTime, push.startTime)) *
+                 NSEC_PER_MSEC,
+           }));
+}
@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import {HumanizeDuration, HumanizeDurationLanguage, HumanizeDurationOptions} from 'humanize-duration-ts';
+
 import {step189_2020} from '../../proto/step189_2020';
 
 export interface DurationItem {
@@ -21,6 +23,7 @@ export interface DurationItem {
   endNsec: number|Long;    // nsec time of the last state
 }
 
+const NANO_TO_MILLI: number = 10 ** 6;
 const NANO_TO_SECONDS: number = (10 ** 9);
 const NANO_TO_MINUTES: number = (10 ** 9) * 60;
 const NANO_TO_HOURS: number = (10 ** 9) * 60 * 60;
@@ -35,6 +38,35 @@ export const UNIT_CONVERSION: {[unit: string]: number} = {
   weeks: NANO_TO_WEEKS,
 };
 
+const HUMANIZER = new HumanizeDuration(new HumanizeDurationLanguage());
+
+/**
+ * Converts a duration to a human readable format that uses at most the two
+ * largest units (e.g. 361000 seconds returns "4 days, 4 hours").
+ *
+ * @param nsec Duration in nanoseconds
+ */
+export function formatDuration(nsec: number): string {
+  const options = ({round: true, largest: 2} as HumanizeDurationOptions);
+  return HUMANIZER.humanize(nsec / NANO_TO_MILLI, options);
+}
+
+/**
+ * Finds the largest unit of time in which the duration is more than one.
+ *
+ * @param nsec Duration in nanoseconds
+ * @return one of [seconds, minutes, hours, days, weeks], or undefined for
+ *     durations of less than a second
+ */
+export function findUnitForDuration(nsec: number): string|undefined {
+  for (const unit of ['weeks', 'days', 'hours', 'minutes', 'seconds']) {
+    if ((nsec / UNIT_CONVERSION[unit]) > 1) {
+      return unit;
+    }
+  }
+  return;
+}
+
 /**
  * Finds the unit of time that best describes the majority of the durations of
  * the pushInfos.
@@ -74,12 +106,9 @@ export function findDurationUnit(pushInfos: step189_2020.IPushInfo[]): string {
     // Find the start time of the first non-empty stage.
     const startEnd: DurationItem|undefined = findDuration(pushInfo);
     if (startEnd) {
-      const nsecDuration = (+pushEndTime - +startEnd.startNsec);
-      for (const unit of ['weeks', 'days', 'hours', 'minutes', 'seconds']) {
-        if ((nsecDuration / UNIT_CONVERSION[unit]) > 1) {
-          unitCounter[unit] += 1;
-          break;
-        }
+      const unit = findUnitForDuration(+pushEndTime - +startEnd.startNsec);
+      if (unit) {
+        unitCounter[unit] += 1;
       }
     }
   });
@@ -95,6 +124,36 @@ export function findDurationUnit(pushInfos: step189_2020.IPushInfo[]): string {
   return bestUnit;
 }
 
+/**
+ * Finds a unit of time shared by several push defs, so that their durations
+ * can be drawn on the same axis. Each push def votes for its own best unit and
+ * ties go to the larger unit.
+ *
+ * @param pushInfosList Arrays of pushes, one per push def
+ * @return one of [seconds, minutes, hours, days, weeks]
+ */
+export function findCommonDurationUnit(
+    pushInfosList: step189_2020.IPushInfo[][]): string {
+  const votes = new Map<string, number>();
+  pushInfosList.forEach(pushInfos => {
+    const unit = findDurationUnit(pushInfos);
+    if (unit) {
+      votes.set(unit, (votes.get(unit) || 0) + 1);
+    }
+  });
+
+  let bestUnit = 'seconds';
+  let max = 0;
+  for (const unit of ['weeks', 'days', 'hours', 'minutes', 'seconds']) {
+    const count = votes.get(unit) || 0;
+    if (count > max) {
+      max = count;
+      bestUnit = unit;
+    }
+  }
+  return bestUnit;
+}
+
 /**
  * Finds the start time of the first non-empty state and the end time of the
  * pushInfo.
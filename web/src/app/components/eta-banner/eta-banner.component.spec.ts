@@ -0,0 +1,88 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {async, ComponentFixture, fakeAsync, TestBed, tick} from '@angular/core/testing';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {DateNsecPipe} from '../../pipes/date-nsec.pipe';
+import {DurationNsecPipe} from '../../pipes/duration-nsec.pipe';
+
+import {EtaBannerComponent} from './eta-banner.component';
+
+const NSEC_PER_MSEC = 10 ** 6;
+const NSEC_PER_MINUTE = 60 * 1000 * NSEC_PER_MSEC;
+
+function pushInTimeRange(
+    pushHandle: string, startNsec: number,
+    endNsec: number): step189_2020.IPushInfo {
+  return {
+    pushHandle,
+    stateInfo: [
+      {stage: 'build', state: 3, startTimeNsec: startNsec},
+      {stage: 'build', state: 5, startTimeNsec: endNsec},
+    ],
+  };
+}
+
+describe('EtaBannerComponent', () => {
+  let component: EtaBannerComponent;
+  let fixture: ComponentFixture<EtaBannerComponent>;
+
+  beforeEach(async(() => {
+    TestBed
+        .configureTestingModule({
+          declarations: [DateNsecPipe, DurationNsecPipe, EtaBannerComponent]
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(EtaBannerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should predict again as the push keeps running', fakeAsync(() => {
+       const nowNsec = Date.now() * NSEC_PER_MSEC;
+       // Pushes that took 100 minutes, the last one ending 100 minutes ago.
+       const pushInfos = [1, 2, 3, 4, 5].map(
+           i => pushInTimeRange(
+               `a/@${i}`, nowNsec - (i + 1) * 100 * NSEC_PER_MINUTE,
+               nowNsec - i * 100 * NSEC_PER_MINUTE));
+       component.pushInfos = pushInfos;
+       component.currentPush = {
+         pushHandle: 'a/@6',
+         stateInfo: [{
+           stage: 'build',
+           state: 3,
+           startTimeNsec: nowNsec - 10 * NSEC_PER_MINUTE,
+         }],
+       };
+       component.ngOnChanges();
+       const remaining = () => component.prediction &&
+           Math.round(component.prediction.p50 / NSEC_PER_MINUTE);
+       expect(remaining()).toBe(90);
+
+       tick(60 * 1000);
+       expect(remaining()).toBe(89);
+
+       component.ngOnDestroy();
+     }));
+});
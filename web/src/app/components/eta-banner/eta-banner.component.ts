@@ -0,0 +1,99 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component, Input, OnChanges, OnDestroy} from '@angular/core';
+import {interval, Subscription} from 'rxjs';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {DurationPrediction, predictDuration} from '../prediction';
+import {isTerminalState} from '../states';
+
+const NSEC_PER_MSEC = 10 ** 6;
+
+// How often the prediction is made again while the push is running.
+const REFRESH_MSEC = 60 * 1000;
+
+/**
+ * Shows when a running push is expected to complete, predicted from the
+ * completed pushes of its push def. The prediction is made again every minute
+ * while the push is running, as it gets older.
+ */
+@Component({
+  selector: 'app-eta-banner',
+  templateUrl: './eta-banner.component.html',
+  styleUrls: ['./eta-banner.component.scss']
+})
+export class EtaBannerComponent implements OnChanges, OnDestroy {
+  // All the pushes of the push def, whatever the filter of the page.
+  @Input() pushInfos!: step189_2020.IPushInfo[]|null;
+  @Input() currentPush!: step189_2020.IPushInfo|null;
+
+  running = false;
+  prediction: DurationPrediction|undefined;
+  private nowNsec = 0;
+  private refreshSubscription: Subscription|null = null;
+
+  ngOnChanges(): void {
+    this.predict();
+    if (this.running && !this.refreshSubscription) {
+      this.refreshSubscription =
+          interval(REFRESH_MSEC).subscribe(() => this.predict());
+    } else if (!this.running) {
+      this.stopRefresh();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.stopRefresh();
+  }
+
+  /**
+   * Returns the time at which the push completes if it has the given
+   * remaining time.
+   *
+   * @param remainingNsec Remaining time of the push, in nanoseconds
+   */
+  completionNsec(remainingNsec: number): number {
+    return this.nowNsec + remainingNsec;
+  }
+
+  /**
+   * Predicts the completion of the current push as of now.
+   */
+  private predict(): void {
+    this.nowNsec = Date.now() * NSEC_PER_MSEC;
+    this.running = false;
+    this.prediction = undefined;
+    if (!this.pushInfos || !this.currentPush) {
+      return;
+    }
+    const states = this.currentPush.stateInfo;
+    if (!states || !states.length ||
+        isTerminalState(states[states.length - 1].state || 0)) {
+      return;
+    }
+    this.running = true;
+    this.prediction =
+        predictDuration(this.pushInfos, this.currentPush, this.nowNsec);
+  }
+
+  private stopRefresh(): void {
+    if (this.refreshSubscription) {
+      this.refreshSubscription.unsubscribe();
+      this.refreshSubscription = null;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component, Input} from '@angular/core';
+
+import {downloadCsv, downloadFile, standaloneSvg, svgToPng} from '../export-utils';
+
+/**
+ * Menu that saves a chart as an SVG or PNG image and the data it draws as a
+ * CSV or JSON file, e.g. to paste them into a postmortem.
+ */
+@Component({
+  selector: 'app-export-menu',
+  templateUrl: './export-menu.component.html',
+  styleUrls: ['./export-menu.component.scss']
+})
+export class ExportMenuComponent {
+  // Element that holds the SVG of the chart, and its canvases if any.
+  @Input() chart!: HTMLElement;
+  // Items drawn by the chart.
+  @Input() data!: object[];
+  // Name of the exported files, without extension.
+  @Input() fileName!: string;
+
+  readonly scales = [1, 2, 3, 4];
+  scale = 2;
+  error = '';
+
+  exportSvg(): void {
+    const svg = this.findSvg();
+    if (svg) {
+      downloadFile(
+          new Blob(
+              [standaloneSvg(svg, this.findCanvases())],
+              {type: 'image/svg+xml'}),
+          `${this.fileName}.svg`);
+    }
+  }
+
+  exportPng(): void {
+    const svg = this.findSvg();
+    if (!svg) {
+      return;
+    }
+    svgToPng(svg, this.scale, this.findCanvases())
+        .subscribe(
+            blob => downloadFile(blob, `${this.fileName}.png`),
+            (error: Error) => {
+              this.error = `Could not export the chart: ${error.message}`;
+            });
+  }
+
+  exportCsv(): void {
+    downloadCsv(this.data, this.fileName);
+  }
+
+  exportJson(): void {
+    downloadFile(
+        new Blob(
+            [JSON.stringify(this.data, null, 2)], {type: 'application/json'}),
+        `${this.fileName}.json`);
+  }
+
+  /**
+   * Returns the SVG of the chart, or null with an error message if the chart
+   * was not drawn.
+   */
+  private findSvg(): SVGSVGElement|null {
+    this.error = '';
+    const svg = this.chart.querySelector('svg');
+    if (!svg) {
+      this.error = 'The chart has nothing to export.';
+    }
+    return svg;
+  }
+
+  /**
+   * Returns the canvases drawn under the SVG of the chart.
+   */
+  private findCanvases(): HTMLCanvasElement[] {
+    return Array.from(this.chart.querySelectorAll('canvas'));
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {toCsv} from './export-utils';
+
+describe('toCsv', () => {
+  it('should write a header line and one line per row', () => {
+    const rows = [
+      {pushID: '1', durationMinutes: 30, state: 'Completed'},
+      {pushID: '2', durationMinutes: 45.5, state: 'Failed'},
+    ];
+
+    expect(toCsv(rows))
+        .toBe(
+            'pushID,durationMinutes,state\r\n' +
+            '1,30,Completed\r\n' +
+            '2,45.5,Failed\r\n');
+  });
+
+  it('should quote commas, quotes and line breaks', () => {
+    const rows = [
+      {value: 'a,b'},
+      {value: 'say "hi"'},
+      {value: 'two\nlines'},
+      {value: 'carriage\rreturn'},
+      {value: 'plain'},
+    ];
+
+    expect(toCsv(rows))
+        .toBe(
+            'value\r\n' +
+            '"a,b"\r\n' +
+            '"say ""hi"""\r\n' +
+            '"two\nlines"\r\n' +
+            '"carriage\rreturn"\r\n' +
+            'plain\r\n');
+  });
+
+  it('should write missing values as empty fields', () => {
+    const rows = [{a: null, b: undefined, c: 0, d: ''}];
+
+    expect(toCsv(rows)).toBe('a,b,c,d\r\n,,0,\r\n');
+  });
+
+  it('should follow the order of the given columns', () => {
+    const rows = [{a: 1, b: 2, c: 3}, {c: 6, a: 4}];
+
+    expect(toCsv(rows, ['c', 'a'])).toBe('c,a\r\n3,1\r\n6,4\r\n');
+    // Without columns, the keys of the first row are used for all the rows.
+    expect(toCsv([{a: 4, b: 5}, {b: 7, a: 6, c: 8}]))
+        .toBe('a,b\r\n4,5\r\n6,7\r\n');
+  });
+
+  it('should quote the column names like the values', () => {
+    expect(toCsv([{'Push, ID': '1'}])).toBe('"Push, ID"\r\n1\r\n');
+  });
+
+  it('should only write the header without rows', () => {
+    expect(toCsv([], ['a', 'b'])).toBe('a,b\r\n');
+    expect(toCsv([])).toBe('\r\n');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Observable} from 'rxjs';
+
+// Style properties copied onto every element of an exported SVG. Without them
+// the SVG would lose the styles set by the stylesheets of the page.
+const INLINED_STYLES = [
+  'color',
+  'display',
+  'dominant-baseline',
+  'fill',
+  'fill-opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'opacity',
+  'shape-rendering',
+  'stroke',
+  'stroke-dasharray',
+  'stroke-opacity',
+  'stroke-width',
+  'text-anchor',
+  'visibility',
+];
+
+/**
+ * Serializes an SVG element of the page as a standalone SVG document, with
+ * the computed styles of its elements inlined so that it looks the same
+ * outside of the page. The canvases a chart draws under its SVG are added as
+ * images at the same positions.
+ *
+ * @param svg SVG element drawn by a chart
+ * @param canvases Canvases drawn under the SVG, e.g. for large charts
+ */
+export function standaloneSvg(
+    svg: SVGSVGElement, canvases: HTMLCanvasElement[] = []): string {
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...Array.from(svg.querySelectorAll('*'))];
+  const copies = [copy, ...Array.from(copy.querySelectorAll('*'))];
+  originals.forEach((original, i) => {
+    const computed = window.getComputedStyle(original);
+    const style = (copies[i] as SVGElement).style;
+    INLINED_STYLES.forEach(property => {
+      style.setProperty(property, computed.getPropertyValue(property));
+    });
+  });
+
+  const {left, top, width, height} = svg.getBoundingClientRect();
+  canvases.slice().reverse().forEach(canvas => {
+    const bounds = canvas.getBoundingClientRect();
+    const image =
+        document.createElementNS('http://www.w3.org/2000/svg', 'image');
+    image.setAttribute('href', canvas.toDataURL('image/png'));
+    image.setAttribute('x', `${bounds.left - left}`);
+    image.setAttribute('y', `${bounds.top - top}`);
+    image.setAttribute('width', `${bounds.width}`);
+    image.setAttribute('height', `${bounds.height}`);
+    copy.insertBefore(image, copy.firstChild);
+  });
+  copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  copy.setAttribute('width', `${width}`);
+  copy.setAttribute('height', `${height}`);
+  copy.style.setProperty('background', 'white');
+  return new XMLSerializer().serializeToString(copy);
+}
+
+/**
+ * Renders an SVG element of the page as a PNG image on a white background.
+ *
+ * @param svg SVG element drawn by a chart
+ * @param scale Number of pixels of the image per pixel of the chart
+ * @param canvases Canvases drawn under the SVG, e.g. for large charts
+ */
+export function svgToPng(
+    svg: SVGSVGElement, scale: number,
+    canvases: HTMLCanvasElement[] = []): Observable<Blob> {
+  return new Observable<Blob>(observer => {
+    const {width, height} = svg.getBoundingClientRect();
+    const url = URL.createObjectURL(
+        new Blob([standaloneSvg(svg, canvases)], {type: 'image/svg+xml'}));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        observer.error(new Error('Canvas rendering is not supported'));
+        return;
+      }
+      context.fillStyle = 'white';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(blob => {
+        if (blob) {
+          observer.next(blob);
+          observer.complete();
+        } else {
+          observer.error(new Error('The chart could not be rendered as PNG'));
+        }
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      observer.error(new Error('The chart could not be rendered as PNG'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Formats rows as CSV, with a header line. The columns are the keys of the
+ * first row unless given. Values with commas, quotes or line breaks are quoted.
+ *
+ * @param rows Rows to export, e.g. the items of a chart
+ * @param columns Columns to export, in order
+ */
+export function toCsv(rows: object[], columns?: string[]): string {
+  const header = columns || (rows.length ? Object.keys(rows[0]) : []);
+  const escape = (value: unknown) => {
+    const text = value === null || value === undefined ? '' : `${value}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [header.map(escape).join(',')];
+  rows.forEach(row => {
+    const values = row as {[column: string]: unknown};
+    lines.push(header.map(column => escape(values[column])).join(','));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Makes the browser save a file.
+ *
+ * @param data Content of the file
+ * @param fileName Name the file is saved under, e.g. 'timeline.svg'
+ */
+export function downloadFile(data: Blob, fileName: string): void {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Saves rows as a CSV file.
+ *
+ * @param rows Rows to export
+ * @param fileName Name of the file without extension
+ * @param columns Columns to export, in order
+ */
+export function downloadCsv(
+    rows: object[], fileName: string, columns?: string[]): void {
+  downloadFile(
+      new Blob([toCsv(rows, columns)], {type: 'text/csv'}), `${fileName}.csv`);
+}
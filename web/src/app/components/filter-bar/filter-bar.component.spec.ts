@@ -0,0 +1,76 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SimpleChange} from '@angular/core';
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {FormsModule} from '@angular/forms';
+
+import {step189_2020} from '../../../proto/step189_2020';
+
+import {FilterBarComponent} from './filter-bar.component';
+
+describe('FilterBarComponent', () => {
+  let component: FilterBarComponent;
+  let fixture: ComponentFixture<FilterBarComponent>;
+
+  beforeEach(async(() => {
+    TestBed
+        .configureTestingModule({
+          declarations: [FilterBarComponent],
+          imports: [FormsModule],
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(FilterBarComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should keep the draft when only the pushes change', () => {
+    const pushInfos: step189_2020.IPushInfo[] = [
+      {pushHandle: 'abc/@1', stateInfo: [{stage: 'deploy'}, {stage: 'build'}]},
+    ];
+    component.draft.pushID = '2020';
+    component.pushInfos = pushInfos;
+    component.ngOnChanges(
+        {pushInfos: new SimpleChange([], pushInfos, false)});
+
+    expect(component.draft.pushID).toBe('2020');
+    expect(component.stages).toEqual(['build', 'deploy']);
+
+    const updated = [{pushHandle: 'abc/@2', stateInfo: [{stage: 'test'}]}];
+    component.pushInfos = [...updated, ...pushInfos];
+    component.ngOnChanges(
+        {pushInfos: new SimpleChange(pushInfos, component.pushInfos, false)});
+    expect(component.stages).toEqual(['build', 'deploy', 'test']);
+  });
+
+  it('should reset the draft when the filter changes', () => {
+    component.draft.pushID = '2020';
+    component.filter = {categories: ['failed']};
+    component.ngOnChanges(
+        {filter: new SimpleChange(null, component.filter, false)});
+
+    expect(component.draft).toEqual({categories: ['failed']});
+    expect(component.draft.categories).not.toBe(component.filter.categories);
+  });
+});
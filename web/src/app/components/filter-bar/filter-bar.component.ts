@@ -0,0 +1,111 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component, EventEmitter, Input, OnChanges, Output, SimpleChanges} from '@angular/core';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {EMPTY_FILTER, PushFilter, stageNames} from '../push-filter';
+import {categoryMetadata, STATE_CATEGORIES, StateCategory} from '../states';
+
+/**
+ * Edits the filter shared by the charts and the tables of a page. The changes
+ * are only emitted when the user applies them, since all the charts are
+ * redrawn for each new filter.
+ */
+@Component({
+  selector: 'app-filter-bar',
+  templateUrl: './filter-bar.component.html',
+  styleUrls: ['./filter-bar.component.scss']
+})
+export class FilterBarComponent implements OnChanges {
+  @Input() filter: PushFilter|null = EMPTY_FILTER;
+  // All the pushes of the page, to suggest the stage names.
+  @Input() pushInfos: step189_2020.IPushInfo[]|null = [];
+  @Output() readonly filterChange = new EventEmitter<PushFilter>();
+
+  readonly categories = STATE_CATEGORIES.map(
+      category => ({category, ...categoryMetadata(category)}));
+  draft: PushFilter = {...EMPTY_FILTER};
+  stages: string[] = [];
+  // Stage names of each push. The live updates replace only the pushes that
+  // changed, so the others are not scanned again.
+  private readonly stagesByPush =
+      new WeakMap<step189_2020.IPushInfo, string[]>();
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // The pushes change with each live update, which must not discard the
+    // edits that were not applied yet.
+    if (changes.filter) {
+      this.draft = {...(this.filter || EMPTY_FILTER)};
+      this.draft.categories = Array.from(this.draft.categories);
+    }
+    if (changes.pushInfos) {
+      this.stages = this.stageNames(this.pushInfos || []);
+    }
+  }
+
+  hasCategory(category: StateCategory): boolean {
+    return this.draft.categories.includes(category);
+  }
+
+  toggleCategory(category: StateCategory): void {
+    this.draft.categories = this.hasCategory(category) ?
+        this.draft.categories.filter(c => c !== category) :
+        STATE_CATEGORIES.filter(c => c === category || this.hasCategory(c));
+  }
+
+  /**
+   * Emits the edited filter. The emptied fields of the form are null, or an
+   * empty string for the text fields, so they are unset.
+   */
+  apply(): void {
+    const unsetIfEmpty = <T extends string|number>(value: T|null|undefined) =>
+        value === null || value === '' ? undefined : value;
+    this.filterChange.emit({
+      startDate: unsetIfEmpty(this.draft.startDate),
+      endDate: unsetIfEmpty(this.draft.endDate),
+      categories: this.draft.categories,
+      minDurationMinutes: unsetIfEmpty(this.draft.minDurationMinutes),
+      maxDurationMinutes: unsetIfEmpty(this.draft.maxDurationMinutes),
+      stage: unsetIfEmpty(this.draft.stage),
+      minAttempts: unsetIfEmpty(this.draft.minAttempts),
+      pushID: unsetIfEmpty(this.draft.pushID),
+    });
+  }
+
+  clear(): void {
+    this.filterChange.emit({...EMPTY_FILTER});
+  }
+
+  /**
+   * Lists the stage names of the pushes, reusing the ones of the pushes that
+   * were already scanned.
+   *
+   * @param pushInfos All the pushes of the page
+   */
+  private stageNames(pushInfos: step189_2020.IPushInfo[]): string[] {
+    const names = new Set<string>();
+    pushInfos.forEach(pushInfo => {
+      let pushStages = this.stagesByPush.get(pushInfo);
+      if (!pushStages) {
+        pushStages = stageNames([pushInfo]);
+        this.stagesByPush.set(pushInfo, pushStages);
+      }
+      pushStages.forEach(stage => names.add(stage));
+    });
+    return Array.from(names).sort();
+  }
+}
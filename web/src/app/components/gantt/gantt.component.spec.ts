@@ -0,0 +1,61 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+
+import {samplePushInfos} from '../../../testing/sample-pushes';
+
+import {GanttComponent} from './gantt.component';
+
+describe('GanttComponent', () => {
+  let component: GanttComponent;
+  let fixture: ComponentFixture<GanttComponent>;
+
+  beforeEach(async(() => {
+    TestBed.configureTestingModule({declarations: [GanttComponent]})
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(GanttComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should clip each chart with its own clip path', () => {
+    const other = TestBed.createComponent(GanttComponent);
+    other.detectChanges();
+    const [first, second] = samplePushInfos(2);
+    component.pushInfo = first;
+    component.ngOnChanges();
+    other.componentInstance.pushInfo = second;
+    other.componentInstance.ngOnChanges();
+
+    const clipIds = [fixture, other].map(f => {
+      const element: HTMLElement = f.nativeElement;
+      const clipPath = element.querySelector('clipPath');
+      const chart = element.querySelector('g[clip-path]');
+      expect(chart && chart.getAttribute('clip-path'))
+          .toBe(`url(#${clipPath && clipPath.id})`);
+      return clipPath && clipPath.id;
+    });
+    expect(clipIds[0]).not.toBe(clipIds[1]);
+  });
+});
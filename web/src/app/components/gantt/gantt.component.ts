@@ -0,0 +1,285 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AfterViewInit, Component, ElementRef, Input, OnChanges, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {DateNsecPipe} from '../../pipes/date-nsec.pipe';
+import {DARK_GRAY, MED_GRAY} from '../colors';
+import {formatDuration} from '../duration-utils';
+import {StageSegment, stageSegments} from '../stage-utils';
+import {stateColor, stateLabel} from '../states';
+import {styleTooltip} from '../tooltip-utils';
+
+/**
+ * StateItem holds one state of the push, drawn as a part of the segment of
+ * its stage attempt.
+ */
+interface StateItem {
+  lane: string;           // Label of the lane of the stage
+  segment: StageSegment;  // Attempt of the stage the state belongs to
+  state: number;          // Tag of the state
+  startNsec: number;      // Start time of the state
+  endNsec: number;        // Start time of the next state
+}
+
+type d3SVG = d3.Selection<SVGSVGElement, unknown, null, undefined>;
+
+// Lane of the states that don't belong to a stage.
+const NO_STAGE_LANE = '(no stage)';
+
+/**
+ * Gantt chart of a single push: one lane per stage and one segment per
+ * attempt of the stage. Each segment is split into its states, colored by
+ * state, with a marker at every state transition. The chart can be zoomed and
+ * panned along the time axis.
+ */
+@Component({
+  selector: 'app-gantt',
+  templateUrl: './gantt.component.html',
+  styleUrls: ['./gantt.component.scss']
+})
+export class GanttComponent implements AfterViewInit, OnChanges {
+  private static readonly LANE_HEIGHT = 24;
+  private static readonly LABEL_LENGTH = 16;
+  private static readonly MIN_ZOOM_MSEC = 1000;
+  private static readonly NSEC_PER_MSEC = 10 ** 6;
+  private static readonly MARGIN = {top: 10, right: 30, bottom: 40, left: 150};
+  // Counter of the charts, so that each one has its own clip path.
+  private static nextClipId = 0;
+
+  @ViewChild('gantt') private container!: ElementRef;
+  @Input() pushInfo!: step189_2020.IPushInfo|null;
+
+  private readonly datePipe = new DateNsecPipe();
+  // IDs are global to the page, which may show more than one chart.
+  private readonly clipId = `gantt-clip-${GanttComponent.nextClipId++}`;
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    // The first change comes before the view exists.
+    if (this.container) {
+      this.render();
+    }
+  }
+
+  /**
+   * Composes the content of the tooltip of a state.
+   *
+   * @param d The hovered state
+   */
+  private getTooltipContent(d: StateItem): string {
+    const segment = d.segment;
+    return `<b>Stage: ${segment.stage || NO_STAGE_LANE}</b>
+      <br/>
+      <b>Attempt: ${segment.attempt}</b>
+      <br/>
+      <b>State: ${stateLabel(d.state)}</b>
+      <br/>
+      <b>Start: ${this.datePipe.transform(d.startNsec)}</b>
+      <br/>
+      <b>End: ${this.datePipe.transform(d.endNsec)}</b>
+      <br/>
+      <b>Duration: ${formatDuration(d.endNsec - d.startNsec)}</b>
+      <br/>
+      <b>Attempt duration: ${
+        formatDuration(segment.endNsec - segment.startNsec)}</b>
+      `;
+  }
+
+  /**
+   * Draws the chart from scratch.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <text class='lane-label'></text>  // One per stage
+   *   <clipPath id='gantt-clip-N'></clipPath>  // N is unique to the chart
+   *   <g clip-path='url(#gantt-clip-N)'>
+   *     <rect class='state'></rect>         // One per state
+   *     <rect class='segment'></rect>       // One per stage attempt
+   *     <line class='transition'></line>    // One per state
+   *   </g>
+   *   <rect class='zoom-area'></rect>
+   * </svg>
+   */
+  private render(): void {
+    const element = this.container.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    if (!this.pushInfo) {
+      return;
+    }
+
+    const segments = stageSegments(this.pushInfo, true);
+    const items: StateItem[] = [];
+    segments.forEach(segment => {
+      segment.states.forEach((state, i) => {
+        const next = segment.startsNsec[i + 1];
+        items.push({
+          lane: segment.stage || NO_STAGE_LANE,
+          segment,
+          state,
+          startNsec: segment.startsNsec[i],
+          endNsec: next === undefined ? segment.endNsec : next,
+        });
+      });
+    });
+    if (!items.length) {
+      return;
+    }
+
+    const margin = GanttComponent.MARGIN;
+    const lanes = Array.from(new Set(items.map(d => d.lane)));
+    const width = element.clientWidth;
+    const height =
+        margin.top + margin.bottom + lanes.length * GanttComponent.LANE_HEIGHT;
+    const toDate = (nsec: number) =>
+        new Date(nsec / GanttComponent.NSEC_PER_MSEC);
+
+    const start = d3.min(segments, d => d.startNsec) || 0;
+    const end = d3.max(segments, d => d.endNsec) || 0;
+    const x = d3.scaleTime()
+                  .domain([toDate(start), toDate(end)])
+                  .range([margin.left, width - margin.right]);
+    let zoomedX = x;
+    const y = d3.scaleBand()
+                  .domain(lanes)
+                  .range([margin.top, height - margin.bottom])
+                  .padding(0.2);
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    const xAxis = svg.append('g')
+                      .attr('class', 'x-axis')
+                      .attr('transform', `translate(0, ${height - margin.bottom})`);
+    const drawAxis = () => {
+      xAxis.call(d3.axisBottom(zoomedX).tickSize(
+                     -(height - margin.top - margin.bottom)))
+          .selectAll('line')
+          .style('stroke', MED_GRAY);
+      xAxis.select('.domain').remove();
+    };
+    drawAxis();
+
+    svg.selectAll('.lane-label')
+        .data(lanes)
+        .enter()
+        .append('text')
+        .attr('class', 'lane-label')
+        .attr('x', margin.left - 10)
+        .attr('y', d => (y(d) || 0) + y.bandwidth() / 2)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'end')
+        .style('font', '11px monospace')
+        .text(d => {
+          const maxLength = GanttComponent.LABEL_LENGTH;
+          return d.length > maxLength ? `${d.slice(0, maxLength - 1)}…` : d;
+        })
+        .append('title')
+        .text(d => d);
+
+    svg.append('clipPath')
+        .attr('id', this.clipId)
+        .append('rect')
+        .attr('x', margin.left)
+        .attr('y', 0)
+        .attr('width', width - margin.left - margin.right)
+        .attr('height', height);
+    const chart = svg.append('g').attr('clip-path', `url(#${this.clipId})`);
+
+    const tooltipDiv = document.createElement('div');
+    const tooltip = d3.select(tooltipDiv).call(styleTooltip);
+    element.appendChild(tooltipDiv);
+
+    const states =
+        chart.selectAll('.state')
+            .data(items)
+            .enter()
+            .append('rect')
+            .attr('class', 'state pointer')
+            .attr('y', d => y(d.lane) || 0)
+            .attr('height', y.bandwidth())
+            .attr('fill', d => stateColor(d.state))
+            .on('mouseover',
+                (d: StateItem) => {
+                  d3.select(d3.event.currentTarget).attr('opacity', 0.7);
+                  const [mouseX, mouseY] = d3.mouse(element);
+                  tooltip.html(this.getTooltipContent(d))
+                      .style('left', `${mouseX + 10}px`)
+                      .style('top', `${mouseY + 10}px`)
+                      .style('opacity', 1);
+                })
+            .on('mouseleave', () => {
+              d3.select(d3.event.currentTarget).attr('opacity', 1);
+              tooltip.style('opacity', 0);
+            });
+
+    // The outline of each attempt, drawn over its states.
+    const outlines = chart.selectAll('.segment')
+                         .data(segments)
+                         .enter()
+                         .append('rect')
+                         .attr('class', 'segment')
+                         .attr('y', d => y(d.stage || NO_STAGE_LANE) || 0)
+                         .attr('height', y.bandwidth())
+                         .attr('fill', 'none')
+                         .attr('stroke', DARK_GRAY)
+                         .style('pointer-events', 'none');
+
+    const transitions =
+        chart.selectAll('.transition')
+            .data(items)
+            .enter()
+            .append('line')
+            .attr('class', 'transition')
+            .attr('y1', d => (y(d.lane) || 0) - 3)
+            .attr('y2', d => (y(d.lane) || 0) + y.bandwidth() + 3)
+            .attr('stroke', 'black')
+            .style('pointer-events', 'none');
+
+    const position = () => {
+      const xNsec = (nsec: number) => zoomedX(toDate(nsec));
+      const widthOf = (d: {startNsec: number, endNsec: number}) =>
+          Math.max(1, xNsec(d.endNsec) - xNsec(d.startNsec));
+      states.attr('x', d => xNsec(d.startNsec)).attr('width', widthOf);
+      outlines.attr('x', d => xNsec(d.startNsec)).attr('width', widthOf);
+      transitions.attr('x1', d => xNsec(d.startNsec))
+          .attr('x2', d => xNsec(d.startNsec));
+    };
+    position();
+
+    const extent: [[number, number], [number, number]] =
+        [[margin.left, 0], [width - margin.right, height]];
+    const maxZoom =
+        Math.max(1, (end - start) / GanttComponent.NSEC_PER_MSEC /
+                 GanttComponent.MIN_ZOOM_MSEC);
+    svg.call(d3.zoom<SVGSVGElement, unknown>()
+                 .scaleExtent([1, maxZoom])
+                 .translateExtent(extent)
+                 .extent(extent)
+                 .on('zoom', () => {
+                   zoomedX = d3.event.transform.rescaleX(x);
+                   drawAxis();
+                   position();
+                 }));
+  }
+}
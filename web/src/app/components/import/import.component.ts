@@ -0,0 +1,89 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+import {Router} from '@angular/router';
+
+import {ACCEPTED_EXTENSIONS, FileDataSource} from '../../data-sources/file-data-source';
+import {PushDataService} from '../../services/push-data.service';
+
+/**
+ * Drop zone and file picker for PushInfos files that are not available from
+ * the configured backend, e.g. a dump taken during an incident. The file is
+ * decoded in the browser, registered as a push def for the rest of the session
+ * and opened in the all-pushes page.
+ */
+@Component({
+  selector: 'app-import',
+  templateUrl: './import.component.html',
+  styleUrls: ['./import.component.scss']
+})
+export class ImportComponent {
+  readonly accept = ACCEPTED_EXTENSIONS;
+  isDragging = false;
+  error = '';
+
+  constructor(
+      private readonly files: FileDataSource,
+      private readonly pushData: PushDataService,
+      private readonly router: Router) {}
+
+  onDragOver(event: DragEvent): void {
+    // Without this the browser opens the dropped file instead.
+    event.preventDefault();
+    this.isDragging = true;
+  }
+
+  onDragLeave(): void {
+    this.isDragging = false;
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragging = false;
+    if (event.dataTransfer && event.dataTransfer.files.length) {
+      this.importFile(event.dataTransfer.files[0]);
+    }
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files && input.files.length) {
+      this.importFile(input.files[0]);
+    }
+    // Allow selecting the same file again.
+    input.value = '';
+  }
+
+  /**
+   * Decodes the file, registers its pushes and navigates to the all-pushes
+   * page of the push def.
+   *
+   * @param file A PushInfos file in the binary, JSON or text format
+   */
+  importFile(file: File): void {
+    this.error = '';
+    this.files.addFile(file).subscribe(
+        pushDefName => {
+          // Drop any cached data for a push def with the same name.
+          this.pushData.invalidate(pushDefName);
+          this.router.navigateByUrl(`/${pushDefName}`);
+        },
+        (error: Error) => {
+          this.error = `Could not import ${file.name}: ${error.message}`;
+        });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as d3 from 'd3';
+
+import {PushSelection} from '../services/push-selection.service';
+
+/**
+ * Makes the SVG of a chart reachable with the Tab key, and describes it and
+ * the keys that walk through its items to screen readers.
+ *
+ * @param svg SVG of the chart
+ * @param label Name of the chart, followed by how to use it
+ */
+export function makeFocusable<Datum>(
+    svg: d3.Selection<SVGSVGElement, Datum, null, undefined>,
+    label: string): void {
+  svg.attr('tabindex', 0)
+      .attr('role', 'application')
+      .attr('aria-label', label)
+      .style('outline-offset', '-2px');
+}
+
+/**
+ * Returns the index of the item of a chart to move to after a key is pressed:
+ * the left and right arrow keys move to the previous and the next item, and
+ * Home and End to the first and the last one.
+ *
+ * @param key Key of the keyboard event
+ * @param index Index of the active item, or -1 if there is none
+ * @param length Number of items
+ * @return The new index, or null if the key doesn't move to another item
+ */
+export function stepIndex(key: string, index: number, length: number): number|
+    null {
+  if (!length) {
+    return null;
+  }
+  switch (key) {
+    case 'ArrowLeft':
+      return index < 0 ? 0 : Math.max(index - 1, 0);
+    case 'ArrowRight':
+      return Math.min(index + 1, length - 1);
+    case 'Home':
+      return 0;
+    case 'End':
+      return length - 1;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns whether a key selects the active item of a chart, like clicking on
+ * it does.
+ *
+ * @param key Key of the keyboard event
+ */
+export function isSelectKey(key: string): boolean {
+  return key === 'Enter' || key === ' ';
+}
+
+/**
+ * Returns the announcement of a push selected or unselected with the
+ * keyboard.
+ *
+ * @param pushHandle Push handle of the active item
+ * @param selection Selection shared by the charts, after the key was pressed
+ */
+export function selectionAnnouncement(
+    pushHandle: string, selection: PushSelection): string {
+  return selection.selectedHandle === pushHandle ?
+      `Selected push ${pushHandle}` :
+      `Unselected push ${pushHandle}`;
+}
+
+/**
+ * Returns the text of a tooltip as a single line, to be announced by screen
+ * readers.
+ *
+ * @param tooltip Element of the tooltip, if any
+ */
+export function announcement(tooltip: HTMLElement|null|undefined): string {
+  return tooltip ? (tooltip.textContent || '').replace(/\s+/g, ' ').trim() :
+                   '';
+}
@@ -0,0 +1,51 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Component, Input} from '@angular/core';
+import {Observable} from 'rxjs';
+
+import {PushWorkerService} from '../../services/push-worker.service';
+import {LoadProgress} from '../../workers/push-data';
+
+/**
+ * Shows what the push data worker is doing while a page waits for its data,
+ * with a bar that fills up as the pushes are decoded.
+ */
+@Component({
+  selector: 'app-loading-indicator',
+  templateUrl: './loading-indicator.component.html',
+  styleUrls: ['./loading-indicator.component.scss']
+})
+export class LoadingIndicatorComponent {
+  // Shown until the worker reports its progress.
+  @Input() label = 'Loading pushes...';
+
+  readonly progress: Observable<LoadProgress|null>;
+
+  constructor(pushWorker: PushWorkerService) {
+    this.progress = pushWorker.progress;
+  }
+
+  /**
+   * Returns the done part of the stage, in percent.
+   *
+   * @param progress Progress reported by the worker
+   */
+  percent(progress: LoadProgress): number {
+    return Math.round(progress.fraction * 100);
+  }
+}
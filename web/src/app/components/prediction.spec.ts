@@ -0,0 +1,118 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {MIN_STAGE_SAMPLES, predictDuration} from './prediction';
+
+const NSEC_PER_MIN = 60 * 10 ** 9;
+const NOW_NSEC = 1000 * NSEC_PER_MIN;
+
+// Builds a push from its states, as [stage, start in minutes, state].
+function push(
+    pushHandle: string,
+    states: Array<[string, number, number]>): step189_2020.IPushInfo {
+  return {
+    pushHandle,
+    stateInfo: states.map(
+        ([stage, startMinutes, state]) =>
+            ({stage, state, startTimeNsec: startMinutes * NSEC_PER_MIN})),
+  };
+}
+
+// A completed push that spent 20 minutes in the build stage and then some
+// minutes in the test stage.
+function completedPush(id: number, testMinutes: number):
+    step189_2020.IPushInfo {
+  return push(`a/@${id}`, [
+    ['build', 100, 13],
+    ['test', 120, 13],
+    ['test', 120 + testMinutes, 5],
+  ]);
+}
+
+// The push to predict has run for 15 minutes, the last 5 of them in the test
+// stage.
+const RUNNING = push('a/@0', [
+  ['build', 985, 13],
+  ['test', 995, 13],
+]);
+
+describe('predictDuration', () => {
+  it('should use the pushes that reached the current stage', () => {
+    const pushInfos = [20, 30, 40, 50, 60].map(
+        (testMinutes, i) => completedPush(i + 1, testMinutes));
+    const prediction = predictDuration(
+        [RUNNING, ...pushInfos], RUNNING, NOW_NSEC);
+
+    expect(prediction).toBeDefined();
+    if (!prediction) {
+      return;
+    }
+    expect(prediction.basis).toBe('stage');
+    expect(prediction.stage).toBe('test');
+    expect(prediction.samples).toBe(MIN_STAGE_SAMPLES);
+    expect(prediction.startNsec).toBe(985 * NSEC_PER_MIN);
+    expect(prediction.elapsedNsec).toBe(15 * NSEC_PER_MIN);
+    // The 5 minutes already spent in the stage are not remaining.
+    expect(prediction.p50).toBe(35 * NSEC_PER_MIN);
+    expect(prediction.p10).toBeLessThan(prediction.p50);
+    expect(prediction.p90).toBeGreaterThan(prediction.p50);
+  });
+
+  it('should use the elapsed time without enough pushes in the stage', () => {
+    const pushInfos = [20, 30, 40, 50].map(
+        (testMinutes, i) => completedPush(i + 1, testMinutes));
+    const prediction = predictDuration(pushInfos, RUNNING, NOW_NSEC);
+
+    expect(prediction).toBeDefined();
+    if (!prediction) {
+      return;
+    }
+    expect(prediction.basis).toBe('elapsed');
+    expect(prediction.samples).toBe(MIN_STAGE_SAMPLES - 1);
+    // The pushes took 40 to 70 minutes, 15 of which have elapsed.
+    expect(prediction.p50).toBe(40 * NSEC_PER_MIN);
+  });
+
+  it('should ignore the failed pushes and the push itself', () => {
+    const failed = push('a/@9', [['build', 100, 13], ['test', 120, 6]]);
+    const prediction = predictDuration(
+        [RUNNING, failed, completedPush(1, 30)], RUNNING, NOW_NSEC);
+
+    expect(prediction && prediction.samples).toBe(1);
+  });
+
+  it('should not predict pushes that are done', () => {
+    const done = completedPush(1, 30);
+
+    expect(predictDuration([done, completedPush(2, 30)], done, NOW_NSEC))
+        .toBeUndefined();
+  });
+
+  it('should not predict pushes without states', () => {
+    expect(predictDuration(
+               [completedPush(1, 30)], {pushHandle: 'a/@0'}, NOW_NSEC))
+        .toBeUndefined();
+  });
+
+  it('should not predict without a past push that took longer', () => {
+    expect(predictDuration([RUNNING], RUNNING, NOW_NSEC)).toBeUndefined();
+    const shortPush = push('a/@1', [['build', 100, 13], ['build', 110, 5]]);
+    expect(predictDuration([shortPush], RUNNING, NOW_NSEC)).toBeUndefined();
+  });
+});
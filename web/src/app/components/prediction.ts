@@ -0,0 +1,134 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {findDuration} from './duration-utils';
+import {stageSegments} from './stage-utils';
+import {isSucceededState, isTerminalState} from './states';
+
+/**
+ * DurationPrediction holds the estimated remaining time of a push that is
+ * still running, based on the past pushes of its push def that took longer
+ * than it has run so far.
+ */
+export interface DurationPrediction {
+  basis: 'stage'|'elapsed';  // What the past pushes were matched on
+  stage: string;             // Current stage of the push, '' if none yet
+  samples: number;           // Number of past pushes the prediction is from
+  startNsec: number;         // Start time of the first non-empty stage
+  elapsedNsec: number;       // Time the push has run so far
+  p10: number;               // Percentiles of the remaining time, in
+  p50: number;               // nanoseconds
+  p90: number;
+}
+
+/**
+ * Minimum number of past pushes that reached the current stage for the
+ * prediction to be based on the stage rather than on the elapsed time only.
+ */
+export const MIN_STAGE_SAMPLES = 5;
+
+// Finds the time a push first reached each of its stages.
+function stageStarts(pushInfo: step189_2020.IPushInfo): Map<string, number> {
+  const starts = new Map<string, number>();
+  stageSegments(pushInfo).forEach(segment => {
+    if (!starts.has(segment.stage)) {
+      starts.set(segment.stage, segment.startNsec);
+    }
+  });
+  return starts;
+}
+
+/**
+ * Predicts the remaining time of a push from the completed pushes of its push
+ * def. The past pushes that reached the current stage of the push and stayed
+ * in it at least as long are used if there are enough of them; their remaining
+ * time is counted from the time they reached the stage. Otherwise the past
+ * pushes that took longer than the elapsed time of the push are used.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ * @param pushInfo The push to predict, usually one of pushInfos
+ * @param nowNsec Current time, in nanoseconds
+ * @return the prediction, or undefined if the push is done or no past push is
+ *     similar enough
+ */
+export function predictDuration(
+    pushInfos: step189_2020.IPushInfo[], pushInfo: step189_2020.IPushInfo,
+    nowNsec: number): DurationPrediction|undefined {
+  const states = pushInfo.stateInfo;
+  if (!states || !states.length) {
+    return;
+  }
+  if (isTerminalState(states[states.length - 1].state || 0)) {
+    return;
+  }
+
+  // The pushes that haven't reached a stage yet are predicted from the
+  // beginning.
+  const startEnd = findDuration(pushInfo);
+  const startNsec = startEnd ? +startEnd.startNsec : nowNsec;
+  const elapsedNsec = Math.max(nowNsec - startNsec, 0);
+  const segments = stageSegments(pushInfo);
+  const stage = segments.length ? segments[segments.length - 1].stage : '';
+  const inStageNsec =
+      stage ? nowNsec - (stageStarts(pushInfo).get(stage) || nowNsec) : 0;
+
+  const byStage: number[] = [];
+  const byElapsed: number[] = [];
+  pushInfos.forEach(past => {
+    if (!past || past.pushHandle === pushInfo.pushHandle) {
+      return;
+    }
+    const pastStates = past.stateInfo;
+    if (!pastStates || !pastStates.length ||
+        !isSucceededState(pastStates[pastStates.length - 1].state || 0)) {
+      return;
+    }
+    const pastStartEnd = findDuration(past);
+    if (!pastStartEnd) {
+      return;
+    }
+    const endNsec = +pastStartEnd.endNsec;
+    const durationNsec = endNsec - +pastStartEnd.startNsec;
+    if (durationNsec > elapsedNsec) {
+      byElapsed.push(durationNsec - elapsedNsec);
+    }
+    const reachedNsec = stage ? stageStarts(past).get(stage) : undefined;
+    if (reachedNsec !== undefined && endNsec - reachedNsec > inStageNsec) {
+      byStage.push(endNsec - reachedNsec - inStageNsec);
+    }
+  });
+
+  const basis = (byStage.length >= MIN_STAGE_SAMPLES) ? 'stage' : 'elapsed';
+  const remaining = (basis === 'stage') ? byStage : byElapsed;
+  if (!remaining.length) {
+    return;
+  }
+  const sorted = remaining.sort(d3.ascending);
+  return {
+    basis,
+    stage,
+    samples: sorted.length,
+    startNsec,
+    elapsedNsec,
+    p10: d3.quantile(sorted, 0.1) || 0,
+    p50: d3.quantile(sorted, 0.5) || 0,
+    p90: d3.quantile(sorted, 0.9) || 0,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component, Input} from '@angular/core';
+
+import {folderLink, PushDefTreeNode} from '../../services/push-def-tree';
+
+/**
+ * Collapsible navigator for the tree of push defs. Each row shows the roll-up
+ * statistics of the folder or push def. The folders start collapsed.
+ */
+@Component({
+  selector: 'app-push-def-tree',
+  templateUrl: './push-def-tree.component.html',
+  styleUrls: ['./push-def-tree.component.scss']
+})
+export class PushDefTreeComponent {
+  // The children of the root are the top level rows.
+  @Input() root!: PushDefTreeNode;
+
+  private readonly expanded = new Set<string>();
+
+  isExpanded(node: PushDefTreeNode): boolean {
+    return this.expanded.has(node.path);
+  }
+
+  toggle(node: PushDefTreeNode): void {
+    if (!this.expanded.delete(node.path)) {
+      this.expanded.add(node.path);
+    }
+  }
+
+  /**
+   * Returns the arrow shown in front of a folder.
+   *
+   * @param node Folder of the row
+   */
+  toggleIndicator(node: PushDefTreeNode): string {
+    return this.isExpanded(node) ? '▾' : '▸';
+  }
+
+  /**
+   * Returns the link of a row: the folder page for folders and the all-pushes
+   * page for push defs.
+   *
+   * @param node Folder or push def of the row
+   */
+  nodeLink(node: PushDefTreeNode): string {
+    return node.children.length ? folderLink(node.path) : `/${node.path}`;
+  }
+}
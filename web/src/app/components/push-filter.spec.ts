@@ -0,0 +1,191 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {convertToParamMap, ParamMap, Params} from '@angular/router';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {applyFilter, EMPTY_FILTER, filterFromParams, filterToParams, isEmptyFilter, isSameFilter, matchesFilter, PushFilter} from './push-filter';
+
+const NSEC_PER_MIN = 60 * 10 ** 9;
+const NSEC_PER_MSEC = 10 ** 6;
+// Noon of 2020-04-13 in local time, as the dates of the filter are.
+const START_NSEC = new Date('2020-04-13T12:00:00').getTime() * NSEC_PER_MSEC;
+
+// Reads query parameters the way the router does after a navigation: the unset
+// ones are dropped and the values become strings.
+function toParamMap(params: Params): ParamMap {
+  const strings: Params = {};
+  Object.keys(params).forEach(key => {
+    const value = params[key];
+    if (value !== null) {
+      strings[key] = Array.isArray(value) ? value.map(String) : String(value);
+    }
+  });
+  return convertToParamMap(strings);
+}
+
+// A completed push that ran the build stage twice and then the test stage,
+// for 30 minutes in total.
+const PUSH: step189_2020.IPushInfo = {
+  pushHandle: 'a/b/@123',
+  stateInfo: [
+    {stage: 'build', attempt: 1, state: 13, startTimeNsec: START_NSEC},
+    {
+      stage: 'build',
+      attempt: 2,
+      state: 13,
+      startTimeNsec: START_NSEC + 10 * NSEC_PER_MIN
+    },
+    {
+      stage: 'test',
+      attempt: 1,
+      state: 5,
+      startTimeNsec: START_NSEC + 30 * NSEC_PER_MIN
+    },
+  ],
+};
+
+describe('push filter', () => {
+  const filter: PushFilter = {
+    startDate: '2020-04-01',
+    endDate: '2020-04-30',
+    categories: ['failed', 'cancelled'],
+    minDurationMinutes: 10,
+    maxDurationMinutes: 60.5,
+    stage: 'build',
+    minAttempts: 2,
+    pushID: '12',
+  };
+
+  it('should keep all the criteria through the URL', () => {
+    const params = {
+      from: '2020-04-01',
+      to: '2020-04-30',
+      state: ['failed', 'cancelled'],
+      minDuration: '10',
+      maxDuration: '60.5',
+      stage: 'build',
+      minAttempts: '2',
+      pushID: '12',
+    };
+
+    expect(filterFromParams(convertToParamMap(params))).toEqual(filter);
+    expect(filterFromParams(toParamMap(filterToParams(filter))))
+        .toEqual(filter);
+    expect(filterToParams(filterFromParams(toParamMap(params))))
+        .toEqual(
+            {...params, minDuration: 10, maxDuration: 60.5, minAttempts: 2});
+  });
+
+  it('should write the unset criteria as null', () => {
+    const params = filterToParams(EMPTY_FILTER);
+
+    expect(Object.keys(params).length).toBe(8);
+    expect(Object.values(params).every(value => value === null)).toBe(true);
+    expect(filterFromParams(toParamMap(params)))
+        .toEqual(jasmine.objectContaining(EMPTY_FILTER));
+    expect(isEmptyFilter(filterFromParams(toParamMap(params)))).toBe(true);
+    expect(isEmptyFilter(filter)).toBe(false);
+  });
+
+  it('should ignore invalid values', () => {
+    const parsed = filterFromParams(convertToParamMap({
+      from: 'yesterday',
+      to: '2020-4-30',
+      state: ['failed', 'unknown'],
+      minDuration: 'long',
+      minAttempts: '',
+    }));
+
+    expect(parsed.startDate).toBeUndefined();
+    expect(parsed.endDate).toBeUndefined();
+    expect(parsed.categories).toEqual(['failed']);
+    expect(parsed.minDurationMinutes).toBeUndefined();
+    expect(parsed.minAttempts).toBeUndefined();
+  });
+
+  it('should tell filters with the same criteria apart from others', () => {
+    expect(isSameFilter(filter, {...filter})).toBe(true);
+    expect(isSameFilter(EMPTY_FILTER, {categories: [], stage: ''})).toBe(true);
+    expect(isSameFilter(filter, {...filter, stage: 'test'})).toBe(false);
+  });
+});
+
+describe('matchesFilter', () => {
+  const matches = (criteria: Partial<PushFilter>) =>
+      matchesFilter(PUSH, {...EMPTY_FILTER, ...criteria});
+
+  it('should match all the pushes without criteria', () => {
+    expect(matches({})).toBe(true);
+    expect(matchesFilter({}, EMPTY_FILTER)).toBe(true);
+  });
+
+  it('should match part of the push ID', () => {
+    expect(matches({pushID: '12'})).toBe(true);
+    expect(matches({pushID: '45'})).toBe(false);
+    // The push def is not part of the push ID.
+    expect(matches({pushID: 'a/b'})).toBe(false);
+  });
+
+  it('should match the days the pushes started', () => {
+    expect(matches({startDate: '2020-04-13', endDate: '2020-04-13'}))
+        .toBe(true);
+    expect(matches({startDate: '2020-04-14'})).toBe(false);
+    expect(matches({endDate: '2020-04-12'})).toBe(false);
+    expect(matchesFilter({pushHandle: 'a/@1'}, {
+      ...EMPTY_FILTER,
+      startDate: '2020-04-01'
+    })).toBe(false);
+  });
+
+  it('should match the category of the final state', () => {
+    expect(matches({categories: ['succeeded', 'failed']})).toBe(true);
+    expect(matches({categories: ['failed']})).toBe(false);
+  });
+
+  it('should match the duration, bounds included', () => {
+    expect(matches({minDurationMinutes: 30, maxDurationMinutes: 30}))
+        .toBe(true);
+    expect(matches({minDurationMinutes: 31})).toBe(false);
+    expect(matches({maxDurationMinutes: 29})).toBe(false);
+  });
+
+  it('should match the stages and their attempts', () => {
+    expect(matches({stage: 'test'})).toBe(true);
+    expect(matches({stage: 'deploy'})).toBe(false);
+    expect(matches({minAttempts: 2})).toBe(true);
+    expect(matches({minAttempts: 3})).toBe(false);
+  });
+});
+
+describe('applyFilter', () => {
+  const other: step189_2020.IPushInfo = {...PUSH, pushHandle: 'a/b/@456'};
+
+  it('should keep the matching pushes in order', () => {
+    const pushInfos = [other, PUSH, {...other, pushHandle: 'a/b/@124'}];
+
+    expect(applyFilter(pushInfos, {...EMPTY_FILTER, pushID: '12'}))
+        .toEqual([PUSH, pushInfos[2]]);
+  });
+
+  it('should return the same pushes without criteria', () => {
+    const pushInfos = [PUSH, other];
+
+    expect(applyFilter(pushInfos, EMPTY_FILTER)).toBe(pushInfos);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ParamMap, Params} from '@angular/router';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {findDuration} from './duration-utils';
+import {summarizeStages} from './stage-utils';
+import {STATE_CATEGORIES, StateCategory, stateCategory} from './states';
+
+/**
+ * PushFilter holds the criteria a push has to meet to be shown on a page. The
+ * unset criteria match all the pushes.
+ */
+export interface PushFilter {
+  startDate?: string;            // First day of the pushes, as yyyy-MM-dd
+  endDate?: string;              // Last day of the pushes, as yyyy-MM-dd
+  categories: StateCategory[];   // Categories of the final state, all if empty
+  minDurationMinutes?: number;   // Shortest push duration
+  maxDurationMinutes?: number;   // Longest push duration
+  stage?: string;                // Stage the pushes went through
+  minAttempts?: number;          // Minimum attempts of the most retried stage
+  pushID?: string;               // Part of the push ID
+}
+
+export const EMPTY_FILTER: PushFilter = {
+  categories: []
+};
+
+// Names of the query parameters of the criteria.
+const START_DATE_PARAM = 'from';
+const END_DATE_PARAM = 'to';
+const CATEGORY_PARAM = 'state';
+const MIN_DURATION_PARAM = 'minDuration';
+const MAX_DURATION_PARAM = 'maxDuration';
+const STAGE_PARAM = 'stage';
+const MIN_ATTEMPTS_PARAM = 'minAttempts';
+const PUSH_ID_PARAM = 'pushID';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const NSEC_PER_MINUTE = 60 * 10 ** 9;
+const NSEC_PER_MSEC = 10 ** 6;
+
+function dateFromParam(value: string|null): string|undefined {
+  return value && DATE_PATTERN.test(value) ? value : undefined;
+}
+
+function numberFromParam(value: string|null): number|undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Reads a filter from the query parameters of a page. Invalid values are
+ * ignored.
+ *
+ * @param params Query parameters of the page
+ */
+export function filterFromParams(params: ParamMap): PushFilter {
+  return {
+    startDate: dateFromParam(params.get(START_DATE_PARAM)),
+    endDate: dateFromParam(params.get(END_DATE_PARAM)),
+    categories: params.getAll(CATEGORY_PARAM)
+                    .filter(
+                        category => STATE_CATEGORIES.includes(
+                            category as StateCategory)) as StateCategory[],
+    minDurationMinutes: numberFromParam(params.get(MIN_DURATION_PARAM)),
+    maxDurationMinutes: numberFromParam(params.get(MAX_DURATION_PARAM)),
+    stage: params.get(STAGE_PARAM) || undefined,
+    minAttempts: numberFromParam(params.get(MIN_ATTEMPTS_PARAM)),
+    pushID: params.get(PUSH_ID_PARAM) || undefined,
+  };
+}
+
+/**
+ * Writes a filter as query parameters. The unset criteria are null, so that
+ * navigating with `queryParamsHandling: 'merge'` removes them from the URL
+ * while keeping the other parameters of the page.
+ *
+ * @param filter Filter of the page
+ */
+export function filterToParams(filter: PushFilter): Params {
+  const valueOrNull = (value: string|number|undefined) =>
+      value === undefined || value === '' ? null : value;
+  return {
+    [START_DATE_PARAM]: valueOrNull(filter.startDate),
+    [END_DATE_PARAM]: valueOrNull(filter.endDate),
+    [CATEGORY_PARAM]: filter.categories.length ? filter.categories : null,
+    [MIN_DURATION_PARAM]: valueOrNull(filter.minDurationMinutes),
+    [MAX_DURATION_PARAM]: valueOrNull(filter.maxDurationMinutes),
+    [STAGE_PARAM]: valueOrNull(filter.stage),
+    [MIN_ATTEMPTS_PARAM]: valueOrNull(filter.minAttempts),
+    [PUSH_ID_PARAM]: valueOrNull(filter.pushID),
+  };
+}
+
+/**
+ * Returns whether none of the criteria of the filter is set.
+ *
+ * @param filter Filter of the page
+ */
+export function isEmptyFilter(filter: PushFilter): boolean {
+  return Object.values(filterToParams(filter)).every(value => value === null);
+}
+
+/**
+ * Returns whether two filters have the same criteria, e.g. to ignore the
+ * changes of the other query parameters of a page.
+ *
+ * @param a A filter
+ * @param b Another filter
+ */
+export function isSameFilter(a: PushFilter, b: PushFilter): boolean {
+  return JSON.stringify(filterToParams(a)) ===
+      JSON.stringify(filterToParams(b));
+}
+
+/**
+ * Returns the time in milliseconds of the start of a day in local time, as
+ * shown on the charts.
+ *
+ * @param date A day, as yyyy-MM-dd
+ * @param offsetDays Number of days to add to the date
+ */
+function startOfDayMsec(date: string, offsetDays = 0): number {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + offsetDays);
+  return day.getTime();
+}
+
+/**
+ * Returns whether a push meets all the criteria of a filter. A push without
+ * the data needed by a criterion that is set doesn't meet it.
+ *
+ * @param pushInfo A single push
+ * @param filter Filter of the page
+ */
+export function matchesFilter(
+    pushInfo: step189_2020.IPushInfo, filter: PushFilter): boolean {
+  const states = pushInfo.stateInfo || [];
+  if (filter.pushID) {
+    const pushHandle = pushInfo.pushHandle || '';
+    const pushID = pushHandle.slice(pushHandle.indexOf('@') + 1);
+    if (!pushID.includes(filter.pushID)) {
+      return false;
+    }
+  }
+
+  if (filter.startDate || filter.endDate) {
+    const startTime = states.length ? states[0].startTimeNsec : undefined;
+    if (!startTime) {
+      return false;
+    }
+    const startMsec = +startTime / NSEC_PER_MSEC;
+    if (filter.startDate && startMsec < startOfDayMsec(filter.startDate)) {
+      return false;
+    }
+    if (filter.endDate && startMsec >= startOfDayMsec(filter.endDate, 1)) {
+      return false;
+    }
+  }
+
+  if (filter.categories.length) {
+    const finalState = states.length ? states[states.length - 1].state : 0;
+    if (!finalState ||
+        !filter.categories.includes(stateCategory(finalState))) {
+      return false;
+    }
+  }
+
+  if (filter.minDurationMinutes !== undefined ||
+      filter.maxDurationMinutes !== undefined) {
+    const startEnd = findDuration(pushInfo);
+    if (!startEnd) {
+      return false;
+    }
+    const minutes =
+        (+startEnd.endNsec - +startEnd.startNsec) / NSEC_PER_MINUTE;
+    if (filter.minDurationMinutes !== undefined &&
+        minutes < filter.minDurationMinutes) {
+      return false;
+    }
+    if (filter.maxDurationMinutes !== undefined &&
+        minutes > filter.maxDurationMinutes) {
+      return false;
+    }
+  }
+
+  if (filter.stage || filter.minAttempts) {
+    const stages = summarizeStages(pushInfo);
+    if (filter.stage && !stages.some(s => s.stage === filter.stage)) {
+      return false;
+    }
+    const maxAttempts = Math.max(0, ...stages.map(s => s.attempts));
+    if (filter.minAttempts && maxAttempts < filter.minAttempts) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Keeps the pushes that meet all the criteria of a filter.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ * @param filter Filter of the page
+ * @return the matching pushes, in the same order
+ */
+export function applyFilter(
+    pushInfos: step189_2020.IPushInfo[],
+    filter: PushFilter): step189_2020.IPushInfo[] {
+  if (isEmptyFilter(filter)) {
+    return pushInfos;
+  }
+  return pushInfos.filter(pushInfo => matchesFilter(pushInfo, filter));
+}
+
+/**
+ * Lists the names of all the stages the pushes went through, e.g. to suggest
+ * values for the stage criterion.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ */
+export function stageNames(pushInfos: step189_2020.IPushInfo[]): string[] {
+  const names = new Set<string>();
+  pushInfos.forEach(pushInfo => {
+    (pushInfo.stateInfo || []).forEach(stateInfo => {
+      if (stateInfo.stage) {
+        names.add(stateInfo.stage);
+      }
+    });
+  });
+  return Array.from(names).sort();
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+import {Observable} from 'rxjs';
+
+import {BrushSource, PushSelection, PushSelectionService} from '../../services/push-selection.service';
+
+const BRUSH_SOURCE_NAMES: {[source in BrushSource]: string} = {
+  timeline: 'timeline',
+  'bar-chart': 'bar chart',
+  cdf: 'CDF',
+};
+
+/**
+ * Shows the push selected and the number of pushes brushed in the charts.
+ */
+@Component({
+  selector: 'app-push-selection',
+  templateUrl: './push-selection.component.html',
+  styleUrls: ['./push-selection.component.scss']
+})
+export class PushSelectionComponent {
+  readonly pushSelection: Observable<PushSelection>;
+
+  constructor(private readonly selection: PushSelectionService) {
+    this.pushSelection = this.selection.selection;
+  }
+
+  sourceName(source: BrushSource): string {
+    return BRUSH_SOURCE_NAMES[source];
+  }
+
+  clearSelected(): void {
+    this.selection.clearSelected();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {ScrollingModule} from '@angular/cdk/scrolling';
+import {SimpleChange} from '@angular/core';
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {FormsModule} from '@angular/forms';
+import {RouterTestingModule} from '@angular/router/testing';
+
+import {DateNsecPipe} from '../../pipes/date-nsec.pipe';
+import {DurationNsecPipe} from '../../pipes/duration-nsec.pipe';
+import {StateLabelPipe} from '../../pipes/state-label.pipe';
+import {PushSelectionService} from '../../services/push-selection.service';
+
+import {PushTableComponent} from './push-table.component';
+
+describe('PushTableComponent', () => {
+  let component: PushTableComponent;
+  let fixture: ComponentFixture<PushTableComponent>;
+
+  beforeEach(async(() => {
+    TestBed
+        .configureTestingModule({
+          declarations: [
+            DateNsecPipe,
+            DurationNsecPipe,
+            PushTableComponent,
+            StateLabelPipe,
+          ],
+          imports: [FormsModule, RouterTestingModule, ScrollingModule],
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(PushTableComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should compute the anomaly badges when the anomalies change', () => {
+    const anomalies = new Map([[
+      'a/@1',
+      [
+        {kind: 'slow' as const, stage: '', description: 'Took 2h'},
+        {kind: 'slow-stage' as const, stage: 'x', description: 'x took 1h'},
+        {kind: 'slow-stage' as const, stage: 'y', description: 'y took 1h'},
+      ]
+    ]]);
+    component.anomalies = anomalies;
+    component.ngOnChanges(
+        {anomalies: new SimpleChange(null, anomalies, false)});
+
+    const badges = component.anomalyBadges('a/@1');
+    expect(badges).toEqual([
+      {label: 'Slow', title: 'Took 2h'},
+      {label: 'Slow stage', title: 'x took 1h\ny took 1h'},
+    ]);
+    expect(component.anomalyBadges('a/@1')).toBe(badges);
+    expect(component.anomalyBadges('a/@2')).toEqual([]);
+  });
+
+  it('should select the push of a clicked row', () => {
+    const pushInfos = [{pushHandle: 'a/@2'}, {pushHandle: 'a/@1'}];
+    component.pushInfos = pushInfos;
+    component.ngOnChanges(
+        {pushInfos: new SimpleChange(null, pushInfos, true)});
+    const selection = TestBed.inject(PushSelectionService);
+    spyOn(selection, 'toggleSelected');
+    const row = document.createElement('div');
+    row.setAttribute('data-row-index', '1');
+    row.innerHTML = '<div data-no-select><input></div><div><a></a></div>';
+    const click = (target: Element) =>
+        component.onRowClick({target} as unknown as MouseEvent);
+
+    click(row.querySelector('input') as Element);
+    expect(selection.toggleSelected).not.toHaveBeenCalled();
+    click(row.querySelector('a') as Element);
+    expect(selection.toggleSelected).toHaveBeenCalledWith('a/@1');
+    expect(component.activeIndex).toBe(1);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {CdkVirtualScrollViewport} from '@angular/cdk/scrolling';
+import {Component, EventEmitter, Input, OnChanges, Output, SimpleChanges, ViewChild} from '@angular/core';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {DateNsecPipe} from '../../pipes/date-nsec.pipe';
+import {isBrushed, PushSelectionService} from '../../services/push-selection.service';
+import {ANOMALY_LABELS, anomalyKinds, PushAnomalies} from '../anomalies';
+import {downloadCsv} from '../export-utils';
+import {stateLabel} from '../states';
+import {isIncrementalUpdate} from '../update-utils';
+
+import {DEFAULT_SORT, EMPTY_COLUMN_FILTER, filterRows, PushColumn, PushColumnFilter, PushRow, pushRows, PushSort, sortRows} from './push-table.utils';
+
+const NSEC_PER_MINUTE = 60 * 10 ** 9;
+
+/**
+ * AnomalyBadge is a badge of the anomalies of one kind of a push.
+ */
+export interface AnomalyBadge {
+  label: string;
+  title: string;  // Descriptions of the anomalies
+}
+
+// Badges of the pushes without anomalies, the same array for all of them.
+const NO_BADGES: AnomalyBadge[] = [];
+
+/**
+ * Table of the pushes of a push def. Only the rows in view are rendered, so
+ * that push defs with tens of thousands of pushes stay usable. The rows can be
+ * sorted, filtered by column and split into pages, and the table can be used
+ * with the keyboard once it has the focus:
+ *   - Up and Down move the active row, Home and End go to the first and last
+ *     rows of the page
+ *   - Page Up and Page Down go to the previous and next pages
+ *   - Enter selects the push of the active row in the charts
+ *   - Space checks the push of the active row for the comparison
+ */
+@Component({
+  selector: 'app-push-table',
+  templateUrl: './push-table.component.html',
+  styleUrls: ['./push-table.component.scss']
+})
+export class PushTableComponent implements OnChanges {
+  // Height of a row in pixels, which the virtual scrolling relies on.
+  static readonly ROW_HEIGHT = 32;
+
+  @ViewChild(CdkVirtualScrollViewport) private viewport?:
+      CdkVirtualScrollViewport;
+  @Input() pushInfos!: step189_2020.IPushInfo[]|null;
+  @Input() anomalies: PushAnomalies|null = null;
+  // Push handles checked for the comparison.
+  @Input() checkedHandles = new Set<string>();
+  // Maximum number of pushes that can be checked.
+  @Input() maxChecked = Infinity;
+  // Emits the push handle of a row whose checkbox is clicked.
+  @Output() readonly checkedToggle = new EventEmitter<string>();
+
+  readonly rowHeight = PushTableComponent.ROW_HEIGHT;
+  readonly pageSizes = [50, 100, 500, 1000];
+  readonly columns: Array<{column: PushColumn, name: string, width: string}> =
+      [
+        {column: 'pushHandle', name: 'Push handle', width: 'w-30'},
+        {column: 'lastChangeNsec', name: 'Last change', width: 'w-25'},
+        {column: 'durationNsec', name: 'Duration', width: 'w-10'},
+        {column: 'finalState', name: 'Final state', width: 'w-10'},
+        {column: 'numStates', name: '# states', width: 'w-10'},
+      ];
+  readonly pushSelection = this.selection.selection;
+  readonly isBrushed = isBrushed;
+
+  sort: PushSort = {...DEFAULT_SORT};
+  filter: PushColumnFilter = {...EMPTY_COLUMN_FILTER};
+  pageSize = 100;
+  pageIndex = 0;
+  // Index of the row of the page that the keyboard acts on.
+  activeIndex = 0;
+  // Rows that match the filter, sorted.
+  visibleRows: PushRow[] = [];
+  // Rows of the current page.
+  pageRows: PushRow[] = [];
+  private rows: PushRow[] = [];
+  // Badges of the pushes with anomalies, by push handle, computed when the
+  // anomalies change rather than on every change detection.
+  private badges = new Map<string, AnomalyBadge[]>();
+
+  constructor(private readonly selection: PushSelectionService) {}
+
+  /**
+   * Groups the anomalies of each push into badges, one per kind.
+   *
+   * @param anomalies Anomalies of the pushes, by push handle
+   */
+  private static anomalyBadgesByPush(anomalies: PushAnomalies|null):
+      Map<string, AnomalyBadge[]> {
+    const badges = new Map<string, AnomalyBadge[]>();
+    if (!anomalies) {
+      return badges;
+    }
+    anomalies.forEach((pushAnomalies, pushHandle) => {
+      badges.set(pushHandle, anomalyKinds(pushAnomalies).map(kind => {
+        const descriptions =
+            pushAnomalies.filter(anomaly => anomaly.kind === kind)
+                .map(anomaly => anomaly.description);
+        return {label: ANOMALY_LABELS[kind], title: descriptions.join('\n')};
+      }));
+    });
+    return badges;
+  }
+
+  /**
+   * Keeps the sort, the filter and the page when pushes are added or updated
+   * by live updates, and goes back to the first page otherwise.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes.anomalies) {
+      this.badges = PushTableComponent.anomalyBadgesByPush(this.anomalies);
+    }
+    if (!changes.pushInfos) {
+      return;
+    }
+    this.rows = this.pushInfos ? pushRows(this.pushInfos) : [];
+    if (!isIncrementalUpdate(changes.pushInfos)) {
+      this.pageIndex = 0;
+      this.activeIndex = 0;
+    }
+    this.update();
+  }
+
+  /**
+   * Sorts the rows on a column, or reverses the sort if it is already on
+   * the column.
+   *
+   * @param column Column whose header was clicked
+   */
+  sortBy(column: PushColumn): void {
+    this.sort = {
+      column,
+      ascending: this.sort.column === column ? !this.sort.ascending : true,
+    };
+    this.goToPage(0);
+  }
+
+  /**
+   * Returns the value of the aria-sort attribute of the header of a column.
+   *
+   * @param column Column of the header
+   */
+  sortOrder(column: PushColumn): string {
+    if (this.sort.column !== column) {
+      return 'none';
+    }
+    return this.sort.ascending ? 'ascending' : 'descending';
+  }
+
+  applyFilter(): void {
+    this.goToPage(0);
+  }
+
+  numPages(): number {
+    return Math.max(Math.ceil(this.visibleRows.length / this.pageSize), 1);
+  }
+
+  /**
+   * Shows a page of rows and scrolls to its first row.
+   *
+   * @param index Index of the page, clamped to the existing pages
+   */
+  goToPage(index: number): void {
+    this.pageIndex = index;
+    this.activeIndex = 0;
+    this.update();
+    if (this.viewport) {
+      this.viewport.scrollToOffset(0);
+    }
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    const lastIndex = this.pageRows.length - 1;
+    switch (event.key) {
+      case 'ArrowDown':
+        this.activate(Math.min(this.activeIndex + 1, lastIndex));
+        break;
+      case 'ArrowUp':
+        this.activate(Math.max(this.activeIndex - 1, 0));
+        break;
+      case 'Home':
+        this.activate(0);
+        break;
+      case 'End':
+        this.activate(lastIndex);
+        break;
+      case 'PageDown':
+        this.goToPage(this.pageIndex + 1);
+        break;
+      case 'PageUp':
+        this.goToPage(this.pageIndex - 1);
+        break;
+      case 'Enter':
+        this.selectRow(this.activeIndex);
+        break;
+      case ' ':
+        if (this.pageRows[this.activeIndex]) {
+          this.toggleChecked(this.pageRows[this.activeIndex].pushHandle);
+        }
+        break;
+      default:
+        return;
+    }
+    // Keep the page from scrolling.
+    event.preventDefault();
+  }
+
+  /**
+   * Selects the push of the row that was clicked. The clicks are handled by
+   * the viewport, which also handles the keys, rather than by each row.
+   *
+   * @param event Click in the viewport
+   */
+  onRowClick(event: MouseEvent): void {
+    const target = event.target as Element;
+    const row = target.closest('[data-row-index]');
+    if (row && !target.closest('[data-no-select]')) {
+      this.selectRow(Number(row.getAttribute('data-row-index')));
+    }
+  }
+
+  /**
+   * Makes a row active and selects its push in all the charts.
+   *
+   * @param index Index of the row in the page
+   */
+  selectRow(index: number): void {
+    const row = this.pageRows[index];
+    if (!row || !row.pushHandle) {
+      return;
+    }
+    this.activeIndex = index;
+    this.selection.toggleSelected(row.pushHandle);
+  }
+
+  isChecked(pushHandle: string): boolean {
+    return this.checkedHandles.has(pushHandle);
+  }
+
+  /**
+   * Returns whether the checkbox of a push can be used, i.e. unless the
+   * maximum number of pushes is already checked.
+   *
+   * @param pushHandle Push handle of the row
+   */
+  canCheck(pushHandle: string): boolean {
+    return this.isChecked(pushHandle) ||
+        this.checkedHandles.size < this.maxChecked;
+  }
+
+  toggleChecked(pushHandle: string): void {
+    if (pushHandle && this.canCheck(pushHandle)) {
+      this.checkedToggle.emit(pushHandle);
+    }
+  }
+
+  /**
+   * Returns the badges of the anomalies of a push: one per kind, with the
+   * descriptions of the anomalies of that kind as its title.
+   *
+   * @param pushHandle Push handle of the row
+   */
+  anomalyBadges(pushHandle: string): AnomalyBadge[] {
+    return this.badges.get(pushHandle) || NO_BADGES;
+  }
+
+  /**
+   * Saves the rows that match the filter, in the order of the table, as a CSV
+   * file.
+   */
+  exportCsv(): void {
+    const dateNsec = new DateNsecPipe();
+    const rows = this.visibleRows.map(row => ({
+      'Push handle': row.pushHandle,
+      'Last change': dateNsec.transform(row.lastChangeNsec || null),
+      'Duration (minutes)': row.durationNsec === null ?
+          null :
+          +(row.durationNsec / NSEC_PER_MINUTE).toFixed(2),
+      'Final state': row.finalState ? stateLabel(row.finalState) : '',
+      '# states': row.numStates,
+      Anomalies: this.anomalyBadges(row.pushHandle)
+                     .map(badge => badge.label)
+                     .join('; '),
+    }));
+    downloadCsv(rows, 'pushes');
+  }
+
+  trackByHandle(index: number, row: PushRow): string {
+    return row.pushHandle;
+  }
+
+  /**
+   * Recomputes the rows of the page after a change of the pushes, the sort,
+   * the filter or the page.
+   */
+  private update(): void {
+    this.visibleRows = sortRows(filterRows(this.rows, this.filter), this.sort);
+    this.pageIndex = Math.min(Math.max(this.pageIndex, 0), this.numPages() - 1);
+    const start = this.pageIndex * this.pageSize;
+    this.pageRows = this.visibleRows.slice(start, start + this.pageSize);
+    this.activeIndex =
+        Math.max(Math.min(this.activeIndex, this.pageRows.length - 1), 0);
+  }
+
+  /**
+   * Makes a row active and scrolls it into view.
+   *
+   * @param index Index of the row in the page
+   */
+  private activate(index: number): void {
+    this.activeIndex = index;
+    if (!this.viewport) {
+      return;
+    }
+    const top = index * this.rowHeight;
+    const offset = this.viewport.measureScrollOffset();
+    const height = this.viewport.getViewportSize();
+    if (top < offset) {
+      this.viewport.scrollToOffset(top);
+    } else if (top + this.rowHeight > offset + height) {
+      this.viewport.scrollToOffset(top + this.rowHeight - height);
+    }
+  }
+}
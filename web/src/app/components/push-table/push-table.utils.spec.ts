@@ -0,0 +1,186 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {EMPTY_COLUMN_FILTER, filterRows, PushRow, pushRows, sortRows} from './push-table.utils';
+
+const NSEC_PER_MINUTE = 60 * 10 ** 9;
+const NSEC_PER_MSEC = 10 ** 6;
+
+// Time of the last change of a row, at noon local time on a day of August
+// 2020 like the table shows it.
+function lastChangeOn(day: number): number {
+  return new Date(2020, 7, day, 12).getTime() * NSEC_PER_MSEC;
+}
+
+const ROWS: PushRow[] = [
+  {
+    pushHandle: 'abc/@20200805-1',
+    lastChangeNsec: lastChangeOn(5),
+    durationNsec: 30 * NSEC_PER_MINUTE,
+    finalState: 5,
+    numStates: 4,
+  },
+  {
+    pushHandle: 'abc/@20200812-1',
+    lastChangeNsec: lastChangeOn(12),
+    durationNsec: null,
+    finalState: 1,
+    numStates: 1,
+  },
+  {
+    pushHandle: 'abc/@20200806-1',
+    lastChangeNsec: lastChangeOn(6),
+    durationNsec: 90 * NSEC_PER_MINUTE,
+    finalState: 6,
+    numStates: 8,
+  },
+  {
+    pushHandle: 'abc/@20200806-2',
+    lastChangeNsec: 0,
+    durationNsec: 30 * NSEC_PER_MINUTE,
+    finalState: 5,
+    numStates: 4,
+  },
+];
+
+function handles(rows: PushRow[]): string[] {
+  return rows.map(row => row.pushHandle);
+}
+
+describe('pushRows', () => {
+  it('should extract the values of the table from the pushes', () => {
+    expect(pushRows([
+      {
+        pushHandle: 'abc/@1',
+        lastChangeNsec: 300,
+        stateInfo: [
+          {state: 1, startTimeNsec: 50},
+          {stage: 'build', state: 13, startTimeNsec: 100},
+          {stage: 'build', state: 5, startTimeNsec: 250},
+        ],
+      },
+      {},
+    ])).toEqual([
+      {
+        pushHandle: 'abc/@1',
+        lastChangeNsec: 300,
+        durationNsec: 150,
+        finalState: 5,
+        numStates: 3,
+      },
+      {
+        pushHandle: '',
+        lastChangeNsec: 0,
+        durationNsec: null,
+        finalState: 0,
+        numStates: 0,
+      },
+    ]);
+  });
+});
+
+describe('filterRows', () => {
+  it('should keep all the rows with the empty filter', () => {
+    expect(filterRows(ROWS, EMPTY_COLUMN_FILTER)).toEqual(ROWS);
+  });
+
+  it('should match a part of the push handle, ignoring the case', () => {
+    expect(handles(filterRows(
+               ROWS, {...EMPTY_COLUMN_FILTER, pushHandle: 'ABC/@20200806'})))
+        .toEqual(['abc/@20200806-1', 'abc/@20200806-2']);
+  });
+
+  it('should match the start of the last change', () => {
+    expect(handles(filterRows(
+               ROWS, {...EMPTY_COLUMN_FILTER, lastChange: '2020-08-0'})))
+        .toEqual(['abc/@20200805-1', 'abc/@20200806-1']);
+    expect(handles(filterRows(
+               ROWS, {...EMPTY_COLUMN_FILTER, lastChange: '2020-08-12 12'})))
+        .toEqual(['abc/@20200812-1']);
+  });
+
+  it('should drop the rows without a duration or shorter ones', () => {
+    expect(handles(filterRows(
+               ROWS, {...EMPTY_COLUMN_FILTER, minDurationMinutes: 30})))
+        .toEqual(['abc/@20200805-1', 'abc/@20200806-1', 'abc/@20200806-2']);
+    expect(handles(filterRows(
+               ROWS, {...EMPTY_COLUMN_FILTER, minDurationMinutes: 31})))
+        .toEqual(['abc/@20200806-1']);
+  });
+
+  it('should match a part of the label of the final state', () => {
+    expect(handles(filterRows(
+               ROWS, {...EMPTY_COLUMN_FILTER, finalState: 'completed'})))
+        .toEqual(['abc/@20200805-1', 'abc/@20200806-2']);
+    expect(handles(
+               filterRows(ROWS, {...EMPTY_COLUMN_FILTER, finalState: '(6)'})))
+        .toEqual(['abc/@20200806-1']);
+  });
+
+  it('should drop the rows with fewer states', () => {
+    expect(handles(filterRows(ROWS, {...EMPTY_COLUMN_FILTER, minStates: 5})))
+        .toEqual(['abc/@20200806-1']);
+  });
+});
+
+describe('sortRows', () => {
+  it('should sort on a column in both directions', () => {
+    expect(handles(sortRows(ROWS, {column: 'lastChangeNsec', ascending: true})))
+        .toEqual([
+          'abc/@20200806-2', 'abc/@20200805-1', 'abc/@20200806-1',
+          'abc/@20200812-1'
+        ]);
+    expect(handles(sortRows(ROWS, {column: 'pushHandle', ascending: false})))
+        .toEqual([
+          'abc/@20200812-1', 'abc/@20200806-2', 'abc/@20200806-1',
+          'abc/@20200805-1'
+        ]);
+  });
+
+  it('should keep the order of the pushes for ties', () => {
+    expect(handles(sortRows(ROWS, {column: 'numStates', ascending: true})))
+        .toEqual([
+          'abc/@20200812-1', 'abc/@20200805-1', 'abc/@20200806-2',
+          'abc/@20200806-1'
+        ]);
+    expect(handles(sortRows(ROWS, {column: 'finalState', ascending: false})))
+        .toEqual([
+          'abc/@20200806-1', 'abc/@20200805-1', 'abc/@20200806-2',
+          'abc/@20200812-1'
+        ]);
+  });
+
+  it('should put the rows without a duration last in both directions', () => {
+    expect(handles(sortRows(ROWS, {column: 'durationNsec', ascending: true})))
+        .toEqual([
+          'abc/@20200805-1', 'abc/@20200806-2', 'abc/@20200806-1',
+          'abc/@20200812-1'
+        ]);
+    expect(handles(sortRows(ROWS, {column: 'durationNsec', ascending: false})))
+        .toEqual([
+          'abc/@20200806-1', 'abc/@20200805-1', 'abc/@20200806-2',
+          'abc/@20200812-1'
+        ]);
+  });
+
+  it('should not modify the rows', () => {
+    const rows = Array.from(ROWS);
+    sortRows(rows, {column: 'numStates', ascending: false});
+
+    expect(rows).toEqual(ROWS);
+  });
+});
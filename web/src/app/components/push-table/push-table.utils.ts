@@ -0,0 +1,159 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {findDuration} from '../duration-utils';
+import {stateLabel} from '../states';
+
+/**
+ * PushRow holds the values of one row of the push table.
+ */
+export interface PushRow {
+  pushHandle: string;          // Push handle of the push
+  lastChangeNsec: number;      // Time of the last change, 0 if unknown
+  durationNsec: number|null;   // Time between the first stage and the end
+  finalState: number;          // Tag of the last state, 0 without states
+  numStates: number;           // Number of states of the push
+}
+
+/**
+ * Columns the table can be sorted on.
+ */
+export type PushColumn =
+    'pushHandle'|'lastChangeNsec'|'durationNsec'|'finalState'|'numStates';
+
+export interface PushSort {
+  column: PushColumn;  // Column the rows are sorted on
+  ascending: boolean;  // Whether the smallest values come first
+}
+
+/**
+ * PushColumnFilter holds the criteria of the column filters of the table. The
+ * empty criteria match all the rows.
+ */
+export interface PushColumnFilter {
+  pushHandle: string;                 // Part of the push handle
+  lastChange: string;                 // Start of the last change, e.g. 2020-08
+  minDurationMinutes: number|null;    // Shortest duration
+  finalState: string;                 // Part of the label of the final state
+  minStates: number|null;             // Smallest number of states
+}
+
+export const EMPTY_COLUMN_FILTER: PushColumnFilter = {
+  pushHandle: '',
+  lastChange: '',
+  minDurationMinutes: null,
+  finalState: '',
+  minStates: null,
+};
+
+/**
+ * The most recent pushes come first by default.
+ */
+export const DEFAULT_SORT: PushSort = {
+  column: 'lastChangeNsec',
+  ascending: false
+};
+
+const NSEC_PER_MINUTE = 60 * 10 ** 9;
+const NSEC_PER_MSEC = 10 ** 6;
+
+// Format of the last change matched by the filter, like the one of the table
+// without the milliseconds and the time zone. formatDate() of Angular would
+// be too slow for tens of thousands of rows.
+const formatLastChange = d3.timeFormat('%Y-%m-%d %H:%M:%S');
+
+/**
+ * Extracts the values shown in the table from the pushes.
+ *
+ * @param pushInfos Pushes of the table
+ */
+export function pushRows(pushInfos: step189_2020.IPushInfo[]): PushRow[] {
+  return pushInfos.map(pushInfo => {
+    const states = pushInfo.stateInfo || [];
+    const startEnd = findDuration(pushInfo);
+    return {
+      pushHandle: pushInfo.pushHandle || '',
+      lastChangeNsec: +(pushInfo.lastChangeNsec || 0),
+      durationNsec:
+          startEnd ? +startEnd.endNsec - +startEnd.startNsec : null,
+      finalState: states.length ? states[states.length - 1].state || 0 : 0,
+      numStates: states.length,
+    };
+  });
+}
+
+/**
+ * Returns the rows that meet all the criteria of the column filter.
+ *
+ * @param rows Rows of the table
+ * @param filter Criteria of the column filters
+ */
+export function filterRows(rows: PushRow[], filter: PushColumnFilter):
+    PushRow[] {
+  const pushHandle = filter.pushHandle.toLowerCase();
+  const finalState = filter.finalState.toLowerCase();
+  const minDurationNsec = filter.minDurationMinutes === null ?
+      null :
+      filter.minDurationMinutes * NSEC_PER_MINUTE;
+  return rows.filter(row => {
+    if (pushHandle && !row.pushHandle.toLowerCase().includes(pushHandle)) {
+      return false;
+    }
+    if (filter.lastChange &&
+        !(row.lastChangeNsec &&
+          formatLastChange(new Date(row.lastChangeNsec / NSEC_PER_MSEC))
+              .startsWith(filter.lastChange))) {
+      return false;
+    }
+    if (minDurationNsec !== null &&
+        (row.durationNsec === null || row.durationNsec < minDurationNsec)) {
+      return false;
+    }
+    if (finalState &&
+        !stateLabel(row.finalState).toLowerCase().includes(finalState)) {
+      return false;
+    }
+    if (filter.minStates !== null && row.numStates < filter.minStates) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Sorts rows on a column. The rows without a duration come last in both
+ * directions, and ties keep the order of the pushes.
+ *
+ * @param rows Rows of the table
+ * @param sort Column and direction of the sort
+ */
+export function sortRows(rows: PushRow[], sort: PushSort): PushRow[] {
+  const direction = sort.ascending ? 1 : -1;
+  return rows.map((row, index) => ({row, index}))
+      .sort((a, b) => {
+        const valueA = a.row[sort.column];
+        const valueB = b.row[sort.column];
+        if (valueA === null || valueB === null) {
+          return valueA === valueB ? a.index - b.index :
+                                     (valueA === null ? 1 : -1);
+        }
+        return direction * d3.ascending(valueA, valueB) || a.index - b.index;
+      })
+      .map(({row}) => row);
+}
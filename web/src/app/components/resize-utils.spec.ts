@@ -0,0 +1,113 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {fakeAsync, tick} from '@angular/core/testing';
+
+import {FakeResizeObserver, installFakeResizeObserver} from '../../testing/resize-observer';
+
+import {ElementSize, observeSize} from './resize-utils';
+
+describe('observeSize', () => {
+  let element: HTMLElement;
+  let sizes: ElementSize[];
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    sizes = [];
+  });
+
+  describe('with a ResizeObserver', () => {
+    let observer: FakeResizeObserver;
+
+    beforeEach(() => {
+      observer = installFakeResizeObserver();
+    });
+
+    afterEach(() => {
+      observer.uninstall();
+    });
+
+    it('should emit the size once it settles', fakeAsync(() => {
+         const subscription =
+             observeSize(element).subscribe(size => sizes.push(size));
+         expect(sizes).toEqual([]);
+
+         observer.resize(300, 200);
+         tick(50);
+         observer.resize(400, 200);
+         tick(99);
+         expect(sizes).toEqual([]);
+         tick(1);
+         expect(sizes).toEqual([{width: 400, height: 200}]);
+
+         subscription.unsubscribe();
+       }));
+
+    it('should skip the sizes that did not change', fakeAsync(() => {
+         const subscription =
+             observeSize(element).subscribe(size => sizes.push(size));
+
+         observer.resize(0, 0);
+         tick(100);
+         expect(sizes).toEqual([]);
+         observer.resize(300, 200);
+         tick(100);
+         observer.resize(300, 200);
+         tick(100);
+         observer.resize(300, 250);
+         tick(100);
+         expect(sizes).toEqual([
+           {width: 300, height: 200}, {width: 300, height: 250}
+         ]);
+
+         subscription.unsubscribe();
+       }));
+
+    it('should stop observing once unsubscribed', fakeAsync(() => {
+         observeSize(element).subscribe(size => sizes.push(size)).unsubscribe();
+
+         observer.resize(300, 200);
+         tick(100);
+         expect(sizes).toEqual([]);
+       }));
+  });
+
+  describe('without a ResizeObserver', () => {
+    const observerWindow = window as Window & {ResizeObserver?: unknown};
+    let original: unknown;
+
+    beforeEach(() => {
+      original = observerWindow.ResizeObserver;
+      observerWindow.ResizeObserver = undefined;
+    });
+
+    afterEach(() => {
+      observerWindow.ResizeObserver = original;
+    });
+
+    it('should emit the size when the window is resized', fakeAsync(() => {
+         const subscription =
+             observeSize(element).subscribe(size => sizes.push(size));
+
+         Object.defineProperty(element, 'clientWidth', {value: 300});
+         window.dispatchEvent(new Event('resize'));
+         tick(100);
+         expect(sizes).toEqual([{width: 300, height: 0}]);
+
+         subscription.unsubscribe();
+       }));
+  });
+});
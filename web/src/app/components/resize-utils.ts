@@ -0,0 +1,65 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {fromEvent, Observable} from 'rxjs';
+import {debounceTime, distinctUntilChanged, map, skip, startWith} from 'rxjs/operators';
+
+/**
+ * ElementSize holds the size of the container of a chart.
+ */
+export interface ElementSize {
+  width: number;   // Client width, in pixels
+  height: number;  // Client height, in pixels
+}
+
+// ResizeObserver is not part of the DOM types of this TypeScript version, so
+// only the parts used here are declared.
+interface SizeObserver {
+  observe(target: Element): void;
+  disconnect(): void;
+}
+type SizeObserverConstructor = new (callback: () => void) => SizeObserver;
+
+// Time to wait for the size to settle, e.g. while the window is dragged.
+const RESIZE_DEBOUNCE_MSEC = 100;
+
+/**
+ * Emits the size of an element each time it changes after the subscription,
+ * once it settles. The element is observed with a ResizeObserver where the
+ * browser has one, and the window is observed instead elsewhere.
+ *
+ * @param element Container of a chart
+ */
+export function observeSize(element: HTMLElement): Observable<ElementSize> {
+  const size = () =>
+      ({width: element.clientWidth, height: element.clientHeight});
+  const resizes = new Observable<void>(subscriber => {
+    const observerConstructor =
+        (window as unknown as {ResizeObserver?: SizeObserverConstructor})
+            .ResizeObserver;
+    if (!observerConstructor) {
+      return fromEvent(window, 'resize').subscribe(() => subscriber.next());
+    }
+    const observer = new observerConstructor(() => subscriber.next());
+    observer.observe(element);
+    return () => observer.disconnect();
+  });
+  return resizes.pipe(
+      debounceTime(RESIZE_DEBOUNCE_MSEC), map(size), startWith(size()),
+      distinctUntilChanged(
+          (a, b) => a.width === b.width && a.height === b.height),
+      skip(1));
+}
@@ -0,0 +1,77 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {isBrushed, PushSelection} from '../services/push-selection.service';
+
+// Opacity of the fill of the pushes outside of the brush.
+const DIMMED_OPACITY = 0.15;
+const SELECTED_STROKE = 'black';
+const SELECTED_STROKE_WIDTH = '2px';
+
+/**
+ * Highlights the pushes of a chart: the pushes outside of the brush are
+ * dimmed and the selected push is outlined. The styles override the fill
+ * opacity and the stroke attributes set by the chart, which are restored once
+ * the pushes are no longer dimmed or selected.
+ *
+ * @param elements Elements that each represent a push
+ * @param pushHandleOf Returns the push handle of the datum of an element
+ * @param selection Selection shared by the charts
+ */
+export function highlightPushes<E extends d3.BaseType, D>(
+    elements: d3.Selection<E, D, d3.BaseType, unknown>,
+    pushHandleOf: (d: D) => string, selection: PushSelection): void {
+  const isSelected = (d: D) => pushHandleOf(d) === selection.selectedHandle;
+  elements
+      .style(
+          'fill-opacity',
+          (d: D) => isBrushed(selection.brush, pushHandleOf(d)) ?
+              null :
+              DIMMED_OPACITY)
+      .style('stroke', (d: D) => isSelected(d) ? SELECTED_STROKE : null)
+      .style(
+          'stroke-width',
+          (d: D) => isSelected(d) ? SELECTED_STROKE_WIDTH : null);
+}
+
+/**
+ * Style of a push drawn on a canvas, which matches the styles set by
+ * `highlightPushes` on the SVG elements of the charts.
+ */
+export interface HighlightStyle {
+  fillOpacity: number|null;  // Fill opacity, or null for the chart's own
+  stroke: string|null;       // Outline color, or null for the chart's own
+  strokeWidth: number|null;  // Outline width, or null for the chart's own
+}
+
+/**
+ * Returns the style of a push drawn on a canvas: dimmed outside of the brush
+ * and outlined when it is selected.
+ *
+ * @param pushHandle Push handle of the push
+ * @param selection Selection shared by the charts
+ */
+export function highlightStyle(
+    pushHandle: string, selection: PushSelection): HighlightStyle {
+  const isSelected = pushHandle === selection.selectedHandle;
+  return {
+    fillOpacity: isBrushed(selection.brush, pushHandle) ? null : DIMMED_OPACITY,
+    stroke: isSelected ? SELECTED_STROKE : null,
+    strokeWidth: isSelected ? parseFloat(SELECTED_STROKE_WIDTH) : null,
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AfterViewInit, Component, ElementRef, Input, OnChanges, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {DARK_GRAY, MED_GRAY} from '../colors';
+import {findDuration, findDurationUnit, formatDuration, UNIT_CONVERSION} from '../duration-utils';
+import {StageSegment, stageSegments} from '../stage-utils';
+import {stateColor, stateLabel} from '../states';
+import {styleTooltip} from '../tooltip-utils';
+
+/**
+ * Item holds one stage segment of one of the compared pushes, with times
+ * relative to the start of the push.
+ */
+interface Item {
+  row: number;            // Index of the push in the inputs
+  pushID: string;         // Push ID
+  segment: StageSegment;  // The stage segment
+  start: number;          // Start of the segment in the duration unit
+  end: number;            // End of the segment in the duration unit
+}
+
+type d3SVG = d3.Selection<SVGSVGElement, unknown, null, undefined>;
+
+/**
+ * Draws the stages of two or more pushes of the same push def on top of each
+ * other, aligned at the start of each push, so the stages that took longer in
+ * one of them stand out. Each stage has the same color in all the pushes and
+ * the marker at the end of a push shows its final state.
+ */
+@Component({
+  selector: 'app-stage-comparison',
+  templateUrl: './stage-comparison.component.html',
+  styleUrls: ['./stage-comparison.component.scss']
+})
+export class StageComparisonComponent implements AfterViewInit, OnChanges {
+  private static readonly ROW_HEIGHT = 36;
+  private static readonly MARGIN = {top: 10, right: 30, bottom: 50, left: 170};
+
+  @ViewChild('chart') private chartContainer!: ElementRef;
+  @Input() private pushInfos!: step189_2020.IPushInfo[]|null;
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    // The first change comes before the view exists.
+    if (this.chartContainer) {
+      this.render();
+    }
+  }
+
+  /**
+   * Composes the content of the tooltip of a segment.
+   *
+   * @param d The hovered segment
+   */
+  private getTooltipContent(d: Item): string {
+    const segment = d.segment;
+    return `<b>Push ID: ${d.pushID}</b>
+      <br/>
+      <b>Stage: ${segment.stage}</b>
+      <br/>
+      <b>Attempt: ${segment.attempt}</b>
+      <br/>
+      <b>States: ${segment.states.map(stateLabel).join(' → ')}</b>
+      <br/>
+      <b>Duration: ${formatDuration(segment.endNsec - segment.startNsec)}</b>
+      `;
+  }
+
+  /**
+   * Draws one row per push with a rectangle for each stage segment. The chart
+   * is redrawn from scratch every time the pushes change.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <text class='push-label'></text>  // One per push
+   *   <rect class='segment'></rect>     // One per stage segment
+   *   <circle class='final-state'></circle>  // One per push
+   *   <text class='x-axis-title'></text>
+   * </svg>
+   */
+  private render(): void {
+    const element = this.chartContainer.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    if (!this.pushInfos || !this.pushInfos.length) {
+      return;
+    }
+
+    const margin = StageComparisonComponent.MARGIN;
+    const durationUnit = findDurationUnit(this.pushInfos) || 'seconds';
+    const unitNsec = UNIT_CONVERSION[durationUnit];
+
+    const data: Item[] = [];
+    const ends: number[] = [];
+    this.pushInfos.forEach((pushInfo, row) => {
+      const startEnd = findDuration(pushInfo);
+      if (!startEnd) {
+        ends.push(0);
+        return;
+      }
+      const pushHandle = pushInfo.pushHandle || '';
+      const pushID = pushHandle.slice(pushHandle.indexOf('@') + 1);
+      const startNsec = +startEnd.startNsec;
+      ends.push((+startEnd.endNsec - startNsec) / unitNsec);
+      stageSegments(pushInfo).forEach(segment => {
+        data.push({
+          row,
+          pushID,
+          segment,
+          start: (segment.startNsec - startNsec) / unitNsec,
+          end: (segment.endNsec - startNsec) / unitNsec,
+        });
+      });
+    });
+
+    const width = element.clientWidth;
+    const height = margin.top + margin.bottom +
+        this.pushInfos.length * StageComparisonComponent.ROW_HEIGHT;
+    const barHeight = 0.7 * StageComparisonComponent.ROW_HEIGHT;
+    const rowY = (row: number) => margin.top +
+        (row + 0.15) * StageComparisonComponent.ROW_HEIGHT;
+
+    const x = d3.scaleLinear()
+                  .domain([0, d3.max(ends) || 1])
+                  .range([margin.left, width - margin.right])
+                  .nice();
+    const stageColor = d3.scaleOrdinal<string, string>(d3.schemeTableau10)
+                           .domain(data.map(d => d.segment.stage));
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    svg.append('g')
+        .attr('class', 'x-axis')
+        .attr('transform', `translate(0, ${height - margin.bottom})`)
+        .call(
+            d3.axisBottom(x).tickSize(-(height - margin.top - margin.bottom)))
+        .selectAll('line')
+        .style('stroke', MED_GRAY);
+    svg.select('path.domain').remove();
+
+    svg.append('text')
+        .attr('class', 'x-axis-title')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(${(margin.left + width - margin.right) / 2}, ${
+                height - 10})`)
+        .style('font', '12px sans-serif')
+        .text(`Time since the start of the push (in ${durationUnit})`);
+
+    svg.selectAll('.push-label')
+        .data(this.pushInfos)
+        .enter()
+        .append('text')
+        .attr('class', 'push-label')
+        .attr('x', margin.left - 10)
+        .attr('y', (d, row) => rowY(row) + barHeight / 2)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'end')
+        .style('font', '11px sans-serif')
+        .text(d => {
+          const pushHandle = d.pushHandle || '';
+          return pushHandle.slice(pushHandle.indexOf('@') + 1);
+        });
+
+    const tooltipDiv = document.createElement('div');
+    const tooltip = d3.select(tooltipDiv).call(styleTooltip);
+    element.appendChild(tooltipDiv);
+
+    svg.selectAll('.segment')
+        .data(data)
+        .enter()
+        .append('rect')
+        .attr('class', 'segment pointer')
+        .attr('x', d => x(d.start))
+        .attr('width', d => Math.max(1, x(d.end) - x(d.start)))
+        .attr('y', d => rowY(d.row))
+        .attr('height', barHeight)
+        .attr('fill', d => stageColor(d.segment.stage))
+        .attr('stroke', 'white')
+        .attr('stroke-width', 0.5)
+        .on('mouseover',
+            (d: Item) => {
+              d3.select(d3.event.currentTarget).attr('opacity', 0.7);
+              const [mouseX, mouseY] = d3.mouse(element);
+              tooltip.html(this.getTooltipContent(d))
+                  .style('left', `${mouseX + 10}px`)
+                  .style('top', `${mouseY + 10}px`)
+                  .style('opacity', 1);
+            })
+        .on('mouseleave', () => {
+          d3.select(d3.event.currentTarget).attr('opacity', 1);
+          tooltip.style('opacity', 0);
+        });
+
+    // Mark the end of each push with the color of its final state.
+    svg.selectAll('.final-state')
+        .data(this.pushInfos)
+        .enter()
+        .append('circle')
+        .attr('class', 'final-state')
+        .attr('cx', (d, row) => x(ends[row]))
+        .attr('cy', (d, row) => rowY(row) + barHeight / 2)
+        .attr('r', 5)
+        .attr('fill', d => {
+          const states = d.stateInfo;
+          if (!states || !states.length) {
+            return DARK_GRAY;
+          }
+          const finalState = states[states.length - 1].state || 0;
+          return stateColor(finalState);
+        })
+        .attr('stroke', DARK_GRAY);
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AfterViewInit, Component, ElementRef, Input, OnChanges, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {ChartData, preparedFor} from '../chart-data';
+import {DARK_GRAY, LIGHT_GRAY, MED_GRAY} from '../colors';
+import {findUnitForDuration, formatDuration, UNIT_CONVERSION} from '../duration-utils';
+import {StageDurationStats, stageDurationStats, StageSummary, summarizeStages} from '../stage-utils';
+import {stateColor} from '../states';
+
+type d3SVG = d3.Selection<SVGSVGElement, unknown, null, undefined>;
+
+/**
+ * Draws one lane per stage of a push def with the distribution of the stage
+ * durations across all the pushes: the whiskers go from the 10th to the 90th
+ * percentile, the box from the 25th to the 75th and the line in the box is the
+ * median. The lanes are ordered by when the stages usually start. If a current
+ * push is given, its stages are highlighted and its durations are marked with
+ * a dot colored by the final state of the stage.
+ */
+@Component({
+  selector: 'app-stage-durations',
+  templateUrl: './stage-durations.component.html',
+  styleUrls: ['./stage-durations.component.scss']
+})
+export class StageDurationsComponent implements AfterViewInit, OnChanges {
+  private static readonly LANE_HEIGHT = 22;
+  private static readonly MAX_LANES = 30;
+  private static readonly LABEL_LENGTH = 16;
+  private static readonly MARGIN = {top: 10, right: 30, bottom: 50, left: 150};
+
+  @ViewChild('stageDurations') private container!: ElementRef;
+  @Input() pushInfos!: step189_2020.IPushInfo[]|null;
+  // Stats prepared in the worker, used while they match the pushes.
+  @Input() chartData: ChartData|null = null;
+  @Input() currentPush: step189_2020.IPushInfo|null = null;
+
+  /**
+   * Keeps at most MAX_LANES stages: all the stages of the current push and
+   * then the ones that ran in the most pushes.
+   *
+   * @param stats Stats of all the stages, in lane order
+   * @param current Stages of the current push
+   */
+  private static pickLanes(
+      stats: StageDurationStats[],
+      current: Map<string, StageSummary>): StageDurationStats[] {
+    if (stats.length <= StageDurationsComponent.MAX_LANES) {
+      return stats;
+    }
+    const ranked = stats.slice().sort((a, b) => {
+      const currentA = current.has(a.stage) ? 1 : 0;
+      const currentB = current.has(b.stage) ? 1 : 0;
+      return (currentB - currentA) || (b.count - a.count);
+    });
+    const kept = new Set(ranked.slice(0, StageDurationsComponent.MAX_LANES));
+    return stats.filter(s => kept.has(s));
+  }
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(): void {
+    // The first change comes before the view exists.
+    if (this.container) {
+      this.render();
+    }
+  }
+
+  /**
+   * Draws the chart from scratch.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <text class='x-axis-label'></text>
+   *   <g class='lane'>  // One per stage
+   *     <rect class='lane-highlight'></rect>
+   *     <text class='lane-label'></text>
+   *     <line class='lane-whisker'></line>
+   *     <rect class='lane-box'></rect>
+   *     <line class='lane-median'></line>
+   *     <circle class='current-push'></circle>
+   *     <title></title>
+   *   </g>
+   * </svg>
+   */
+  private render(): void {
+    const element = this.container.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    if (!this.pushInfos) {
+      return;
+    }
+
+    const current = new Map<string, StageSummary>();
+    if (this.currentPush) {
+      summarizeStages(this.currentPush).forEach(s => current.set(s.stage, s));
+    }
+    const chartData = preparedFor(this.chartData, this.pushInfos);
+    const lanes = StageDurationsComponent.pickLanes(
+        chartData ? chartData.stageStats : stageDurationStats(this.pushInfos),
+        current);
+    if (!lanes.length) {
+      return;
+    }
+
+    const margin = StageDurationsComponent.MARGIN;
+    const laneHeight = StageDurationsComponent.LANE_HEIGHT;
+    const width = element.clientWidth;
+    const height = margin.top + margin.bottom + lanes.length * laneHeight;
+
+    const maxDuration = Math.max(
+        d3.max(lanes, d => d.p90) || 0,
+        d3.max(Array.from(current.values()), d => d.durationNsec) || 0);
+    const durationUnit = findUnitForDuration(maxDuration) || 'seconds';
+    const unitNsec = UNIT_CONVERSION[durationUnit];
+
+    const x = d3.scaleLinear()
+                  .domain([0, maxDuration / unitNsec || 1])
+                  .range([margin.left, width - margin.right])
+                  .nice();
+    const xNsec = (nsec: number) => x(nsec / unitNsec);
+    const y = d3.scaleBand()
+                  .domain(lanes.map(d => d.stage))
+                  .range([margin.top, height - margin.bottom])
+                  .padding(0.2);
+    const center = (d: StageDurationStats) =>
+        (y(d.stage) || 0) + y.bandwidth() / 2;
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    svg.append('g')
+        .attr('class', 'x-axis')
+        .attr('transform', `translate(0, ${height - margin.bottom})`)
+        .call(
+            d3.axisBottom(x).tickSize(-(height - margin.top - margin.bottom)))
+        .selectAll('line')
+        .style('stroke', MED_GRAY);
+    svg.select('.x-axis').select('.domain').remove();
+
+    svg.append('text')
+        .attr('class', 'x-axis-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(${(margin.left + width - margin.right) / 2}, ${
+                height - 10})`)
+        .style('font', '12px sans-serif')
+        .text(`Stage duration (in ${durationUnit})`);
+
+    const laneGroups = svg.selectAll('.lane')
+                           .data(lanes)
+                           .enter()
+                           .append('g')
+                           .attr('class', 'lane');
+
+    laneGroups.filter(d => current.has(d.stage))
+        .append('rect')
+        .attr('class', 'lane-highlight')
+        .attr('x', 0)
+        .attr('width', width)
+        .attr('y', d => (y(d.stage) || 0) - y.step() * y.paddingInner() / 2)
+        .attr('height', y.step())
+        .attr('fill', LIGHT_GRAY);
+
+    laneGroups.append('text')
+        .attr('class', 'lane-label')
+        .attr('x', margin.left - 10)
+        .attr('y', center)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'end')
+        .style('font', '11px monospace')
+        .text(d => {
+          const maxLength = StageDurationsComponent.LABEL_LENGTH;
+          return d.stage.length > maxLength ?
+              `${d.stage.slice(0, maxLength - 1)}…` :
+              d.stage;
+        });
+
+    laneGroups.append('line')
+        .attr('class', 'lane-whisker')
+        .attr('x1', d => xNsec(d.p10))
+        .attr('x2', d => xNsec(d.p90))
+        .attr('y1', center)
+        .attr('y2', center)
+        .attr('stroke', DARK_GRAY);
+
+    laneGroups.append('rect')
+        .attr('class', 'lane-box')
+        .attr('x', d => xNsec(d.p25))
+        .attr('width', d => Math.max(1, xNsec(d.p75) - xNsec(d.p25)))
+        .attr('y', d => y(d.stage) || 0)
+        .attr('height', y.bandwidth())
+        .attr('fill', MED_GRAY)
+        .attr('stroke', DARK_GRAY);
+
+    laneGroups.append('line')
+        .attr('class', 'lane-median')
+        .attr('x1', d => xNsec(d.p50))
+        .attr('x2', d => xNsec(d.p50))
+        .attr('y1', d => y(d.stage) || 0)
+        .attr('y2', d => (y(d.stage) || 0) + y.bandwidth())
+        .attr('stroke', DARK_GRAY)
+        .attr('stroke-width', 2);
+
+    laneGroups.filter(d => current.has(d.stage))
+        .append('circle')
+        .attr('class', 'current-push')
+        .attr(
+            'cx',
+            d => xNsec((current.get(d.stage) as StageSummary).durationNsec))
+        .attr('cy', center)
+        .attr('r', 5)
+        .attr('fill', d => {
+          const finalState = (current.get(d.stage) as StageSummary).finalState;
+          return stateColor(finalState);
+        })
+        .attr('stroke', 'black');
+
+    laneGroups.append('title').text(d => {
+      const lines = [
+        d.stage,
+        `Ran in ${d.count} pushes`,
+        `p10: ${formatDuration(d.p10)}`,
+        `p50: ${formatDuration(d.p50)}`,
+        `p90: ${formatDuration(d.p90)}`,
+      ];
+      const summary = current.get(d.stage);
+      if (summary) {
+        lines.push(`This push: ${formatDuration(summary.durationNsec)}`);
+      }
+      return lines.join('\n');
+    });
+  }
+}
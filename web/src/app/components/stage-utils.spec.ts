@@ -0,0 +1,147 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {stageDurationStats, stageSegments, summarizeStages} from './stage-utils';
+
+// A push that starts without a stage, retries the build stage once and then
+// deploys.
+const RETRIED_PUSH: step189_2020.IPushInfo = {
+  pushHandle: 'abc/@1',
+  stateInfo: [
+    {state: 1, startTimeNsec: 10},
+    {stage: 'build', attempt: 1, state: 13, startTimeNsec: 20},
+    {stage: 'build', attempt: 1, state: 5, startTimeNsec: 30},
+    {stage: 'build', attempt: 2, state: 13, startTimeNsec: 40},
+    {stage: 'build', attempt: 2, state: 6, startTimeNsec: 50},
+    {stage: 'deploy', attempt: 1, state: 13, startTimeNsec: 60},
+    {stage: 'deploy', attempt: 1, state: 6, startTimeNsec: 80},
+  ],
+};
+
+// A push that runs both stages once.
+const QUICK_PUSH: step189_2020.IPushInfo = {
+  pushHandle: 'abc/@2',
+  stateInfo: [
+    {stage: 'build', attempt: 1, state: 13, startTimeNsec: 100},
+    {stage: 'build', attempt: 1, state: 6, startTimeNsec: 130},
+    {stage: 'deploy', attempt: 1, state: 13, startTimeNsec: 130},
+    {stage: 'deploy', attempt: 1, state: 6, startTimeNsec: 160},
+  ],
+};
+
+describe('stageSegments', () => {
+  it('should split the states by stage and attempt', () => {
+    expect(stageSegments(RETRIED_PUSH)).toEqual([
+      {
+        stage: 'build',
+        attempt: 1,
+        startNsec: 20,
+        endNsec: 40,
+        states: [13, 5],
+        startsNsec: [20, 30],
+        finalState: 5,
+      },
+      {
+        stage: 'build',
+        attempt: 2,
+        startNsec: 40,
+        endNsec: 60,
+        states: [13, 6],
+        startsNsec: [40, 50],
+        finalState: 6,
+      },
+      {
+        stage: 'deploy',
+        attempt: 1,
+        startNsec: 60,
+        endNsec: 80,
+        states: [13, 6],
+        startsNsec: [60, 80],
+        finalState: 6,
+      },
+    ]);
+  });
+
+  it('should keep the unstaged states only if asked to', () => {
+    const segments = stageSegments(RETRIED_PUSH, true);
+
+    expect(segments.length).toBe(4);
+    expect(segments[0]).toEqual({
+      stage: '',
+      attempt: 0,
+      startNsec: 10,
+      endNsec: 20,
+      states: [1],
+      startsNsec: [10],
+      finalState: 1,
+    });
+  });
+
+  it('should end a segment at an unstaged state', () => {
+    const segments = stageSegments({
+      stateInfo: [
+        {stage: 'build', attempt: 1, state: 13, startTimeNsec: 10},
+        {state: 2, startTimeNsec: 20},
+        {stage: 'build', attempt: 1, state: 6, startTimeNsec: 30},
+      ],
+    });
+
+    expect(segments.map(s => [s.startNsec, s.endNsec])).toEqual([
+      [10, 20], [30, 30]
+    ]);
+  });
+
+  it('should return no segments for a push without states', () => {
+    expect(stageSegments({})).toEqual([]);
+    expect(stageSegments({stateInfo: []}, true)).toEqual([]);
+  });
+});
+
+describe('summarizeStages', () => {
+  it('should add up the segments and count the attempts of each stage', () => {
+    expect(summarizeStages(RETRIED_PUSH)).toEqual([
+      {stage: 'build', durationNsec: 40, attempts: 2, finalState: 6},
+      {stage: 'deploy', durationNsec: 20, attempts: 1, finalState: 6},
+    ]);
+  });
+});
+
+describe('stageDurationStats', () => {
+  it('should compute the percentiles of the durations of each stage', () => {
+    const stats = stageDurationStats([
+      RETRIED_PUSH,
+      QUICK_PUSH,
+      // Skipped, since it has no duration.
+      {pushHandle: 'abc/@3', stateInfo: [{state: 1, startTimeNsec: 5}]},
+    ]);
+
+    expect(stats.map(s => [s.stage, s.count, s.offsetNsec])).toEqual([
+      ['build', 2, 0], ['deploy', 2, 35]
+    ]);
+    expect(stats[0].p10).toBeCloseTo(31);
+    expect(stats[0].p50).toBeCloseTo(35);
+    expect(stats[0].p90).toBeCloseTo(39);
+    expect(stats[1].p25).toBeCloseTo(22.5);
+    expect(stats[1].p75).toBeCloseTo(27.5);
+  });
+
+  it('should return no stats without pushes', () => {
+    expect(stageDurationStats([])).toEqual([]);
+  });
+});
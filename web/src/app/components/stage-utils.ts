@@ -0,0 +1,198 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {findDuration} from './duration-utils';
+
+/**
+ * StageSegment holds a run of consecutive states of a push that belong to the
+ * same attempt of a stage.
+ */
+export interface StageSegment {
+  stage: string;         // Name of the stage
+  attempt: number;       // Attempt number of the states
+  startNsec: number;     // Start time of the first state of the run
+  endNsec: number;       // Start time of the next state, or of the last state
+  states: number[];      // Tags of the states in the run, in order
+  startsNsec: number[];  // Start times of the states, aligned with states
+  finalState: number;    // Tag of the last state of the run
+}
+
+/**
+ * StageSummary holds the totals of all the segments of one stage of a push.
+ */
+export interface StageSummary {
+  stage: string;         // Name of the stage
+  durationNsec: number;  // Sum of the durations of the segments
+  attempts: number;      // Number of distinct attempts
+  finalState: number;    // Tag of the last state of the last segment
+}
+
+/**
+ * StageDurationStats holds the distribution of the durations of one stage
+ * across all the pushes of a push def that ran it.
+ */
+export interface StageDurationStats {
+  stage: string;       // Name of the stage
+  count: number;       // Number of pushes that ran the stage
+  offsetNsec: number;  // Median start time relative to the start of the push
+  p10: number;         // Percentiles of the durations, in nanoseconds
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Splits the states of a push into segments of consecutive states that have
+ * the same stage and attempt. A segment ends when the next state starts, so
+ * the segments of a push don't overlap.
+ *
+ * @param pushInfo A single push
+ * @param includeUnstaged Whether to keep the states without a stage, e.g. the
+ *     ones before the first stage, as segments with an empty stage name
+ * @return the segments, ordered by start time
+ */
+export function stageSegments(
+    pushInfo: step189_2020.IPushInfo, includeUnstaged = false):
+    StageSegment[] {
+  const states = pushInfo.stateInfo;
+  if (!states || !states.length) {
+    return [];
+  }
+  const lastStart = +(states[states.length - 1].startTimeNsec || 0);
+
+  const segments: StageSegment[] = [];
+  let current: StageSegment|undefined;
+  states.forEach((stateInfo, i) => {
+    const stage = stateInfo.stage || '';
+    const attempt = +(stateInfo.attempt || 0);
+    const state = stateInfo.state || 0;
+    const next = states[i + 1];
+    const startNsec = +(stateInfo.startTimeNsec || 0);
+    const endNsec = next ? +(next.startTimeNsec || 0) : lastStart;
+
+    if (!stage && !includeUnstaged) {
+      current = undefined;
+      return;
+    }
+    if (current && current.stage === stage && current.attempt === attempt) {
+      current.endNsec = endNsec;
+      current.states.push(state);
+      current.startsNsec.push(startNsec);
+      current.finalState = state;
+      return;
+    }
+    current = {
+      stage,
+      attempt,
+      startNsec,
+      endNsec,
+      states: [state],
+      startsNsec: [startNsec],
+      finalState: state,
+    };
+    segments.push(current);
+  });
+  return segments;
+}
+
+/**
+ * Adds up the segments of each stage of a push.
+ *
+ * @param pushInfo A single push
+ * @return one summary per stage, in the order the stages started
+ */
+export function summarizeStages(pushInfo: step189_2020.IPushInfo):
+    StageSummary[] {
+  const summaries = new Map<string, StageSummary>();
+  const attempts = new Map<string, Set<number>>();
+  stageSegments(pushInfo).forEach(segment => {
+    let summary = summaries.get(segment.stage);
+    if (!summary) {
+      summary = {
+        stage: segment.stage,
+        durationNsec: 0,
+        attempts: 0,
+        finalState: segment.finalState,
+      };
+      summaries.set(segment.stage, summary);
+      attempts.set(segment.stage, new Set());
+    }
+    const stageAttempts = attempts.get(segment.stage) as Set<number>;
+    stageAttempts.add(segment.attempt);
+    summary.durationNsec += segment.endNsec - segment.startNsec;
+    summary.attempts = stageAttempts.size;
+    summary.finalState = segment.finalState;
+  });
+  return Array.from(summaries.values());
+}
+
+/**
+ * Computes the percentiles of the duration of each stage across pushes. The
+ * duration of a stage in a push is the sum of the durations of its segments,
+ * i.e. of the time between consecutive states of the stage.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ * @return the stats of each stage, ordered by median start time since the
+ *     start of the push
+ */
+export function stageDurationStats(pushInfos: step189_2020.IPushInfo[]):
+    StageDurationStats[] {
+  const durations = new Map<string, number[]>();
+  const offsets = new Map<string, number[]>();
+  pushInfos.forEach(pushInfo => {
+    const startEnd = findDuration(pushInfo);
+    if (!startEnd) {
+      return;
+    }
+    const pushStart = +startEnd.startNsec;
+    const firstStarts = new Map<string, number>();
+    stageSegments(pushInfo).forEach(segment => {
+      if (!firstStarts.has(segment.stage)) {
+        firstStarts.set(segment.stage, segment.startNsec);
+      }
+    });
+    summarizeStages(pushInfo).forEach(summary => {
+      if (!durations.has(summary.stage)) {
+        durations.set(summary.stage, []);
+        offsets.set(summary.stage, []);
+      }
+      (durations.get(summary.stage) as number[]).push(summary.durationNsec);
+      (offsets.get(summary.stage) as number[])
+          .push((firstStarts.get(summary.stage) || pushStart) - pushStart);
+    });
+  });
+
+  const stats: StageDurationStats[] = [];
+  durations.forEach((values, stage) => {
+    const sorted = values.sort(d3.ascending);
+    stats.push({
+      stage,
+      count: sorted.length,
+      offsetNsec: d3.median(offsets.get(stage) as number[]) || 0,
+      p10: d3.quantile(sorted, 0.1) || 0,
+      p25: d3.quantile(sorted, 0.25) || 0,
+      p50: d3.quantile(sorted, 0.5) || 0,
+      p75: d3.quantile(sorted, 0.75) || 0,
+      p90: d3.quantile(sorted, 0.9) || 0,
+    });
+  });
+  return stats.sort((a, b) => a.offsetNsec - b.offsetNsec);
+}
@@ -0,0 +1,31 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+
+import {categoryMetadata, STATE_CATEGORIES} from '../states';
+
+/**
+ * Lists the colors of the state categories used by the charts.
+ */
+@Component({
+  selector: 'app-state-legend',
+  templateUrl: './state-legend.component.html',
+  styleUrls: ['./state-legend.component.scss']
+})
+export class StateLegendComponent {
+  readonly categories = STATE_CATEGORIES.map(categoryMetadata);
+}
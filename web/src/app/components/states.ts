@@ -0,0 +1,179 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {BLUE, DARK_GRAY, GREEN, LIGHT_GRAY, ORANGE, RED} from './colors';
+
+/**
+ * Broad kind of a state, used to color it and to group states in filters.
+ */
+export type StateCategory = 'running'|'succeeded'|'failed'|'cancelled'|'idle';
+
+/**
+ * StateMetadata describes one tag of `PushInfo.StateInfo.state`.
+ */
+export interface StateMetadata {
+  tag: number;              // Value of the state field
+  name: string;             // Human-readable name
+  category: StateCategory;  // Broad kind of the state
+  color: string;            // Color of the state in all the charts
+  terminal: boolean;        // Whether a push ends in this state
+  known: boolean;           // False for tags missing from the registry
+}
+
+/**
+ * All the categories, in the order they are listed in legends and filters.
+ */
+export const STATE_CATEGORIES: StateCategory[] =
+    ['succeeded', 'failed', 'cancelled', 'running', 'idle'];
+
+const CATEGORY_COLORS: {[category in StateCategory]: string} = {
+  running: BLUE,
+  succeeded: GREEN,
+  failed: RED,
+  cancelled: ORANGE,
+  idle: LIGHT_GRAY,
+};
+
+const CATEGORY_NAMES: {[category in StateCategory]: string} = {
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+  idle: 'Idle',
+};
+
+/**
+ * Tag of the state of a push that completed successfully.
+ */
+export const COMPLETED_STATE = 5;
+
+// Category and terminal flag of each known tag. The tags don't come with
+// names, so only the completed state has its own; the others are named after
+// their category. The terminal flags match the states the pushes in the sample
+// data end in once they are done.
+const REGISTRY: {
+  [tag: number]: {category: StateCategory, terminal: boolean, name?: string}
+} = {
+  1: {category: 'idle', terminal: false},
+  3: {category: 'running', terminal: false},
+  4: {category: 'failed', terminal: false},
+  5: {category: 'succeeded', terminal: true, name: 'Completed'},
+  6: {category: 'failed', terminal: true},
+  7: {category: 'running', terminal: false},
+  8: {category: 'running', terminal: false},
+  9: {category: 'failed', terminal: true},
+  10: {category: 'running', terminal: false},
+  11: {category: 'running', terminal: false},
+  12: {category: 'failed', terminal: true},
+  13: {category: 'running', terminal: false},
+  14: {category: 'idle', terminal: false},
+  15: {category: 'running', terminal: false},
+  16: {category: 'failed', terminal: true},
+  17: {category: 'idle', terminal: true},
+  18: {category: 'failed', terminal: true},
+  19: {category: 'idle', terminal: true},
+  20: {category: 'idle', terminal: true},
+  21: {category: 'cancelled', terminal: true},
+  24: {category: 'cancelled', terminal: true},
+  25: {category: 'cancelled', terminal: true},
+  26: {category: 'idle', terminal: false},
+  29: {category: 'failed', terminal: true},
+};
+
+/**
+ * Looks up the metadata of a state. Unknown tags are named after the raw tag
+ * number, drawn in dark gray and treated as idle and non-terminal.
+ *
+ * @param tag Value of the state field
+ */
+export function stateMetadata(tag: number): StateMetadata {
+  const entry = REGISTRY[tag];
+  if (!entry) {
+    return {
+      tag,
+      name: `${tag}`,
+      category: 'idle',
+      color: DARK_GRAY,
+      terminal: false,
+      known: false,
+    };
+  }
+  return {
+    tag,
+    name: entry.name || CATEGORY_NAMES[entry.category],
+    category: entry.category,
+    color: CATEGORY_COLORS[entry.category],
+    terminal: entry.terminal,
+    known: true,
+  };
+}
+
+/**
+ * Returns the label of a state shown in tables and tooltips, e.g.
+ * 'Completed (5)'. Unknown states are shown as their raw tag number.
+ *
+ * @param tag Value of the state field
+ */
+export function stateLabel(tag: number): string {
+  const metadata = stateMetadata(tag);
+  return metadata.known ? `${metadata.name} (${tag})` : metadata.name;
+}
+
+/**
+ * Returns the color of a state in all the charts.
+ *
+ * @param tag Value of the state field
+ */
+export function stateColor(tag: number): string {
+  return stateMetadata(tag).color;
+}
+
+/**
+ * Returns the broad kind of a state.
+ *
+ * @param tag Value of the state field
+ */
+export function stateCategory(tag: number): StateCategory {
+  return stateMetadata(tag).category;
+}
+
+/**
+ * Returns whether a push that reached the state is done.
+ *
+ * @param tag Value of the state field
+ */
+export function isTerminalState(tag: number): boolean {
+  return stateMetadata(tag).terminal;
+}
+
+/**
+ * Returns whether the state is a successful outcome of a push.
+ *
+ * @param tag Value of the state field
+ */
+export function isSucceededState(tag: number): boolean {
+  return stateCategory(tag) === 'succeeded';
+}
+
+/**
+ * Returns the color and the name of a category, for legends.
+ *
+ * @param category Category of states
+ */
+export function categoryMetadata(category: StateCategory):
+    {name: string, color: string} {
+  return {name: CATEGORY_NAMES[category], color: CATEGORY_COLORS[category]};
+}
@@ -14,16 +14,43 @@
  * limitations under the License.
  */
 
-import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+
+import {Component} from '@angular/core';
+import {async, ComponentFixture, fakeAsync, flush, TestBed, tick} from '@angular/core/testing';
+
+import {accessibilityViolations} from '../../../testing/accessibility';
+import {FakeResizeObserver, installFakeResizeObserver} from '../../../testing/resize-observer';
+import {samplePushInfos} from '../../../testing/sample-pushes';
+import {ChartDataTableComponent} from '../chart-data-table/chart-data-table.component';
+import {ZoomDomain} from '../chart-state';
 
 import {TimelineComponent} from './timeline.component';
 
+// Start of the first sample push, in milliseconds.
+const START_MSEC = 1586797200 * 1000;
+const MSEC_PER_HOUR = 60 * 60 * 1000;
+
+@Component({
+  template: `
+      <app-timeline [pushInfos]='pushInfos' [zoomDomain]='zoomDomain'>
+      </app-timeline>`,
+})
+class TimelineHostComponent {
+  pushInfos = samplePushInfos(3);
+  zoomDomain: ZoomDomain|null = null;
+}
+
 describe('TimelineComponent', () => {
   let component: TimelineComponent;
   let fixture: ComponentFixture<TimelineComponent>;
 
   beforeEach(async(() => {
-    TestBed.configureTestingModule({declarations: [TimelineComponent]})
+    TestBed
+        .configureTestingModule({
+          declarations: [
+            TimelineComponent, ChartDataTableComponent, TimelineHostComponent
+          ]
+        })
         .compileComponents();
   }));
 
@@ -36,4 +63,64 @@ describe('TimelineComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  describe('with pushes', () => {
+    let hostFixture: ComponentFixture<TimelineHostComponent>;
+    let host: HTMLElement;
+
+    beforeEach(() => {
+      hostFixture = TestBed.createComponent(TimelineHostComponent);
+      hostFixture.detectChanges();
+      host = hostFixture.nativeElement;
+    });
+
+    it('should be usable with the keyboard and screen readers', async(() => {
+      accessibilityViolations(host).then(
+          violations => expect(violations).toEqual([]));
+      expect(host.querySelector('svg[tabindex="0"]')).toBeTruthy();
+      expect(host.querySelector('[aria-live]')).toBeTruthy();
+      expect(host.querySelectorAll('table.clip tbody tr').length)
+          .toBe(3);
+    }));
+
+    it('should announce the interval activated with the keyboard', () => {
+      const svg = host.querySelector('svg') as SVGSVGElement;
+      expect(svg).toBeTruthy();
+      svg.dispatchEvent(new KeyboardEvent('keydown', {key: 'ArrowRight'}));
+      hostFixture.detectChanges();
+      const liveRegion = host.querySelector('[aria-live]');
+      expect(liveRegion && liveRegion.textContent).toContain('Push ID: 1');
+    });
+  });
+
+  describe('when resized', () => {
+    let observer: FakeResizeObserver;
+
+    beforeEach(() => {
+      observer = installFakeResizeObserver();
+    });
+
+    afterEach(() => {
+      observer.uninstall();
+    });
+
+    it('should keep the zoom', fakeAsync(() => {
+         const hostFixture = TestBed.createComponent(TimelineHostComponent);
+         hostFixture.componentInstance.zoomDomain =
+             [START_MSEC, START_MSEC + MSEC_PER_HOUR];
+         hostFixture.detectChanges();
+         const host: HTMLElement = hostFixture.nativeElement;
+         const svg = host.querySelector('svg');
+
+         observer.resize(600, 300);
+         tick(100);
+         flush();
+
+         expect(host.querySelector('svg')).not.toBe(svg);
+         // The first push ran for 30 minutes, half of the zoomed hour.
+         const interval = host.querySelector('rect.interval');
+         expect(Number(interval && interval.getAttribute('width')))
+             .toBeCloseTo(300, 0);
+       }));
+  });
 });
@@ -15,23 +15,26 @@
  */
 
 import {formatDate} from '@angular/common';
-import {AfterViewInit, Component, ElementRef, Input, ViewChild} from '@angular/core';
+import {AfterViewInit, ChangeDetectorRef, Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges, ViewChild} from '@angular/core';
 import * as d3 from 'd3';
 import {HumanizeDuration, HumanizeDurationLanguage, HumanizeDurationOptions} from 'humanize-duration-ts';
+import {Subscription} from 'rxjs';
 
 import {step189_2020} from '../../../proto/step189_2020';
-import {DARK_GRAY, LIGHT_GRAY, MED_GRAY, STATE_TO_COLOR} from '../colors';
+import {PushSelection, PushSelectionService} from '../../services/push-selection.service';
+import {anomalyTooltipHtml, PushAnomalies} from '../anomalies';
+import {clearCanvas, createCanvas, drawRect, useCanvas} from '../canvas-utils';
+import {ChartData, preparedFor} from '../chart-data';
+import {DataTableColumn} from '../chart-data-table/chart-data-table.component';
+import {ZoomDomain} from '../chart-state';
+import {DARK_GRAY, LIGHT_GRAY, MED_GRAY, RED} from '../colors';
+import {announcement, isSelectKey, makeFocusable, selectionAnnouncement, stepIndex} from '../keyboard-utils';
+import {ElementSize, observeSize} from '../resize-utils';
+import {highlightPushes, highlightStyle} from '../selection-utils';
+import {categoryMetadata, STATE_CATEGORIES, StateCategory, stateColor, stateLabel} from '../states';
+import {isIncrementalUpdate} from '../update-utils';
 
-/**
- * Item holds all required data for one interval on the timeline.
- */
-interface Item {
-  pushID: string;     // Push ID
-  state: number;      // Final state of push
-  startTime: number;  // Start of push, in milliseconds
-  endTime: number;    // End of push, in milliseconds
-  row: number;        // Row number corresponds to y-position on timeline
-}
+import {closestInterval, concurrencyBuckets, ConcurrencyBucket, findInterval, indexRows, Item, populateData} from './timeline.utils';
 
 /**
  * Selection types. The first item in the d3.Selection<...> is the element
@@ -42,6 +45,8 @@ type d3SVGGElement = d3.Selection<SVGGElement, Item[], null, undefined>;
 type d3SVGSVGElement = d3.Selection<SVGSVGElement, Item[], null, undefined>;
 type d3SVGLineElement = d3.Selection<SVGLineElement, Item[], null, undefined>;
 type d3SVGTextElement = d3.Selection<SVGTextElement, Item[], null, undefined>;
+type d3DivElement = d3.Selection<HTMLDivElement, unknown, null, undefined>;
+type d3DensitySeries = d3.Series<ConcurrencyBucket, StateCategory>;
 
 @Component({
   selector: 'app-timeline',
@@ -49,7 +54,8 @@ type d3SVGTextElement = d3.Selection<SVGTextElement, Item[], null, undefined>;
   styleUrls: ['./timeline.component.scss']
 })
 
-export class TimelineComponent implements AfterViewInit {
+export class TimelineComponent implements AfterViewInit, OnChanges, OnDestroy,
+                                          OnInit {
   private static readonly LANG_SERVICE: HumanizeDurationLanguage =
       new HumanizeDurationLanguage();
   private static readonly HUMANIZER: HumanizeDuration =
@@ -58,117 +64,113 @@ export class TimelineComponent implements AfterViewInit {
   private static readonly HALF_LABEL_WIDTH: number = 50;
   private static readonly MIN_INTERVAL_HEIGHT: number = 25;
   private static readonly MSEC_PER_MIN: number = 60 * 1000;
-  private static readonly NSEC_PER_MSEC: number = 10 ** 6;
+  // Width of the outline of the intervals drawn on a canvas, matching the
+  // 0.025em of the SVG intervals.
+  private static readonly CANVAS_STROKE_WIDTH: number = 0.4;
+  // Pixels per push of the time window shown below which the timeline shows
+  // how many pushes ran at once instead of their intervals, and above which
+  // it only shows the intervals. In between the two are blended.
+  private static readonly DENSITY_PX_PER_PUSH: number = 0.5;
+  private static readonly INTERVALS_PX_PER_PUSH: number = 1;
+  // Width of the time buckets of the density chart, in pixels.
+  private static readonly DENSITY_BUCKET_WIDTH: number = 4;
 
   // Note that we use the non-null assertion operator ('!') in order to reassure
   // the compiler that our variables will never be null or undefined.
   @ViewChild('timeline') private timelineContainer!: ElementRef;
   @Input() private pushInfos!: step189_2020.IPushInfo[]|null;
+  @Input() private anomalies: PushAnomalies|null = null;
+  // Intervals prepared in the worker, used while they match the pushes.
+  @Input() private chartData: ChartData|null = null;
+  // Time window shown when the timeline is drawn, e.g. from a shared link.
+  @Input() private zoomDomain: ZoomDomain|null = null;
+  // Emits the time window shown after the user zooms, null when zoomed out.
+  @Output() readonly zoomDomainChange = new EventEmitter<ZoomDomain|null>();
+  // Tooltip of the item activated with the keyboard, read by screen readers.
+  announcement = '';
+  // Columns of the table that replaces the timeline for screen readers.
+  readonly tableColumns: Array<DataTableColumn<Item>> = [
+    {name: 'Push ID', value: d => d.pushID},
+    {name: 'Final state', value: d => stateLabel(d.state)},
+    {
+      name: 'Start time',
+      value: d => formatDate(d.startTime, 'yyyy-MM-dd HH:mm:ss', 'en-US')
+    },
+    {
+      name: 'End time',
+      value: d => formatDate(d.endTime, 'yyyy-MM-dd HH:mm:ss', 'en-US')
+    },
+    {
+      name: 'Duration',
+      value: d => TimelineComponent.HUMANIZER.humanize(
+          d.endTime - d.startTime, {round: true} as HumanizeDurationOptions)
+    },
+  ];
   private data: Item[] = [];
   private svg!: d3SVGSVGElement;
   private line!: d3SVGLineElement;
   private lineLabel!: d3SVGTextElement;
+  private tooltip!: d3DivElement;
   private x: d3.ScaleTime<number, number> = d3.scaleTime();
   private newX = d3.scaleTime();
   private isZoomed = false;
+  private zoom = d3.zoom<SVGSVGElement, Item[]>();
   private height = 0;
   private width = 0;
   private numRows = 0;
+  private pushSelection: PushSelection = {brush: null, selectedHandle: null};
+  private selectionSubscription = Subscription.EMPTY;
+  private resizeSubscription = Subscription.EMPTY;
+  // Time window brushed along the x-axis, in milliseconds. It is kept when the
+  // timeline is zoomed or redrawn.
+  private brushedWindow: [number, number]|null = null;
+  private timeBrush = d3.brushX<Item[]>();
+  private timeBrushG: d3SVGGElement|undefined;
+  // True while the brush is moved by the timeline itself, e.g. on zoom.
+  private movingBrush = false;
+  // Canvas the intervals are drawn on when there are too many of them for SVG
+  // rects, the intervals of each row and the one under the cursor or
+  // activated with the keyboard.
+  private canvas: CanvasRenderingContext2D|null = null;
+  private rows: Item[][] = [];
+  private hovered: Item|null = null;
+  // Opacity of the density chart, from 0 when only the intervals are shown to
+  // 1 when they are hidden, its buckets and the one under the cursor.
+  private densityOpacity = 0;
+  private buckets: ConcurrencyBucket[] = [];
+  private hoveredBucket: ConcurrencyBucket|null = null;
+
+  constructor(
+      private readonly changeDetector: ChangeDetectorRef,
+      private readonly selection: PushSelectionService) {}
 
   /**
-   * Extracts the pushID, state, and start and end time for each push in
-   * pushInfos and inserts them into Item interfaces, which are collectively
-   * stored in an array.
+   * Finds the earliest start time and the latest end time of the intervals.
    *
-   * @param pushInfos Array of pushes for one push def
+   * @param data Intervals of the timeline, not empty
+   * @return The start and end of the time axis, in milliseconds
    */
-  private static populateData(pushInfos: step189_2020.IPushInfo[]|
-                              null): [Item[], number] {
-    if (!pushInfos) {
-      return [[], 0];
-    }
-    const data: Item[] = [];
-
-    pushInfos.forEach(pushInfo => {
-      if (!pushInfo) {
-        return;
-      }
-      const states = pushInfo.stateInfo;
-      if (!states) {
-        return;
-      }
-      const statesStartTime = states[0].startTimeNsec;
-      if (!statesStartTime) {
-        return;
-      }
-      const statesEndTime = states[states.length - 1].startTimeNsec;
-      if (!statesEndTime) {
-        return;
-      }
-      const pushID = pushInfo.pushHandle;
-      if (!pushID) {
-        return;
-      }
-      const state = states[states.length - 1].state;
-      if (!state) {
-        return;
-      }
-
-      // Convert the start and end time values to seconds.
-      // The unary operator coerces the value to number type.
-      const startTime = +statesStartTime / TimelineComponent.NSEC_PER_MSEC;
-      const endTime = +statesEndTime / TimelineComponent.NSEC_PER_MSEC;
-
-      // Store data points as instances of Item interface.
-      data.push({pushID, state, startTime, endTime, row: 0} as Item);
-    });
-
-    // Assign a row value to each push representing their horizontal placement
-    // on the timeline. Each row index corresponds to one group.
-    const rowIndex = this.divideIntoRows(data);
-    return [data, rowIndex];
+  private static timeRange(data: Item[]): [number, number] {
+    return [
+      Math.min(...data.map(d => d.startTime)),
+      Math.max(...data.map(d => d.endTime))
+    ];
   }
 
   /**
-   * Divides the data into row by assigning a row index (corresponding
-   * to their row placement on the timeline) such that all intervals within a
-   * row do not overlap. The algorithm takes a greedy approach by sorting
-   * the row by increasing start time, sequentially picking the next interval,
-   * and removing all intervals it overlaps with. It thus fits as many intervals
-   * as possible in the first row, does so for each row until there are
-   * no more intervals left. The runtime is O(n * log(n)), which results in
-   * the case that all intervals are overlapping.
+   * Returns the color of the outline of an interval. Light gray intervals
+   * shorter than `MIN_VISIBLE_DURATION` are outlined in dark gray, so that
+   * they stay visible.
+   *
+   * @param d Holds one interval's data on the timeline.
    */
-  private static divideIntoRows(data: Item[]): number {
-    data.sort((a, b) => a.startTime - b.startTime);
-
-    // Initialized to arbitrary value to avoid premature return.
-    let overlappingIntervals = [data[0]];
-    let rowIndex = 0;
-    while (overlappingIntervals.length !== 0) {
-      let lastEndTime = 0;
-      overlappingIntervals = [];
-      for (const interval of data) {
-        // To check for interval overlap with the already determined set of
-        // non-overlapping intervals, we simply need to check if the start time
-        // of the current interval is earlier than the last added end time.
-        // This is a consequence of all events being sorted by start time.
-        if (interval.startTime >= lastEndTime) {
-          const intervalInData =
-              data.find(({pushID}) => pushID === interval.pushID);
-          if (intervalInData) {
-            intervalInData.row = rowIndex;
-          }
-          lastEndTime = interval.endTime;
-        } else {
-          overlappingIntervals.push(interval);
-        }
-      }
-      rowIndex++;
-      lastEndTime = 0;
-      data = overlappingIntervals;
-    }
-    return rowIndex;
+  private static strokeColor(d: Item): string {
+    const color = stateColor(d.state);
+    const duration = d.endTime - d.startTime;
+    return (color === LIGHT_GRAY &&
+            duration < TimelineComponent.MIN_VISIBLE_DURATION) ?
+        DARK_GRAY :
+        color;
   }
 
   /**
@@ -187,11 +189,13 @@ export class TimelineComponent implements AfterViewInit {
           round: true  // Get rid of decimal places
         } as HumanizeDurationOptions);
         const output = TimelineComponent.HUMANIZER.humanize(duration, options);
+        const anomalies = anomalyTooltipHtml(
+            this.anomalies ? this.anomalies.get(d.pushID) : undefined);
 
         // Return HTML representation of all required data.
         return `<b>Push ID: ${d.pushID.slice(d.pushID.indexOf('@') + 1)}</b>
       <br/>
-      <b>Final State: ${d.state}</b>
+      <b>Final State: ${stateLabel(d.state)}</b>
       <br/>
       <b>
         Start Time: ${formatDate(d.startTime, 'yyyy-MM-dd HH:mm:ss', 'en-US')}
@@ -202,6 +206,30 @@ export class TimelineComponent implements AfterViewInit {
       </b>
       <br/>
       <b>Duration: ${output}</b>
+      ${anomalies}
+      `;
+      }
+
+  /**
+   * Composes the content of the tooltip of a time bucket of the density chart.
+   *
+   * @param bucket Pushes running during the bucket
+   */
+  private getBucketTooltipContent =
+      (bucket: ConcurrencyBucket) => {
+        const counts =
+            STATE_CATEGORIES.filter(category => bucket.counts[category])
+                .map(
+                    category => `${categoryMetadata(category).name}: ${
+                        bucket.counts[category]}`)
+                .join('<br/>');
+        return `<b>Running pushes: ${bucket.total}</b>
+      <br/>
+      <b>From: ${formatDate(bucket.start, 'yyyy-MM-dd HH:mm:ss', 'en-US')}</b>
+      <br/>
+      <b>To: ${formatDate(bucket.end, 'yyyy-MM-dd HH:mm:ss', 'en-US')}</b>
+      <br/>
+      ${counts}
       `;
       }
 
@@ -211,7 +239,7 @@ export class TimelineComponent implements AfterViewInit {
    * @param el Encasing element that holds the tooltip.
    */
   private styleTooltip =
-      (el: d3.Selection<HTMLDivElement, unknown, null, undefined>) => {
+      (el: d3DivElement) => {
         el.style('position', 'absolute')
             .style('pointer-events', 'none')
             .style('top', 0)
@@ -224,6 +252,557 @@ export class TimelineComponent implements AfterViewInit {
             .style('font', '11px sans-serif');
       }
 
+  /**
+   * Publishes the pushes that ran during the brushed time window, i.e. that
+   * started before its end and ended after its start.
+   */
+  private onTimeBrushed =
+      () => {
+        if (this.movingBrush) {
+          return;
+        }
+        const brushArea: [number, number]|null = d3.event.selection;
+        if (!brushArea) {
+          this.brushedWindow = null;
+          this.selection.setBrush('timeline', null);
+          return;
+        }
+        const xScale = this.isZoomed ? this.newX : this.x;
+        const start = +xScale.invert(brushArea[0]);
+        const end = +xScale.invert(brushArea[1]);
+        this.brushedWindow = [start, end];
+        this.selection.setBrush(
+            'timeline',
+            this.data.filter(d => d.startTime <= end && d.endTime >= start)
+                .map(d => d.pushID));
+      }
+
+  /**
+   * Moves the brush to the brushed time window, without publishing it again.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private moveTimeBrush =
+      (xScale: d3.ScaleTime<number, number>) => {
+        if (!this.timeBrushG || !this.brushedWindow) {
+          return;
+        }
+        this.movingBrush = true;
+        this.timeBrushG.call(
+            this.timeBrush.move,
+            [xScale(this.brushedWindow[0]), xScale(this.brushedWindow[1])]);
+        this.movingBrush = false;
+      }
+
+  /**
+   * Dims the pushes outside of the brush and outlines the selected push.
+   */
+  private highlightSelection =
+      () => {
+        if (!this.svg) {
+          return;
+        }
+        if (this.canvas) {
+          this.drawCanvas(this.isZoomed ? this.newX : this.x);
+          return;
+        }
+        highlightPushes(
+            this.svg.selectAll<SVGRectElement, Item>('rect.interval'),
+            d => d.pushID, this.pushSelection);
+      }
+
+  /**
+   * Draws the x-axis with the given scale, e.g. after a zoom.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private drawXAxis =
+      (xScale: d3.ScaleTime<number, number>) => {
+        const xAxis =
+            d3.axisBottom(xScale).tickSize(-this.height - 6).tickPadding(10);
+        (this.svg.select('.x-axis') as d3SVGGElement)
+            .call(xAxis)
+            .selectAll('line')
+            .style('stroke', MED_GRAY);
+        this.svg.select('path.domain').remove();  // Remove axes borders
+      }
+
+  /**
+   * Inserts, moves and removes the interval bars so that they match the data.
+   * The bars are keyed by push ID, so that the ones of pushes that received
+   * new states are updated in place. Their y-position is determined by their
+   * row index.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private drawIntervals =
+      (xScale: d3.ScaleTime<number, number>) => {
+        // Keep the interval of the push activated with the keyboard.
+        const hovered = this.hovered;
+        this.rows = indexRows(this.data, this.numRows);
+        this.hovered = null;
+        this.hoverInterval(
+            (hovered && this.data.find(d => d.pushID === hovered.pushID)) ||
+            null);
+        if (this.canvas) {
+          this.drawCanvas(xScale);
+          this.drawAnomalyMarkers(xScale);
+          return;
+        }
+        const groupHeight = this.height / this.numRows;
+        const intervalBarHeight =
+            0.8 * groupHeight;  // Space between each interval
+        const intervalBarMargin = (groupHeight - intervalBarHeight) / 2;
+
+        const intervals =
+            (this.svg.select('g.intervals') as d3SVGGElement)
+                .selectAll<SVGRectElement, Item>('rect.interval')
+                .data(this.data, d => d.pushID);
+        intervals.exit().remove();
+
+        const newIntervals =
+            intervals.enter()
+                .append('rect')
+                .attr('class', 'interval pointer')
+                .attr('rx', 2)
+                .attr('ry', 2)
+                .attr('stroke-width', '0.025em')
+                .on('mouseover',
+                    (d: Item) => {
+                      d3.select(d3.event.currentTarget)
+                          .raise()
+                          .attr('opacity', 0.7)
+                          .attr('filter', 'url(#drop-shadow)');
+
+                      this.tooltip.html(this.getTooltipContent(d))
+                          .style('opacity', 1);
+                    })
+                .on('mouseleave',
+                    () => {
+                      d3.select(d3.event.currentTarget)
+                          .attr('filter', 'none')
+                          .attr('opacity', 1);
+                      // Ensure that line will always be on top
+                      this.line.raise();
+                      this.tooltip.style('opacity', '0');  // Hide tooltip
+                    })
+                .on('click',
+                    (d: Item) => this.selection.toggleSelected(d.pushID));
+
+        newIntervals.merge(intervals)
+            .attr('width', d => xScale(d.endTime) - xScale(d.startTime))
+            .attr('height', intervalBarHeight)
+            .attr('y', intervalBarMargin)
+            .attr('x', d => xScale(d.startTime))
+            .attr('transform', d => `translate(0, ${groupHeight * d.row})`)
+            .attr('style', d => `fill: ${stateColor(d.state)}`)
+            .attr('stroke', TimelineComponent.strokeColor);
+        this.highlightSelection();
+        this.drawAnomalyMarkers(xScale);
+      }
+
+  /**
+   * Draws the intervals on the canvas, with the same styles as the SVG rects
+   * and their highlights. Only the intervals within the zoomed time window are
+   * drawn.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private drawCanvas =
+      (xScale: d3.ScaleTime<number, number>) => {
+        const context = this.canvas;
+        if (!context) {
+          return;
+        }
+        const groupHeight = this.height / this.numRows;
+        const intervalBarHeight = 0.8 * groupHeight;
+        const intervalBarMargin = (groupHeight - intervalBarHeight) / 2;
+
+        clearCanvas(context);
+        this.data.forEach(d => {
+          const x = xScale(d.startTime);
+          const width = xScale(d.endTime) - x;
+          if (x > this.width || x + width < 0) {
+            return;
+          }
+          const style = highlightStyle(d.pushID, this.pushSelection);
+          drawRect(context, {
+            x,
+            y: groupHeight * d.row + intervalBarMargin,
+            width,
+            height: intervalBarHeight,
+            fill: stateColor(d.state),
+            fillOpacity: style.fillOpacity === null ? 1 : style.fillOpacity,
+            stroke: style.stroke || TimelineComponent.strokeColor(d),
+            strokeWidth:
+                style.strokeWidth || TimelineComponent.CANVAS_STROKE_WIDTH,
+          });
+        });
+        this.drawHoveredInterval(xScale);
+      }
+
+  /**
+   * Blends the intervals with a stacked area chart of how many pushes ran
+   * during each time bucket, by the category of their final state, depending
+   * on how many pushes the time window shows per pixel. Zoomed out, the
+   * intervals would be thinner than a pixel and spread over too many rows to
+   * tell them apart.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private drawDensity =
+      (xScale: d3.ScaleTime<number, number>) => {
+        const [start, end] = xScale.domain().map(date => date.getTime());
+        const numShown =
+            this.data.filter(d => d.startTime <= end && d.endTime >= start)
+                .length;
+        const pxPerPush = numShown ? this.width / numShown : Infinity;
+        const opacity = Math.min(
+            Math.max(
+                (TimelineComponent.INTERVALS_PX_PER_PUSH - pxPerPush) /
+                    (TimelineComponent.INTERVALS_PX_PER_PUSH -
+                     TimelineComponent.DENSITY_PX_PER_PUSH),
+                0),
+            1);
+        this.densityOpacity = opacity;
+
+        // Fade the intervals out as the density chart fades in, and only
+        // hover the one that is mostly visible.
+        const densityShown = opacity >= 0.5;
+        this.svg.selectAll('g.intervals, g.anomaly-markers')
+            .style('opacity', 1 - opacity)
+            .style('pointer-events', densityShown ? 'none' : 'auto');
+        if (this.canvas) {
+          this.canvas.canvas.style.opacity = `${1 - opacity}`;
+        }
+        if (densityShown) {
+          this.hoverInterval(null);
+        } else {
+          this.hoverBucket(null);
+        }
+
+        const density = this.svg.select('g.density').style('opacity', opacity);
+        if (!opacity) {
+          this.buckets = [];
+          density.selectAll('path.density-area').remove();
+          return;
+        }
+        this.buckets = concurrencyBuckets(
+            this.data, start, end,
+            Math.max(
+                Math.ceil(this.width / TimelineComponent.DENSITY_BUCKET_WIDTH),
+                1));
+        const y = d3.scaleLinear()
+                      .domain([0, d3.max(this.buckets, b => b.total) || 1])
+                      .nice()
+                      .range([this.height, 0]);
+        const series =
+            d3.stack<ConcurrencyBucket, StateCategory>()
+                .keys(STATE_CATEGORIES)
+                .value((bucket, category) => bucket.counts[category])(
+                    this.buckets);
+        const area = d3.area<d3.SeriesPoint<ConcurrencyBucket>>()
+                         .curve(d3.curveMonotoneX)
+                         .x(p => xScale((p.data.start + p.data.end) / 2))
+                         .y0(p => y(p[0]))
+                         .y1(p => y(p[1]));
+
+        const areas =
+            density.selectAll<SVGPathElement, d3DensitySeries>('path.density-area')
+                .data(series, s => s.key);
+        areas.enter()
+            .insert('path', 'g.density-axis')
+            .attr('class', 'density-area')
+            .attr('fill', s => categoryMetadata(s.key).color)
+            .merge(areas)
+            .attr('d', area);
+
+        (density.select('g.density-axis') as d3SVGGElement)
+            .call(d3.axisRight(y).ticks(4, 'd').tickSize(0).tickPadding(4))
+            .style('font-size', '10px')
+            .select('path.domain')
+            .remove();
+      }
+
+  /**
+   * Shows the tooltip of the time bucket of the density chart under the
+   * cursor.
+   *
+   * @param bucket The hovered bucket, or null when the cursor left the chart
+   */
+  private hoverBucket =
+      (bucket: ConcurrencyBucket|null) => {
+        if (bucket === this.hoveredBucket) {
+          return;
+        }
+        this.hoveredBucket = bucket;
+        if (!bucket || !bucket.total) {
+          this.tooltip.style('opacity', '0');  // Hide tooltip
+          return;
+        }
+        this.tooltip.html(this.getBucketTooltipContent(bucket))
+            .style('opacity', 1);
+      }
+
+  /**
+   * Shows the tooltip of what is under the cursor when the timeline doesn't
+   * use the events of SVG intervals: a time bucket of the density chart, or
+   * an interval drawn on the canvas.
+   *
+   * @param x The x-coordinate of the mouse relative to the encasing SVG.
+   * @param y The y-coordinate of the mouse relative to the encasing SVG.
+   */
+  private hoverAt =
+      (x: number, y: number) => {
+        if (this.densityOpacity >= 0.5) {
+          const index = Math.floor(x / this.width * this.buckets.length);
+          this.hoverBucket(
+              (y >= 0 && y < this.height && this.buckets[index]) || null);
+        } else if (this.canvas) {
+          this.hoverInterval(this.intervalAt(x, y));
+        }
+      }
+
+  /**
+   * Finds the interval drawn on the canvas under the cursor: the row is given
+   * by the y-coordinate, and the interval within the row by the time at the
+   * x-coordinate, give or take a pixel.
+   *
+   * @param x The x-coordinate of the mouse relative to the encasing SVG.
+   * @param y The y-coordinate of the mouse relative to the encasing SVG.
+   */
+  private intervalAt(x: number, y: number): Item|null {
+    const row = this.rows[Math.floor(y / (this.height / this.numRows))];
+    if (!row) {
+      return null;
+    }
+    const xScale = this.isZoomed ? this.newX : this.x;
+    const time = +xScale.invert(x);
+    return findInterval(row, time, +xScale.invert(x + 1) - time);
+  }
+
+  /**
+   * Shows the tooltip of the interval under the cursor when the intervals are
+   * drawn on the canvas, like hovering over an SVG interval does, or of the
+   * interval activated with the keyboard.
+   *
+   * @param d The hovered interval, or null when the cursor left it
+   */
+  private hoverInterval =
+      (d: Item|null) => {
+        if (d === this.hovered) {
+          return;
+        }
+        this.hovered = d;
+        this.drawHoveredInterval(this.isZoomed ? this.newX : this.x);
+        if (!d) {
+          this.tooltip.style('opacity', '0');  // Hide tooltip
+          return;
+        }
+        this.tooltip.html(this.getTooltipContent(d)).style('opacity', 1);
+      }
+
+  /**
+   * Draws the hovered interval over the canvas or the SVG intervals, with the
+   * drop shadow of the hovered SVG intervals.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private drawHoveredInterval =
+      (xScale: d3.ScaleTime<number, number>) => {
+        const hoverRect = this.svg.select('rect.interval-hover').raise();
+        const d = this.hovered;
+        this.svg.classed('pointer', d !== null);
+        if (!d) {
+          hoverRect.style('display', 'none');
+          return;
+        }
+        const groupHeight = this.height / this.numRows;
+        hoverRect.style('display', null)
+            .attr('x', xScale(d.startTime))
+            .attr('width', xScale(d.endTime) - xScale(d.startTime))
+            .attr('y', groupHeight * d.row + 0.1 * groupHeight)
+            .attr('height', 0.8 * groupHeight)
+            .attr('stroke', TimelineComponent.strokeColor(d))
+            .style('fill', stateColor(d.state));
+      }
+
+  /**
+   * Walks through the intervals with the keyboard in the order of their start
+   * times, or through the time buckets of the density chart when it replaces
+   * them. The up and down arrow keys move to the closest interval of the row
+   * above or below. The active item shows the tooltip of hovering over it,
+   * which is also announced to screen readers.
+   */
+  private onKeydown =
+      () => {
+        const event: KeyboardEvent = d3.event;
+        if (event.key === 'Escape') {
+          this.hoverInterval(null);
+          this.hoverBucket(null);
+          this.announcement = '';
+        } else if (isSelectKey(event.key)) {
+          if (!this.hovered) {
+            return;
+          }
+          this.selection.toggleSelected(this.hovered.pushID);
+          this.announcement =
+              selectionAnnouncement(this.hovered.pushID, this.pushSelection);
+        } else if (this.densityOpacity >= 0.5) {
+          const buckets = this.buckets.filter(b => b.total);
+          const index = stepIndex(
+              event.key,
+              this.hoveredBucket ? buckets.indexOf(this.hoveredBucket) : -1,
+              buckets.length);
+          if (index === null) {
+            return;
+          }
+          const bucket = buckets[index];
+          this.hoverBucket(bucket);
+          const xScale = this.isZoomed ? this.newX : this.x;
+          this.moveTooltip(
+              xScale((bucket.start + bucket.end) / 2), this.height / 2);
+          this.announcement = announcement(this.tooltip.node());
+        } else {
+          const d = this.nextInterval(event.key);
+          if (!d) {
+            return;
+          }
+          this.revealInterval(d);
+          this.hoverInterval(d);
+          const xScale = this.isZoomed ? this.newX : this.x;
+          this.moveTooltip(
+              Math.max(xScale(d.startTime), 0),
+              (d.row + 0.5) * this.height / this.numRows);
+          this.announcement = announcement(this.tooltip.node());
+        }
+        event.preventDefault();
+      }
+
+  /**
+   * Finds the interval to activate after a key is pressed: the previous or
+   * next interval by start time with the left and right arrow keys, and the
+   * closest one in the nearest non-empty row above or below with the up and
+   * down arrow keys.
+   *
+   * @param key Key of the keyboard event
+   * @return The interval, or null if the key doesn't move to another one
+   */
+  private nextInterval(key: string): Item|null {
+    const current = this.hovered;
+    if (key === 'ArrowUp' || key === 'ArrowDown') {
+      if (!current) {
+        return this.data[0] || null;
+      }
+      const step = key === 'ArrowUp' ? -1 : 1;
+      for (let row = current.row + step; this.rows[row]; row += step) {
+        const d = closestInterval(this.rows[row], current.startTime);
+        if (d) {
+          return d;
+        }
+      }
+      return null;
+    }
+    const index = stepIndex(
+        key, current ? this.data.indexOf(current) : -1, this.data.length);
+    return index === null ? null : this.data[index];
+  }
+
+  /**
+   * Pans the zoomed timeline so that an interval activated with the keyboard
+   * starts within the time window shown.
+   *
+   * @param d Interval activated with the keyboard
+   */
+  private revealInterval(d: Item): void {
+    if (!this.isZoomed) {
+      return;
+    }
+    const [start, end] = this.newX.domain().map(date => date.getTime());
+    if (d.startTime >= start && d.startTime <= end) {
+      return;
+    }
+    this.svg.call(this.zoom.translateTo, this.x(d.startTime), 0);
+    this.zoomDomainChange.emit(
+        this.newX.domain().map(date => date.getTime()) as ZoomDomain);
+  }
+
+  /**
+   * Moves the tooltip next to a point of the timeline, above it near the
+   * x-axis and to the left of it near the right edge of the timeline.
+   *
+   * @param x The x-coordinate of the point relative to the encasing SVG.
+   * @param y The y-coordinate of the point relative to the encasing SVG.
+   */
+  private moveTooltip =
+      (x: number, y: number) => {
+        const lineY = (y < this.height / 2) ? y + 125 : y + 10;
+        const lineX = (x > this.height / 2) ? x - 100 : x;
+
+        this.tooltip.style('left', lineX + 'px').style('top', lineY + 'px');
+      }
+
+  /**
+   * Draws a red marker at the end of the intervals of the pushes with
+   * anomalies.
+   *
+   * @param xScale Current scale of the x-axis
+   */
+  private drawAnomalyMarkers =
+      (xScale: d3.ScaleTime<number, number>) => {
+        const groupHeight = this.height / this.numRows;
+        const anomalies = this.anomalies;
+        const flagged =
+            anomalies ? this.data.filter(d => anomalies.has(d.pushID)) : [];
+        const markers =
+            (this.svg.select('g.anomaly-markers') as d3SVGGElement)
+                .selectAll<SVGPathElement, Item>('path.anomaly-marker')
+                .data(flagged, d => d.pushID);
+        markers.exit().remove();
+        markers.enter()
+            .append('path')
+            .attr('class', 'anomaly-marker')
+            .attr('d', d3.symbol().type(d3.symbolTriangle).size(30))
+            .attr('fill', RED)
+            .style('pointer-events', 'none')
+            .merge(markers)
+            .attr(
+                'transform',
+                d => `translate(${xScale(d.endTime)}, ${
+                    groupHeight * d.row + 4}) rotate(180)`);
+      }
+
+  /**
+   * Updates the timeline in place after pushes received new states, keeping
+   * its zoom and brush. The time axis grows to the new data, and the intervals
+   * are moved to their new rows.
+   *
+   * @return false if the timeline has to be redrawn instead, e.g. because the
+   *     number of rows changed
+   */
+  private updateTimeline(): boolean {
+    const [data, numRows] = this.timelineData();
+    if (!this.svg || !data.length || numRows !== this.numRows ||
+        useCanvas(data.length) !== (this.canvas !== null)) {
+      return false;
+    }
+    this.data = data;
+    const [minTimePoint, maxTimePoint] = TimelineComponent.timeRange(data);
+    this.x.domain([new Date(minTimePoint), new Date(maxTimePoint)]);
+
+    // Apply the current zoom to the new domain.
+    const svgElement = this.svg.node();
+    if (svgElement) {
+      this.newX = d3.zoomTransform(svgElement).rescaleX(this.x);
+    }
+    const xScale = this.isZoomed ? this.newX : this.x;
+    this.drawXAxis(xScale);
+    this.moveTimeBrush(xScale);
+    this.drawIntervals(xScale);
+    this.drawDensity(xScale);
+    return true;
+  }
+
   /**
    * Move the line and its corresponding line marker below the x-axis so that
    * it stays wherever the mouse is, even during drag.
@@ -249,6 +828,39 @@ export class TimelineComponent implements AfterViewInit {
             .attr('class', 'b system-sans-serif');
       }
 
+  /**
+   * Draws the timeline once the container is laid out. The data table and the
+   * export menu are updated right away, as their inputs were checked before
+   * the items were drawn. The timeline is redrawn when the width of the
+   * container changes, its height follows the number of rows.
+   */
+  ngAfterViewInit(): void {
+    this.drawTimeline();
+    this.changeDetector.detectChanges();
+    this.resizeSubscription =
+        observeSize(this.timelineContainer.nativeElement)
+            .subscribe(size => this.resize(size));
+  }
+
+  /**
+   * Draws the timeline again with the new width of its container, keeping the
+   * time window it is zoomed to and the brushed one. Changes of the height are
+   * ignored, as the timeline sets it itself.
+   *
+   * @param size New size of the container
+   */
+  private resize(size: ElementSize): void {
+    if (size.width === this.width) {
+      return;
+    }
+    const zoomDomain = this.isZoomed ?
+        this.newX.domain().map(date => date.getTime()) as ZoomDomain :
+        this.zoomDomain;
+    d3.select(this.timelineContainer.nativeElement).selectAll('*').remove();
+    this.isZoomed = false;
+    this.drawTimeline(zoomDomain);
+  }
+
   /**
    * Creates a scrollable timeline with bars representing the duration of
    * pushes. Every time this function is called, the previous timeline SVG is
@@ -259,6 +871,7 @@ export class TimelineComponent implements AfterViewInit {
    *
    * The structure of the component is shown below:
    * <div>
+   *   <canvas/> // Intervals when there are more than `CANVAS_THRESHOLD`
    *   <svg>
    *     <g>
    *       <g class='x-axis'>
@@ -270,26 +883,35 @@ export class TimelineComponent implements AfterViewInit {
    *       <line class=’group-section’/> // Horizontal rows
    *         [...]
    *       <line class=’group-section’/>
-   *       <g/>
-   *         [...] // Rects for intervals
-   *       <g/>
+   *       <g class='intervals'>
+   *         [...] // Rects for intervals and the hovered one, or only the
+   *               // hovered one with a canvas
+   *       </g>
+   *       <g class='anomaly-markers'>
+   *         [...] // Paths for the markers of the pushes with anomalies
+   *       </g>
+   *       <g class='density'> // Shown instead of the intervals zoomed out
+   *         [...] // Paths for the areas of the state categories
+   *         <g class='density-axis'/>
+   *       </g>
    *     </g>
    *   </svg>
    *   <div/> // tooltip content. Opacity is 0 when not hovering over interval
    * </div>
    *
-   * @param pushInfos Holds all pushes for one push def.
+   * @param zoomDomain Time window to zoom to, in milliseconds, if any
    */
-  ngAfterViewInit(): void {
+  private drawTimeline(zoomDomain = this.zoomDomain): void {
     if (!this.pushInfos) {
       return;
     }
 
     // Filter the data by first adding protocol buffer data into Item and
     // then seperating them into rows by giving them an individual row index.
-    const res = TimelineComponent.populateData(this.pushInfos);
-    this.data = res[0];
-    this.numRows = res[1];
+    [this.data, this.numRows] = this.timelineData();
+    if (!this.data.length) {
+      return;
+    }
 
     const element = this.timelineContainer.nativeElement;
 
@@ -313,26 +935,12 @@ export class TimelineComponent implements AfterViewInit {
     this.height = elementHeight - margin.top - margin.bottom;
 
     // Establish the timeline's bottom axis.
-    const minTimePoint =
-        this.data
-            .reduce((prev, cur) => {
-              return (prev.startTime < cur.startTime) ? prev : cur;
-            })
-            .startTime;
-
-    const maxTimePoint = this.data
-                             .reduce((prev, cur) => {
-                               return (prev.endTime > cur.endTime) ? prev : cur;
-                             })
-                             .endTime;
+    const [minTimePoint, maxTimePoint] = TimelineComponent.timeRange(this.data);
 
     this.x = d3.scaleTime()
                  .domain([new Date(minTimePoint), new Date(maxTimePoint)])
                  .range([0, this.width]);
 
-    const xAxis =
-        d3.axisBottom(this.x).tickSize(-this.height - 6).tickPadding(10);
-
     // Define the zoom behavior, limiting the scale with which we can zoom in
     // and out and restricting zoom to the x-axis only. Upon zoom, the x-axis
     // will rescale, as will the timeline intervals. The maxZoomIn value
@@ -340,7 +948,7 @@ export class TimelineComponent implements AfterViewInit {
     // set.
     const maxZoomIn =
         (maxTimePoint - minTimePoint) / TimelineComponent.MSEC_PER_MIN;
-    const zoom =
+    this.zoom =
         d3.zoom<SVGSVGElement, Item[]>()
             .scaleExtent([1, maxZoomIn])  // Limit zoom out.
             .translateExtent([[0, 0], [this.width, this.height]])
@@ -352,24 +960,28 @@ export class TimelineComponent implements AfterViewInit {
               this.newX = updatedScale;
 
               // Redraw the x-axis on every zoom action.
-              const newXAxis = d3.axisBottom(updatedScale)
-                                   .tickSize(-this.height - 6)
-                                   .tickPadding(10);
-
-              (this.svg.select('.x-axis') as d3SVGGElement)
-                  .call(newXAxis)
-                  .selectAll('line')
-                  .style('stroke', MED_GRAY);
+              this.drawXAxis(updatedScale);
+              this.moveTimeBrush(updatedScale);
+              this.drawAnomalyMarkers(updatedScale);
+              this.drawDensity(updatedScale);
 
-              this.svg.select('path.domain').remove();  // Remove axes borders
+              if (this.canvas) {
+                this.drawCanvas(updatedScale);
+              } else {
+                (this.svg.selectAll('rect.interval') as
+                 d3.Selection<SVGRectElement, Item, SVGSVGElement, Item[]>)
+                    .attr('x', (d: Item) => updatedScale(d.startTime))
+                    .attr(
+                        'width',
+                        (d: Item) => updatedScale(d.endTime) -
+                            updatedScale(d.startTime));
+                this.drawHoveredInterval(updatedScale);
+              }
 
-              (this.svg.selectAll('rect.interval') as
-               d3.Selection<SVGRectElement, Item, SVGSVGElement, Item[]>)
-                  .attr('x', (d: Item) => updatedScale(d.startTime))
-                  .attr(
-                      'width',
-                      (d: Item) =>
-                          updatedScale(d.endTime) - updatedScale(d.startTime));
+              // The zoom restored from the input doesn't come from the mouse.
+              if (!d3.event.sourceEvent) {
+                return;
+              }
 
               // Move line and line marker on zoom.
               const mouseCoords =
@@ -377,12 +989,19 @@ export class TimelineComponent implements AfterViewInit {
               const x = mouseCoords[0];
               const y = mouseCoords[1];
               this.moveLine(x);
-
-              // Move the tooltip on zoom.
-              const lineY = (y < this.height / 2) ? y + 125 : y + 10;
-              const lineX = (x > this.height / 2) ? x - 100 : x;
-
-              tooltip.style('left', lineX + 'px').style('top', lineY + 'px');
+              this.hoverAt(x, y);
+              this.moveTooltip(x, y);  // Move the tooltip on zoom.
+            })
+            .on('end', () => {
+              if (!d3.event.sourceEvent) {
+                return;
+              }
+              const transform: d3.ZoomTransform = d3.event.transform;
+              this.zoomDomainChange.emit(
+                  transform.k === 1 ?
+                      null :
+                      this.newX.domain().map(date => date.getTime()) as
+                          ZoomDomain);
             });
 
     // Set up timeline chart components. The structure of the SVG tree
@@ -399,16 +1018,28 @@ export class TimelineComponent implements AfterViewInit {
                 'xMinYMin')  // Keep aspect ratio on resize
             .attr('transform', `translate(${margin.left} ${margin.top})`);
 
-    this.svg.call(zoom);
+    this.svg.call(this.zoom);
+    makeFocusable(
+        this.svg,
+        'Timeline of pushes. Use the arrow keys to move between the pushes, ' +
+            'Enter to select one and Escape to hide its details.');
 
     this.svg.append('g')
         .attr('class', 'x-axis')
-        .attr('transform', `translate(0 ${this.height})`)
-        .call(xAxis)
-        .selectAll('line')
-        .style('stroke', MED_GRAY);
+        .attr('transform', `translate(0 ${this.height})`);
+    this.drawXAxis(this.x);
 
-    this.svg.select('path.domain').remove();  // Remove axes borders
+    // Brushing a time window along the x-axis highlights the pushes that ran
+    // during it in the other charts.
+    this.timeBrush = d3.brushX<Item[]>()
+                         .extent([
+                           [0, this.height],
+                           [this.width, this.height + margin.bottom]
+                         ])
+                         .on('end', this.onTimeBrushed);
+    this.timeBrushG =
+        this.svg.append('g').attr('class', 'time-brush').call(this.timeBrush);
+    this.moveTimeBrush(this.x);
 
     const defs =
         this.svg.append('defs');  // Holds special definitions (e.g. filter)
@@ -440,68 +1071,45 @@ export class TimelineComponent implements AfterViewInit {
     feMerge.append('feMergeNode');
     feMerge.append('feMergeNode').attr('in', 'SourceGraphic');
 
-    // Insert timeline interval bars with their y-position determined by their
-    // row index. In this case, `selectAll()` returns an empty selection since
-    // the class does not yet exist in the page. `data(this.data)` and `enter()`
-    // subsequently attaches data to the selection, with the first item in
-    // data corresponding to the first slot in the selection, and so on.
-    const groupHeight = this.height / this.numRows;
-    const intervalBarHeight = 0.8 * groupHeight;  // Space between each interval
-    const intervalBarMargin = (groupHeight - intervalBarHeight) / 2;
-    const intervals =
-        this.svg.selectAll('.interval-item')
-            .data(this.data)
-            .enter()
-            .append('rect')
-            .attr('class', 'interval pointer')
-            .attr('width', (d: Item) => this.x(d.endTime) - this.x(d.startTime))
-            .attr('height', intervalBarHeight)
-            .attr('rx', 2)
-            .attr('ry', 2)
-            .attr('y', intervalBarMargin)
-            .attr('x', (d: Item) => this.x(d.startTime))
-            .attr(
-                'transform',
-                (d: Item) => `translate(0, ${groupHeight * d.row})`)
-            .attr('style', (d: Item) => `fill: ${STATE_TO_COLOR[d.state]}`)
-            .attr(
-                'stroke',
-                (d: Item) => {
-                  // If state color is light gray and has a duration less than
-                  // five minutes, set border to a dark gray for visibility.
-                  const color = STATE_TO_COLOR[d.state];
-                  const duration = d.endTime - d.startTime;
-                  return (color === LIGHT_GRAY &&
-                          duration < TimelineComponent.MIN_VISIBLE_DURATION) ?
-                      DARK_GRAY :
-                      color;
-                })
-            .attr('stroke-width', '0.025em');
-
     // Create the tooltip and set its opacity to 0 when not hovering over a
     // set of data, such that it only appears when the cursor is directly on top
     // of an interval.
     const tooltipDiv = document.createElement('div');
-    const tooltip = d3.select(tooltipDiv).call(this.styleTooltip);
+    this.tooltip = d3.select(tooltipDiv).call(this.styleTooltip);
     element.appendChild(tooltipDiv);
 
-    intervals
-        .on('mouseover',
-            (d: Item) => {
-              d3.select(d3.event.currentTarget)
-                  .raise()
-                  .attr('opacity', 0.7)
-                  .attr('filter', 'url(#drop-shadow)');
+    // Insert timeline interval bars in their own group, so that the ones added
+    // by later updates stay below the line marker. When there are too many
+    // of them, they are drawn on a canvas under the SVG instead, and the group
+    // only holds the hovered interval. The hovered interval is also drawn
+    // over the SVG intervals when it is activated with the keyboard.
+    const intervals = this.svg.append('g').attr('class', 'intervals');
+    this.canvas = useCanvas(this.data.length) ?
+        createCanvas(element, margin.top, this.width, this.height) :
+        null;
+    this.hovered = null;
+    intervals.append('rect')
+        .attr('class', 'interval-hover')
+        .attr('rx', 2)
+        .attr('ry', 2)
+        .attr('stroke-width', '0.025em')
+        .attr('opacity', 0.7)
+        .attr('filter', 'url(#drop-shadow)')
+        .style('pointer-events', 'none')
+        .style('display', 'none');
+    this.svg.append('g').attr('class', 'anomaly-markers');
+    this.drawIntervals(this.x);
 
-              tooltip.html(this.getTooltipContent(d)).style('opacity', 1);
-            })
-        .on('mouseleave', () => {
-          d3.select(d3.event.currentTarget)
-              .attr('filter', 'none')
-              .attr('opacity', 1);
-          this.line.raise();  // Ensure that line will always be on top
-          tooltip.style('opacity', '0');  // Hide tooltip
-        });
+    // The density chart replaces the intervals when zoomed out. The tooltips
+    // of its buckets follow the cursor over the whole SVG, so it ignores the
+    // mouse itself.
+    this.hoveredBucket = null;
+    this.svg.append('g')
+        .attr('class', 'density')
+        .style('pointer-events', 'none')
+        .append('g')
+        .attr('class', 'density-axis');
+    this.drawDensity(this.x);
 
     // Add vertical line to track mouse movement.
     this.line = this.svg.append('line')
@@ -526,18 +1134,100 @@ export class TimelineComponent implements AfterViewInit {
         'mouseleave', () => {  // Hide line marker when cursor is off SVG
           this.line.style('opacity', 0);
           this.lineLabel.style('opacity', 0);
+          this.hoverBucket(null);
+          if (this.canvas) {
+            this.hoverInterval(null);
+          }
         });
 
     this.svg.on('mousemove', () => {
       const [x, y] = d3.mouse(d3.event.currentTarget);
       this.moveLine(x);
+      this.hoverAt(x, y);
+      this.moveTooltip(x, y);
+    });
 
-      // Move the tooltip above cursor if we near the x-axis and to the left
-      // of the cursor if we near the right edge of the timeline.
-      const lineY = (y < this.height / 2) ? y + 125 : y + 10;
-      const lineX = (x > this.height / 2) ? x - 100 : x;
+    // Clicking an interval drawn on the canvas selects its push, like
+    // clicking an SVG interval does.
+    this.svg.on('click', () => {
+      if (this.canvas && this.hovered) {
+        this.selection.toggleSelected(this.hovered.pushID);
+      }
+    });
 
-      tooltip.style('left', lineX + 'px').style('top', lineY + 'px');
+    // The arrow keys walk through the intervals once the timeline has the
+    // focus, and their details are hidden when it loses it.
+    this.svg.on('keydown', this.onKeydown);
+    this.svg.on('blur', () => {
+      this.hoverInterval(null);
+      this.hoverBucket(null);
     });
+
+    if (zoomDomain) {
+      // Zoom to the window, clamped to the extents of the zoom.
+      const [start, end] = zoomDomain;
+      const scale = Math.min(
+          Math.max((maxTimePoint - minTimePoint) / (end - start), 1),
+          maxZoomIn);
+      this.svg.call(
+          this.zoom.transform,
+          d3.zoomIdentity.scale(scale).translate(-this.x(new Date(start)), 0));
+    }
+  }
+
+  ngOnInit(): void {
+    this.selectionSubscription =
+        this.selection.selection.subscribe(pushSelection => {
+          this.pushSelection = pushSelection;
+          this.highlightSelection();
+        });
+  }
+
+  ngOnDestroy(): void {
+    this.selectionSubscription.unsubscribe();
+    this.resizeSubscription.unsubscribe();
+  }
+
+  /**
+   * Returns the intervals of the pushes and the number of rows they take. They
+   * are computed here when the worker didn't prepare them for these pushes.
+   */
+  private timelineData(): [Item[], number] {
+    const chartData = preparedFor(this.chartData, this.pushInfos);
+    return chartData ? [chartData.timeline, chartData.timelineRows] :
+                       populateData(this.pushInfos);
+  }
+
+  /**
+   * Returns the intervals drawn by the chart, for the export menu.
+   */
+  exportItems(): Item[] {
+    return this.data;
+  }
+
+  /**
+   * Redraws the timeline from scratch when the pushes change, e.g. when the
+   * filter of the page changes. The height is reset so that it fits the new
+   * number of rows. Live updates of the pushes are applied in place instead.
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!this.timelineContainer) {
+      return;
+    }
+    if (!changes.pushInfos && this.svg) {
+      // The zoom of the input is only applied when the timeline is drawn.
+      if (changes.anomalies) {
+        this.drawAnomalyMarkers(this.isZoomed ? this.newX : this.x);
+      }
+      return;
+    }
+    if (isIncrementalUpdate(changes.pushInfos) && this.updateTimeline()) {
+      return;
+    }
+    const element = this.timelineContainer.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    element.style.height = '';
+    this.isZoomed = false;
+    this.drawTimeline();
   }
 }
@@ -0,0 +1,164 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {closestInterval, concurrencyBuckets, findInterval, indexRows, Item} from './timeline.utils';
+
+// Builds the interval of a completed push, in milliseconds.
+function item(
+    pushID: string, startTime: number, endTime: number, row = 0,
+    state = 5): Item {
+  return {pushID, state, startTime, endTime, row};
+}
+
+describe('indexRows', () => {
+  it('should group the intervals by row, sorted by start time', () => {
+    const rows = indexRows(
+        [item('1', 20, 30, 1), item('2', 0, 10, 1), item('3', 5, 15, 0)], 3);
+
+    expect(rows.map(row => row.map(d => d.pushID))).toEqual([
+      ['3'], ['2', '1'], []
+    ]);
+  });
+
+  it('should return empty rows without intervals', () => {
+    expect(indexRows([], 2)).toEqual([[], []]);
+    expect(indexRows([], 0)).toEqual([]);
+  });
+});
+
+describe('findInterval', () => {
+  const row = [item('1', 0, 10), item('2', 20, 30), item('3', 40, 40)];
+  const find = (time: number, tolerance: number) => {
+    const found = findInterval(row, time, tolerance);
+    return found && found.pushID;
+  };
+
+  it('should find the interval that covers the time', () => {
+    expect(find(5, 0)).toBe('1');
+    expect(find(25, 0)).toBe('2');
+  });
+
+  it('should include the bounds of the intervals', () => {
+    expect(find(0, 0)).toBe('1');
+    expect(find(10, 0)).toBe('1');
+    expect(find(20, 0)).toBe('2');
+    expect(find(40, 0)).toBe('3');
+  });
+
+  it('should find the intervals within the tolerance', () => {
+    expect(find(15, 4)).toBeNull();
+    expect(find(12, 2)).toBe('1');
+    expect(find(18, 2)).toBe('2');
+    expect(find(-1, 0)).toBeNull();
+    expect(find(-1, 1)).toBe('1');
+    expect(find(41, 0)).toBeNull();
+    expect(find(41, 1)).toBe('3');
+  });
+
+  it('should prefer the later interval when both are within the tolerance',
+     () => {
+       expect(find(15, 5)).toBe('2');
+     });
+
+  it('should find nothing in an empty row', () => {
+    expect(findInterval([], 0, 10)).toBeNull();
+  });
+});
+
+describe('closestInterval', () => {
+  const row = [item('1', 0, 10), item('2', 20, 30), item('3', 40, 40)];
+  const closest = (time: number) => {
+    const found = closestInterval(row, time);
+    return found && found.pushID;
+  };
+
+  it('should find the interval that starts the closest to the time', () => {
+    expect(closest(9)).toBe('1');
+    expect(closest(14)).toBe('2');
+    expect(closest(40)).toBe('3');
+  });
+
+  it('should prefer the earlier interval on a tie', () => {
+    expect(closest(10)).toBe('1');
+  });
+
+  it('should find the first or last interval outside of the row', () => {
+    expect(closest(-5)).toBe('1');
+    expect(closest(100)).toBe('3');
+  });
+
+  it('should find nothing in an empty row', () => {
+    expect(closestInterval([], 0)).toBeNull();
+  });
+});
+
+describe('concurrencyBuckets', () => {
+  const totals =
+      (data: Item[], start: number, end: number, numBuckets: number) =>
+          concurrencyBuckets(data, start, end, numBuckets).map(b => b.total);
+
+  it('should split the range into equal buckets', () => {
+    const buckets = concurrencyBuckets([], 0, 100, 4);
+
+    expect(buckets.map(b => [b.start, b.end])).toEqual([
+      [0, 25], [25, 50], [50, 75], [75, 100]
+    ]);
+    expect(buckets.map(b => b.total)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should count the pushes in every bucket they overlap', () => {
+    expect(totals([item('1', 10, 60)], 0, 100, 4)).toEqual([1, 1, 1, 0]);
+    expect(totals([item('1', 30, 30)], 0, 100, 4)).toEqual([0, 1, 0, 0]);
+  });
+
+  it('should count the pushes on a boundary in both buckets', () => {
+    expect(totals([item('1', 10, 25)], 0, 100, 4)).toEqual([1, 1, 0, 0]);
+    expect(totals([item('1', 25, 30)], 0, 100, 4)).toEqual([0, 1, 0, 0]);
+    expect(totals([item('1', 50, 50)], 0, 100, 4)).toEqual([0, 0, 1, 0]);
+  });
+
+  it('should clamp the pushes to the range', () => {
+    expect(totals([item('1', -10, 0)], 0, 100, 4)).toEqual([1, 0, 0, 0]);
+    expect(totals([item('1', 90, 100)], 0, 100, 4)).toEqual([0, 0, 0, 1]);
+    expect(totals([item('1', -10, 200)], 0, 100, 4)).toEqual([1, 1, 1, 1]);
+    expect(totals([item('1', -20, -10), item('2', 110, 120)], 0, 100, 4))
+        .toEqual([0, 0, 0, 0]);
+  });
+
+  it('should count the pushes by the category of their final state', () => {
+    const buckets = concurrencyBuckets(
+        [item('1', 0, 10), item('2', 0, 10, 0, 6), item('3', 0, 60, 0, 3)], 0,
+        100, 2);
+
+    expect(buckets[0].counts).toEqual(
+        {succeeded: 1, failed: 1, cancelled: 0, running: 1, idle: 0});
+    expect(buckets[1].counts).toEqual(
+        {succeeded: 0, failed: 0, cancelled: 0, running: 1, idle: 0});
+  });
+
+  it('should count nothing in a zero-width range', () => {
+    const buckets = concurrencyBuckets([item('1', 0, 100)], 50, 50, 3);
+
+    expect(buckets.map(b => [b.start, b.end])).toEqual([
+      [50, 50], [50, 50], [50, 50]
+    ]);
+    expect(buckets.map(b => b.total)).toEqual([0, 0, 0]);
+  });
+
+  it('should return no buckets if none are asked for', () => {
+    expect(concurrencyBuckets([item('1', 0, 10)], 0, 100, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {stateCategory, StateCategory} from '../states';
+
+/**
+ * Item holds all required data for one interval on the timeline.
+ */
+export interface Item {
+  pushID: string;     // Push ID
+  state: number;      // Final state of push
+  startTime: number;  // Start of push, in milliseconds
+  endTime: number;    // End of push, in milliseconds
+  row: number;        // Row number corresponds to y-position on timeline
+}
+
+const NSEC_PER_MSEC = 10 ** 6;
+
+/**
+ * Extracts the pushID, state, and start and end time for each push in
+ * pushInfos and inserts them into Item interfaces, which are collectively
+ * stored in an array.
+ *
+ * @param pushInfos Array of pushes for one push def
+ */
+export function populateData(pushInfos: step189_2020.IPushInfo[]|null):
+    [Item[], number] {
+  if (!pushInfos) {
+    return [[], 0];
+  }
+  const data: Item[] = [];
+
+  pushInfos.forEach(pushInfo => {
+    if (!pushInfo) {
+      return;
+    }
+    const states = pushInfo.stateInfo;
+    if (!states) {
+      return;
+    }
+    const statesStartTime = states[0].startTimeNsec;
+    if (!statesStartTime) {
+      return;
+    }
+    const statesEndTime = states[states.length - 1].startTimeNsec;
+    if (!statesEndTime) {
+      return;
+    }
+    const pushID = pushInfo.pushHandle;
+    if (!pushID) {
+      return;
+    }
+    const state = states[states.length - 1].state;
+    if (!state) {
+      return;
+    }
+
+    // Convert the start and end time values to seconds.
+    // The unary operator coerces the value to number type.
+    const startTime = +statesStartTime / NSEC_PER_MSEC;
+    const endTime = +statesEndTime / NSEC_PER_MSEC;
+
+    // Store data points as instances of Item interface.
+    data.push({pushID, state, startTime, endTime, row: 0} as Item);
+  });
+
+  // Assign a row value to each push representing their horizontal placement
+  // on the timeline. Each row index corresponds to one group.
+  const rowIndex = divideIntoRows(data);
+  return [data, rowIndex];
+}
+
+/**
+ * Divides the data into row by assigning a row index (corresponding
+ * to their row placement on the timeline) such that all intervals within a
+ * row do not overlap. The algorithm takes a greedy approach by sorting
+ * the row by increasing start time, sequentially picking the next interval,
+ * and removing all intervals it overlaps with. It thus fits as many intervals
+ * as possible in the first row, does so for each row until there are
+ * no more intervals left. The runtime is O(n * log(n)), which results in
+ * the case that all intervals are overlapping.
+ */
+function divideIntoRows(data: Item[]): number {
+  data.sort((a, b) => a.startTime - b.startTime);
+
+  // Initialized to arbitrary value to avoid premature return.
+  let overlappingIntervals = [data[0]];
+  let rowIndex = 0;
+  while (overlappingIntervals.length !== 0) {
+    let lastEndTime = 0;
+    overlappingIntervals = [];
+    for (const interval of data) {
+      // To check for interval overlap with the already determined set of
+      // non-overlapping intervals, we simply need to check if the start time
+      // of the current interval is earlier than the last added end time.
+      // This is a consequence of all events being sorted by start time.
+      if (interval.startTime >= lastEndTime) {
+        const intervalInData =
+            data.find(({pushID}) => pushID === interval.pushID);
+        if (intervalInData) {
+          intervalInData.row = rowIndex;
+        }
+        lastEndTime = interval.endTime;
+      } else {
+        overlappingIntervals.push(interval);
+      }
+    }
+    rowIndex++;
+    lastEndTime = 0;
+    data = overlappingIntervals;
+  }
+  return rowIndex;
+}
+
+/**
+ * Groups the intervals by row, for finding the interval under the cursor when
+ * they are drawn on a canvas. Each row is sorted by start time, and since the
+ * intervals of a row don't overlap, by end time too.
+ *
+ * @param data Intervals of the timeline
+ * @param numRows Number of rows of the timeline
+ */
+export function indexRows(data: Item[], numRows: number): Item[][] {
+  const rows: Item[][] = Array.from({length: numRows}, () => []);
+  data.forEach(d => rows[d.row].push(d));
+  rows.forEach(row => row.sort((a, b) => a.startTime - b.startTime));
+  return rows;
+}
+
+/**
+ * Finds the interval of a row that covers a point in time, with a tolerance so
+ * that intervals narrower than a pixel can still be hovered.
+ *
+ * @param row Intervals of one row, sorted by start time
+ * @param time Point in time, in milliseconds
+ * @param tolerance Distance an interval may be from the time, in milliseconds
+ * @return The interval, or null if there is none at the time
+ */
+export function findInterval(row: Item[], time: number, tolerance: number):
+    Item|null {
+  // The last interval that starts before the time is the only one that can
+  // cover it, as the intervals of the row don't overlap.
+  let low = 0;
+  let high = row.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (row[middle].startTime <= time + tolerance) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const candidate = row[low - 1];
+  return (candidate && candidate.endTime >= time - tolerance) ? candidate :
+                                                                 null;
+}
+
+/**
+ * Finds the interval of a row that starts the closest to a point in time, to
+ * move between the rows with the keyboard.
+ *
+ * @param row Intervals of one row, sorted by start time
+ * @param time Point in time, in milliseconds
+ * @return The interval, or null if the row is empty
+ */
+export function closestInterval(row: Item[], time: number): Item|null {
+  // The closest interval is either the first one that starts after the time
+  // or the one before it.
+  let low = 0;
+  let high = row.length;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (row[middle].startTime < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  const candidates = [row[low - 1], row[low]].filter(d => d);
+  if (!candidates.length) {
+    return null;
+  }
+  return candidates.reduce(
+      (closest, d) => Math.abs(d.startTime - time) <
+              Math.abs(closest.startTime - time) ?
+          d :
+          closest);
+}
+
+/**
+ * ConcurrencyBucket holds the number of pushes that were running during one
+ * time bucket, by the category of their final state.
+ */
+export interface ConcurrencyBucket {
+  start: number;  // Start of the bucket, in milliseconds
+  end: number;    // End of the bucket, in milliseconds
+  total: number;  // Number of pushes running during the bucket
+  counts: {[category in StateCategory]: number};  // Pushes by final state
+}
+
+/**
+ * Counts the pushes running during each of equal time buckets. A push counts
+ * in every bucket it overlaps, including the ones it starts or ends at the
+ * boundary of.
+ *
+ * @param data Intervals of the timeline
+ * @param start Start of the first bucket, in milliseconds
+ * @param end End of the last bucket, in milliseconds
+ * @param numBuckets Number of buckets
+ */
+export function concurrencyBuckets(
+    data: Item[], start: number, end: number,
+    numBuckets: number): ConcurrencyBucket[] {
+  const bucketSize = (end - start) / numBuckets;
+  const buckets: ConcurrencyBucket[] = [];
+  for (let i = 0; i < numBuckets; i++) {
+    buckets.push({
+      start: start + i * bucketSize,
+      end: start + (i + 1) * bucketSize,
+      total: 0,
+      counts: {succeeded: 0, failed: 0, cancelled: 0, running: 0, idle: 0},
+    });
+  }
+  if (!(bucketSize > 0)) {
+    return buckets;
+  }
+  data.forEach(d => {
+    if (d.endTime < start || d.startTime > end) {
+      return;
+    }
+    const category = stateCategory(d.state);
+    const first = Math.max(Math.floor((d.startTime - start) / bucketSize), 0);
+    const last = Math.min(
+        Math.floor((d.endTime - start) / bucketSize), numBuckets - 1);
+    for (let i = first; i <= last; i++) {
+      buckets[i].total++;
+      buckets[i].counts[category]++;
+    }
+  });
+  return buckets;
+}
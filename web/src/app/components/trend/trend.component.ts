@@ -0,0 +1,293 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {formatDate} from '@angular/common';
+import {AfterViewInit, Component, ElementRef, EventEmitter, Input, OnChanges, Output, SimpleChanges, ViewChild} from '@angular/core';
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {ChartData, preparedFor} from '../chart-data';
+import {BLUE, DARK_GRAY, MED_GRAY, RED} from '../colors';
+import {findUnitForDuration, formatDuration, UNIT_CONVERSION} from '../duration-utils';
+
+import {DEFAULT_TREND_WINDOW, findChangePoints, finishedPushes, rollingTrend, TrendPoint, TrendWindow} from './trend.utils';
+
+type d3SVG = d3.Selection<SVGSVGElement, unknown, null, undefined>;
+
+/**
+ * Describes one line of the chart.
+ */
+interface Series {
+  name: string;                         // Name shown in the legend
+  value: (point: TrendPoint) => number; // Value of the line at a point
+  color: string;                        // Stroke color
+  dashes: string;                       // Stroke dash array, 'none' if solid
+  rightAxis: boolean;                   // Whether it uses the right y-axis
+}
+
+const NSEC_PER_MSEC = 10 ** 6;
+
+/**
+ * Draws the rolling percentiles of the durations of the completed pushes of a
+ * push def and its rolling failure rate over time, to tell whether the push
+ * def gets slower or fails more often. The shifts of the durations are marked
+ * by vertical lines.
+ */
+@Component({
+  selector: 'app-trend',
+  templateUrl: './trend.component.html',
+  styleUrls: ['./trend.component.scss']
+})
+export class TrendComponent implements AfterViewInit, OnChanges {
+  private static readonly MARGIN = {top: 40, right: 60, bottom: 40, left: 70};
+
+  @ViewChild('trend') private container!: ElementRef;
+  @Input() pushInfos!: step189_2020.IPushInfo[]|null;
+  // Pushes and shifts prepared in the worker, used while they match the
+  // pushes.
+  @Input() chartData: ChartData|null = null;
+  // Rolling window used when the chart is created, e.g. from a shared link.
+  @Input() initialWindow: TrendWindow|null = null;
+  // Emits the rolling window chosen by the user.
+  @Output() readonly windowChange = new EventEmitter<TrendWindow>();
+
+  trendWindow: TrendWindow = {...DEFAULT_TREND_WINDOW};
+
+  ngAfterViewInit(): void {
+    this.render();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes.initialWindow && changes.initialWindow.firstChange &&
+        this.initialWindow) {
+      this.trendWindow = {...this.initialWindow};
+    }
+    // The first change comes before the view exists.
+    if (this.container && (changes.pushInfos || changes.chartData)) {
+      this.render();
+    }
+  }
+
+  changeWindow(): void {
+    this.render();
+    this.windowChange.emit({...this.trendWindow});
+  }
+
+  /**
+   * Draws the chart from scratch.
+   *
+   * Structure of the SVG:
+   * <svg>
+   *   <g class='x-axis'></g>
+   *   <g class='y-axis-left'></g>
+   *   <text class='y-axis-left-label'></text>
+   *   <g class='y-axis-right'></g>
+   *   <text class='y-axis-right-label'></text>
+   *   <path class='trend-line'></path>  // One per series
+   *   <g class='change-point'>  // One per shift of the durations
+   *     <line></line>
+   *     <text></text>
+   *     <title></title>
+   *   </g>
+   *   <g class='legend'></g>
+   * </svg>
+   */
+  render(): void {
+    const element = this.container.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    if (!this.pushInfos) {
+      return;
+    }
+    const chartData = preparedFor(this.chartData, this.pushInfos);
+    const pushes = chartData ? chartData.finishedPushes :
+                               finishedPushes(this.pushInfos);
+    if (!pushes.length) {
+      return;
+    }
+    const points = rollingTrend(pushes, this.trendWindow);
+    const changePoints =
+        chartData ? chartData.changePoints : findChangePoints(pushes);
+
+    const margin = TrendComponent.MARGIN;
+    const width = element.clientWidth;
+    const height = element.clientHeight;
+
+    const maxDuration = d3.max(points, d => d.p99) || 0;
+    const durationUnit = findUnitForDuration(maxDuration) || 'seconds';
+    const unitNsec = UNIT_CONVERSION[durationUnit];
+
+    const timeExtent =
+        d3.extent(points, d => d.timeNsec / NSEC_PER_MSEC) as [number, number];
+    const x = d3.scaleTime()
+                  .domain(timeExtent.map(msec => new Date(msec)))
+                  .range([margin.left, width - margin.right]);
+    const xNsec = (nsec: number) => x(new Date(nsec / NSEC_PER_MSEC));
+    const yDuration = d3.scaleLinear()
+                          .domain([0, maxDuration / unitNsec || 1])
+                          .range([height - margin.bottom, margin.top])
+                          .nice();
+    const yRate = d3.scaleLinear().domain([0, 100]).range(
+        [height - margin.bottom, margin.top]);
+
+    const svg = (d3.select(element).append('svg') as d3SVG)
+                    .attr('width', width)
+                    .attr('height', height);
+
+    svg.append('g')
+        .attr('class', 'x-axis')
+        .attr('transform', `translate(0, ${height - margin.bottom})`)
+        .call(d3.axisBottom(x));
+
+    svg.append('g')
+        .attr('class', 'y-axis-left')
+        .attr('transform', `translate(${margin.left}, 0)`)
+        .call(
+            d3.axisLeft(yDuration).tickSize(
+                -(width - margin.left - margin.right)))
+        .selectAll('line')
+        .style('stroke', MED_GRAY);
+    svg.select('.y-axis-left').select('.domain').remove();
+
+    svg.append('text')
+        .attr('class', 'y-axis-left-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(${margin.left / 3}, ${
+                (height - margin.bottom + margin.top) / 2}) rotate(-90)`)
+        .style('font', '12px sans-serif')
+        .text(`Push duration (in ${durationUnit})`);
+
+    svg.append('g')
+        .attr('class', 'y-axis-right')
+        .attr('transform', `translate(${width - margin.right}, 0)`)
+        .style('color', RED)
+        .call(d3.axisRight(yRate).ticks(5));
+
+    svg.append('text')
+        .attr('class', 'y-axis-right-label')
+        .attr('text-anchor', 'middle')
+        .attr(
+            'transform',
+            `translate(${width - margin.right / 4}, ${
+                (height - margin.bottom + margin.top) / 2}) rotate(-90)`)
+        .attr('fill', RED)
+        .style('font', '12px sans-serif')
+        .text('Failure rate (%)');
+
+    const series: Series[] = [
+      {
+        name: 'p50',
+        value: d => d.p50 / unitNsec,
+        color: BLUE,
+        dashes: 'none',
+        rightAxis: false,
+      },
+      {
+        name: 'p90',
+        value: d => d.p90 / unitNsec,
+        color: BLUE,
+        dashes: '6,3',
+        rightAxis: false,
+      },
+      {
+        name: 'p99',
+        value: d => d.p99 / unitNsec,
+        color: BLUE,
+        dashes: '2,2',
+        rightAxis: false,
+      },
+      {
+        name: 'Failure rate',
+        value: d => d.failureRate * 100,
+        color: RED,
+        dashes: 'none',
+        rightAxis: true,
+      },
+    ];
+
+    series.forEach(s => {
+      const y = s.rightAxis ? yRate : yDuration;
+      svg.append('path')
+          .datum(points)
+          .attr('class', 'trend-line')
+          .attr('fill', 'none')
+          .attr('stroke', s.color)
+          .attr('stroke-width', 1.5)
+          .attr('stroke-dasharray', s.dashes)
+          .attr(
+              'd',
+              d3.line<TrendPoint>()
+                  .defined(d => !isNaN(s.value(d)))
+                  .x(d => xNsec(d.timeNsec))
+                  .y(d => y(s.value(d))));
+    });
+
+    const changePointGroups = svg.selectAll('.change-point')
+                                  .data(changePoints)
+                                  .enter()
+                                  .append('g')
+                                  .attr('class', 'change-point');
+
+    changePointGroups.append('line')
+        .attr('x1', d => xNsec(d.timeNsec))
+        .attr('x2', d => xNsec(d.timeNsec))
+        .attr('y1', margin.top)
+        .attr('y2', height - margin.bottom)
+        .attr('stroke', DARK_GRAY)
+        .attr('stroke-dasharray', '4,2');
+
+    changePointGroups.append('text')
+        .attr('x', d => xNsec(d.timeNsec))
+        .attr('y', margin.top - 4)
+        .attr('text-anchor', 'middle')
+        .style('font', '11px sans-serif')
+        .text(d => {
+          const change = Math.round(100 * (d.afterNsec / d.beforeNsec - 1));
+          return `${change > 0 ? '+' : ''}${change}%`;
+        });
+
+    changePointGroups.append('title').text(
+        d => [
+          `Shift on ${
+              formatDate(
+                  d.timeNsec / NSEC_PER_MSEC, 'yyyy-MM-dd HH:mm', 'en-US')}`,
+          `Median duration before: ${formatDuration(d.beforeNsec)}`,
+          `Median duration after: ${formatDuration(d.afterNsec)}`,
+        ].join('\n'));
+
+    const legend = svg.append('g')
+                       .attr('class', 'legend')
+                       .attr('transform', `translate(${margin.left}, 12)`);
+    series.forEach((s, i) => {
+      const item =
+          legend.append('g').attr('transform', `translate(${i * 110}, 0)`);
+      item.append('line')
+          .attr('x1', 0)
+          .attr('x2', 24)
+          .attr('y1', 0)
+          .attr('y2', 0)
+          .attr('stroke', s.color)
+          .attr('stroke-width', 1.5)
+          .attr('stroke-dasharray', s.dashes);
+      item.append('text')
+          .attr('x', 30)
+          .attr('dy', '0.35em')
+          .style('font', '11px sans-serif')
+          .text(s.name);
+    });
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {FinishedPush, findChangePoints, finishedPushes, rollingTrend} from './trend.utils';
+
+const NSEC_PER_MIN = 60 * 10 ** 9;
+const NSEC_PER_HOUR = 60 * NSEC_PER_MIN;
+
+// Builds a finished push that started at some hour and took some minutes.
+function finished(
+    startHours: number, durationMinutes: number,
+    outcome: 'succeeded'|'failed'|'cancelled' = 'succeeded'): FinishedPush {
+  return {
+    startNsec: startHours * NSEC_PER_HOUR,
+    durationNsec: durationMinutes * NSEC_PER_MIN,
+    succeeded: outcome === 'succeeded',
+    failed: outcome === 'failed',
+  };
+}
+
+// Builds completed pushes an hour apart with the given durations in minutes.
+function series(durationsMinutes: number[]): FinishedPush[] {
+  return durationsMinutes.map((minutes, i) => finished(i + 1, minutes));
+}
+
+describe('finishedPushes', () => {
+  it('should keep the finished pushes sorted by start time', () => {
+    const pushes = finishedPushes([
+      {
+        pushHandle: 'a/@2',
+        stateInfo: [
+          {stage: 'x', state: 13, startTimeNsec: 2 * NSEC_PER_HOUR},
+          {stage: 'x', state: 6, startTimeNsec: 3 * NSEC_PER_HOUR},
+        ],
+      },
+      {
+        pushHandle: 'a/@3',
+        stateInfo: [{stage: 'x', state: 13, startTimeNsec: 4 * NSEC_PER_HOUR}],
+      },
+      {
+        pushHandle: 'a/@1',
+        stateInfo: [
+          {stage: 'x', state: 13, startTimeNsec: NSEC_PER_HOUR},
+          {stage: 'x', state: 5, startTimeNsec: 2 * NSEC_PER_HOUR},
+        ],
+      },
+    ]);
+
+    expect(pushes).toEqual([finished(1, 60), finished(2, 60, 'failed')]);
+  });
+});
+
+describe('rollingTrend', () => {
+  it('should summarize the last pushes of push windows', () => {
+    const pushes = series([10, 20, 30, 40]);
+    const points = rollingTrend(pushes, {kind: 'pushes', pushes: 2});
+
+    expect(points.map(point => point.count)).toEqual([1, 2, 2, 2]);
+    expect(points.map(point => point.timeNsec))
+        .toEqual(pushes.map(push => push.startNsec));
+    expect(points[3].p50).toBe(35 * NSEC_PER_MIN);
+  });
+
+  it('should summarize the pushes of the last day or week', () => {
+    // The first push is exactly a day before the third one, so it is no
+    // longer in the window of the third one.
+    const pushes = [
+      finished(0, 10),
+      finished(12, 20),
+      finished(24, 30),
+      finished(170, 40),
+    ];
+
+    const day = rollingTrend(pushes, {kind: 'day', pushes: 50});
+    expect(day.map(point => point.count)).toEqual([1, 2, 2, 1]);
+    expect(day[2].p50).toBe(25 * NSEC_PER_MIN);
+
+    const week = rollingTrend(pushes, {kind: 'week', pushes: 50});
+    expect(week.map(point => point.count)).toEqual([1, 2, 3, 3]);
+  });
+
+  it('should compute the failure rate from all the finished pushes', () => {
+    const pushes = [
+      finished(1, 10, 'failed'),
+      finished(2, 20, 'cancelled'),
+      finished(3, 30),
+      finished(4, 40, 'failed'),
+    ];
+    const points = rollingTrend(pushes, {kind: 'pushes', pushes: 4});
+
+    expect(points.map(point => point.failureRate))
+        .toEqual([1, 0.5, 1 / 3, 0.5]);
+    // Only the completed pushes have durations.
+    expect(points[0].p50).toBeNaN();
+    expect(points[3].p90).toBe(30 * NSEC_PER_MIN);
+  });
+
+  it('should sample the points of large push defs', () => {
+    const pushes = series(Array.from({length: 1000}, () => 30));
+    const points = rollingTrend(pushes, {kind: 'pushes', pushes: 10});
+
+    expect(points.length).toBe(300);
+    expect(points[0].timeNsec).toBe(pushes[0].startNsec);
+    expect(points[points.length - 1].timeNsec)
+        .toBe(pushes[pushes.length - 1].startNsec);
+  });
+});
+
+describe('findChangePoints', () => {
+  it('should find a shift of the durations', () => {
+    // The durations alternate around 60 minutes, then around 90 minutes.
+    const durations = Array.from(
+        {length: 40}, (_, i) => (i < 20 ? 60 : 90) + (i % 2 ? 1 : -1));
+    const pushes = series(durations);
+
+    expect(findChangePoints(pushes)).toEqual([{
+      timeNsec: pushes[20].startNsec,
+      beforeNsec: 60 * NSEC_PER_MIN,
+      afterNsec: 90 * NSEC_PER_MIN,
+    }]);
+  });
+
+  it('should find a shift of durations without noise', () => {
+    const pushes =
+        series(Array.from({length: 30}, (_, i) => i < 10 ? 60 : 30));
+
+    expect(findChangePoints(pushes)).toEqual([{
+      timeNsec: pushes[10].startNsec,
+      beforeNsec: 60 * NSEC_PER_MIN,
+      afterNsec: 30 * NSEC_PER_MIN,
+    }]);
+  });
+
+  it('should not find change points in flat durations', () => {
+    expect(findChangePoints(series(Array.from({length: 50}, () => 60))))
+        .toEqual([]);
+    const alternating = Array.from({length: 50}, (_, i) => i % 2 ? 61 : 59);
+    expect(findChangePoints(series(alternating))).toEqual([]);
+  });
+
+  it('should not report shifts smaller than the minimum ratio', () => {
+    const pushes =
+        series(Array.from({length: 40}, (_, i) => i < 20 ? 60 : 63));
+
+    expect(findChangePoints(pushes)).toEqual([]);
+  });
+
+  it('should need enough completed pushes on both sides', () => {
+    const pushes = [
+      ...series(Array.from({length: 10}, () => 60)),
+      ...Array.from({length: 10}, (_, i) => finished(i + 11, 90, 'failed')),
+      ...Array.from({length: 9}, (_, i) => finished(i + 21, 90)),
+    ];
+
+    expect(findChangePoints(pushes)).toEqual([]);
+  });
+});
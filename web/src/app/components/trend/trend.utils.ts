@@ -0,0 +1,229 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {findDuration} from '../duration-utils';
+import {isSucceededState, isTerminalState, stateCategory} from '../states';
+
+/**
+ * Size of the rolling window: the pushes of the last day or week, or the last
+ * N pushes.
+ */
+export type TrendWindowKind = 'day'|'week'|'pushes';
+
+export interface TrendWindow {
+  kind: TrendWindowKind;  // How the window is measured
+  pushes: number;         // Number of pushes of 'pushes' windows
+}
+
+/**
+ * FinishedPush holds what the trend needs to know about a finished push.
+ */
+export interface FinishedPush {
+  startNsec: number;     // Start time of the first non-empty stage
+  durationNsec: number;  // Time between the first non-empty stage and the end
+  succeeded: boolean;    // Whether the push completed successfully
+  failed: boolean;       // Whether the push ended in a failed state
+}
+
+/**
+ * TrendPoint holds the rolling statistics of the window that ends with one
+ * push. The percentiles are NaN if no push of the window completed.
+ */
+export interface TrendPoint {
+  timeNsec: number;     // Start time of the last push of the window
+  count: number;        // Number of finished pushes in the window
+  p50: number;          // Percentiles of the durations of the completed
+  p90: number;          // pushes of the window, in nanoseconds
+  p99: number;
+  failureRate: number;  // Share of the pushes of the window that failed
+}
+
+/**
+ * ChangePoint marks where the durations of the completed pushes shifted.
+ */
+export interface ChangePoint {
+  timeNsec: number;    // Start time of the first push after the shift
+  beforeNsec: number;  // Median duration of the pushes before the shift
+  afterNsec: number;   // Median duration of the pushes after the shift
+}
+
+export const DEFAULT_TREND_WINDOW: TrendWindow = {kind: 'week', pushes: 50};
+
+const NSEC_PER_DAY = (10 ** 9) * 60 * 60 * 24;
+const WINDOW_NSEC: {[kind: string]: number} = {
+  day: NSEC_PER_DAY,
+  week: 7 * NSEC_PER_DAY,
+};
+
+// Maximum number of points of the trend lines. Larger push defs are sampled.
+const MAX_POINTS = 300;
+// Change points need this many completed pushes on both sides.
+const MIN_SEGMENT_PUSHES = 10;
+const MAX_CHANGE_POINTS = 5;
+// Minimum reduction of the squared error for a split, in units of the noise
+// variance times the log of the number of pushes.
+const CHANGE_PENALTY = 8;
+// Shifts of the median duration smaller than this ratio are not reported.
+const MIN_CHANGE_RATIO = 0.1;
+
+/**
+ * Extracts the finished pushes with a duration, sorted by start time.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ */
+export function finishedPushes(pushInfos: step189_2020.IPushInfo[]):
+    FinishedPush[] {
+  const pushes: FinishedPush[] = [];
+  pushInfos.forEach(pushInfo => {
+    const states = pushInfo.stateInfo;
+    if (!states || !states.length) {
+      return;
+    }
+    const finalState = states[states.length - 1].state || 0;
+    if (!isTerminalState(finalState)) {
+      return;
+    }
+    const startEnd = findDuration(pushInfo);
+    if (!startEnd) {
+      return;
+    }
+    pushes.push({
+      startNsec: +startEnd.startNsec,
+      durationNsec: +startEnd.endNsec - +startEnd.startNsec,
+      succeeded: isSucceededState(finalState),
+      failed: stateCategory(finalState) === 'failed',
+    });
+  });
+  return pushes.sort((a, b) => a.startNsec - b.startNsec);
+}
+
+/**
+ * Computes the rolling percentiles of the durations and the rolling failure
+ * rate. There is one point per push, or per sampled push for large push defs,
+ * each summarizing the window that ends with that push.
+ *
+ * @param pushes Finished pushes, sorted by start time
+ * @param window Size of the rolling window
+ */
+export function rollingTrend(
+    pushes: FinishedPush[], window: TrendWindow): TrendPoint[] {
+  const points: TrendPoint[] = [];
+  const step = Math.max(1, (pushes.length - 1) / (MAX_POINTS - 1));
+  let first = 0;
+  for (let k = 0; Math.round(k * step) < pushes.length; k++) {
+    const last = Math.round(k * step);
+    const end = pushes[last].startNsec;
+    if (window.kind === 'pushes') {
+      first = Math.max(0, last - Math.max(1, window.pushes) + 1);
+    } else {
+      while (pushes[first].startNsec <= end - WINDOW_NSEC[window.kind]) {
+        first++;
+      }
+    }
+    const inWindow = pushes.slice(first, last + 1);
+    const durations = inWindow.filter(push => push.succeeded)
+                          .map(push => push.durationNsec)
+                          .sort(d3.ascending);
+    const quantile = (p: number) =>
+        durations.length ? d3.quantile(durations, p) as number : NaN;
+    points.push({
+      timeNsec: end,
+      count: inWindow.length,
+      p50: quantile(0.5),
+      p90: quantile(0.9),
+      p99: quantile(0.99),
+      failureRate: inWindow.filter(push => push.failed).length /
+          inWindow.length,
+    });
+  }
+  return points;
+}
+
+/**
+ * Finds where the durations of the completed pushes shifted, by binary
+ * segmentation of their logarithms: a segment is split where the split most
+ * reduces the squared error around the segment means, as long as the
+ * reduction is large compared to the noise between consecutive pushes.
+ *
+ * @param pushes Finished pushes, sorted by start time
+ * @return at most MAX_CHANGE_POINTS change points, sorted by time
+ */
+export function findChangePoints(pushes: FinishedPush[]): ChangePoint[] {
+  const completed = pushes.filter(push => push.succeeded);
+  const values = completed.map(push => Math.log(push.durationNsec + 1));
+  const n = values.length;
+  if (n < 2 * MIN_SEGMENT_PUSHES) {
+    return [];
+  }
+
+  // Prefix sums give the squared error of any segment in constant time.
+  const sums = [0];
+  const squares = [0];
+  values.forEach((value, i) => {
+    sums.push(sums[i] + value);
+    squares.push(squares[i] + value * value);
+  });
+  const cost = (start: number, end: number) => {
+    const sum = sums[end] - sums[start];
+    return squares[end] - squares[start] - sum * sum / (end - start);
+  };
+
+  // The noise is estimated from the differences between consecutive pushes,
+  // which shifts barely affect.
+  const differences =
+      values.slice(1).map((value, i) => Math.abs(value - values[i]));
+  const noise = (d3.median(differences) || 0) / (0.6745 * Math.SQRT2);
+  const penalty = CHANGE_PENALTY * noise * noise * Math.log(n);
+
+  const splits: number[] = [];
+  const segments: Array<[number, number]> = [[0, n]];
+  while (segments.length && splits.length < MAX_CHANGE_POINTS) {
+    let best = {gain: penalty, segment: -1, split: -1};
+    segments.forEach(([start, end], index) => {
+      for (let split = start + MIN_SEGMENT_PUSHES;
+           split <= end - MIN_SEGMENT_PUSHES; split++) {
+        const gain = cost(start, end) - cost(start, split) - cost(split, end);
+        if (gain > best.gain) {
+          best = {gain, segment: index, split};
+        }
+      }
+    });
+    if (best.segment < 0) {
+      break;
+    }
+    const [first, last] = segments[best.segment];
+    segments.splice(best.segment, 1, [first, best.split], [best.split, last]);
+    splits.push(best.split);
+  }
+
+  splits.sort(d3.ascending);
+  const bounds = [0, ...splits, n];
+  const medianOf = (start: number, end: number) =>
+      d3.median(completed.slice(start, end), push => push.durationNsec) || 0;
+  const changePoints: ChangePoint[] = [];
+  splits.forEach((split, i) => {
+    const beforeNsec = medianOf(bounds[i], split);
+    const afterNsec = medianOf(split, bounds[i + 2]);
+    if (Math.abs(afterNsec - beforeNsec) >= MIN_CHANGE_RATIO * beforeNsec) {
+      changePoints.push(
+          {timeNsec: completed[split].startNsec, beforeNsec, afterNsec});
+    }
+  });
+  return changePoints;
+}
@@ -0,0 +1,39 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SimpleChange} from '@angular/core';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+/**
+ * Returns whether a change of the pushes of a chart only adds pushes or states
+ * to the ones drawn before, e.g. when live updates arrive. The chart can then
+ * be updated in place, keeping its zoom and brush, instead of being redrawn.
+ *
+ * @param change Change of the pushInfos input of the chart
+ */
+export function isIncrementalUpdate(change: SimpleChange|undefined): boolean {
+  if (!change || change.firstChange) {
+    return false;
+  }
+  const previous: step189_2020.IPushInfo[]|null = change.previousValue;
+  const current: step189_2020.IPushInfo[]|null = change.currentValue;
+  if (!previous || !previous.length || !current) {
+    return false;
+  }
+  const handles = new Set(current.map(pushInfo => pushInfo.pushHandle));
+  return previous.every(pushInfo => handles.has(pushInfo.pushHandle));
+}
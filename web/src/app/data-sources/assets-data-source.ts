@@ -0,0 +1,49 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClient} from '@angular/common/http';
+import {Observable} from 'rxjs';
+import {map, switchMap} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {decodeInline, namesFromManifest, PushDefManifest, PushInfosDecoder} from './decode';
+import {PushDataSource} from './push-data-source';
+
+/**
+ * Loads the binary PushInfos protobufs bundled in the src/assets/ dir. The
+ * available push defs are listed in src/assets/manifest.json.
+ */
+export class AssetsDataSource implements PushDataSource {
+  /**
+   * @param http Client used for the requests
+   * @param decode Decodes the loaded files
+   */
+  constructor(
+      private readonly http: HttpClient,
+      private readonly decode: PushInfosDecoder = decodeInline) {}
+
+  fetch(pushDefName: string): Observable<step189_2020.IPushInfo[]> {
+    return this.http
+        .get(`assets/${pushDefName}.pb`, {responseType: 'arraybuffer'})
+        .pipe(switchMap(data => this.decode(data, 'binary')));
+  }
+
+  listPushDefs(): Observable<string[]> {
+    return this.http.get<PushDefManifest>('assets/manifest.json')
+        .pipe(map(namesFromManifest));
+  }
+}
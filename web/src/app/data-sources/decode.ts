@@ -0,0 +1,152 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Observable, of} from 'rxjs';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {parseTextProto} from './textproto';
+
+/**
+ * Encodings of a PushInfos message that we know how to decode:
+ *  - 'binary': the protobuf wire format, as found in the src/assets/*.pb files
+ *  - 'json': the proto3 JSON mapping
+ *  - 'text': the protobuf text format, as printed by the C++ and Go libraries
+ */
+export type PushInfosFormat = 'binary'|'json'|'text';
+
+// Repeated fields of the PushInfos and PushInfo messages, as they appear in the
+// text format.
+const REPEATED_FIELDS = new Set(['push_info', 'state_info']);
+
+/**
+ * The manifest lists the push defs available from a backend. It is a JSON file
+ * such as src/assets/manifest.json:
+ *
+ *   {"pushDefs": [{"name": "28a1555e453f"}, {"name": "34c2a696eb6b"}]}
+ */
+export interface PushDefManifest {
+  pushDefs: Array<{name: string}>;
+}
+
+/**
+ * Returns a copy of the value where all the object keys are converted from
+ * snake_case to lowerCamelCase. The proto3 JSON mapping allows both the
+ * original field names and the lowerCamelCase ones, but the generated
+ * `fromObject` only understands the latter.
+ *
+ * @param value A value parsed from JSON
+ */
+export function toCamelCaseKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(toCamelCaseKeys);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const result: {[key: string]: unknown} = {};
+  for (const [key, field] of Object.entries(value as object)) {
+    const camelKey =
+        key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+    result[camelKey] = toCamelCaseKeys(field);
+  }
+  return result;
+}
+
+/**
+ * Decodes a PushInfos message and returns its pushes.
+ *
+ * @param data Raw bytes of the message
+ * @param format Encoding of the message
+ * @return the pushes of the push def; throws an Error if the data cannot be
+ *     decoded
+ */
+export function decodePushInfos(
+    data: ArrayBuffer, format: PushInfosFormat): step189_2020.IPushInfo[] {
+  if (format === 'binary') {
+    return step189_2020.PushInfos.decode(new Uint8Array(data)).pushInfo;
+  }
+  const text = new TextDecoder().decode(data);
+  const parsed = (format === 'json') ? JSON.parse(text) :
+                                       parseTextProto(text, REPEATED_FIELDS);
+  const object = toCamelCaseKeys(parsed);
+  return step189_2020.PushInfos
+      .fromObject(object as {[key: string]: unknown})
+      .pushInfo;
+}
+
+/**
+ * Decodes the PushInfos messages loaded by a data source, e.g. in a web worker.
+ */
+export type PushInfosDecoder = (data: ArrayBuffer, format: PushInfosFormat) =>
+    Observable<step189_2020.IPushInfo[]>;
+
+/**
+ * Decodes a PushInfos message in the page.
+ *
+ * @param data Raw bytes of the message
+ * @param format Encoding of the message
+ */
+export function decodeInline(data: ArrayBuffer, format: PushInfosFormat):
+    Observable<step189_2020.IPushInfo[]> {
+  return of(decodePushInfos(data, format));
+}
+
+/**
+ * Decodes a push update sent by an update source. An update is one PushInfo
+ * message in the proto3 JSON mapping, with the push handle and the states of
+ * the push that changed; the states that were already sent can be repeated.
+ *
+ * @param text JSON text of the message
+ * @return the updated push; throws an Error if the text cannot be decoded
+ */
+export function decodePushUpdate(text: string): step189_2020.IPushInfo {
+  const object = toCamelCaseKeys(JSON.parse(text));
+  return step189_2020.PushInfo.fromObject(object as {[key: string]: unknown});
+}
+
+/**
+ * Returns the name of the push def the pushes belong to. A push handle is the
+ * name of the push def joined with the push ID, e.g.
+ * '28a1555e453f/@20200805-211425.620604'.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ * @return the push def name of the first push, or undefined if the pushes don't
+ *     have push handles
+ */
+export function findPushDefName(pushInfos: step189_2020.IPushInfo[]): string|
+    undefined {
+  for (const pushInfo of pushInfos) {
+    if (pushInfo.pushHandle && pushInfo.pushHandle.includes('/@')) {
+      return pushInfo.pushHandle.split('/@')[0];
+    }
+  }
+  return;
+}
+
+/**
+ * Extracts the push def names from a manifest.
+ *
+ * @param manifest Parsed manifest
+ * @return the push def names; throws an Error if the manifest is malformed
+ */
+export function namesFromManifest(manifest: PushDefManifest): string[] {
+  if (!manifest || !Array.isArray(manifest.pushDefs)) {
+    throw new Error('The manifest has no pushDefs array');
+  }
+  return manifest.pushDefs.map(pushDef => pushDef.name)
+      .filter(name => typeof name === 'string' && name.length);
+}
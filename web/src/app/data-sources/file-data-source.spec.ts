@@ -0,0 +1,63 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TestBed} from '@angular/core/testing';
+
+import {FileDataSource} from './file-data-source';
+
+describe('FileDataSource', () => {
+  let dataSource: FileDataSource;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    dataSource = TestBed.inject(FileDataSource);
+  });
+
+  it('should be created', () => {
+    expect(dataSource).toBeTruthy();
+  });
+
+  it('should register files under the push def of their push handles',
+     (done: DoneFn) => {
+       const json = JSON.stringify({pushInfo: [{pushHandle: 'a/b/@1'}]});
+       const file = new File([json], 'dump.json');
+       dataSource.addFile(file).subscribe(pushDefName => {
+         expect(pushDefName).toBe('a/b');
+         expect(dataSource.pushDefNames()).toEqual(['a/b']);
+         done();
+       });
+     });
+
+  it('should decode text format files', (done: DoneFn) => {
+    const text = `
+      # Dumped during an incident.
+      push_info {
+        push_handle: "a/@1"
+        state_info { state: 13 start_time_nsec: 1586797200052980330 }
+        state_info { state: 5 stage: 'x' start_time_nsec: 1586797239932450679 }
+      }`;
+    const file = new File([text], 'dump.textproto');
+    dataSource.addFile(file).subscribe(pushDefName => {
+      dataSource.fetch(pushDefName).subscribe(pushInfos => {
+        expect(pushInfos.length).toBe(1);
+        const stateInfo = pushInfos[0].stateInfo || [];
+        expect(stateInfo.map(s => s.state)).toEqual([13, 5]);
+        expect(stateInfo[1].stage).toBe('x');
+        done();
+      });
+    });
+  });
+});
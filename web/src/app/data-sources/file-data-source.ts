@@ -0,0 +1,118 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Injectable} from '@angular/core';
+import {from, Observable, of, throwError} from 'rxjs';
+import {map, switchMap} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {PushWorkerService} from '../services/push-worker.service';
+
+import {findPushDefName, PushInfosFormat} from './decode';
+import {PushDataSource} from './push-data-source';
+
+// File extensions of the PushInfos files the user can load, by encoding.
+const EXTENSIONS_BY_FORMAT: {[format in PushInfosFormat]: string[]} = {
+  binary: ['.pb', '.bin', '.binpb'],
+  json: ['.json'],
+  text: ['.textproto', '.txtpb', '.pbtxt', '.textpb', '.txt'],
+};
+
+/**
+ * All the file extensions the user can load, in the format expected by the
+ * `accept` attribute of file inputs.
+ */
+export const ACCEPTED_EXTENSIONS =
+    ([] as string[]).concat(...Object.values(EXTENSIONS_BY_FORMAT)).join(',');
+
+/**
+ * Guesses the encoding of a PushInfos file from its extension. Files with an
+ * unknown extension are treated as binary.
+ *
+ * @param fileName Name of the file, e.g. 'pushes.pb'
+ */
+export function formatForFileName(fileName: string): PushInfosFormat {
+  const lowerCaseName = fileName.toLowerCase();
+  for (const [format, extensions] of Object.entries(EXTENSIONS_BY_FORMAT)) {
+    if (extensions.some(extension => lowerCaseName.endsWith(extension))) {
+      return format as PushInfosFormat;
+    }
+  }
+  return 'binary';
+}
+
+/**
+ * Holds the pushes from the PushInfos files that the user loaded into the
+ * page. The data lives only in memory, so it is gone after a reload. Push defs
+ * loaded from files take precedence over the ones from the configured backend
+ * with the same name.
+ */
+@Injectable({providedIn: 'root'})
+export class FileDataSource implements PushDataSource {
+  private readonly pushDefs = new Map<string, step189_2020.IPushInfo[]>();
+
+  constructor(private readonly pushWorker: PushWorkerService) {}
+
+  fetch(pushDefName: string): Observable<step189_2020.IPushInfo[]> {
+    const pushInfos = this.pushDefs.get(pushDefName);
+    if (!pushInfos) {
+      return throwError(
+          new Error(`No file was loaded for push def '${pushDefName}'`));
+    }
+    return of(pushInfos);
+  }
+
+  listPushDefs(): Observable<string[]> {
+    return of(this.pushDefNames());
+  }
+
+  /**
+   * Returns whether the pushes of the push def come from a loaded file.
+   *
+   * @param pushDefName Name of the push def
+   */
+  has(pushDefName: string): boolean {
+    return this.pushDefs.has(pushDefName);
+  }
+
+  /**
+   * Returns the names of the push defs loaded from files.
+   */
+  pushDefNames(): string[] {
+    return Array.from(this.pushDefs.keys());
+  }
+
+  /**
+   * Reads and decodes a PushInfos file. The pushes are registered under the
+   * push def name found in their push handles, or under the file name if they
+   * don't have any.
+   *
+   * @param file A file selected or dropped by the user
+   * @return the name of the push def the pushes were registered under
+   */
+  addFile(file: File): Observable<string> {
+    return from(file.arrayBuffer()).pipe(
+        switchMap(
+            data =>
+                this.pushWorker.decode(data, formatForFileName(file.name))),
+        map(pushInfos => {
+          const pushDefName =
+              findPushDefName(pushInfos) || file.name.replace(/\.[^.]*$/, '');
+          this.pushDefs.set(pushDefName, pushInfos);
+          return pushDefName;
+        }));
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClient} from '@angular/common/http';
+import {HttpClientTestingModule, HttpTestingController} from '@angular/common/http/testing';
+import {TestBed} from '@angular/core/testing';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {HttpDataSource} from './http-data-source';
+
+describe('HttpDataSource', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({imports: [HttpClientTestingModule]});
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should decode proto3 JSON responses', () => {
+    const dataSource = new HttpDataSource(http, 'http://localhost/', 'json');
+    let pushInfos: step189_2020.IPushInfo[] = [];
+    dataSource.fetch('abc').subscribe(result => pushInfos = result);
+
+    const json = JSON.stringify({
+      push_info: [{
+        push_handle: 'abc/@1',
+        state_info: [{state: 5, start_time_nsec: '1596474000124270153'}],
+      }],
+    });
+    httpMock.expectOne('http://localhost/abc')
+        .flush(new TextEncoder().encode(json).buffer);
+
+    expect(pushInfos.length).toBe(1);
+    expect(pushInfos[0].pushHandle).toBe('abc/@1');
+    const stateInfo = pushInfos[0].stateInfo || [];
+    expect(stateInfo[0].state).toBe(5);
+  });
+
+  it('should decode binary responses', () => {
+    const dataSource = new HttpDataSource(http, 'http://localhost', 'binary');
+    let pushInfos: step189_2020.IPushInfo[] = [];
+    dataSource.fetch('abc').subscribe(result => pushInfos = result);
+
+    const bytes =
+        step189_2020.PushInfos.encode({pushInfo: [{pushHandle: 'abc/@1'}]})
+            .finish();
+    httpMock.expectOne('http://localhost/abc')
+        .flush(bytes.buffer.slice(
+            bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+
+    expect(pushInfos.map(p => p.pushHandle)).toEqual(['abc/@1']);
+  });
+});
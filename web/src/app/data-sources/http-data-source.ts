@@ -0,0 +1,60 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClient} from '@angular/common/http';
+import {Observable} from 'rxjs';
+import {map, switchMap} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {decodeInline, namesFromManifest, PushDefManifest, PushInfosDecoder, PushInfosFormat} from './decode';
+import {PushDataSource} from './push-data-source';
+
+/**
+ * Loads the pushes from a server that returns one PushInfos message for each
+ * push def, e.g. a local stand-in server during development.
+ */
+export class HttpDataSource implements PushDataSource {
+  /**
+   * @param http Client used for the requests
+   * @param baseUrl URL prefix; the pushes of a push def are loaded from
+   *     `${baseUrl}/${pushDefName}` and the manifest from
+   *     `${baseUrl}/manifest.json`
+   * @param format Encoding of the responses
+   * @param decode Decodes the responses
+   */
+  constructor(
+      private readonly http: HttpClient, private readonly baseUrl: string,
+      private readonly format: PushInfosFormat,
+      private readonly decode: PushInfosDecoder = decodeInline) {}
+
+  fetch(pushDefName: string): Observable<step189_2020.IPushInfo[]> {
+    return this.http
+        .get(`${this.trimmedBaseUrl()}/${pushDefName}`,
+             {responseType: 'arraybuffer'})
+        .pipe(switchMap(data => this.decode(data, this.format)));
+  }
+
+  listPushDefs(): Observable<string[]> {
+    return this.http
+        .get<PushDefManifest>(`${this.trimmedBaseUrl()}/manifest.json`)
+        .pipe(map(namesFromManifest));
+  }
+
+  private trimmedBaseUrl(): string {
+    return this.baseUrl.replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClient} from '@angular/common/http';
+import {Injectable} from '@angular/core';
+import {Observable} from 'rxjs';
+
+import {environment} from '../../environments/environment';
+import {step189_2020} from '../../proto/step189_2020';
+import {PushWorkerService} from '../services/push-worker.service';
+
+import {AssetsDataSource} from './assets-data-source';
+import {PushInfosDecoder, PushInfosFormat} from './decode';
+import {FileDataSource} from './file-data-source';
+import {HttpDataSource} from './http-data-source';
+
+/**
+ * Configuration of the backend that the push data is loaded from. The backend
+ * is selected by the `dataSource` field of the environment.
+ *
+ *  - 'assets': the .pb files bundled in the src/assets/ dir
+ *  - 'http': a server that returns one PushInfos message for each push def at
+ *    `${baseUrl}/${pushDefName}` and lists them in `${baseUrl}/manifest.json`
+ *  - 'file': only the files the user dropped into the page
+ */
+export type DataSourceConfig = {
+  type: 'assets'
+}|{
+  type: 'http',
+  baseUrl: string,
+  format: PushInfosFormat,
+}|{
+  type: 'file'
+};
+
+/**
+ * Creates the data source described by the config.
+ *
+ * @param config Description of the backend
+ * @param http Client used by the network backends
+ * @param files Holds the files dropped by the user
+ * @param pushWorker Decodes the responses of the network backends
+ */
+export function createPushDataSource(
+    config: DataSourceConfig, http: HttpClient, files: FileDataSource,
+    pushWorker: PushWorkerService): PushDataSource {
+  const decode: PushInfosDecoder = (data, format) =>
+      pushWorker.decode(data, format);
+  switch (config.type) {
+    case 'assets':
+      return new AssetsDataSource(http, decode);
+    case 'http':
+      return new HttpDataSource(http, config.baseUrl, config.format, decode);
+    case 'file':
+      return files;
+  }
+}
+
+/**
+ * Factory for the data source selected in the environment.
+ */
+export function pushDataSourceFactory(
+    http: HttpClient, files: FileDataSource,
+    pushWorker: PushWorkerService): PushDataSource {
+  return createPushDataSource(
+      environment.dataSource, http, files, pushWorker);
+}
+
+/**
+ * A backend that push data is loaded from. The pages don't use it directly;
+ * they go through PushDataService which caches the results.
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: pushDataSourceFactory,
+  deps: [HttpClient, FileDataSource, PushWorkerService],
+})
+export abstract class PushDataSource {
+  /**
+   * Loads all the pushes of a push def.
+   *
+   * @param pushDefName Name of the push def, e.g. '28a1555e453f'
+   */
+  abstract fetch(pushDefName: string): Observable<step189_2020.IPushInfo[]>;
+
+  /**
+   * Lists the names of all the push defs available from the backend.
+   */
+  abstract listPushDefs(): Observable<string[]>;
+}
@@ -0,0 +1,104 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Injectable} from '@angular/core';
+import {EMPTY, Observable} from 'rxjs';
+
+import {environment} from '../../environments/environment';
+import {step189_2020} from '../../proto/step189_2020';
+
+import {SseUpdateSource} from './sse-update-source';
+import {WebSocketUpdateSource} from './websocket-update-source';
+
+/**
+ * Configuration of the endpoint that streams the updates of the pushes that
+ * are still running. It is selected by the `updateSource` field of the
+ * environment.
+ *
+ *  - 'none': the pushes are a static snapshot
+ *  - 'sse': server-sent events from `${baseUrl}/${pushDefName}`
+ *  - 'websocket': messages from a WebSocket at `${baseUrl}/${pushDefName}`
+ *
+ * Each event or message holds one push update, see `decodePushUpdate`.
+ */
+export type UpdateSourceConfig = {
+  type: 'none'
+}|{
+  type: 'sse',
+  baseUrl: string,
+}|{
+  type: 'websocket',
+  baseUrl: string,
+};
+
+/**
+ * Creates the update source described by the config.
+ *
+ * @param config Description of the endpoint
+ */
+export function createPushUpdateSource(config: UpdateSourceConfig):
+    PushUpdateSource {
+  switch (config.type) {
+    case 'none':
+      return new NoUpdateSource();
+    case 'sse':
+      return new SseUpdateSource(config.baseUrl);
+    case 'websocket':
+      return new WebSocketUpdateSource(config.baseUrl);
+  }
+}
+
+/**
+ * Factory for the update source selected in the environment.
+ */
+export function pushUpdateSourceFactory(): PushUpdateSource {
+  return createPushUpdateSource(environment.updateSource);
+}
+
+/**
+ * An endpoint that streams the new states of the pushes. The pages don't use
+ * it directly; PushDataService merges the updates into the cached pushes.
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: pushUpdateSourceFactory,
+})
+export abstract class PushUpdateSource {
+  /**
+   * Describes each update that could not be decoded. The malformed updates are
+   * skipped, so the pages can tell that the pushes may be out of date.
+   */
+  abstract readonly errors: Observable<string>;
+
+  /**
+   * Streams the updates of the pushes of a push def. The stream reconnects by
+   * itself and never completes.
+   *
+   * @param pushDefName Name of the push def, e.g. '28a1555e453f'
+   */
+  abstract updates(pushDefName: string): Observable<step189_2020.IPushInfo>;
+}
+
+/**
+ * Used when there is no endpoint to stream the updates from.
+ */
+export class NoUpdateSource implements PushUpdateSource {
+  readonly errors: Observable<string> = EMPTY;
+
+  updates(): Observable<step189_2020.IPushInfo> {
+    return EMPTY;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Observable, Subject} from 'rxjs';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {decodePushUpdate} from './decode';
+import {PushUpdateSource} from './push-update-source';
+
+/**
+ * Streams the push updates sent as server-sent events. The browser reconnects
+ * the EventSource by itself when the connection drops.
+ */
+export class SseUpdateSource implements PushUpdateSource {
+  private readonly errorSubject = new Subject<string>();
+  readonly errors = this.errorSubject.asObservable();
+
+  /**
+   * @param baseUrl URL prefix; the updates of a push def are streamed from
+   *     `${baseUrl}/${pushDefName}`
+   */
+  constructor(private readonly baseUrl: string) {}
+
+  updates(pushDefName: string): Observable<step189_2020.IPushInfo> {
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/${pushDefName}`;
+    return new Observable(subscriber => {
+      const eventSource = new EventSource(url);
+      eventSource.onmessage = (event: MessageEvent) => {
+        try {
+          subscriber.next(decodePushUpdate(event.data));
+        } catch (error) {
+          // Skip the malformed updates rather than stopping the stream.
+          this.errorSubject.next(`Cannot decode a push update from ${url}: ${
+              (error as Error).message}`);
+        }
+      };
+      return () => eventSource.close();
+    });
+  }
+}
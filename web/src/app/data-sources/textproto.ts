@@ -0,0 +1,186 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A minimal parser for the protobuf text format, e.g.
+ *
+ *   push_info {
+ *     push_handle: "28a1555e453f/@20200805-211425.620604"
+ *     state_info { state: 5 stage: "6087d8a1c" start_time_nsec: 1596661... }
+ *   }
+ *
+ * The generated static module doesn't include the reflection needed by a
+ * schema-driven parser, so the names of the repeated fields have to be passed
+ * in. All scalar values are returned as strings, which the generated
+ * `fromObject` converts to the right types without losing int64 precision.
+ */
+
+type TextProtoMessage = {[field: string]: unknown};
+
+// Each token is matched by one of these patterns.
+const TOKEN_PATTERNS = [
+  '\\s+',                       // Whitespace
+  '#[^\\n]*',                   // Comment
+  '"(?:[^"\\\\]|\\\\.)*"',      // Double quoted string
+  '\'(?:[^\'\\\\]|\\\\.)*\'',   // Single quoted string
+  '[{}<>\\[\\]:;,]',            // Punctuation
+  '[^\\s{}<>\\[\\]:;,"\'#]+',   // Field name, number or identifier
+];
+
+/**
+ * Splits the text into tokens, dropping whitespace and comments.
+ *
+ * @param text Text format representation of a message
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  // The sticky flag makes every match start where the previous one ended.
+  const regex = new RegExp(TOKEN_PATTERNS.join('|'), 'y');
+  while (regex.lastIndex < text.length) {
+    const position = regex.lastIndex;
+    const match = regex.exec(text);
+    if (!match) {
+      throw new Error(`Unexpected character at offset ${position}`);
+    }
+    const token = match[0];
+    if (/^\s/.test(token) || token.startsWith('#')) {
+      continue;
+    }
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Removes the quotes of a string literal and resolves its escape sequences.
+ *
+ * @param token A quoted string token
+ */
+function unquote(token: string): string {
+  const escapes: {[escape: string]: string} = {
+    n: '\n',
+    r: '\r',
+    t: '\t',
+  };
+  return token.slice(1, -1).replace(
+      /\\(.)/g, (_, escape: string) => escapes[escape] || escape);
+}
+
+class TextProtoParser {
+  private index = 0;
+
+  constructor(
+      private readonly tokens: string[],
+      private readonly repeatedFields: Set<string>) {}
+
+  parseMessage(closing?: string): TextProtoMessage {
+    const message: TextProtoMessage = {};
+    while (this.index < this.tokens.length) {
+      const token = this.next();
+      if (token === closing) {
+        return message;
+      }
+      if (token === ';' || token === ',') {
+        continue;
+      }
+      if (!/^[A-Za-z_][\w.]*$/.test(token)) {
+        throw new Error(`Expected a field name but found '${token}'`);
+      }
+      if (this.peek() === ':') {
+        this.next();
+      }
+      const values =
+          this.peek() === '[' ? this.parseList() : [this.parseValue()];
+      for (const value of values) {
+        this.addField(message, token, value);
+      }
+    }
+    if (closing) {
+      throw new Error(`Missing '${closing}' at the end of the input`);
+    }
+    return message;
+  }
+
+  private parseList(): unknown[] {
+    this.next();  // Skip '['.
+    const values: unknown[] = [];
+    while (this.peek() !== ']') {
+      values.push(this.parseValue());
+      if (this.peek() === ',') {
+        this.next();
+      }
+    }
+    this.next();  // Skip ']'.
+    return values;
+  }
+
+  private parseValue(): unknown {
+    const token = this.next();
+    if (token === '{') {
+      return this.parseMessage('}');
+    }
+    if (token === '<') {
+      return this.parseMessage('>');
+    }
+    if (token.startsWith('"') || token.startsWith('\'')) {
+      // Adjacent string literals are concatenated.
+      let value = unquote(token);
+      while (this.peek().startsWith('"') || this.peek().startsWith('\'')) {
+        value += unquote(this.next());
+      }
+      return value;
+    }
+    if (/^[{}<>\[\]:;,]$/.test(token)) {
+      throw new Error(`Expected a value but found '${token}'`);
+    }
+    return token;
+  }
+
+  private addField(message: TextProtoMessage, field: string, value: unknown):
+      void {
+    if (this.repeatedFields.has(field)) {
+      const values = (message[field] || []) as unknown[];
+      values.push(value);
+      message[field] = values;
+    } else {
+      message[field] = value;
+    }
+  }
+
+  private next(): string {
+    if (this.index >= this.tokens.length) {
+      throw new Error('Unexpected end of the input');
+    }
+    return this.tokens[this.index++];
+  }
+
+  private peek(): string {
+    return this.index < this.tokens.length ? this.tokens[this.index] : '';
+  }
+}
+
+/**
+ * Parses a message in the protobuf text format into a plain object keyed by
+ * the field names as they appear in the text.
+ *
+ * @param text Text format representation of a message
+ * @param repeatedFields Names of the repeated fields of all the message types
+ * @return the parsed message; throws an Error if the text is malformed
+ */
+export function parseTextProto(
+    text: string, repeatedFields: Set<string>): TextProtoMessage {
+  return new TextProtoParser(tokenize(text), repeatedFields).parseMessage();
+}
@@ -0,0 +1,69 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Observable, Subject} from 'rxjs';
+import {delay, filter, map, repeatWhen, retryWhen} from 'rxjs/operators';
+import {webSocket} from 'rxjs/webSocket';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {decodePushUpdate} from './decode';
+import {PushUpdateSource} from './push-update-source';
+
+// Time to wait before reconnecting a WebSocket that was closed or failed.
+const RECONNECT_DELAY_MSEC = 5000;
+
+/**
+ * Streams the push updates sent as the text messages of a WebSocket. The
+ * socket is reconnected when it is closed.
+ */
+export class WebSocketUpdateSource implements PushUpdateSource {
+  private readonly errorSubject = new Subject<string>();
+  readonly errors = this.errorSubject.asObservable();
+
+  /**
+   * @param baseUrl URL prefix, e.g. 'ws://localhost:8080/updates'; the updates
+   *     of a push def are streamed from `${baseUrl}/${pushDefName}`
+   */
+  constructor(private readonly baseUrl: string) {}
+
+  updates(pushDefName: string): Observable<step189_2020.IPushInfo> {
+    const url = `${this.baseUrl.replace(/\/+$/, '')}/${pushDefName}`;
+    return webSocket<string>({
+             url,
+             // Decode the messages below so that a malformed one doesn't close
+             // the socket.
+             deserializer: (event: MessageEvent) => event.data,
+           })
+        .pipe(
+            map(text => {
+              try {
+                return decodePushUpdate(text);
+              } catch (error) {
+                this.errorSubject.next(
+                    `Cannot decode a push update from ${url}: ${
+                        (error as Error).message}`);
+                return undefined;
+              }
+            }),
+            filter(
+                (update): update is step189_2020.IPushInfo =>
+                    update !== undefined),
+            retryWhen(errors => errors.pipe(delay(RECONNECT_DELAY_MSEC))),
+            repeatWhen(
+                completions => completions.pipe(delay(RECONNECT_DELAY_MSEC))));
+  }
+}
@@ -17,6 +17,7 @@
 import {HttpClientTestingModule} from '@angular/common/http/testing';
 import {async, ComponentFixture, TestBed} from '@angular/core/testing';
 import {ActivatedRoute} from '@angular/router';
+import {RouterTestingModule} from '@angular/router/testing';
 import {EMPTY} from 'rxjs';
 
 import {AllPushesComponent} from './all-pushes.component';
@@ -29,11 +30,11 @@ describe('AllPushesComponent', () => {
     TestBed
         .configureTestingModule({
           declarations: [AllPushesComponent],
-          imports: [HttpClientTestingModule],
+          imports: [HttpClientTestingModule, RouterTestingModule],
           providers: [
             {
               provide: ActivatedRoute,
-              useValue: {url: EMPTY},
+              useValue: {url: EMPTY, queryParamMap: EMPTY},
             },
           ],
         })
@@ -14,43 +14,88 @@
  * limitations under the License.
  */
 
-import {HttpClient} from '@angular/common/http';
 import {Component} from '@angular/core';
 import {ActivatedRoute} from '@angular/router';
 import {Observable} from 'rxjs';
-import {flatMap, map, shareReplay} from 'rxjs/operators';
+import {map, shareReplay} from 'rxjs/operators';
 
 import {step189_2020} from '../../../proto/step189_2020';
+import {PushAnomalies} from '../../components/anomalies';
+import {ChartData} from '../../components/chart-data';
+import {PushPageService} from '../../services/push-page.service';
+import {COMPARE_PATH_PREFIX, MAX_COMPARED_PUSHES, MIN_COMPARED_PUSHES, pushIDFromHandle} from '../compare/compare-utils';
 
 @Component({
   selector: 'app-all-pushes',
   templateUrl: './all-pushes.component.html',
-  styleUrls: ['./all-pushes.component.scss']
+  styleUrls: ['./all-pushes.component.scss'],
+  providers: [PushPageService],
 })
 export class AllPushesComponent {
   readonly pushDefName: Observable<string>;
   readonly pushInfos: Observable<step189_2020.IPushInfo[]>;
+  readonly filteredPushInfos: Observable<step189_2020.IPushInfo[]>;
+  readonly chartData: Observable<ChartData>;
+  readonly anomalies: Observable<PushAnomalies>;
+  // Handles of the pushes checked for the comparison, in the order they were
+  // checked.
+  readonly selectedHandles = new Set<string>();
+  readonly maxComparedPushes = MAX_COMPARED_PUSHES;
 
   constructor(
       private readonly route: ActivatedRoute,
-      private readonly http: HttpClient) {
+      readonly page: PushPageService) {
     this.pushDefName = this.route.url.pipe(
         map((urlSegments) => {
           return urlSegments.map(urlSegment => urlSegment.path).join('/');
         }),
         shareReplay(1));
 
-    this.pushInfos = this.pushDefName.pipe(
-        flatMap(pushDefName => {
-          return this.http
-              .get(`assets/${pushDefName}.pb`, {responseType: 'arraybuffer'})
-              .pipe(map((data: ArrayBuffer) => {
-                const pushInfos =
-                    step189_2020.PushInfos.decode(new Uint8Array(data));
-                console.log(pushInfos);
-                return pushInfos.pushInfo;
-              }));
-        }),
-        shareReplay(1));
+    const data = this.page.load(this.pushDefName);
+    this.pushInfos = data.pushInfos;
+    this.filteredPushInfos = data.filteredPushInfos;
+    this.chartData = data.chartData;
+    this.anomalies = data.anomalies;
+  }
+
+  isSelected(pushHandle: string): boolean {
+    return this.selectedHandles.has(pushHandle);
+  }
+
+  /**
+   * Returns whether the checkbox of a push can be used, i.e. unless the
+   * maximum number of pushes is already selected.
+   *
+   * @param pushHandle Push handle of the row
+   */
+  canSelect(pushHandle: string): boolean {
+    return this.isSelected(pushHandle) ||
+        this.selectedHandles.size < MAX_COMPARED_PUSHES;
+  }
+
+  toggleSelected(pushHandle: string): void {
+    if (this.selectedHandles.delete(pushHandle)) {
+      return;
+    }
+    if (this.canSelect(pushHandle)) {
+      this.selectedHandles.add(pushHandle);
+    }
+  }
+
+  canCompare(): boolean {
+    return this.selectedHandles.size >= MIN_COMPARED_PUSHES;
+  }
+
+  /**
+   * Returns the link of the comparison page of the selected pushes.
+   *
+   * @param pushDefName Name of the push def of the page
+   */
+  compareLink(pushDefName: string): string {
+    return `/${COMPARE_PATH_PREFIX}/${pushDefName}`;
+  }
+
+  compareQueryParams(): {push: string[]} {
+    return {push: Array.from(this.selectedHandles).map(pushIDFromHandle)};
   }
 }
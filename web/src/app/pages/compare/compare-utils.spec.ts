@@ -0,0 +1,120 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {step189_2020} from '../../../proto/step189_2020';
+
+import {comparePush, compareStages, findPushes, pushIDFromHandle} from './compare-utils';
+
+// Builds a push that runs each of the stages once, from the given start time
+// and durations, and ends in the given final state.
+function push(
+    pushID: string, startNsec: number, stages: Array<[string, number]>,
+    finalState = 6): step189_2020.IPushInfo {
+  const stateInfo: step189_2020.PushInfo.IStateInfo[] = [];
+  let timeNsec = startNsec;
+  stages.forEach(([stage, durationNsec]) => {
+    stateInfo.push({stage, attempt: 1, state: 13, startTimeNsec: timeNsec});
+    timeNsec += durationNsec;
+    stateInfo.push(
+        {stage, attempt: 1, state: finalState, startTimeNsec: timeNsec});
+  });
+  return {pushHandle: `abc/@${pushID}`, stateInfo};
+}
+
+const FIRST = push('1', 100, [['build', 40], ['deploy', 20]]);
+const SECOND = push('2', 200, [['build', 30], ['deploy', 30]]);
+const THIRD = push('3', 300, [['build', 50], ['test', 10]], 5);
+
+describe('pushIDFromHandle', () => {
+  it('should return the part of the handle after the @', () => {
+    expect(pushIDFromHandle('abc/@20200805-211425.620604'))
+        .toBe('20200805-211425.620604');
+    expect(pushIDFromHandle('20200805-211425.620604'))
+        .toBe('20200805-211425.620604');
+  });
+});
+
+describe('findPushes', () => {
+  it('should pick the pushes in the order of the IDs', () => {
+    const pushInfos = [FIRST, SECOND, THIRD];
+
+    expect(findPushes(pushInfos, 'abc', ['3', '1'])).toEqual([THIRD, FIRST]);
+    expect(findPushes(pushInfos, 'abc', ['2', 'unknown'])).toEqual([SECOND]);
+    expect(findPushes(pushInfos, 'other', ['1', '2'])).toEqual([]);
+  });
+});
+
+describe('comparePush', () => {
+  it('should compute the totals of a push', () => {
+    expect(comparePush(FIRST)).toEqual({
+      pushHandle: 'abc/@1',
+      pushID: '1',
+      startNsec: 100,
+      durationNsec: 60,
+      finalState: 6,
+      stateCount: 4,
+      attempts: 2,
+    });
+  });
+
+  it('should leave the times of a push without states undefined', () => {
+    expect(comparePush({pushHandle: 'abc/@4'})).toEqual({
+      pushHandle: 'abc/@4',
+      pushID: '4',
+      startNsec: undefined,
+      durationNsec: undefined,
+      finalState: 0,
+      stateCount: 0,
+      attempts: 0,
+    });
+  });
+});
+
+describe('compareStages', () => {
+  it('should line up the stages of the first push, then the others', () => {
+    const rows = compareStages([FIRST, SECOND, THIRD]);
+
+    expect(rows.map(row => row.stage)).toEqual(['build', 'deploy', 'test']);
+    expect(rows[0]).toEqual({
+      stage: 'build',
+      durationsNsec: [40, 30, 50],
+      deltasNsec: [0, -10, 10],
+      attempts: [1, 1, 1],
+      finalStates: [6, 6, 5],
+      attemptsDiffer: false,
+      finalStatesDiffer: true,
+    });
+    expect(rows[1].durationsNsec).toEqual([20, 30, undefined]);
+    expect(rows[1].deltasNsec).toEqual([0, 10, undefined]);
+  });
+
+  it('should leave the deltas undefined without a baseline', () => {
+    const test = compareStages([FIRST, THIRD])[2];
+
+    expect(test.stage).toBe('test');
+    expect(test.durationsNsec).toEqual([undefined, 10]);
+    expect(test.deltasNsec).toEqual([undefined, undefined]);
+    expect(test.attemptsDiffer).toBe(true);
+  });
+
+  it('should not flag the stages that are the same in every push', () => {
+    const rows = compareStages([FIRST, SECOND]);
+
+    expect(rows.map(row => row.attemptsDiffer)).toEqual([false, false]);
+    expect(rows.map(row => row.finalStatesDiffer)).toEqual([false, false]);
+  });
+});
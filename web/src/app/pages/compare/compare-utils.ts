@@ -0,0 +1,172 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {findDuration} from '../../components/duration-utils';
+import {StageSummary, summarizeStages} from '../../components/stage-utils';
+
+/**
+ * First URL segment of the comparison pages, e.g.
+ * /compare/28a1555e453f?push=20200805-211425.620604&push=...
+ */
+export const COMPARE_PATH_PREFIX = 'compare';
+
+/**
+ * Minimum and maximum number of pushes that can be compared at once.
+ */
+export const MIN_COMPARED_PUSHES = 2;
+export const MAX_COMPARED_PUSHES = 4;
+
+/**
+ * ComparedPush holds the totals of one of the compared pushes.
+ */
+export interface ComparedPush {
+  pushHandle: string;     // Push handle, e.g. 'abc/@20200805-211425.620604'
+  pushID: string;         // Part of the push handle after the '@'
+  startNsec?: number;     // Start time of the first non-empty stage
+  durationNsec?: number;  // Time between the first stage and the last state
+  finalState: number;     // Tag of the last state of the push
+  stateCount: number;     // Number of states of the push
+  attempts: number;       // Total number of stage attempts
+}
+
+/**
+ * StageComparison holds one row of the per-stage table: the values of the
+ * stage for each of the compared pushes, in the same order as the pushes.
+ * Values are undefined for pushes that didn't run the stage.
+ */
+export interface StageComparison {
+  stage: string;
+  durationsNsec: Array<number|undefined>;
+  // Difference with the duration of the first push.
+  deltasNsec: Array<number|undefined>;
+  attempts: Array<number|undefined>;
+  finalStates: Array<number|undefined>;
+  attemptsDiffer: boolean;
+  finalStatesDiffer: boolean;
+}
+
+/**
+ * Returns the ID of a push, i.e. the part of the push handle after the '@'.
+ *
+ * @param pushHandle Push handle, e.g. 'abc/@20200805-211425.620604'
+ */
+export function pushIDFromHandle(pushHandle: string): string {
+  return pushHandle.slice(pushHandle.indexOf('@') + 1);
+}
+
+/**
+ * Picks the pushes with the given IDs, in the order of the IDs. IDs that don't
+ * match any push are skipped.
+ *
+ * @param pushInfos Array of pushes for the push def
+ * @param pushDefName Name of the push def
+ * @param pushIDs IDs of the pushes to pick
+ */
+export function findPushes(
+    pushInfos: step189_2020.IPushInfo[], pushDefName: string,
+    pushIDs: string[]): step189_2020.IPushInfo[] {
+  const byHandle = new Map<string, step189_2020.IPushInfo>();
+  pushInfos.forEach(pushInfo => {
+    if (pushInfo.pushHandle) {
+      byHandle.set(pushInfo.pushHandle, pushInfo);
+    }
+  });
+  const found: step189_2020.IPushInfo[] = [];
+  pushIDs.forEach(pushID => {
+    const pushInfo = byHandle.get(`${pushDefName}/@${pushID}`);
+    if (pushInfo) {
+      found.push(pushInfo);
+    }
+  });
+  return found;
+}
+
+/**
+ * Computes the totals of one push.
+ *
+ * @param pushInfo A single push
+ */
+export function comparePush(pushInfo: step189_2020.IPushInfo): ComparedPush {
+  const pushHandle = pushInfo.pushHandle || '';
+  const states = pushInfo.stateInfo || [];
+  const startEnd = findDuration(pushInfo);
+  const stages = summarizeStages(pushInfo);
+  return {
+    pushHandle,
+    pushID: pushIDFromHandle(pushHandle),
+    startNsec: startEnd ? +startEnd.startNsec : undefined,
+    durationNsec: startEnd ? +startEnd.endNsec - +startEnd.startNsec :
+                             undefined,
+    finalState: states.length ? states[states.length - 1].state || 0 : 0,
+    stateCount: states.length,
+    attempts: stages.reduce((total, stage) => total + stage.attempts, 0),
+  };
+}
+
+function differ(values: Array<number|undefined>): boolean {
+  return new Set(values).size > 1;
+}
+
+/**
+ * Lines up the stages of the pushes. The stages of the first push come first,
+ * in the order they ran, followed by the stages that only ran in the other
+ * pushes.
+ *
+ * @param pushInfos The compared pushes; the first one is the baseline for the
+ *     deltas
+ */
+export function compareStages(pushInfos: step189_2020.IPushInfo[]):
+    StageComparison[] {
+  const summaries = pushInfos.map(pushInfo => {
+    const byStage = new Map<string, StageSummary>();
+    summarizeStages(pushInfo).forEach(s => byStage.set(s.stage, s));
+    return byStage;
+  });
+
+  const stages: string[] = [];
+  const seen = new Set<string>();
+  summaries.forEach(byStage => {
+    for (const stage of byStage.keys()) {
+      if (!seen.has(stage)) {
+        seen.add(stage);
+        stages.push(stage);
+      }
+    }
+  });
+
+  return stages.map(stage => {
+    const stageSummaries = summaries.map(byStage => byStage.get(stage));
+    const durationsNsec = stageSummaries.map(s => s && s.durationNsec);
+    const baseline = durationsNsec[0];
+    const attempts = stageSummaries.map(s => s && s.attempts);
+    const finalStates = stageSummaries.map(s => s && s.finalState);
+    return {
+      stage,
+      durationsNsec,
+      deltasNsec: durationsNsec.map(duration => {
+        if (duration === undefined || baseline === undefined) {
+          return undefined;
+        }
+        return duration - baseline;
+      }),
+      attempts,
+      finalStates,
+      attemptsDiffer: differ(attempts),
+      finalStatesDiffer: differ(finalStates),
+    };
+  });
+}
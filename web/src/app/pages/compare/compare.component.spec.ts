@@ -0,0 +1,118 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClientTestingModule} from '@angular/common/http/testing';
+import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {ActivatedRoute, convertToParamMap, UrlSegment} from '@angular/router';
+import {EMPTY, of, throwError} from 'rxjs';
+
+import {samplePushInfos} from '../../../testing/sample-pushes';
+import {DateNsecPipe} from '../../pipes/date-nsec.pipe';
+import {DurationNsecPipe} from '../../pipes/duration-nsec.pipe';
+import {StateLabelPipe} from '../../pipes/state-label.pipe';
+import {PushDataService} from '../../services/push-data.service';
+
+import {CompareComponent} from './compare.component';
+
+/**
+ * Creates the page of the pushes with the given IDs in push def 'a'.
+ *
+ * @param pushIDs IDs of the push query params
+ * @param pushData Loads the pushes of the push def
+ */
+function createPage(pushIDs: string[], pushData: Partial<PushDataService>):
+    ComponentFixture<CompareComponent> {
+  TestBed.configureTestingModule({
+    declarations: [
+      CompareComponent,
+      DateNsecPipe,
+      DurationNsecPipe,
+      StateLabelPipe,
+    ],
+    providers: [
+      {
+        provide: ActivatedRoute,
+        useValue: {
+          url: of([new UrlSegment('compare', {}), new UrlSegment('a', {})]),
+          queryParamMap: of(convertToParamMap({push: pushIDs})),
+        },
+      },
+      {provide: PushDataService, useValue: pushData},
+    ],
+  });
+  const fixture = TestBed.createComponent(CompareComponent);
+  fixture.detectChanges();
+  return fixture;
+}
+
+describe('CompareComponent', () => {
+  let component: CompareComponent;
+  let fixture: ComponentFixture<CompareComponent>;
+
+  beforeEach(async(() => {
+    TestBed
+        .configureTestingModule({
+          declarations: [CompareComponent],
+          imports: [HttpClientTestingModule],
+          providers: [
+            {
+              provide: ActivatedRoute,
+              useValue: {url: EMPTY, queryParamMap: EMPTY},
+            },
+          ],
+        })
+        .compileComponents();
+  }));
+
+  beforeEach(() => {
+    fixture = TestBed.createComponent(CompareComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
+
+describe('CompareComponent with a push def', () => {
+  it('should compare the pushes of the URL', () => {
+    const page =
+        createPage(['1', '2'], {getPushInfos: () => of(samplePushInfos(3))});
+    const element: HTMLElement = page.nativeElement;
+
+    expect(element.querySelectorAll('table').length).toBe(2);
+  });
+
+  it('should ask for more pushes when fewer than two are found', () => {
+    const page =
+        createPage(['1', '9'], {getPushInfos: () => of(samplePushInfos(3))});
+    const element: HTMLElement = page.nativeElement;
+
+    expect(element.querySelector('table')).toBeNull();
+    expect(element.textContent).toContain('Select at least 2 pushes of a');
+  });
+
+  it('should show why the pushes failed to load', () => {
+    const page = createPage(
+        ['1', '2'],
+        {getPushInfos: () => throwError(new Error('Push def a not found'))});
+    const element: HTMLElement = page.nativeElement;
+
+    expect(element.querySelector('app-loading-indicator')).toBeNull();
+    expect(element.textContent).toContain('Push def a not found');
+  });
+});
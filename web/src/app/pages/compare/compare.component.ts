@@ -0,0 +1,100 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+import {ActivatedRoute} from '@angular/router';
+import {combineLatest, Observable, of} from 'rxjs';
+import {catchError, filter, flatMap, map, shareReplay} from 'rxjs/operators';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {PushDataService} from '../../services/push-data.service';
+
+import {ComparedPush, comparePush, compareStages, findPushes, MAX_COMPARED_PUSHES, MIN_COMPARED_PUSHES, StageComparison} from './compare-utils';
+
+/**
+ * LoadedPushes holds the pushes of the push def, or why they failed to load.
+ */
+interface LoadedPushes {
+  pushInfos: step189_2020.IPushInfo[];
+  error?: string;
+}
+
+/**
+ * Shows two to four pushes of the same push def side by side. The pushes are
+ * selected by their IDs in the `push` query params, e.g.
+ * /compare/28a1555e453f?push=20200805-211425.620604&push=20200805-072300.827877
+ *
+ * The URL may be edited or shared, so the page tells when fewer than two of
+ * the pushes are found instead of comparing them.
+ */
+@Component({
+  selector: 'app-compare',
+  templateUrl: './compare.component.html',
+  styleUrls: ['./compare.component.scss']
+})
+export class CompareComponent {
+  readonly pushDefName: Observable<string>;
+  readonly pushIDs: Observable<string[]>;
+  readonly comparedPushInfos: Observable<step189_2020.IPushInfo[]>;
+  readonly pushes: Observable<ComparedPush[]>;
+  readonly stages: Observable<StageComparison[]>;
+  // Why the pushes of the push def failed to load, if they did.
+  readonly loadError: Observable<string|undefined>;
+  readonly minComparedPushes = MIN_COMPARED_PUSHES;
+
+  constructor(
+      private readonly route: ActivatedRoute,
+      private readonly pushData: PushDataService) {
+    this.pushDefName = this.route.url.pipe(
+        map((urlSegments) => {
+          // The first segment is the compare prefix.
+          return urlSegments.slice(1)
+              .map(urlSegment => urlSegment.path)
+              .join('/');
+        }),
+        shareReplay(1));
+
+    this.pushIDs = this.route.queryParamMap.pipe(
+        map(params => params.getAll('push').slice(0, MAX_COMPARED_PUSHES)),
+        shareReplay(1));
+
+    const loaded = this.pushDefName.pipe(
+        flatMap(pushDefName => this.load(pushDefName)), shareReplay(1));
+    this.loadError = loaded.pipe(map(pushes => pushes.error));
+    const pushInfos = loaded.pipe(
+        filter(pushes => !pushes.error), map(pushes => pushes.pushInfos));
+
+    this.comparedPushInfos =
+        combineLatest([this.pushDefName, this.pushIDs, pushInfos])
+            .pipe(
+                map(([pushDefName, pushIDs, all]) => {
+                  return findPushes(all, pushDefName, pushIDs);
+                }),
+                shareReplay(1));
+
+    this.pushes = this.comparedPushInfos.pipe(
+        map(compared => compared.map(comparePush)));
+    this.stages = this.comparedPushInfos.pipe(map(compareStages));
+  }
+
+  private load(pushDefName: string): Observable<LoadedPushes> {
+    return this.pushData.getPushInfos(pushDefName).pipe(
+        map(pushInfos => ({pushInfos})),
+        catchError((error: Error) => {
+          return of({pushInfos: [], error: error.message});
+        }));
+  }
+}
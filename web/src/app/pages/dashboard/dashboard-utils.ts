@@ -0,0 +1,79 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as d3 from 'd3';
+
+import {step189_2020} from '../../../proto/step189_2020';
+import {DurationSeries, populateData} from '../../components/cdf/cdf.utils';
+import {findCommonDurationUnit} from '../../components/duration-utils';
+import {summarizePushDef} from '../../services/push-def-catalog.service';
+
+/**
+ * PushDefDurations holds the duration statistics of one of the compared push
+ * defs, in the unit shared by all of them.
+ */
+export interface PushDefDurations extends DurationSeries {
+  error?: string;          // Set if the pushes could not be loaded
+  pushCount: number;       // Number of pushes
+  completedCount: number;  // Number of completed pushes
+  p10?: number;            // 10th percentile of the completed durations
+  p50?: number;            // Median of the completed durations
+  p90?: number;            // 90th percentile of the completed durations
+  successRate?: number;    // Fraction of the finished pushes that completed
+}
+
+/**
+ * LoadedPushDef holds the pushes of one of the compared push defs.
+ */
+export interface LoadedPushDef {
+  name: string;
+  pushInfos: step189_2020.IPushInfo[];
+  error?: string;
+}
+
+/**
+ * Computes the duration statistics of the push defs in a common unit, so that
+ * they can be drawn on the same axes.
+ *
+ * @param pushDefs The compared push defs, in the order they are shown
+ * @return the common duration unit and the statistics of each push def
+ */
+export function comparePushDefs(pushDefs: LoadedPushDef[]):
+    {durationUnit: string, pushDefs: PushDefDurations[]} {
+  const durationUnit =
+      findCommonDurationUnit(pushDefs.map(pushDef => pushDef.pushInfos));
+  return {
+    durationUnit,
+    pushDefs: pushDefs.map((pushDef, i) => {
+      const data = populateData(pushDef.pushInfos, durationUnit);
+      const durations = data.map(d => d.duration);
+      const summary =
+          summarizePushDef(pushDef.name, pushDef.pushInfos, false);
+      return {
+        name: pushDef.name,
+        color: d3.schemeCategory10[i % d3.schemeCategory10.length],
+        data,
+        error: pushDef.error,
+        pushCount: pushDef.pushInfos.length,
+        completedCount: data.length,
+        p10: d3.quantile(durations, 0.1),
+        p50: d3.quantile(durations, 0.5),
+        p90: d3.quantile(durations, 0.9),
+        successRate: summary.successRate,
+      };
+    }),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+import {ActivatedRoute, Router} from '@angular/router';
+import {combineLatest, Observable, of} from 'rxjs';
+import {catchError, map, shareReplay, switchMap} from 'rxjs/operators';
+
+import {PushDataService} from '../../services/push-data.service';
+import {PushDefCatalogService} from '../../services/push-def-catalog.service';
+
+import {comparePushDefs, LoadedPushDef, PushDefDurations} from './dashboard-utils';
+
+/**
+ * Compares the push durations of several push defs on the same charts. The
+ * push defs are selected by the `pushDef` query params, e.g.
+ * /dashboard?pushDef=28a1555e453f&pushDef=42465163e7e9
+ */
+@Component({
+  selector: 'app-dashboard',
+  templateUrl: './dashboard.component.html',
+  styleUrls: ['./dashboard.component.scss']
+})
+export class DashboardComponent {
+  readonly allPushDefNames: Observable<string[]>;
+  readonly selectedNames: Observable<string[]>;
+  readonly comparison:
+      Observable<{durationUnit: string, pushDefs: PushDefDurations[]}>;
+
+  constructor(
+      private readonly route: ActivatedRoute,
+      private readonly router: Router,
+      private readonly catalog: PushDefCatalogService,
+      private readonly pushData: PushDataService) {
+    this.allPushDefNames = this.catalog.pushDefNames();
+
+    this.selectedNames = this.route.queryParamMap.pipe(
+        map(params => params.getAll('pushDef')), shareReplay(1));
+
+    this.comparison = this.selectedNames.pipe(
+        switchMap(names => {
+          if (!names.length) {
+            return of([] as LoadedPushDef[]);
+          }
+          return combineLatest(names.map(name => this.load(name)));
+        }),
+        map(comparePushDefs), shareReplay(1));
+  }
+
+  /**
+   * Adds the push def to the comparison, or removes it if it is already
+   * compared.
+   *
+   * @param name Name of the push def
+   * @param selectedNames Names of the push defs compared so far
+   */
+  toggle(name: string, selectedNames: string[]): void {
+    const pushDef = selectedNames.includes(name) ?
+        selectedNames.filter(selected => selected !== name) :
+        [...selectedNames, name];
+    this.router.navigate([], {relativeTo: this.route, queryParams: {pushDef}});
+  }
+
+  private load(name: string): Observable<LoadedPushDef> {
+    return this.pushData.getPushInfos(name).pipe(
+        map(pushInfos => ({name, pushInfos})),
+        catchError((error: Error) => {
+          return of({name, pushInfos: [], error: error.message});
+        }));
+  }
+}
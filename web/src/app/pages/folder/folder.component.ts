@@ -0,0 +1,71 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Component} from '@angular/core';
+import {ActivatedRoute} from '@angular/router';
+import {combineLatest, Observable} from 'rxjs';
+import {map, shareReplay} from 'rxjs/operators';
+
+import {PushDefCatalogService} from '../../services/push-def-catalog.service';
+import {findTreeNode, folderLink, PushDefTreeNode} from '../../services/push-def-tree';
+
+interface Breadcrumb {
+  name: string;
+  link: string;
+}
+
+/**
+ * Aggregate view of a folder of the push def tree: the roll-up statistics of
+ * the whole subtree followed by its children.
+ */
+@Component({
+  selector: 'app-folder',
+  templateUrl: './folder.component.html',
+  styleUrls: ['./folder.component.scss']
+})
+export class FolderComponent {
+  readonly path: Observable<string>;
+  readonly breadcrumbs: Observable<Breadcrumb[]>;
+  // Wrapped so a missing folder can be told apart from a loading one.
+  readonly folder: Observable<{node?: PushDefTreeNode}>;
+
+  constructor(
+      private readonly route: ActivatedRoute,
+      private readonly catalog: PushDefCatalogService) {
+    this.path = this.route.url.pipe(
+        map((urlSegments) => {
+          // The first segment is the folder prefix.
+          return urlSegments.slice(1)
+              .map(urlSegment => urlSegment.path)
+              .join('/');
+        }),
+        shareReplay(1));
+
+    this.breadcrumbs = this.path.pipe(map(path => {
+      const segments = path.split('/');
+      return segments.map((name, i) => {
+        return {name, link: folderLink(segments.slice(0, i + 1).join('/'))};
+      });
+    }));
+
+    this.folder = combineLatest([this.path, this.catalog.tree()])
+                      .pipe(
+                          map(([path, tree]) => {
+                            return {node: findTreeNode(tree, path)};
+                          }),
+                          shareReplay(1));
+  }
+}
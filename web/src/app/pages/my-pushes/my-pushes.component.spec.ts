@@ -14,7 +14,9 @@
  * limitations under the License.
  */
 
+import {HttpClientTestingModule} from '@angular/common/http/testing';
 import {async, ComponentFixture, TestBed} from '@angular/core/testing';
+import {FormsModule} from '@angular/forms';
 
 import {MyPushesComponent} from './my-pushes.component';
 
@@ -23,7 +25,11 @@ describe('MyPushesComponent', () => {
   let fixture: ComponentFixture<MyPushesComponent>;
 
   beforeEach(async(() => {
-    TestBed.configureTestingModule({declarations: [MyPushesComponent]})
+    TestBed
+        .configureTestingModule({
+          declarations: [MyPushesComponent],
+          imports: [FormsModule, HttpClientTestingModule],
+        })
         .compileComponents();
   }));
 
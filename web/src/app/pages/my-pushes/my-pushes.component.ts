@@ -14,11 +14,58 @@
  * limitations under the License.
  */
 
-import {Component, OnInit} from '@angular/core';
+import {Component} from '@angular/core';
+import {BehaviorSubject, combineLatest, Observable} from 'rxjs';
+import {map, shareReplay} from 'rxjs/operators';
 
-interface PushDef {
-  name: string;
-  notes: string;
+import {PushDefCatalogService, PushDefSummary} from '../../services/push-def-catalog.service';
+import {buildPushDefTree, PushDefTreeNode} from '../../services/push-def-tree';
+
+/**
+ * Columns of the push def table that can be sorted.
+ */
+export type SortColumn = 'name'|'pushCount'|'firstPushNsec'|'successRate'|
+    'medianDurationNsec'|'lastChangeNsec';
+
+interface SortOrder {
+  column: SortColumn;
+  ascending: boolean;
+}
+
+/**
+ * Keeps the push defs whose name contains the search text, ignoring case.
+ *
+ * @param summaries Summaries of all the push defs
+ * @param searchText Text typed by the user
+ */
+export function filterSummaries(
+    summaries: PushDefSummary[], searchText: string): PushDefSummary[] {
+  const needle = searchText.trim().toLowerCase();
+  return summaries.filter(
+      summary => summary.name.toLowerCase().includes(needle));
+}
+
+/**
+ * Sorts the summaries by one column. Push defs without a value for the column
+ * (e.g. still loading) always go last.
+ *
+ * @param summaries Summaries to sort; the array is not modified
+ * @param order Column and direction to sort by
+ */
+export function sortSummaries(
+    summaries: PushDefSummary[], order: SortOrder): PushDefSummary[] {
+  const direction = order.ascending ? 1 : -1;
+  return summaries.slice().sort((a, b) => {
+    const valueA = a[order.column];
+    const valueB = b[order.column];
+    if (valueA === undefined || valueB === undefined) {
+      return (valueA === undefined ? 1 : 0) - (valueB === undefined ? 1 : 0);
+    }
+    if (typeof valueA === 'string' && typeof valueB === 'string') {
+      return direction * valueA.localeCompare(valueB);
+    }
+    return direction * (+valueA - +valueB);
+  });
 }
 
 @Component({
@@ -27,14 +74,53 @@ interface PushDef {
   styleUrls: ['./my-pushes.component.scss']
 })
 export class MyPushesComponent {
-  // These push names need corresponding .pb files in the src/assets/ dir.
-  readonly pushDefs: PushDef[] = [
-    {name: '28a1555e453f', notes: '11K pushes'},
-    {name: '34c2a696eb6b', notes: '500 pushes'},
-    {name: '4089ddf3a6d4', notes: '458 pushes'},
-    {name: '42465163e7e9', notes: '14K pushes'},
-    {name: '50974993f48e', notes: '171 pushes'},
-    {name: '7f4535707267', notes: '83 pushes'},
-    {name: 'c65c37c6e1fb', notes: '1.7K pushes'},
-  ];
+  readonly searchText = new BehaviorSubject<string>('');
+  readonly sortOrder =
+      new BehaviorSubject<SortOrder>({column: 'name', ascending: true});
+  readonly pushDefs: Observable<PushDefSummary[]>;
+  readonly tree: Observable<PushDefTreeNode>;
+  // Why the push defs of the backend are missing, if they are.
+  readonly listError: Observable<string|undefined>;
+
+  constructor(private readonly catalog: PushDefCatalogService) {
+    const list = this.catalog.pushDefList().pipe(shareReplay(1));
+    this.listError = list.pipe(map(pushDefList => pushDefList.error));
+    const summaries =
+        this.catalog.summaries(list.pipe(map(pushDefList => pushDefList.names)))
+            .pipe(shareReplay(1));
+    this.tree = summaries.pipe(map(buildPushDefTree));
+    this.pushDefs =
+        combineLatest([summaries, this.searchText, this.sortOrder])
+            .pipe(map(([all, searchText, sortOrder]) => {
+              const filtered = filterSummaries(all, searchText);
+              return sortSummaries(filtered, sortOrder);
+            }));
+  }
+
+  /**
+   * Sorts the table by the column, toggling the direction if it is already
+   * sorted by it.
+   *
+   * @param column Column whose header was clicked
+   */
+  sortBy(column: SortColumn): void {
+    const current = this.sortOrder.value;
+    this.sortOrder.next({
+      column,
+      ascending: current.column === column ? !current.ascending : true,
+    });
+  }
+
+  /**
+   * Returns the arrow shown next to the header of the sorted column.
+   *
+   * @param column Column of the header
+   */
+  sortIndicator(column: SortColumn): string {
+    const current = this.sortOrder.value;
+    if (current.column !== column) {
+      return '';
+    }
+    return current.ascending ? '\u25B2' : '\u25BC';
+  }
 }
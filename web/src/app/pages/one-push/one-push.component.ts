@@ -14,29 +14,37 @@
  * limitations under the License.
  */
 
-import {HttpClient} from '@angular/common/http';
 import {Component} from '@angular/core';
 import {ActivatedRoute} from '@angular/router';
 import {combineLatest, Observable} from 'rxjs';
-import {flatMap, map, shareReplay} from 'rxjs/operators';
+import {map, shareReplay} from 'rxjs/operators';
 
 import {step189_2020} from '../../../proto/step189_2020';
+import {PushAnomalies} from '../../components/anomalies';
+import {ChartData} from '../../components/chart-data';
+import {downloadCsv} from '../../components/export-utils';
+import {stateLabel} from '../../components/states';
+import {DateNsecPipe} from '../../pipes/date-nsec.pipe';
+import {PushPageService} from '../../services/push-page.service';
+import {pushIDFromHandle} from '../compare/compare-utils';
 
 @Component({
   selector: 'app-one-push',
   templateUrl: './one-push.component.html',
-  styleUrls: ['./one-push.component.scss']
+  styleUrls: ['./one-push.component.scss'],
+  providers: [PushPageService],
 })
 export class OnePushComponent {
-  showDots = true;
   readonly pushHandle: Observable<string>;
   readonly pushDefName: Observable<string>;
   readonly pushInfos: Observable<step189_2020.IPushInfo[]>;
   readonly pushInfo: Observable<step189_2020.IPushInfo>;
+  readonly chartData: Observable<ChartData>;
+  readonly anomalies: Observable<PushAnomalies>;
 
   constructor(
       private readonly route: ActivatedRoute,
-      private readonly http: HttpClient) {
+      readonly page: PushPageService) {
     this.pushHandle = this.route.url.pipe(
         map((urlSegments) => {
           return urlSegments.map(urlSegment => urlSegment.path).join('/');
@@ -46,18 +54,10 @@ export class OnePushComponent {
     this.pushDefName = this.pushHandle.pipe(
         map(pushHandle => pushHandle.split('/@')[0]), shareReplay(1));
 
-    this.pushInfos = this.pushDefName.pipe(
-        flatMap(pushDefName => {
-          return this.http
-              .get(`assets/${pushDefName}.pb`, {responseType: 'arraybuffer'})
-              .pipe(map((data: ArrayBuffer) => {
-                const pushInfos =
-                    step189_2020.PushInfos.decode(new Uint8Array(data));
-                console.log(pushInfos);
-                return pushInfos.pushInfo;
-              }));
-        }),
-        shareReplay(1));
+    const data = this.page.load(this.pushDefName);
+    this.pushInfos = data.pushInfos;
+    this.chartData = data.chartData;
+    this.anomalies = data.anomalies;
 
     this.pushInfo =
         combineLatest([this.pushHandle, this.pushInfos])
@@ -68,4 +68,21 @@ export class OnePushComponent {
                 }),
                 shareReplay(1));
   }
+
+  /**
+   * Saves the states of the push, as listed in the table, as a CSV file.
+   *
+   * @param pushInfo Push of the page
+   */
+  exportStates(pushInfo: step189_2020.IPushInfo): void {
+    const dateNsec = new DateNsecPipe();
+    const rows = (pushInfo.stateInfo || []).map(stateInfo => ({
+      'Start time': dateNsec.transform(stateInfo.startTimeNsec),
+      Stage: stateInfo.stage,
+      Attempt: stateInfo.attempt,
+      State: stateLabel(stateInfo.state || 0),
+    }));
+    downloadCsv(
+        rows, `states-${pushIDFromHandle(pushInfo.pushHandle || 'push')}`);
+  }
 }
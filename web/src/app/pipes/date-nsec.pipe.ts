@@ -19,10 +19,11 @@ import {Pipe, PipeTransform} from '@angular/core';
 
 @Pipe({name: 'dateNsec'})
 export class DateNsecPipe implements PipeTransform {
-  transform(value: number|Long|null|undefined): string {
+  transform(
+      value: number|Long|null|undefined,
+      format = 'yyyy-MM-dd HH:mm:ss.SSS zzzz'): string {
     if (typeof value === 'number') {
-      return formatDate(
-          value / 1000 / 1000, 'yyyy-MM-dd HH:mm:ss.SSS zzzz', 'en-US');
+      return formatDate(value / 1000 / 1000, format, 'en-US');
     }
     return '';
   }
@@ -0,0 +1,70 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TestBed} from '@angular/core/testing';
+import {BehaviorSubject} from 'rxjs';
+import {take} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {anomalyKinds, PushAnomalies} from '../components/anomalies';
+
+import {AnomalySettingsService} from './anomaly-settings.service';
+import {PushWorkerService} from './push-worker.service';
+
+function pushWithDuration(
+    pushHandle: string, durationNsec: number): step189_2020.IPushInfo {
+  return {
+    pushHandle,
+    stateInfo: [
+      {stage: 'build', state: 3, startTimeNsec: 1},
+      {stage: 'build', state: 5, startTimeNsec: 1 + durationNsec},
+    ],
+  };
+}
+
+describe('AnomalySettingsService', () => {
+  let service: AnomalySettingsService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(AnomalySettingsService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should flag the pushes that are slower than usual', (done: DoneFn) => {
+    const pushInfos = [10, 10, 11, 10, 9, 100].map(
+        (duration, i) => pushWithDuration(`a/@${i}`, duration));
+    const pushes = TestBed.inject(PushWorkerService)
+                       .storePushes(new BehaviorSubject(pushInfos));
+    const found: PushAnomalies[] = [];
+    service.anomalies(pushes).pipe(take(2)).subscribe(anomalies => {
+      found.push(anomalies);
+      if (found.length === 1) {
+        expect(Array.from(anomalies.keys())).toEqual(['a/@5']);
+        expect(anomalyKinds(anomalies.get('a/@5') || [])).toEqual([
+          'slow', 'slow-stage'
+        ]);
+        service.setOptions({method: 'percentile', percentile: 50, mads: 3});
+        return;
+      }
+      expect(anomalies.size).toEqual(2);
+      done();
+    });
+  });
+});
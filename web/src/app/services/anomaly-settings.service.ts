@@ -0,0 +1,57 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Injectable} from '@angular/core';
+import {BehaviorSubject, combineLatest, Observable} from 'rxjs';
+import {shareReplay, switchMap} from 'rxjs/operators';
+
+import {AnomalyOptions, DEFAULT_ANOMALY_OPTIONS, PushAnomalies} from '../components/anomalies';
+
+import {PushWorkerService, WorkerPushes} from './push-worker.service';
+
+/**
+ * Holds the options of the anomaly detection, shared by the pages so that the
+ * same pushes are flagged on all of them.
+ */
+@Injectable({providedIn: 'root'})
+export class AnomalySettingsService {
+  private readonly optionsSubject =
+      new BehaviorSubject<AnomalyOptions>(DEFAULT_ANOMALY_OPTIONS);
+
+  readonly options: Observable<AnomalyOptions> =
+      this.optionsSubject.asObservable();
+
+  constructor(private readonly pushWorker: PushWorkerService) {}
+
+  setOptions(options: AnomalyOptions): void {
+    this.optionsSubject.next(options);
+  }
+
+  /**
+   * Detects the anomalies of the pushes of a push def in the worker with the
+   * current options, again whenever the pushes or the options change.
+   *
+   * @param pushes Pushes of a push def stored in the worker
+   */
+  anomalies(pushes: Observable<WorkerPushes>): Observable<PushAnomalies> {
+    return combineLatest([pushes, this.options])
+        .pipe(
+            switchMap(
+                ([stored, options]) =>
+                    this.pushWorker.detectAnomalies(stored, options)),
+            shareReplay(1));
+  }
+}
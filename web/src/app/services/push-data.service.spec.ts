@@ -0,0 +1,199 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClientTestingModule, HttpTestingController} from '@angular/common/http/testing';
+import {TestBed} from '@angular/core/testing';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {estimateSize, mergePushUpdate, PushDataService} from './push-data.service';
+
+// Estimated size of a push def holding a single push with a 6 character
+// handle, as encoded by encodePushInfos.
+const ONE_PUSH_BYTES = estimateSize([{pushHandle: 'abc/@1'}]);
+
+function encodePushInfos(pushHandles: string[]): ArrayBuffer {
+  const bytes =
+      step189_2020.PushInfos
+          .encode({pushInfo: pushHandles.map(pushHandle => ({pushHandle}))})
+          .finish();
+  return bytes.buffer.slice(
+      bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+describe('PushDataService', () => {
+  let service: PushDataService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({imports: [HttpClientTestingModule]});
+    service = TestBed.inject(PushDataService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should share requests that are in flight', () => {
+    const results: string[][] = [];
+    service.getPushInfos('abc').subscribe(
+        pushInfos => results.push(pushInfos.map(p => p.pushHandle || '')));
+    service.getPushInfos('abc').subscribe(
+        pushInfos => results.push(pushInfos.map(p => p.pushHandle || '')));
+
+    httpMock.expectOne('assets/abc.pb').flush(encodePushInfos(['abc/@1']));
+
+    expect(results).toEqual([['abc/@1'], ['abc/@1']]);
+  });
+
+  it('should serve cached push defs without fetching them again', () => {
+    service.getPushInfos('abc').subscribe();
+    httpMock.expectOne('assets/abc.pb').flush(encodePushInfos(['abc/@1']));
+
+    let handles: string[] = [];
+    service.getPushInfos('abc').subscribe(
+        pushInfos => handles = pushInfos.map(p => p.pushHandle || ''));
+
+    httpMock.expectNone('assets/abc.pb');
+    expect(handles).toEqual(['abc/@1']);
+  });
+
+  it('should fetch invalidated push defs again', () => {
+    service.getPushInfos('abc').subscribe();
+    httpMock.expectOne('assets/abc.pb').flush(encodePushInfos(['abc/@1']));
+
+    service.invalidate('abc');
+    service.getPushInfos('abc').subscribe();
+
+    httpMock.expectOne('assets/abc.pb').flush(encodePushInfos(['abc/@2']));
+  });
+
+  it('should not cache the push defs fetched without caching', () => {
+    service.fetchWithoutCaching('abc').subscribe();
+    httpMock.expectOne('assets/abc.pb').flush(encodePushInfos(['abc/@1']));
+
+    service.getPushInfos('abc').subscribe();
+    httpMock.expectOne('assets/abc.pb').flush(encodePushInfos(['abc/@1']));
+
+    let handles: string[] = [];
+    service.fetchWithoutCaching('abc').subscribe(
+        pushInfos => handles = pushInfos.map(p => p.pushHandle || ''));
+    httpMock.expectNone('assets/abc.pb');
+    expect(handles).toEqual(['abc/@1']);
+  });
+
+  it('should evict the least recently used push defs', () => {
+    service.maxCacheBytes = 2 * ONE_PUSH_BYTES;
+    service.getPushInfos('a').subscribe();
+    httpMock.expectOne('assets/a.pb').flush(encodePushInfos(['a/@1']));
+    service.getPushInfos('b').subscribe();
+    httpMock.expectOne('assets/b.pb').flush(encodePushInfos(['b/@1']));
+
+    // Using 'a' again makes 'b' the least recently used push def.
+    service.getPushInfos('a').subscribe();
+    service.getPushInfos('c').subscribe();
+    httpMock.expectOne('assets/c.pb').flush(encodePushInfos(['c/@1']));
+
+    service.getPushInfos('a').subscribe();
+    service.getPushInfos('c').subscribe();
+    httpMock.expectNone('assets/a.pb');
+    httpMock.expectNone('assets/c.pb');
+    service.getPushInfos('b').subscribe();
+    httpMock.expectOne('assets/b.pb').flush(encodePushInfos(['b/@1']));
+  });
+
+  it('should keep the newest push def even if it is over the limit', () => {
+    service.maxCacheBytes = ONE_PUSH_BYTES / 2;
+    service.getPushInfos('a').subscribe();
+    httpMock.expectOne('assets/a.pb').flush(encodePushInfos(['a/@1']));
+    service.getPushInfos('b').subscribe();
+    httpMock.expectOne('assets/b.pb').flush(encodePushInfos(['b/@1']));
+
+    service.getPushInfos('b').subscribe();
+    httpMock.expectNone('assets/b.pb');
+    service.getPushInfos('a').subscribe();
+    httpMock.expectOne('assets/a.pb').flush(encodePushInfos(['a/@1']));
+  });
+
+  it('should not evict the requests that are in flight', () => {
+    service.maxCacheBytes = ONE_PUSH_BYTES;
+    let handles: string[] = [];
+    service.getPushInfos('a').subscribe(
+        pushInfos => handles = pushInfos.map(p => p.pushHandle || ''));
+    const request = httpMock.expectOne('assets/a.pb');
+    service.getPushInfos('b').subscribe();
+    httpMock.expectOne('assets/b.pb').flush(encodePushInfos(['b/@1']));
+    service.getPushInfos('c').subscribe();
+    httpMock.expectOne('assets/c.pb').flush(encodePushInfos(['c/@1']));
+
+    // 'b' was evicted to make room for 'c', while 'a' still shares the
+    // request in flight.
+    service.getPushInfos('a').subscribe();
+    httpMock.expectNone('assets/a.pb');
+    request.flush(encodePushInfos(['a/@1']));
+    expect(handles).toEqual(['a/@1']);
+    service.getPushInfos('b').subscribe();
+    httpMock.expectOne('assets/b.pb').flush(encodePushInfos(['b/@1']));
+  });
+
+  it('should estimate the size of the strings and messages', () => {
+    const oneState = estimateSize([{stateInfo: [{}]}]);
+    const twoStates = estimateSize([{stateInfo: [{}, {}]}]);
+    const stateSize = twoStates - oneState;
+    const pushSize = oneState - stateSize;
+
+    expect(estimateSize([])).toBe(0);
+    expect(estimateSize([{}])).toBe(pushSize);
+    expect(pushSize).toBeGreaterThan(0);
+    expect(stateSize).toBeGreaterThan(0);
+    expect(estimateSize([{pushHandle: 'abc/@1'}])).toBe(pushSize + 12);
+    expect(estimateSize([
+      {pushHandle: 'abc/@1', stateInfo: [{stage: 'build'}, {state: 3}]},
+      {},
+    ])).toBe(2 * pushSize + 12 + 2 * stateSize + 10);
+  });
+
+  it('should merge the new states of push updates', () => {
+    const pushInfos: step189_2020.IPushInfo[] = [
+      {pushHandle: 'abc/@2', stateInfo: [{state: 3, startTimeNsec: 10}]},
+      {pushHandle: 'abc/@1', stateInfo: [{state: 5, startTimeNsec: 5}]},
+    ];
+    const merged = mergePushUpdate(pushInfos, {
+      pushHandle: 'abc/@2',
+      stateInfo: [
+        {state: 3, startTimeNsec: 10},
+        {state: 5, startTimeNsec: 20},
+      ],
+    });
+
+    expect(merged[0].stateInfo).toEqual([
+      {state: 3, startTimeNsec: 10},
+      {state: 5, startTimeNsec: 20},
+    ]);
+    expect(merged[1]).toBe(pushInfos[1]);
+    expect((pushInfos[0].stateInfo || []).length).toBe(1);
+
+    const added = mergePushUpdate(merged, {pushHandle: 'abc/@3'});
+    expect(added.map(p => p.pushHandle)).toEqual([
+      'abc/@3', 'abc/@2', 'abc/@1'
+    ]);
+  });
+});
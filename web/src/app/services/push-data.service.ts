@@ -0,0 +1,275 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Injectable} from '@angular/core';
+import {EMPTY, Observable, of, throwError} from 'rxjs';
+import {catchError, distinctUntilChanged, scan, shareReplay, startWith, switchMap, tap} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {FileDataSource} from '../data-sources/file-data-source';
+import {PushDataSource} from '../data-sources/push-data-source';
+import {PushUpdateSource} from '../data-sources/push-update-source';
+
+/**
+ * Upper bound for the estimated memory used by the decoded push defs kept in
+ * the cache. The two largest push defs we have take roughly 10MB each.
+ */
+export const MAX_CACHE_BYTES = 64 * 1024 * 1024;
+
+// Rough per-message overhead of the objects created by the protobuf decoder.
+const PUSH_INFO_OVERHEAD_BYTES = 96;
+const STATE_INFO_OVERHEAD_BYTES = 112;
+
+/**
+ * CacheEntry holds the shared observable for one push def.
+ */
+interface CacheEntry {
+  pushInfos: Observable<step189_2020.IPushInfo[]>;
+  sizeBytes: number;  // Estimated size of the decoded data, 0 while in flight
+}
+
+/**
+ * Estimates how many bytes the decoded pushInfos take in memory. Strings are
+ * counted as two bytes per character.
+ *
+ * @param pushInfos Array of pushes for a single push def
+ * @return the estimated size in bytes
+ */
+export function estimateSize(pushInfos: step189_2020.IPushInfo[]): number {
+  let size = 0;
+  for (const pushInfo of pushInfos) {
+    size += PUSH_INFO_OVERHEAD_BYTES;
+    size += 2 * (pushInfo.pushHandle ? pushInfo.pushHandle.length : 0);
+    if (!pushInfo.stateInfo) {
+      continue;
+    }
+    for (const state of pushInfo.stateInfo) {
+      size += STATE_INFO_OVERHEAD_BYTES;
+      size += 2 * (state.stage ? state.stage.length : 0);
+    }
+  }
+  return size;
+}
+
+/**
+ * Merges a push update into the pushes of a push def. The states of the update
+ * that start after the last known state of the push are appended to it, and
+ * unknown pushes are added in front since they are the most recent ones. The
+ * arrays and the pushes are shared, so the changed ones are copied rather
+ * than modified.
+ *
+ * @param pushInfos Array of pushes for a single push def, newest first
+ * @param update Push update from a PushUpdateSource
+ * @return the merged pushes, or pushInfos itself if nothing changed
+ */
+export function mergePushUpdate(
+    pushInfos: step189_2020.IPushInfo[],
+    update: step189_2020.IPushInfo): step189_2020.IPushInfo[] {
+  if (!update.pushHandle) {
+    return pushInfos;
+  }
+  const index = pushInfos.findIndex(
+      pushInfo => pushInfo.pushHandle === update.pushHandle);
+  if (index < 0) {
+    return [update, ...pushInfos];
+  }
+
+  const current = pushInfos[index];
+  const states = current.stateInfo || [];
+  const lastStartNsec =
+      states.length ? +(states[states.length - 1].startTimeNsec || 0) : 0;
+  const newStates = (update.stateInfo || [])
+                        .filter(
+                            stateInfo => +(stateInfo.startTimeNsec || 0) >
+                                lastStartNsec);
+  if (!newStates.length) {
+    return pushInfos;
+  }
+  const merged: step189_2020.IPushInfo = {
+    pushHandle: current.pushHandle,
+    stateInfo: [...states, ...newStates],
+    lastChangeNsec: update.lastChangeNsec || current.lastChangeNsec,
+  };
+  const result = Array.from(pushInfos);
+  result[index] = merged;
+  return result;
+}
+
+/**
+ * Loads the pushes of a push def from the files loaded by the user or from the
+ * configured PushDataSource. The decoded pushes are cached in memory so that
+ * navigating between the pages of the same push def does not download and
+ * decode the same data again. Concurrent requests for a push def share the
+ * same download. When the estimated size of the cache goes above
+ * `maxCacheBytes` the least recently used push defs are evicted.
+ *
+ * The returned arrays are shared between all the subscribers so they must not
+ * be modified.
+ */
+@Injectable({providedIn: 'root'})
+export class PushDataService {
+  // A Map iterates in insertion order. Entries are re-inserted on every access,
+  // so the least recently used push def is always the first one.
+  private readonly cache = new Map<string, CacheEntry>();
+
+  /**
+   * Upper bound for the estimated size of the cache, lowered by the tests.
+   */
+  maxCacheBytes = MAX_CACHE_BYTES;
+
+  /**
+   * Describes each push update that could not be decoded and was skipped.
+   */
+  readonly updateErrors: Observable<string>;
+
+  constructor(
+      private readonly dataSource: PushDataSource,
+      private readonly files: FileDataSource,
+      private readonly updateSource: PushUpdateSource) {
+    this.updateErrors = this.updateSource.errors;
+  }
+
+  /**
+   * Returns the pushes of a push def, fetching them only if they are not
+   * already cached or in flight.
+   *
+   * @param pushDefName Name of the push def, e.g. '28a1555e453f'
+   */
+  getPushInfos(pushDefName: string): Observable<step189_2020.IPushInfo[]> {
+    const cached = this.cache.get(pushDefName);
+    if (cached) {
+      this.cache.delete(pushDefName);
+      this.cache.set(pushDefName, cached);
+      return cached.pushInfos;
+    }
+
+    const entry: CacheEntry = {pushInfos: EMPTY, sizeBytes: 0};
+    entry.pushInfos = this.sourceOf(pushDefName).fetch(pushDefName).pipe(
+        tap(pushInfos => {
+          entry.sizeBytes = estimateSize(pushInfos);
+          this.evict(pushDefName);
+        }),
+        catchError(error => {
+          // Don't keep failed requests around so that the next visit can try
+          // again.
+          if (this.cache.get(pushDefName) === entry) {
+            this.cache.delete(pushDefName);
+          }
+          return throwError(error);
+        }),
+        shareReplay(1));
+    this.cache.set(pushDefName, entry);
+    return entry.pushInfos;
+  }
+
+  /**
+   * Returns the pushes of a push def from the cache if they are cached or in
+   * flight, and otherwise fetches them without caching them, e.g. to compute
+   * statistics of every push def without evicting the ones the user viewed.
+   * The cached push defs are not marked as recently used.
+   *
+   * @param pushDefName Name of the push def, e.g. '28a1555e453f'
+   */
+  fetchWithoutCaching(pushDefName: string):
+      Observable<step189_2020.IPushInfo[]> {
+    const cached = this.cache.get(pushDefName);
+    if (cached) {
+      return cached.pushInfos;
+    }
+    return this.sourceOf(pushDefName).fetch(pushDefName);
+  }
+
+  /**
+   * Returns the pushes of a push def like `getPushInfos`, then the merged
+   * pushes each time the update source sends new states. The cache holds the
+   * merged pushes, so the other pages of the push def see the updates too.
+   * The push defs loaded from files are not updated.
+   *
+   * @param pushDefName Name of the push def, e.g. '28a1555e453f'
+   */
+  watchPushInfos(pushDefName: string): Observable<step189_2020.IPushInfo[]> {
+    if (this.files.has(pushDefName)) {
+      return this.getPushInfos(pushDefName);
+    }
+    return this.getPushInfos(pushDefName)
+        .pipe(switchMap(
+            pushInfos =>
+                this.updateSource.updates(pushDefName)
+                    .pipe(
+                        scan(mergePushUpdate, pushInfos),
+                        distinctUntilChanged(),
+                        tap(merged => this.replace(pushDefName, merged)),
+                        startWith(pushInfos))));
+  }
+
+  /**
+   * Drops the cached pushes of a push def. The next call to `getPushInfos`
+   * fetches them again.
+   *
+   * @param pushDefName Name of the push def
+   */
+  invalidate(pushDefName: string): void {
+    this.cache.delete(pushDefName);
+  }
+
+  /**
+   * Returns where the pushes of a push def are loaded from. Push defs loaded
+   * from files shadow the ones from the backend.
+   *
+   * @param pushDefName Name of the push def
+   */
+  private sourceOf(pushDefName: string): PushDataSource {
+    return this.files.has(pushDefName) ? this.files : this.dataSource;
+  }
+
+  /**
+   * Replaces the cached pushes of a push def, keeping its estimated size since
+   * the updates are small.
+   *
+   * @param pushDefName Name of the push def
+   * @param pushInfos The new pushes
+   */
+  private replace(pushDefName: string, pushInfos: step189_2020.IPushInfo[]):
+      void {
+    const cached = this.cache.get(pushDefName);
+    this.cache.set(pushDefName, {
+      pushInfos: of(pushInfos),
+      sizeBytes: cached ? cached.sizeBytes : estimateSize(pushInfos),
+    });
+  }
+
+  /**
+   * Evicts the least recently used push defs until the estimated size of the
+   * cache fits in `maxCacheBytes`. The push def that was just loaded and the
+   * requests that are still in flight are never evicted.
+   *
+   * @param keep Name of the push def that was just loaded
+   */
+  private evict(keep: string): void {
+    let totalBytes = 0;
+    this.cache.forEach(entry => totalBytes += entry.sizeBytes);
+    for (const [pushDefName, entry] of Array.from(this.cache.entries())) {
+      if (totalBytes <= this.maxCacheBytes) {
+        return;
+      }
+      if (pushDefName === keep || entry.sizeBytes === 0) {
+        continue;
+      }
+      this.cache.delete(pushDefName);
+      totalBytes -= entry.sizeBytes;
+    }
+  }
+}
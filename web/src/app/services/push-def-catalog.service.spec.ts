@@ -0,0 +1,185 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {HttpClientTestingModule, HttpTestingController} from '@angular/common/http/testing';
+import {TestBed} from '@angular/core/testing';
+import {of, Subject} from 'rxjs';
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {PushDataService} from './push-data.service';
+import {isShadowedPushDefName, PushDefCatalogService, PushDefList, PushDefSummary, summarizePushDef} from './push-def-catalog.service';
+import {buildPushDefTree, findTreeNode} from './push-def-tree';
+
+describe('PushDefCatalogService', () => {
+  let service: PushDefCatalogService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({imports: [HttpClientTestingModule]});
+    service = TestBed.inject(PushDefCatalogService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should report push defs that could not be listed', () => {
+    const lists: PushDefList[] = [];
+    service.pushDefList().subscribe(list => lists.push(list));
+
+    TestBed.inject(HttpTestingController)
+        .expectOne('assets/manifest.json')
+        .flush('', {status: 404, statusText: 'Not Found'});
+
+    expect(lists.length).toBe(1);
+    expect(lists[0].names).toEqual([]);
+    expect(lists[0].error).toContain('Could not list the push defs');
+  });
+
+  it('should skip the push defs whose URLs belong to other pages', () => {
+    const lists: PushDefList[] = [];
+    service.pushDefList().subscribe(list => lists.push(list));
+
+    TestBed.inject(HttpTestingController)
+        .expectOne('assets/manifest.json')
+        .flush({
+          pushDefs: [
+            {name: 'dashboard'},
+            {name: 'compare'},
+            {name: 'compare/a'},
+            {name: 'folder/b'},
+            {name: 'c/dashboard'},
+          ],
+        });
+
+    expect(lists.length).toBe(1);
+    expect(lists[0].names).toEqual(['compare', 'c/dashboard']);
+    expect(lists[0].error)
+        .toContain('other pages: dashboard, compare/a, folder/b');
+  });
+
+  it('should tell which push def names are routed to other pages', () => {
+    expect(isShadowedPushDefName('dashboard')).toBe(true);
+    expect(isShadowedPushDefName('dashboard/a')).toBe(false);
+    expect(isShadowedPushDefName('folder')).toBe(false);
+    expect(isShadowedPushDefName('folder/a')).toBe(true);
+    expect(isShadowedPushDefName('compare/a/b')).toBe(true);
+    expect(isShadowedPushDefName('a/compare')).toBe(false);
+  });
+
+  it('should load a few push defs at once and cache the summaries', () => {
+    const fetches = new Map<string, Subject<step189_2020.IPushInfo[]>>();
+    spyOn(TestBed.inject(PushDataService), 'fetchWithoutCaching')
+        .and.callFake((name: string) => {
+          fetches.set(name, new Subject());
+          return fetches.get(name) as Subject<step189_2020.IPushInfo[]>;
+        });
+    const names = ['a', 'b', 'c', 'd', 'e'];
+    const loaded = (summaries: PushDefSummary[]) =>
+        summaries.filter(summary => !summary.loading).map(s => s.name);
+    let latest: PushDefSummary[] = [];
+    const subscription = service.summaries(of(names))
+                             .subscribe(summaries => latest = summaries);
+
+    expect(latest.map(summary => summary.name)).toEqual(names);
+    expect(Array.from(fetches.keys())).toEqual(['a', 'b', 'c', 'd']);
+
+    const b = fetches.get('b') as Subject<step189_2020.IPushInfo[]>;
+    b.next([{pushHandle: 'b/@1'}]);
+    b.complete();
+    expect(loaded(latest)).toEqual(['b']);
+    expect(latest[1].pushCount).toBe(1);
+    expect(Array.from(fetches.keys())).toEqual(['a', 'b', 'c', 'd', 'e']);
+    subscription.unsubscribe();
+
+    fetches.clear();
+    service.summaries(of(['b'])).subscribe(summaries => latest = summaries);
+    expect(fetches.size).toBe(0);
+    expect(loaded(latest)).toEqual(['b']);
+  });
+
+  it('should summarize the pushes of a push def', () => {
+    const summary = summarizePushDef(
+        'abc',
+        [
+          {
+            pushHandle: 'abc/@1',
+            lastChangeNsec: 40,
+            stateInfo: [
+              {state: 1, startTimeNsec: 10},
+              {state: 3, stage: 's', startTimeNsec: 20},
+              {state: 5, stage: 's', startTimeNsec: 40},
+            ],
+          },
+          {
+            pushHandle: 'abc/@2',
+            lastChangeNsec: 130,
+            stateInfo: [
+              {state: 3, stage: 's', startTimeNsec: 100},
+              {state: 6, stage: 's', startTimeNsec: 130},
+            ],
+          },
+        ],
+        false);
+
+    expect(summary.pushCount).toBe(2);
+    expect(summary.firstPushNsec).toBe(10);
+    expect(summary.lastPushNsec).toBe(100);
+    expect(summary.lastChangeNsec).toBe(130);
+    expect(summary.successRate).toBe(0.5);
+    expect(summary.medianDurationNsec).toBe(25);
+  });
+
+  it('should roll up the statistics of the push def tree', () => {
+    const tree = buildPushDefTree([
+      {
+        name: 'test/a',
+        imported: false,
+        loading: false,
+        pushCount: 3,
+        finishedCount: 2,
+        completedCount: 1,
+        firstPushNsec: 10,
+        lastPushNsec: 30,
+      },
+      {
+        name: 'test/b/c',
+        imported: false,
+        loading: false,
+        pushCount: 5,
+        finishedCount: 4,
+        completedCount: 4,
+        firstPushNsec: 5,
+        lastPushNsec: 20,
+      },
+      {name: 'other', imported: false, loading: true},
+    ]);
+
+    expect(tree.children.map(child => child.name)).toEqual(['other', 'test']);
+    expect(tree.stats.pushDefCount).toBe(3);
+    expect(tree.stats.loadingCount).toBe(1);
+
+    const folder = findTreeNode(tree, 'test');
+    expect(folder && folder.stats.pushCount).toBe(8);
+    expect(folder && folder.stats.failureRate).toBe(1 / 6);
+    expect(folder && folder.stats.firstPushNsec).toBe(5);
+    expect(folder && folder.stats.lastPushNsec).toBe(30);
+
+    const leaf = findTreeNode(tree, 'test/b/c');
+    expect(leaf && leaf.summary && leaf.summary.name).toBe('test/b/c');
+    expect(findTreeNode(tree, 'test/d')).toBeUndefined();
+  });
+});
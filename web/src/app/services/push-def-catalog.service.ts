@@ -0,0 +1,269 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Injectable} from '@angular/core';
+import * as d3 from 'd3';
+import {from, Observable, of} from 'rxjs';
+import {catchError, map, mergeMap, scan, shareReplay, startWith, switchMap} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {findDuration} from '../components/duration-utils';
+import {isSucceededState, isTerminalState} from '../components/states';
+import {FileDataSource} from '../data-sources/file-data-source';
+import {PushDataSource} from '../data-sources/push-data-source';
+import {COMPARE_PATH_PREFIX} from '../pages/compare/compare-utils';
+
+import {PushDataService} from './push-data.service';
+import {buildPushDefTree, FOLDER_PATH_PREFIX, PushDefTreeNode} from './push-def-tree';
+
+/**
+ * PushDefSummary holds the metadata shown for a push def in the catalog. The
+ * statistics are undefined while the pushes are loading or if there are no
+ * pushes to compute them from.
+ */
+export interface PushDefSummary {
+  name: string;                 // Name of the push def
+  imported: boolean;            // Loaded from a file during this session
+  loading: boolean;             // True until the pushes are loaded
+  error?: string;               // Set if the pushes could not be loaded
+  pushCount?: number;           // Number of pushes
+  firstPushNsec?: number;       // Start time of the oldest push
+  lastPushNsec?: number;        // Start time of the most recent push
+  lastChangeNsec?: number;      // Most recent change of any push
+  finishedCount?: number;       // Number of pushes in a terminal state
+  completedCount?: number;      // Number of finished pushes that completed
+  successRate?: number;         // Fraction of the finished pushes that
+                                // completed
+  medianDurationNsec?: number;  // Median of the push durations
+}
+
+/**
+ * URL path of the dashboard, which compares push defs of the catalog, e.g.
+ * /dashboard?pushDef=28a1555e453f
+ */
+export const DASHBOARD_PATH = 'dashboard';
+
+// Maximum number of push defs whose pushes are fetched at once for the
+// summaries.
+const MAX_CONCURRENT_FETCHES = 4;
+
+/**
+ * PushDefList holds the names of the push defs of the catalog, and why the
+ * ones of the backend are missing if they could not be listed.
+ */
+export interface PushDefList {
+  names: string[];  // Imported push defs, then the ones of the backend
+  error?: string;   // Set if the manifest of the backend could not be loaded,
+                    // or if some push defs were skipped
+}
+
+/**
+ * Returns whether the URL of a push def is routed to another page, e.g. the
+ * push def 'dashboard' or 'compare/abc'. The pages of such push defs can't be
+ * reached, so the catalog skips them.
+ *
+ * @param name Name of the push def
+ */
+export function isShadowedPushDefName(name: string): boolean {
+  const segments = name.split('/');
+  if (segments.length === 1) {
+    return name === DASHBOARD_PATH;
+  }
+  return segments[0] === COMPARE_PATH_PREFIX ||
+      segments[0] === FOLDER_PATH_PREFIX;
+}
+
+/**
+ * Computes the summary of a push def from its pushes.
+ *
+ * @param name Name of the push def
+ * @param pushInfos Array of pushes for the push def
+ * @param imported Whether the pushes were loaded from a file
+ */
+export function summarizePushDef(
+    name: string, pushInfos: step189_2020.IPushInfo[],
+    imported: boolean): PushDefSummary {
+  const startTimes: number[] = [];
+  const durations: number[] = [];
+  let lastChangeNsec: number|undefined;
+  let finished = 0;
+  let completed = 0;
+
+  pushInfos.forEach(pushInfo => {
+    if (pushInfo.lastChangeNsec) {
+      lastChangeNsec = Math.max(lastChangeNsec || 0, +pushInfo.lastChangeNsec);
+    }
+    const states = pushInfo.stateInfo;
+    if (!states || !states.length) {
+      return;
+    }
+    const startTime = states[0].startTimeNsec;
+    if (startTime) {
+      startTimes.push(+startTime);
+    }
+    const finalState = states[states.length - 1].state;
+    if (finalState && isTerminalState(finalState)) {
+      finished++;
+      if (isSucceededState(finalState)) {
+        completed++;
+      }
+    }
+    const startEnd = findDuration(pushInfo);
+    if (startEnd) {
+      durations.push(+startEnd.endNsec - +startEnd.startNsec);
+    }
+  });
+
+  return {
+    name,
+    imported,
+    loading: false,
+    pushCount: pushInfos.length,
+    firstPushNsec: d3.min(startTimes),
+    lastPushNsec: d3.max(startTimes),
+    lastChangeNsec,
+    finishedCount: finished,
+    completedCount: completed,
+    successRate: finished ? completed / finished : undefined,
+    medianDurationNsec: d3.median(durations),
+  };
+}
+
+/**
+ * Lists the available push defs and computes live metadata for each of them
+ * from their pushes, instead of relying on hand-written notes.
+ */
+@Injectable({providedIn: 'root'})
+export class PushDefCatalogService {
+  // Summaries of the push defs that were loaded, by name, so that they are
+  // computed once rather than each time the catalog is shown.
+  private readonly summaryCache = new Map<string, Observable<PushDefSummary>>();
+
+  constructor(
+      private readonly dataSource: PushDataSource,
+      private readonly files: FileDataSource,
+      private readonly pushData: PushDataService) {}
+
+  /**
+   * Returns the names of the push defs listed in the manifest of the backend,
+   * preceded by the ones imported from files during this session. The
+   * imported push defs are still listed if the manifest can't be loaded. Push
+   * defs whose URLs are routed to other pages are left out.
+   */
+  pushDefList(): Observable<PushDefList> {
+    return this.dataSource.listPushDefs().pipe(
+        map((names): PushDefList => ({names})),
+        catchError((error: Error) => of({
+          names: [],
+          error: `Could not list the push defs: ${error.message}`,
+        })),
+        map(list => {
+          const names = Array.from(
+              new Set([...this.files.pushDefNames(), ...list.names]));
+          const shadowed = names.filter(isShadowedPushDefName);
+          if (!shadowed.length) {
+            return {...list, names};
+          }
+          const skipped = `Skipped the push defs whose URLs belong to ` +
+              `other pages: ${shadowed.join(', ')}`;
+          return {
+            names: names.filter(name => !isShadowedPushDefName(name)),
+            error: list.error ? `${list.error}. ${skipped}` : skipped,
+          };
+        }));
+  }
+
+  /**
+   * Returns the names of the push defs, like `pushDefList` without the error.
+   */
+  pushDefNames(): Observable<string[]> {
+    return this.pushDefList().pipe(map(list => list.names));
+  }
+
+  /**
+   * Returns the summaries of all the push defs. A placeholder is emitted for
+   * each push def while its pushes are loading, so the list can be shown right
+   * away. Only a few push defs are loaded at once.
+   *
+   * @param pushDefNames Names of the push defs, all of them by default
+   */
+  summaries(pushDefNames = this.pushDefNames()):
+      Observable<PushDefSummary[]> {
+    return pushDefNames.pipe(switchMap(names => {
+      const placeholders = names.map(name => this.placeholder(name));
+      return from(names.map((name, index) => ({name, index})))
+          .pipe(
+              mergeMap(
+                  ({name, index}) => this.loadSummary(name).pipe(
+                      map(summary => ({summary, index}))),
+                  MAX_CONCURRENT_FETCHES),
+              scan((summaries, {summary, index}) => {
+                const next = summaries.slice();
+                next[index] = summary;
+                return next;
+              }, placeholders),
+              startWith(placeholders));
+    }));
+  }
+
+  /**
+   * Returns the tree of all the push defs, organized by the slash-separated
+   * segments of their names, with roll-up statistics for each folder.
+   */
+  tree(): Observable<PushDefTreeNode> {
+    return this.summaries().pipe(map(buildPushDefTree));
+  }
+
+  /**
+   * Returns the summary of one push def. Its pushes are not cached if they
+   * aren't already, as the cache can't hold all the push defs.
+   *
+   * @param name Name of the push def
+   */
+  summary(name: string): Observable<PushDefSummary> {
+    return this.loadSummary(name).pipe(startWith(this.placeholder(name)));
+  }
+
+  private placeholder(name: string): PushDefSummary {
+    return {name, imported: this.files.has(name), loading: true};
+  }
+
+  /**
+   * Loads the pushes of a push def and summarizes them, unless the summary is
+   * already cached. The summaries that failed are not cached, so that they
+   * are loaded again the next time.
+   *
+   * @param name Name of the push def
+   */
+  private loadSummary(name: string): Observable<PushDefSummary> {
+    const imported = this.files.has(name);
+    // A push def imported from a file hides the one of the backend.
+    const key = `${imported ? 'file' : 'backend'}:${name}`;
+    const cached = this.summaryCache.get(key);
+    if (cached) {
+      return cached;
+    }
+    const summary = this.pushData.fetchWithoutCaching(name).pipe(
+        map(pushInfos => summarizePushDef(name, pushInfos, imported)),
+        catchError((error: Error) => {
+          this.summaryCache.delete(key);
+          return of({name, imported, loading: false, error: error.message});
+        }),
+        shareReplay(1));
+    this.summaryCache.set(key, summary);
+    return summary;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {PushDefSummary} from './push-def-catalog.service';
+
+/**
+ * First URL segment of the folder pages, e.g. /folder/test/razvanm.
+ */
+export const FOLDER_PATH_PREFIX = 'folder';
+
+/**
+ * Returns the URL of the aggregate page of a folder.
+ *
+ * @param path Slash-separated path of the folder
+ */
+export function folderLink(path: string): string {
+  return `/${FOLDER_PATH_PREFIX}/${path}`;
+}
+
+/**
+ * PushDefTreeStats holds the statistics of all the push defs in a subtree.
+ * Push defs that are still loading or failed to load are only counted in
+ * loadingCount and errorCount.
+ */
+export interface PushDefTreeStats {
+  pushDefCount: number;     // Number of push defs in the subtree
+  loadingCount: number;     // Push defs whose pushes are still loading
+  errorCount: number;       // Push defs whose pushes could not be loaded
+  pushCount: number;        // Total number of pushes
+  finishedCount: number;    // Pushes with a final state
+  failedCount: number;      // Finished pushes that did not complete
+  failureRate?: number;     // failedCount / finishedCount
+  firstPushNsec?: number;   // Start time of the oldest push
+  lastPushNsec?: number;    // Start time of the most recent push
+  lastChangeNsec?: number;  // Most recent change of any push
+}
+
+/**
+ * A folder or a push def in the tree built from the slash-separated push def
+ * names. A node can be both, e.g. with the push defs 'a' and 'a/b'.
+ */
+export interface PushDefTreeNode {
+  name: string;                 // Last segment of the path, e.g. 'helloworld'
+  path: string;                 // Full path, e.g. 'test/razvanm/helloworld'
+  summary?: PushDefSummary;     // Set if the path is a push def
+  children: PushDefTreeNode[];  // Sorted by name
+  stats: PushDefTreeStats;      // Roll-up of the node and its descendants
+}
+
+function emptyStats(): PushDefTreeStats {
+  return {
+    pushDefCount: 0,
+    loadingCount: 0,
+    errorCount: 0,
+    pushCount: 0,
+    finishedCount: 0,
+    failedCount: 0,
+  };
+}
+
+function minDefined(a?: number, b?: number): number|undefined {
+  if (a === undefined) {
+    return b;
+  }
+  return b === undefined ? a : Math.min(a, b);
+}
+
+function maxDefined(a?: number, b?: number): number|undefined {
+  if (a === undefined) {
+    return b;
+  }
+  return b === undefined ? a : Math.max(a, b);
+}
+
+/**
+ * Adds the statistics of a push def or of a subtree to the running totals.
+ *
+ * @param total Statistics to update in place
+ * @param part Statistics to add
+ */
+function addStats(total: PushDefTreeStats, part: PushDefTreeStats): void {
+  total.pushDefCount += part.pushDefCount;
+  total.loadingCount += part.loadingCount;
+  total.errorCount += part.errorCount;
+  total.pushCount += part.pushCount;
+  total.finishedCount += part.finishedCount;
+  total.failedCount += part.failedCount;
+  total.firstPushNsec = minDefined(total.firstPushNsec, part.firstPushNsec);
+  total.lastPushNsec = maxDefined(total.lastPushNsec, part.lastPushNsec);
+  total.lastChangeNsec = maxDefined(total.lastChangeNsec, part.lastChangeNsec);
+}
+
+/**
+ * Converts the summary of a single push def into tree statistics.
+ *
+ * @param summary Summary of the push def
+ */
+export function statsFromSummary(summary: PushDefSummary): PushDefTreeStats {
+  const stats = emptyStats();
+  stats.pushDefCount = 1;
+  if (summary.loading) {
+    stats.loadingCount = 1;
+    return stats;
+  }
+  if (summary.error) {
+    stats.errorCount = 1;
+    return stats;
+  }
+  const finished = summary.finishedCount || 0;
+  stats.pushCount = summary.pushCount || 0;
+  stats.finishedCount = finished;
+  stats.failedCount = finished - (summary.completedCount || 0);
+  stats.firstPushNsec = summary.firstPushNsec;
+  stats.lastPushNsec = summary.lastPushNsec;
+  stats.lastChangeNsec = summary.lastChangeNsec;
+  return stats;
+}
+
+/**
+ * Computes the roll-up statistics of a node from its own push def and its
+ * children, after computing the ones of the children.
+ *
+ * @param node Root of the subtree to update
+ */
+function rollUp(node: PushDefTreeNode): PushDefTreeStats {
+  const stats = node.summary ? statsFromSummary(node.summary) : emptyStats();
+  node.children.sort((a, b) => a.name.localeCompare(b.name));
+  node.children.forEach(child => addStats(stats, rollUp(child)));
+  if (stats.finishedCount) {
+    stats.failureRate = stats.failedCount / stats.finishedCount;
+  }
+  node.stats = stats;
+  return stats;
+}
+
+/**
+ * Builds the tree of push defs from their slash-separated names. The root is
+ * an unnamed folder with the empty path.
+ *
+ * @param summaries Summaries of all the push defs
+ */
+export function buildPushDefTree(summaries: PushDefSummary[]):
+    PushDefTreeNode {
+  const root: PushDefTreeNode =
+      {name: '', path: '', children: [], stats: emptyStats()};
+  summaries.forEach(summary => {
+    let node = root;
+    summary.name.split('/').filter(segment => segment).forEach(segment => {
+      const path = node.path ? `${node.path}/${segment}` : segment;
+      let child = node.children.find(c => c.name === segment);
+      if (!child) {
+        child = {name: segment, path, children: [], stats: emptyStats()};
+        node.children.push(child);
+      }
+      node = child;
+    });
+    node.summary = summary;
+  });
+  rollUp(root);
+  return root;
+}
+
+/**
+ * Finds the node of a folder or push def in the tree.
+ *
+ * @param root Root of the tree
+ * @param path Slash-separated path of the node; the empty path is the root
+ * @return the node, or undefined if no push def is under the path
+ */
+export function findTreeNode(root: PushDefTreeNode, path: string):
+    PushDefTreeNode|undefined {
+  let node: PushDefTreeNode|undefined = root;
+  for (const segment of path.split('/').filter(s => s)) {
+    node = node.children.find(child => child.name === segment);
+    if (!node) {
+      return undefined;
+    }
+  }
+  return node;
+}
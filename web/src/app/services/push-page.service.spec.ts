@@ -0,0 +1,75 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {HttpClientTestingModule} from '@angular/common/http/testing';
+import {TestBed} from '@angular/core/testing';
+import {ActivatedRoute, convertToParamMap, ParamMap, Params, Router} from '@angular/router';
+import {RouterTestingModule} from '@angular/router/testing';
+import {BehaviorSubject} from 'rxjs';
+
+import {PushFilter} from '../components/push-filter';
+
+import {PushPageService} from './push-page.service';
+
+describe('PushPageService', () => {
+  let service: PushPageService;
+  let queryParamMap: BehaviorSubject<ParamMap>;
+  let router: Router;
+
+  beforeEach(() => {
+    queryParamMap = new BehaviorSubject(convertToParamMap({}));
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule, RouterTestingModule],
+      providers: [
+        PushPageService,
+        {provide: ActivatedRoute, useValue: {queryParamMap}},
+      ],
+    });
+    service = TestBed.inject(PushPageService);
+    router = TestBed.inject(Router);
+  });
+
+  it('should ignore the changes of the chart state in the filter', () => {
+    const filters: PushFilter[] = [];
+    service.filter.subscribe(filter => filters.push(filter));
+    let zoom: Array<number|null> = [];
+    service.chartState.subscribe(
+        state => zoom = state.zoom ? Array.from(state.zoom) : [null]);
+
+    queryParamMap.next(convertToParamMap({state: 'failed'}));
+    queryParamMap.next(
+        convertToParamMap({state: 'failed', zoom: '1000~2000'}));
+
+    expect(filters.map(filter => filter.categories)).toEqual([[], ['failed']]);
+    expect(zoom).toEqual([1000, 2000]);
+  });
+
+  it('should keep the filter and the chart state in the URL', () => {
+    const navigate = spyOn(router, 'navigate');
+
+    service.setFilter({categories: ['failed'], stage: 'build'});
+    service.setChartState({showDots: false});
+
+    const queryParams =
+        navigate.calls.allArgs().map(args => (args[1] || {}).queryParams);
+    expect((queryParams[0] as Params).state).toEqual(['failed']);
+    expect((queryParams[0] as Params).stage).toBe('build');
+    expect(queryParams[1]).toEqual({dots: 'false'});
+    expect(navigate.calls.mostRecent().args[1])
+        .toEqual(jasmine.objectContaining({replaceUrl: true}));
+  });
+});
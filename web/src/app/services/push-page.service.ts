@@ -0,0 +1,150 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Injectable, OnDestroy} from '@angular/core';
+import {ActivatedRoute, Router} from '@angular/router';
+import {combineLatest, Observable, Subject} from 'rxjs';
+import {distinctUntilChanged, map, shareReplay, switchMap, takeUntil} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {PushAnomalies} from '../components/anomalies';
+import {ChartData} from '../components/chart-data';
+import {ChartState, chartStateFromParams, chartStateToParams} from '../components/chart-state';
+import {filterFromParams, filterToParams, isSameFilter, PushFilter} from '../components/push-filter';
+
+import {AnomalySettingsService} from './anomaly-settings.service';
+import {PushDataService} from './push-data.service';
+import {PushWorkerService} from './push-worker.service';
+
+/**
+ * PushPageData holds the pushes of the push def of a page and what the charts
+ * and the tables draw of them.
+ */
+export interface PushPageData {
+  // All the pushes of the push def, updated live.
+  pushInfos: Observable<step189_2020.IPushInfo[]>;
+  // Pushes of the push def that match the filter, shown by the charts and the
+  // tables.
+  filteredPushInfos: Observable<step189_2020.IPushInfo[]>;
+  // Data of the charts, prepared from the filtered pushes in a web worker. It
+  // comes with the filtered pushes.
+  chartData: Observable<ChartData>;
+  // Anomalies of all the pushes of the push def, so that they don't depend on
+  // the filter.
+  anomalies: Observable<PushAnomalies>;
+}
+
+/**
+ * Keeps the filter and the chart state of a push page in its query
+ * parameters, and loads the pushes the page shows. It is provided by each push
+ * page, since it reads the route of the page.
+ */
+@Injectable()
+export class PushPageService implements OnDestroy {
+  readonly filter: Observable<PushFilter>;
+  // What the user changed on the charts, kept in the URL.
+  readonly chartState: Observable<ChartState>;
+  // Latest push update that could not be decoded, as the pushes may be out of
+  // date.
+  readonly updateError: Observable<string>;
+  private readonly destroyed = new Subject<void>();
+
+  constructor(
+      private readonly route: ActivatedRoute,
+      private readonly router: Router,
+      private readonly pushData: PushDataService,
+      private readonly anomalySettings: AnomalySettingsService,
+      private readonly pushWorker: PushWorkerService) {
+    // The chart state is in the query parameters too, so its changes are
+    // ignored here rather than filtering the pushes and preparing the charts
+    // again on every zoom.
+    this.filter = this.route.queryParamMap.pipe(
+        map(filterFromParams), distinctUntilChanged(isSameFilter),
+        shareReplay(1));
+
+    this.chartState = this.route.queryParamMap.pipe(
+        map(chartStateFromParams), shareReplay(1));
+
+    this.updateError = this.pushData.updateErrors;
+  }
+
+  ngOnDestroy(): void {
+    this.destroyed.next();
+  }
+
+  /**
+   * Loads the pushes of the push def of the page, and keeps a copy of them in
+   * the worker until the page is left. The worker filters them and prepares
+   * the charts, so only the filter and the changes of the live updates are
+   * sent to it.
+   *
+   * @param pushDefName Name of the push def of the page
+   */
+  load(pushDefName: Observable<string>): PushPageData {
+    const pushInfos = pushDefName.pipe(
+        switchMap(name => this.pushData.watchPushInfos(name)),
+        takeUntil(this.destroyed), shareReplay(1));
+
+    const workerPushes =
+        this.pushWorker.storePushes(pushInfos).pipe(shareReplay(1));
+
+    const chartData =
+        combineLatest([workerPushes, this.filter])
+            .pipe(
+                switchMap(
+                    ([pushes, filter]) =>
+                        this.pushWorker.prepareCharts(pushes, filter)),
+                shareReplay(1));
+
+    return {
+      pushInfos,
+      filteredPushInfos: chartData.pipe(
+          map(data => data.pushInfos), distinctUntilChanged(), shareReplay(1)),
+      chartData,
+      anomalies: this.anomalySettings.anomalies(workerPushes),
+    };
+  }
+
+  /**
+   * Stores the filter in the URL, which updates the charts and the tables.
+   *
+   * @param filter New filter of the page
+   */
+  setFilter(filter: PushFilter): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: filterToParams(filter),
+      queryParamsHandling: 'merge',
+    });
+  }
+
+  /**
+   * Stores what the user changed on a chart in the URL, so that a link to the
+   * page shows the charts the same way. The URL is replaced rather than added
+   * to the history, which would otherwise get an entry for every zoom.
+   *
+   * @param state Changed fields of the chart state
+   */
+  setChartState(state: Partial<ChartState>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: chartStateToParams(state),
+      queryParamsHandling: 'merge',
+      replaceUrl: true,
+    });
+  }
+}
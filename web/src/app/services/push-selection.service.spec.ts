@@ -0,0 +1,52 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TestBed} from '@angular/core/testing';
+
+import {PushSelection, PushSelectionService} from './push-selection.service';
+
+describe('PushSelectionService', () => {
+  let service: PushSelectionService;
+  let selection: PushSelection|undefined;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PushSelectionService);
+    service.selection.subscribe(value => selection = value);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should only let the brushing chart clear its brush', () => {
+    service.setBrush('timeline', ['a/@1', 'a/@2']);
+    service.setBrush('cdf', null);
+    expect(selection && selection.brush && selection.brush.source)
+        .toEqual('timeline');
+
+    service.setBrush('timeline', null);
+    expect(selection && selection.brush).toBeNull();
+  });
+
+  it('should toggle the selected push', () => {
+    service.toggleSelected('a/@1');
+    expect(selection && selection.selectedHandle).toEqual('a/@1');
+
+    service.toggleSelected('a/@1');
+    expect(selection && selection.selectedHandle).toBeNull();
+  });
+});
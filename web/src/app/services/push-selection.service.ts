@@ -0,0 +1,105 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {Injectable} from '@angular/core';
+import {BehaviorSubject, combineLatest, Observable} from 'rxjs';
+import {distinctUntilChanged, map} from 'rxjs/operators';
+
+/**
+ * Charts that can brush a set of pushes.
+ */
+export type BrushSource = 'timeline'|'bar-chart'|'cdf';
+
+/**
+ * Brush holds the pushes brushed on one of the charts, e.g. the pushes that
+ * ran during a time window of the timeline.
+ */
+export interface Brush {
+  source: BrushSource;       // Chart the pushes were brushed on
+  pushHandles: Set<string>;  // Push handles of the brushed pushes
+}
+
+/**
+ * PushSelection is the state shared by the charts and the tables.
+ */
+export interface PushSelection {
+  brush: Brush|null;            // Brushed pushes, null if nothing is brushed
+  selectedHandle: string|null;  // Push handle of the clicked push
+}
+
+/**
+ * Links the charts and the tables that show the same pushes. Brushing pushes
+ * on a chart highlights them in the others, and clicking a push selects it
+ * everywhere. The pushes are identified by their push handle, so the
+ * selection is kept while navigating between the pages of a push def and
+ * matches nothing on the pages of other push defs.
+ */
+@Injectable({providedIn: 'root'})
+export class PushSelectionService {
+  private readonly brushSubject = new BehaviorSubject<Brush|null>(null);
+  private readonly selectedSubject = new BehaviorSubject<string|null>(null);
+
+  readonly brush: Observable<Brush|null> = this.brushSubject.asObservable();
+  readonly selectedHandle: Observable<string|null> =
+      this.selectedSubject.pipe(distinctUntilChanged());
+  readonly selection: Observable<PushSelection> =
+      combineLatest([this.brush, this.selectedHandle])
+          .pipe(map(([brush, selectedHandle]) => ({brush, selectedHandle})));
+
+  /**
+   * Replaces the brushed pushes.
+   *
+   * @param source Chart the pushes were brushed on
+   * @param pushHandles Push handles of the brushed pushes, or null to clear
+   *     the brush
+   */
+  setBrush(source: BrushSource, pushHandles: string[]|null): void {
+    const current = this.brushSubject.value;
+    if (!pushHandles) {
+      // Only the chart that owns the brush can clear it.
+      if (current && current.source === source) {
+        this.brushSubject.next(null);
+      }
+      return;
+    }
+    this.brushSubject.next({source, pushHandles: new Set(pushHandles)});
+  }
+
+  /**
+   * Selects a push, or unselects it if it is already selected.
+   *
+   * @param pushHandle Push handle of the clicked push
+   */
+  toggleSelected(pushHandle: string): void {
+    this.selectedSubject.next(
+        this.selectedSubject.value === pushHandle ? null : pushHandle);
+  }
+
+  clearSelected(): void {
+    this.selectedSubject.next(null);
+  }
+}
+
+/**
+ * Returns whether a push is highlighted by a brush, i.e. if nothing is
+ * brushed or if the push is one of the brushed pushes.
+ *
+ * @param brush Current brush
+ * @param pushHandle Push handle of the push
+ */
+export function isBrushed(brush: Brush|null, pushHandle: string): boolean {
+  return !brush || brush.pushHandles.has(pushHandle);
+}
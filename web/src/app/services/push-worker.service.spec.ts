@@ -0,0 +1,203 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {TestBed} from '@angular/core/testing';
+import {BehaviorSubject, Subject} from 'rxjs';
+import {switchMap, take} from 'rxjs/operators';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {prepareChartData} from '../components/chart-data';
+import {EMPTY_FILTER} from '../components/push-filter';
+import {PushDataRequest, PushDataResponse} from '../workers/push-data';
+
+import {PushWorkerService} from './push-worker.service';
+
+type Listener = (event: Event) => void;
+
+// Stands in for the worker, to answer the requests or fail on demand.
+class FakeWorker {
+  readonly posted: PushDataRequest[] = [];
+  terminated = false;
+  private readonly listeners = new Map<string, Listener>();
+
+  addEventListener(type: string, listener: Listener): void {
+    this.listeners.set(type, listener);
+  }
+
+  postMessage(request: PushDataRequest): void {
+    this.posted.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  respond(response: PushDataResponse): void {
+    (this.listeners.get('message') as Listener)(
+        new MessageEvent('message', {data: response}));
+  }
+
+  fail(): void {
+    (this.listeners.get('error') as Listener)(
+        new ErrorEvent('error', {message: 'Script failed'}));
+  }
+}
+
+describe('PushWorkerService', () => {
+  let service: PushWorkerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PushWorkerService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should decode binary messages', (done: DoneFn) => {
+    const bytes = step189_2020.PushInfos
+                      .encode({
+                        pushInfo: [
+                          {pushHandle: 'a/@1'},
+                          {pushHandle: 'a/@2', stateInfo: [{state: 5}]},
+                        ]
+                      })
+                      .finish();
+    const data = bytes.buffer.slice(
+        bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    service.decode(data, 'binary').subscribe(pushInfos => {
+      expect(pushInfos.map(p => p.pushHandle)).toEqual(['a/@1', 'a/@2']);
+      expect(pushInfos.map(p => (p.stateInfo || []).length)).toEqual([0, 1]);
+      done();
+    });
+  });
+
+  it('should prepare the charts of the given pushes', (done: DoneFn) => {
+    const pushInfos: step189_2020.IPushInfo[] = [{
+      pushHandle: 'a/@1',
+      stateInfo: [
+        {state: 13, startTimeNsec: 1586797200052980330},
+        {state: 5, stage: 'x', startTimeNsec: 1586797239932450679},
+      ],
+    }];
+    service.storePushes(new BehaviorSubject(pushInfos))
+        .pipe(
+            switchMap(pushes => service.prepareCharts(pushes, EMPTY_FILTER)),
+            take(1))
+        .subscribe(chartData => {
+          expect(chartData.pushInfos).toBe(pushInfos);
+          expect(chartData.timeline.map(d => d.pushID)).toEqual(['a/@1']);
+          expect(chartData.timelineRows).toBe(1);
+          expect(chartData.stageStats.map(s => s.stage)).toEqual(['x']);
+          done();
+        });
+  });
+
+  it('should send only the changes of the stored pushes', () => {
+    const worker = new FakeWorker();
+    spyOn(window, 'Worker').and.returnValue(worker as unknown as Worker);
+    const first = [{pushHandle: 'a/@2'}, {pushHandle: 'a/@1'}];
+    const updated = [{pushHandle: 'a/@3'}, first[0], {pushHandle: 'a/@1'}];
+    const pushInfos = new Subject<step189_2020.IPushInfo[]>();
+    const subscription = service.storePushes(pushInfos).subscribe();
+
+    pushInfos.next(first);
+    pushInfos.next(updated);
+    subscription.unsubscribe();
+
+    expect(worker.posted.map(request => request.type)).toEqual([
+      'store', 'update', 'release'
+    ]);
+    expect(worker.posted[1]).toEqual(jasmine.objectContaining({
+      delta: {added: [updated[0]], replaced: [[1, updated[2]]]},
+    }));
+  });
+
+  it('should map the matching pushes back to the stored ones', () => {
+    const worker = new FakeWorker();
+    spyOn(window, 'Worker').and.returnValue(worker as unknown as Worker);
+    const pushInfos = [{pushHandle: 'a/@2'}, {pushHandle: 'a/@1'}];
+    let matching: step189_2020.IPushInfo[] = [];
+    service.prepareCharts({key: 0, pushInfos}, EMPTY_FILTER)
+        .subscribe(chartData => matching = chartData.pushInfos);
+
+    const request = worker.posted[0];
+    worker.respond({
+      id: request.id,
+      type: 'prepared',
+      chartData: prepareChartData([pushInfos[1]]),
+      matches: [1],
+    });
+    expect(matching).toEqual([pushInfos[1]]);
+    expect(matching[0]).toBe(pushInfos[1]);
+  });
+
+  it('should start a new worker after the worker fails', () => {
+    const workers: FakeWorker[] = [];
+    spyOn(window, 'Worker').and.callFake(() => {
+      workers.push(new FakeWorker());
+      return workers[workers.length - 1] as unknown as Worker;
+    });
+    const results: string[] = [];
+    const decode = () => service.decode(new ArrayBuffer(0), 'binary')
+                             .subscribe(
+                                 pushInfos => results.push(
+                                     `${pushInfos.length} pushes`),
+                                 (error: Error) => results.push(error.message));
+
+    decode();
+    decode();
+    workers[0].respond(
+        {id: workers[0].posted[1].id, type: 'decoded', pushInfos: []});
+    workers[0].fail();
+
+    expect(workers[0].terminated).toBe(true);
+    expect(results).toEqual([
+      '0 pushes', 'The push data worker failed: Script failed'
+    ]);
+
+    decode();
+    expect(workers.length).toBe(2);
+    workers[1].respond({
+      id: workers[1].posted[0].id,
+      type: 'decoded',
+      pushInfos: [{pushHandle: 'a/@1'}],
+    });
+    expect(results.length).toBe(3);
+    expect(results[2]).toBe('1 pushes');
+  });
+
+  it('should store the pushes again in a new worker', () => {
+    const workers: FakeWorker[] = [];
+    spyOn(window, 'Worker').and.callFake(() => {
+      workers.push(new FakeWorker());
+      return workers[workers.length - 1] as unknown as Worker;
+    });
+    const pushInfos = [{pushHandle: 'a/@1'}];
+    service.storePushes(new BehaviorSubject(pushInfos)).subscribe();
+
+    workers[0].fail();
+    service.decode(new ArrayBuffer(0), 'binary').subscribe();
+
+    expect(workers[1].posted.map(request => request.type)).toEqual([
+      'store', 'decode'
+    ]);
+    expect(workers[1].posted[0])
+        .toEqual(jasmine.objectContaining({key: 0, pushInfos}));
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {Injectable, OnDestroy} from '@angular/core';
+import {BehaviorSubject, Observable, Subject} from 'rxjs';
+import {distinctUntilChanged, filter} from 'rxjs/operators';
+// The worker is bundled by the loader of the web worker support of the CLI
+// rather than from `new Worker()` calls, which it can't rewrite while the app
+// has its own copy of webpack. The loader is the version the CLI depends on.
+import pushDataWorkerUrl from 'worker-plugin/loader!../workers/push-data.worker';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {AnomalyOptions, PushAnomalies} from '../components/anomalies';
+import {ChartData} from '../components/chart-data';
+import {PushFilter} from '../components/push-filter';
+import {PushInfosFormat} from '../data-sources/decode';
+import {handlePushDataRequest, LoadProgress, PushDataRequest, PushDataResponse, PushStore} from '../workers/push-data';
+import {diffPushes} from '../workers/push-store';
+
+/**
+ * WorkerPushes holds pushes of a push def that the worker has a copy of, and
+ * the key of the copy.
+ */
+export interface WorkerPushes {
+  key: number;
+  pushInfos: step189_2020.IPushInfo[];
+}
+
+/**
+ * Runs the heavy work on the push data in a web worker, so that the page stays
+ * responsive while large push defs are decoded and while the data of the
+ * charts is prepared. Where web workers aren't available, the same work runs
+ * in the page instead.
+ */
+@Injectable({providedIn: 'root'})
+export class PushWorkerService implements OnDestroy {
+  private readonly responses = new Subject<PushDataResponse>();
+  // Latest progress of each pending request, by request ID.
+  private readonly pending = new Map<number, LoadProgress|null>();
+  private readonly progressSubject =
+      new BehaviorSubject<LoadProgress|null>(null);
+  // Worker that each request without a final response was posted to.
+  private readonly requestWorkers = new Map<number, Worker>();
+  // Latest pushes stored in the worker, by key, to store them again in a new
+  // worker.
+  private readonly storedPushes = new Map<number, step189_2020.IPushInfo[]>();
+  // Pushes stored by the requests handled in the page, where workers aren't
+  // available.
+  private readonly pageStore: PushStore = new Map();
+  private worker: Worker|null = null;
+  private nextId = 0;
+  private nextKey = 0;
+
+  /**
+   * Progress of the most recent pending request that reported any, or null
+   * when there is none.
+   */
+  readonly progress: Observable<LoadProgress|null> =
+      this.progressSubject.pipe(distinctUntilChanged());
+
+  ngOnDestroy(): void {
+    if (this.worker) {
+      this.worker.terminate();
+    }
+  }
+
+  /**
+   * Decodes a PushInfos message. The data is transferred to the worker, so it
+   * can't be used afterwards.
+   *
+   * @param data Raw bytes of the message
+   * @param format Encoding of the message
+   * @return the pushes of the message; fails if it cannot be decoded
+   */
+  decode(data: ArrayBuffer, format: PushInfosFormat):
+      Observable<step189_2020.IPushInfo[]> {
+    return this.run(
+        id => ({id, type: 'decode', data, format}),
+        response =>
+            response.type === 'decoded' ? response.pushInfos : undefined);
+  }
+
+  /**
+   * Keeps a copy of the pushes of a push def in the worker while subscribed
+   * to, so that the other requests don't have to send them. The first pushes
+   * are sent whole, and then only the changes of the live updates.
+   *
+   * @param pushInfos Pushes of a push def, updated live
+   * @return the pushes along with the key of their copy, once it is sent
+   */
+  storePushes(pushInfos: Observable<step189_2020.IPushInfo[]>):
+      Observable<WorkerPushes> {
+    return new Observable<WorkerPushes>(subscriber => {
+      const key = this.nextKey++;
+      const subscription = pushInfos.subscribe(
+          next => {
+            const previous = this.storedPushes.get(key);
+            if (next !== previous) {
+              const delta = previous ? diffPushes(previous, next) : null;
+              this.post(
+                  delta ?
+                      {id: this.nextId++, type: 'update', key, delta} :
+                      {id: this.nextId++, type: 'store', key, pushInfos: next});
+              this.storedPushes.set(key, next);
+            }
+            subscriber.next({key, pushInfos: next});
+          },
+          error => subscriber.error(error), () => subscriber.complete());
+      return () => {
+        subscription.unsubscribe();
+        if (this.storedPushes.delete(key)) {
+          this.post({id: this.nextId++, type: 'release', key});
+        }
+      };
+    });
+  }
+
+  /**
+   * Prepares the data of the charts of the push pages from the stored pushes
+   * that match a filter.
+   *
+   * @param pushes Pushes stored by `storePushes`
+   * @param pushFilter Filter of the page
+   * @return the chart data, which refers to the matching pushes
+   */
+  prepareCharts(pushes: WorkerPushes, pushFilter: PushFilter):
+      Observable<ChartData> {
+    return this.run(
+        id => ({id, type: 'prepare', key: pushes.key, filter: pushFilter}),
+        response => {
+          if (response.type !== 'prepared') {
+            return undefined;
+          }
+          const {matches} = response;
+          return {
+            ...response.chartData,
+            pushInfos: matches ?
+                matches.map(index => pushes.pushInfos[index]) :
+                pushes.pushInfos,
+          };
+        });
+  }
+
+  /**
+   * Finds the anomalies of the stored pushes.
+   *
+   * @param pushes Pushes stored by `storePushes`
+   * @param options How the thresholds are computed
+   */
+  detectAnomalies(pushes: WorkerPushes, options: AnomalyOptions):
+      Observable<PushAnomalies> {
+    return this.run(
+        id => ({id, type: 'detect', key: pushes.key, options}),
+        response =>
+            response.type === 'detected' ? response.anomalies : undefined);
+  }
+
+  /**
+   * Sends a request to the worker when subscribed to, and emits the result of
+   * its response. Unsubscribing ignores the response.
+   *
+   * @param createRequest Creates the request with the given ID
+   * @param result Extracts the result from the final response, or returns
+   *     undefined if it is not the expected response
+   */
+  private run<T>(
+      createRequest: (id: number) => PushDataRequest,
+      result: (response: PushDataResponse) => T | undefined): Observable<T> {
+    return new Observable<T>(subscriber => {
+      const request = createRequest(this.nextId++);
+      this.pending.set(request.id, null);
+      const subscription =
+          this.responses.pipe(filter(response => response.id === request.id))
+              .subscribe(response => {
+                if (response.type === 'progress') {
+                  this.pending.set(request.id, response.progress);
+                  this.progressSubject.next(response.progress);
+                  return;
+                }
+                const value = result(response);
+                if (value === undefined) {
+                  subscriber.error(new Error(
+                      response.type === 'error' ?
+                          response.message :
+                          `Unexpected '${response.type}' response`));
+                  return;
+                }
+                subscriber.next(value);
+                subscriber.complete();
+              });
+      const worker = this.post(request);
+      if (worker) {
+        this.requestWorkers.set(request.id, worker);
+      }
+      return () => {
+        subscription.unsubscribe();
+        this.pending.delete(request.id);
+        this.requestWorkers.delete(request.id);
+        this.progressSubject.next(this.latestProgress());
+      };
+    });
+  }
+
+  /**
+   * Posts a request to the worker, which is started by the first request.
+   *
+   * @param request Request to the worker
+   * @return the worker the request was posted to, or null if it was handled
+   *     in the page
+   */
+  private post(request: PushDataRequest): Worker|null {
+    if (typeof Worker === 'undefined') {
+      handlePushDataRequest(
+          request, response => this.responses.next(response), this.pageStore);
+      return null;
+    }
+    if (!this.worker) {
+      this.worker = this.startWorker();
+    }
+    this.worker.postMessage(
+        request, request.type === 'decode' ? [request.data] : []);
+    return this.worker;
+  }
+
+  /**
+   * Starts the worker. The requests that fail get an error response with
+   * their ID from the worker, so an error event means that the worker itself
+   * failed, e.g. because its script could not be loaded. The worker is then
+   * dropped so that the next request starts a new one, and only the requests
+   * that were posted to it fail since they won't get a response.
+   */
+  private startWorker(): Worker {
+    // Created through the window, as the CLI only bundles `new Worker()`
+    // calls with a path and warns about the others.
+    const worker = new window.Worker(pushDataWorkerUrl);
+    worker.addEventListener('message', (event: MessageEvent) => {
+      const response = event.data as PushDataResponse;
+      if (response.type !== 'progress') {
+        this.requestWorkers.delete(response.id);
+      }
+      this.responses.next(response);
+    });
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      event.preventDefault();
+      worker.terminate();
+      if (this.worker === worker) {
+        this.worker = null;
+      }
+      const message = event.message ?
+          `The push data worker failed: ${event.message}` :
+          'The push data worker failed';
+      for (const [id, requestWorker] of Array.from(
+               this.requestWorkers.entries())) {
+        if (requestWorker === worker) {
+          this.requestWorkers.delete(id);
+          this.responses.next({id, type: 'error', message});
+        }
+      }
+    });
+    // The pushes stored in a worker that failed are stored again.
+    this.storedPushes.forEach(
+        (pushInfos, key) => worker.postMessage(
+            {id: this.nextId++, type: 'store', key, pushInfos}));
+    return worker;
+  }
+
+  /**
+   * Returns the progress of the most recent pending request that reported
+   * any.
+   */
+  private latestProgress(): LoadProgress|null {
+    const reported =
+        Array.from(this.pending.values()).filter(progress => progress);
+    return reported.length ? reported[reported.length - 1] : null;
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as $protobuf from 'protobufjs/minimal';
+
+import {step189_2020} from '../../proto/step189_2020';
+import {AnomalyOptions, detectAnomalies, PushAnomalies} from '../components/anomalies';
+import {PreparedChartData, prepareChartData} from '../components/chart-data';
+import {isEmptyFilter, matchesFilter, PushFilter} from '../components/push-filter';
+import {decodePushInfos, PushInfosFormat} from '../data-sources/decode';
+
+import {applyPushDelta, PushDelta} from './push-store';
+
+/**
+ * LoadProgress tells how far the worker is with the current request.
+ */
+export interface LoadProgress {
+  stage: string;     // What the worker is doing, e.g. 'Decoding pushes'
+  fraction: number;  // Part of the stage that is done, from 0 to 1
+}
+
+/**
+ * A request to the push data worker. Each request has an ID, which is repeated
+ * in all the responses to it.
+ *
+ *  - 'decode': decodes a PushInfos message loaded by a data source
+ *  - 'store': keeps a copy of the pushes of a push def under a key, so that
+ *    the other requests don't have to send them again
+ *  - 'update': applies the changes of live updates to the stored pushes
+ *  - 'release': drops the stored pushes
+ *  - 'prepare': computes the data of the charts of the push pages from the
+ *    stored pushes that match a filter
+ *  - 'detect': finds the anomalies of the stored pushes
+ *
+ * The 'store', 'update' and 'release' requests get no response.
+ */
+export type PushDataRequest = {
+  id: number,
+  type: 'decode',
+  data: ArrayBuffer,
+  format: PushInfosFormat,
+}|{
+  id: number,
+  type: 'store',
+  key: number,
+  pushInfos: step189_2020.IPushInfo[],
+}|{
+  id: number,
+  type: 'update',
+  key: number,
+  delta: PushDelta,
+}|{
+  id: number,
+  type: 'release',
+  key: number,
+}|{
+  id: number,
+  type: 'prepare',
+  key: number,
+  filter: PushFilter,
+}|{
+  id: number,
+  type: 'detect',
+  key: number,
+  options: AnomalyOptions,
+};
+
+/**
+ * A response of the push data worker. A request gets any number of 'progress'
+ * responses, followed by exactly one of the others.
+ */
+export type PushDataResponse = {
+  id: number,
+  type: 'progress',
+  progress: LoadProgress,
+}|{
+  id: number,
+  type: 'decoded',
+  pushInfos: step189_2020.IPushInfo[],
+}|{
+  id: number,
+  type: 'prepared',
+  chartData: PreparedChartData,
+  // Indexes of the stored pushes that match the filter, null if all do.
+  matches: number[]|null,
+}|{
+  id: number,
+  type: 'detected',
+  anomalies: PushAnomalies,
+}|{
+  id: number,
+  type: 'error',
+  message: string,
+};
+
+// Minimum progress between two 'progress' responses, so that decoding large
+// messages doesn't flood the page with messages.
+const PROGRESS_STEP = 0.05;
+
+// Field number of the repeated push_info field of PushInfos.
+const PUSH_INFO_FIELD = 1;
+
+/**
+ * Pushes stored by the 'store' requests, by key.
+ */
+export type PushStore = Map<number, step189_2020.IPushInfo[]>;
+
+/**
+ * Handles a request to the push data worker. It runs in the worker, or in the
+ * page where workers aren't available.
+ *
+ * @param request Request posted to the worker
+ * @param respond Posts a response back to the page
+ * @param store Pushes stored by the previous requests
+ */
+export function handlePushDataRequest(
+    request: PushDataRequest, respond: (response: PushDataResponse) => void,
+    store: PushStore): void {
+  const {id} = request;
+  const reportProgress = (stage: string, fraction: number) =>
+      respond({id, type: 'progress', progress: {stage, fraction}});
+  const stored = (key: number) => {
+    const pushInfos = store.get(key);
+    if (!pushInfos) {
+      throw new Error(`No pushes are stored under the key ${key}`);
+    }
+    return pushInfos;
+  };
+  try {
+    switch (request.type) {
+      case 'decode':
+        respond({
+          id,
+          type: 'decoded',
+          pushInfos: decodeWithProgress(
+              request.data, request.format,
+              fraction => reportProgress('Decoding pushes', fraction)),
+        });
+        break;
+      case 'store':
+        store.set(request.key, request.pushInfos);
+        break;
+      case 'update':
+        store.set(
+            request.key, applyPushDelta(stored(request.key), request.delta));
+        break;
+      case 'release':
+        store.delete(request.key);
+        break;
+      case 'prepare':
+        respond(preparePushes(
+            id, stored(request.key), request.filter,
+            fraction => reportProgress('Preparing charts', fraction)));
+        break;
+      case 'detect':
+        reportProgress('Detecting anomalies', 0);
+        respond({
+          id,
+          type: 'detected',
+          anomalies: detectAnomalies(stored(request.key), request.options),
+        });
+        break;
+    }
+  } catch (error) {
+    respond({id, type: 'error', message: `${error.message || error}`});
+  }
+}
+
+/**
+ * Filters the pushes and prepares the data of the charts of the matching
+ * ones. Filtering counts as the first tenth of the progress.
+ *
+ * @param id ID of the request
+ * @param pushInfos Stored pushes of a push def
+ * @param filter Filter of the page
+ * @param onProgress Called with the part of the work that is done
+ */
+function preparePushes(
+    id: number, pushInfos: step189_2020.IPushInfo[], filter: PushFilter,
+    onProgress: (fraction: number) => void): PushDataResponse {
+  onProgress(0);
+  let matches: number[]|null = null;
+  if (!isEmptyFilter(filter)) {
+    const indexes: number[] = [];
+    pushInfos.forEach((pushInfo, index) => {
+      if (matchesFilter(pushInfo, filter)) {
+        indexes.push(index);
+      }
+    });
+    matches = indexes;
+  }
+  const filtered =
+      matches ? matches.map(index => pushInfos[index]) : pushInfos;
+  onProgress(0.1);
+  const chartData = prepareChartData(
+      filtered, fraction => onProgress(0.1 + 0.9 * fraction));
+  return {id, type: 'prepared', chartData, matches};
+}
+
+/**
+ * Decodes a PushInfos message into plain objects, which can be posted from
+ * the worker without losing any field. Binary messages are decoded one push
+ * at a time to report the progress.
+ *
+ * @param data Raw bytes of the message
+ * @param format Encoding of the message
+ * @param onProgress Called with the decoded part of the message
+ */
+function decodeWithProgress(
+    data: ArrayBuffer, format: PushInfosFormat,
+    onProgress: (fraction: number) => void): step189_2020.IPushInfo[] {
+  onProgress(0);
+  let pushInfos: step189_2020.IPushInfo[] = [];
+  if (format === 'binary') {
+    const reader = $protobuf.Reader.create(new Uint8Array(data));
+    let reported = 0;
+    while (reader.pos < reader.len) {
+      // A tag is the field number followed by the 3 bits of the wire type.
+      const tag = reader.uint32();
+      if (Math.floor(tag / 8) === PUSH_INFO_FIELD) {
+        pushInfos.push(step189_2020.PushInfo.decode(reader, reader.uint32()));
+      } else {
+        reader.skipType(tag % 8);
+      }
+      if (reader.pos / reader.len - reported >= PROGRESS_STEP) {
+        reported = reader.pos / reader.len;
+        onProgress(reported);
+      }
+    }
+  } else {
+    pushInfos = decodePushInfos(data, format);
+  }
+  return pushInfos.map(
+      pushInfo => step189_2020.PushInfo.toObject(
+                      pushInfo as step189_2020.PushInfo,
+                      {longs: Number, arrays: true}) as
+          step189_2020.IPushInfo);
+}
@@ -0,0 +1,33 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+// This is required by the static code generated by protobufjs.
+import * as Long from 'long';
+
+import {handlePushDataRequest, PushDataRequest, PushStore} from './push-data';
+
+// The worker shares the chart code of the page, so it is compiled with the DOM
+// library instead of the web worker one. The global scope of a dedicated worker
+// posts and receives messages like the Worker object of the page.
+const scope = self as unknown as Worker;
+const store: PushStore = new Map();
+
+scope.addEventListener('message', (event: MessageEvent) => {
+  handlePushDataRequest(
+      event.data as PushDataRequest,
+      response => scope.postMessage(response), store);
+});
@@ -0,0 +1,53 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {step189_2020} from '../../proto/step189_2020';
+
+import {applyPushDelta, diffPushes} from './push-store';
+
+describe('diffPushes', () => {
+  const first: step189_2020.IPushInfo[] =
+      [{pushHandle: 'a/@2'}, {pushHandle: 'a/@1'}];
+
+  it('should find the added and the replaced pushes', () => {
+    const next = [{pushHandle: 'a/@3'}, {pushHandle: 'a/@2'}, first[1]];
+    expect(diffPushes(first, next)).toEqual({
+      added: [next[0]],
+      replaced: [[0, next[1]]],
+    });
+  });
+
+  it('should find no changes in the same pushes', () => {
+    expect(diffPushes(first, first.slice())).toEqual({added: [], replaced: []});
+  });
+
+  it('should return null when pushes were dropped or reordered', () => {
+    expect(diffPushes(first, [first[0]])).toBeNull();
+    expect(diffPushes(first, [first[1], first[0]])).toBeNull();
+  });
+});
+
+describe('applyPushDelta', () => {
+  it('should rebuild the pushes the delta was found from', () => {
+    const previous: step189_2020.IPushInfo[] =
+        [{pushHandle: 'a/@2'}, {pushHandle: 'a/@1'}];
+    const next = [{pushHandle: 'a/@3'}, previous[0], {pushHandle: 'a/@1'}];
+    const delta = diffPushes(previous, next);
+
+    expect(delta && applyPushDelta(previous, delta)).toEqual(next);
+    expect(previous.map(p => p.pushHandle)).toEqual(['a/@2', 'a/@1']);
+  });
+});
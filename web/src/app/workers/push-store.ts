@@ -0,0 +1,77 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {step189_2020} from '../../proto/step189_2020';
+
+/**
+ * PushDelta describes how the pushes of a push def changed with live updates,
+ * so that a copy of them can be updated without sending all of them again.
+ * The new pushes come first, followed by the previous pushes in the same
+ * order, some of which were replaced by updated copies.
+ */
+export interface PushDelta {
+  added: step189_2020.IPushInfo[];  // New pushes, in front of the others
+  // Index in the previous pushes and updated copy of each replaced push.
+  replaced: Array<[number, step189_2020.IPushInfo]>;
+}
+
+/**
+ * Finds how the pushes changed, like `mergePushUpdate` changes them: new
+ * pushes are added in front, and the updated pushes are replaced by copies.
+ *
+ * @param previous Pushes of a push def
+ * @param next The same pushes after some updates
+ * @return the changes, or null if the pushes changed in another way, e.g. if
+ *     they were loaded again
+ */
+export function diffPushes(
+    previous: step189_2020.IPushInfo[],
+    next: step189_2020.IPushInfo[]): PushDelta|null {
+  const numAdded = next.length - previous.length;
+  if (numAdded < 0) {
+    return null;
+  }
+  const replaced: Array<[number, step189_2020.IPushInfo]> = [];
+  for (let i = 0; i < previous.length; i++) {
+    const pushInfo = next[numAdded + i];
+    if (pushInfo === previous[i]) {
+      continue;
+    }
+    if (pushInfo.pushHandle !== previous[i].pushHandle) {
+      return null;
+    }
+    replaced.push([i, pushInfo]);
+  }
+  return {added: next.slice(0, numAdded), replaced};
+}
+
+/**
+ * Applies the changes found by `diffPushes` to a copy of the previous pushes.
+ *
+ * @param previous Copy of the pushes the changes were found from
+ * @param delta Changes of the pushes
+ * @return the changed pushes; the previous array is left as is
+ */
+export function applyPushDelta(
+    previous: step189_2020.IPushInfo[],
+    delta: PushDelta): step189_2020.IPushInfo[] {
+  const next = [...delta.added, ...previous];
+  delta.replaced.forEach(([index, pushInfo]) => {
+    next[delta.added.length + index] = pushInfo;
+  });
+  return next;
+}
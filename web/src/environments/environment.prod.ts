@@ -14,6 +14,14 @@
  * limitations under the License.
  */
 
+import {DataSourceConfig} from '../app/data-sources/push-data-source';
+import {UpdateSourceConfig} from '../app/data-sources/push-update-source';
+
 export const environment = {
-  production: true
+  production: true,
+  // Backend the push data is loaded from; see DataSourceConfig.
+  dataSource: {type: 'assets'} as DataSourceConfig,
+  // Endpoint streaming the updates of the running pushes; see
+  // UpdateSourceConfig.
+  updateSource: {type: 'none'} as UpdateSourceConfig,
 };
@@ -18,8 +18,19 @@
 // `ng build --prod` replaces `environment.ts` with `environment.prod.ts`.
 // The list of file replacements can be found in `angular.json`.
 
+import {DataSourceConfig} from '../app/data-sources/push-data-source';
+import {UpdateSourceConfig} from '../app/data-sources/push-update-source';
+
 export const environment = {
-  production: false
+  production: false,
+  // Backend the push data is loaded from; see DataSourceConfig.
+  // To use a local stand-in server instead of the bundled assets:
+  //   {type: 'http', baseUrl: 'http://localhost:8080', format: 'json'}
+  dataSource: {type: 'assets'} as DataSourceConfig,
+  // Endpoint streaming the updates of the running pushes; see
+  // UpdateSourceConfig. For example, with a local stand-in server:
+  //   {type: 'sse', baseUrl: 'http://localhost:8080/updates'}
+  updateSource: {type: 'none'} as UpdateSourceConfig,
 };
 
 /*
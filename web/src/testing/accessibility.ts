@@ -0,0 +1,42 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import * as axe from 'axe-core';
+
+// Rules about the whole page rather than a component, e.g. that all the
+// content is within landmarks, which the app shell provides.
+const PAGE_RULES = ['region'];
+
+/**
+ * Runs the rules of axe-core on a rendered component, so that a spec fails
+ * when its charts can't be reached with the keyboard or read by a screen
+ * reader, e.g. when ARIA roles or attributes are invalid, elements lack a
+ * name or text lacks contrast.
+ *
+ * @param root Element of the component, attached to the document
+ * @return Descriptions of the violations, empty if there is none
+ */
+export function accessibilityViolations(root: Element): Promise<string[]> {
+  const rules: axe.RuleObject = {};
+  PAGE_RULES.forEach(rule => rules[rule] = {enabled: false});
+  return axe.run(root, {rules, resultTypes: ['violations']})
+      .then(
+          results => results.violations.map(
+              violation => `${violation.id}: ${violation.help} (${
+                  violation.nodes.map(node => node.target.join(' '))
+                      .join(', ')})`));
+}
@@ -0,0 +1,76 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * FakeResizeObserver controls the ResizeObserver of the window that replaces
+ * the one of the browser in the specs.
+ */
+export interface FakeResizeObserver {
+  // Gives all the observed elements a new client size and notifies their
+  // observers, like a layout change would.
+  resize(width: number, height: number): void;
+  // Puts back the ResizeObserver of the browser.
+  uninstall(): void;
+}
+
+// ResizeObserver is not part of the DOM types of this TypeScript version.
+type ResizeObserverWindow = Window&{ResizeObserver?: unknown};
+
+/**
+ * Replaces the ResizeObserver of the window with one that the spec triggers,
+ * so that the charts can be resized without depending on the layout of the
+ * page. The elements keep the size given to them until they are resized
+ * again.
+ */
+export function installFakeResizeObserver(): FakeResizeObserver {
+  const observerWindow = window as ResizeObserverWindow;
+  const original = observerWindow.ResizeObserver;
+  const observers: Array<{callback: () => void, targets: Set<Element>}> = [];
+  observerWindow.ResizeObserver = class {
+    private readonly targets = new Set<Element>();
+
+    constructor(callback: () => void) {
+      observers.push({callback, targets: this.targets});
+    }
+
+    observe(target: Element): void {
+      this.targets.add(target);
+    }
+
+    disconnect(): void {
+      this.targets.clear();
+    }
+  };
+  return {
+    resize(width: number, height: number): void {
+      observers.forEach(({callback, targets}) => {
+        if (!targets.size) {
+          return;
+        }
+        targets.forEach(target => {
+          Object.defineProperty(
+              target, 'clientWidth', {value: width, configurable: true});
+          Object.defineProperty(
+              target, 'clientHeight', {value: height, configurable: true});
+        });
+        callback();
+      });
+    },
+    uninstall(): void {
+      observerWindow.ResizeObserver = original;
+    },
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Copyright 2020 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *      https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+import {step189_2020} from '../proto/step189_2020';
+
+const NSEC_PER_MIN = 60 * 10 ** 9;
+// 2020-04-13 17:00:00 UTC, in nanoseconds.
+const START_NSEC = 1586797200 * 10 ** 9;
+
+/**
+ * Returns completed pushes that started an hour apart and ran for 30 to 40
+ * minutes, for the specs of the charts. Like the pushes of a push def, the
+ * most recent push comes first.
+ *
+ * @param count Number of pushes
+ */
+export function samplePushInfos(count: number): step189_2020.IPushInfo[] {
+  return Array.from({length: count}, (_, index) => {
+    const i = count - 1 - index;
+    const startNsec = START_NSEC + i * 60 * NSEC_PER_MIN;
+    return {
+      pushHandle: `a/@${i + 1}`,
+      stateInfo: [
+        {state: 13, stage: 'x', startTimeNsec: startNsec},
+        {
+          state: 5,
+          stage: 'y',
+          startTimeNsec: startNsec + (30 + i % 10) * NSEC_PER_MIN
+        },
+      ],
+    };
+  });
+}